@@ -0,0 +1,11 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} **/
+module.exports = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^~/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    // Type errors are reported by tsc, as the build doesn't check them
+    '^.+\\.ts$': ['ts-jest', { diagnostics: false }],
+  },
+};
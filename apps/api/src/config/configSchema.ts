@@ -2,9 +2,61 @@ import { z } from 'zod';
 import type { TiktokenEncoding } from 'tiktoken';
 
 // Output style enum
-export const outputStyleSchema = z.enum(['xml', 'markdown', 'plain']);
+export const outputStyleSchema = z.enum([
+  'xml',
+  'markdown',
+  'plain',
+  'json',
+  'chunks',
+]);
 export type OutputStyle = z.infer<typeof outputStyleSchema>;
 
+// Maximum size of each part when splitting the output; exactly one unit
+export const splitOutputSchema = z
+  .object({
+    maxTokens: z.number().int().min(1).optional(),
+    maxBytes: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine(
+    (value) =>
+      (value.maxTokens === undefined) !== (value.maxBytes === undefined),
+    { message: 'Set exactly one of maxTokens or maxBytes' },
+  );
+export type SplitOutputConfig = z.infer<typeof splitOutputSchema>;
+
+// The repositories combined into a multi-repository output, for its summary
+export const outputRepositorySchema = z.object({
+  prefix: z.string(),
+  url: z.string(),
+  ref: z.string().optional(),
+  commitSha: z.string().optional(),
+});
+export type OutputRepository = z.infer<typeof outputRepositorySchema>;
+
+// The refs a diff-mode output compares, for its summary
+export const outputDiffSchema = z.object({
+  base: z.string(),
+  baseCommitSha: z.string(),
+  mergeBaseCommitSha: z.string(),
+  // Whether the files that changed files import are included as well
+  includeImports: z.boolean(),
+});
+export type OutputDiff = z.infer<typeof outputDiffSchema>;
+
+export const DEFAULT_GIT_SORT_BY_CHANGES_MAX_COMMITS = 100;
+export const DEFAULT_GIT_LOG_MAX_COMMITS = 50;
+export const DEFAULT_TASK_MAX_FILES = 20;
+export const DEFAULT_CHUNK_MAX_TOKENS = 512;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 64;
+
+// Whether the dependency graph links files or their directories
+export const dependencyGraphLevelSchema = z.enum(['file', 'package']);
+export type DependencyGraphLevel = z.infer<typeof dependencyGraphLevelSchema>;
+
+export const dependencyGraphFormatSchema = z.enum(['json', 'dot', 'mermaid']);
+export type DependencyGraphFormat = z.infer<typeof dependencyGraphFormatSchema>;
+
 // Base config schema
 export const configBaseSchema = z.object({
   output: z
@@ -14,12 +66,44 @@ export const configBaseSchema = z.object({
       parsableStyle: z.boolean().optional(),
       headerText: z.string().optional(),
       instructionFilePath: z.string().optional(),
+      customTemplate: z.string().optional(),
+      // Whether file contents are included; the directory structure is kept
+      files: z.boolean().optional(),
+      // Lists the files' symbols in place of their contents
+      outline: z.boolean().optional(),
       fileSummary: z.boolean().optional(),
       directoryStructure: z.boolean().optional(),
       removeComments: z.boolean().optional(),
       removeEmptyLines: z.boolean().optional(),
       compress: z.boolean().optional(),
       topFilesLength: z.number().optional(),
+      maxTokens: z.number().int().min(1).optional(),
+      splitOutput: splitOutputSchema.optional(),
+      repositories: z.array(outputRepositorySchema).optional(),
+      // Commit a remote repository was checked out at
+      commitSha: z.string().optional(),
+      diff: outputDiffSchema.optional(),
+      // Packs only the files most relevant to a natural-language task
+      task: z
+        .object({
+          query: z.string().min(1),
+          maxFiles: z.number().int().min(1).optional(),
+        })
+        .optional(),
+      // Adds the graph of the files' imports
+      dependencyGraph: z
+        .object({
+          level: dependencyGraphLevelSchema.optional(),
+          format: dependencyGraphFormatSchema.optional(),
+        })
+        .optional(),
+      // Sizes the chunks of the `chunks` style
+      chunking: z
+        .object({
+          maxTokens: z.number().int().min(1).optional(),
+          overlapTokens: z.number().int().min(0).optional(),
+        })
+        .optional(),
       showLineNumbers: z.boolean().optional(),
       copyToClipboard: z.boolean().optional(),
       includeEmptyDirectories: z.boolean().optional(),
@@ -27,6 +111,12 @@ export const configBaseSchema = z.object({
         .object({
           sortByChanges: z.boolean().optional(),
           sortByChangesMaxCommits: z.number().optional(),
+          // Adds a section with the recent commits
+          includeLog: z.boolean().optional(),
+          // Adds last modified, top authors and churn to every file
+          includeBlameSummary: z.boolean().optional(),
+          // How many recent commits the log and blame summary cover
+          logMaxCommits: z.number().int().min(1).max(1000).optional(),
         })
         .optional(),
     })
@@ -42,6 +132,7 @@ export const configBaseSchema = z.object({
   security: z
     .object({
       enableSecurityCheck: z.boolean().optional(),
+      suspiciousFileAction: z.enum(['exclude', 'redact']).optional(),
     })
     .optional(),
   tokenCount: z
@@ -59,19 +150,61 @@ export const configDefaultSchema = z.object({
       parsableStyle: z.boolean().default(false),
       headerText: z.string().optional(),
       instructionFilePath: z.string().optional(),
+      customTemplate: z.string().optional(),
+      files: z.boolean().default(true),
+      outline: z.boolean().default(false),
       fileSummary: z.boolean().default(true),
       directoryStructure: z.boolean().default(true),
       removeComments: z.boolean().default(false),
       removeEmptyLines: z.boolean().default(false),
       compress: z.boolean().default(false),
       topFilesLength: z.number().int().min(0).default(5),
+      maxTokens: z.number().int().min(1).optional(),
+      splitOutput: splitOutputSchema.optional(),
+      repositories: z.array(outputRepositorySchema).optional(),
+      commitSha: z.string().optional(),
+      diff: outputDiffSchema.optional(),
+      task: z
+        .object({
+          query: z.string().min(1),
+          maxFiles: z.number().int().min(1).default(DEFAULT_TASK_MAX_FILES),
+        })
+        .optional(),
+      dependencyGraph: z
+        .object({
+          level: dependencyGraphLevelSchema.default('file'),
+          format: dependencyGraphFormatSchema.default('mermaid'),
+        })
+        .optional(),
+      chunking: z
+        .object({
+          maxTokens: z.number().int().min(1).default(DEFAULT_CHUNK_MAX_TOKENS),
+          overlapTokens: z
+            .number()
+            .int()
+            .min(0)
+            .default(DEFAULT_CHUNK_OVERLAP_TOKENS),
+        })
+        .default({}),
       showLineNumbers: z.boolean().default(false),
       copyToClipboard: z.boolean().default(false),
       includeEmptyDirectories: z.boolean().optional(),
       git: z
         .object({
           sortByChanges: z.boolean().default(true),
-          sortByChangesMaxCommits: z.number().int().min(1).default(100),
+          sortByChangesMaxCommits: z
+            .number()
+            .int()
+            .min(1)
+            .default(DEFAULT_GIT_SORT_BY_CHANGES_MAX_COMMITS),
+          includeLog: z.boolean().default(false),
+          includeBlameSummary: z.boolean().default(false),
+          logMaxCommits: z
+            .number()
+            .int()
+            .min(1)
+            .max(1000)
+            .default(DEFAULT_GIT_LOG_MAX_COMMITS),
         })
         .default({}),
     })
@@ -87,6 +220,7 @@ export const configDefaultSchema = z.object({
   security: z
     .object({
       enableSecurityCheck: z.boolean().default(true),
+      suspiciousFileAction: z.enum(['exclude', 'redact']).default('exclude'),
     })
     .default({}),
   tokenCount: z
@@ -0,0 +1,201 @@
+import type { TiktokenEncoding } from 'tiktoken';
+import { z } from 'zod';
+import { isValidGitRef } from '~/core/file/gitCommand';
+import { resolvePublicAddresses } from '~/lib/public-address';
+import { JOB_EVENTS } from '~/types';
+import { configBaseSchema } from './configSchema';
+
+const outputShape = configBaseSchema.shape.output.unwrap().shape;
+const gitShape = outputShape.git.unwrap().shape;
+const ignoreShape = configBaseSchema.shape.ignore.unwrap().shape;
+const securityShape = configBaseSchema.shape.security.unwrap().shape;
+const tokenCountShape = configBaseSchema.shape.tokenCount.unwrap().shape;
+
+// Patterns may be sent as a comma-separated string or as a list
+const patternListSchema = z
+  .union([z.string(), configBaseSchema.shape.include.unwrap()])
+  .transform((value) => (Array.isArray(value) ? value.join(',') : value))
+  .optional();
+
+// A directory inside the repository, e.g. `packages/api`
+const subpathSchema = z
+  .string()
+  .transform((value) => value.split('/').filter(Boolean).join('/'))
+  .refine(
+    (value) =>
+      value !== '' &&
+      !value.split('/').some((segment) => segment === '.' || segment === '..'),
+    { message: 'Must be a directory path inside the repository' },
+  )
+  .optional();
+
+// A branch, tag, commit SHA or other ref of a remote repository
+const gitRefSchema = z.string().refine(isValidGitRef, {
+  message: 'Must be a valid git ref name or commit SHA',
+});
+
+/**
+ * The subset of `CrawlOptions` accepted over the API, with each field
+ * validated by its counterpart in `configBaseSchema`. Options that only make
+ * sense for a local run (output file path, clipboard, config files) are not
+ * accepted, and unknown keys are rejected.
+ */
+export const crawlRequestOptionsSchema = z
+  .object({
+    // Output Options
+    style: outputShape.style,
+    parsableStyle: outputShape.parsableStyle,
+    compress: outputShape.compress,
+    outputShowLineNumbers: outputShape.showLineNumbers,
+    fileSummary: outputShape.fileSummary,
+    directoryStructure: outputShape.directoryStructure,
+    removeComments: outputShape.removeComments,
+    removeEmptyLines: outputShape.removeEmptyLines,
+    headerText: outputShape.headerText,
+    template: z.string().min(1).optional(),
+    includeEmptyDirectories: outputShape.includeEmptyDirectories,
+    gitSortByChanges: gitShape.sortByChanges,
+    topFilesLen: z.number().int().min(0).optional(),
+    maxTokens: outputShape.maxTokens,
+    splitOutput: outputShape.splitOutput,
+
+    // Filter Options
+    include: patternListSchema,
+    ignore: patternListSchema,
+    gitignore: ignoreShape.useGitignore,
+    defaultPatterns: ignoreShape.useDefaultPatterns,
+
+    // Remote Repository Options
+    remoteBranch: gitRefSchema.optional(),
+    subpath: subpathSchema,
+
+    // Security Options
+    securityCheck: securityShape.enableSecurityCheck,
+    suspiciousFileAction: securityShape.suspiciousFileAction,
+
+    // Token Count Options
+    tokenCountEncoding: tokenCountShape.encoding,
+  })
+  .strict();
+
+export type CrawlRequestOptions = z.infer<typeof crawlRequestOptionsSchema>;
+
+// An HTTP header field name (RFC 9110 token)
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+export const webhookRequestSchema = z
+  .object({
+    url: z
+      .string()
+      .url()
+      .refine((value) => /^https?:\/\//i.test(value), {
+        message: 'Webhook URL must use http or https',
+      })
+      // Checked again on delivery. Makes the request schemas async, so they
+      // are parsed with parseAsync
+      .refine(
+        async (value) => {
+          try {
+            await resolvePublicAddresses(new URL(value).hostname);
+            return true;
+          } catch (error) {
+            return false;
+          }
+        },
+        { message: 'Webhook URL must point to a public host' },
+      ),
+    headers: z
+      .record(z.string().regex(HEADER_NAME_PATTERN), z.string())
+      .optional(),
+    events: z.array(z.enum(JOB_EVENTS)).min(1).optional(),
+  })
+  .strict();
+
+// A request names its source with either `url` or `localPath`; uploaded
+// archives arrive as a multipart file instead
+const crawlSourceShape = {
+  url: z.string().min(1).optional(),
+  localPath: z.string().min(1).optional(),
+  webhook: webhookRequestSchema.optional(),
+};
+
+export const generateTreeRequestSchema =
+  crawlRequestOptionsSchema.extend(crawlSourceShape);
+
+// Encodings metrics can count tokens with
+const TOKEN_COUNT_ENCODINGS = [
+  'o200k_base',
+  'cl100k_base',
+  'p50k_base',
+  'p50k_edit',
+  'r50k_base',
+  'gpt2',
+] as const satisfies readonly TiktokenEncoding[];
+
+export const generateMetricsRequestSchema = crawlRequestOptionsSchema.extend({
+  ...crawlSourceShape,
+  tokenCountEncodings: z.array(z.enum(TOKEN_COUNT_ENCODINGS)).min(1).optional(),
+});
+
+export const generateOutlineRequestSchema =
+  crawlRequestOptionsSchema.extend(crawlSourceShape);
+
+const dependencyGraphRequestSchema = outputShape.dependencyGraph
+  .unwrap()
+  .strict();
+
+export const generateGraphRequestSchema = crawlRequestOptionsSchema.extend({
+  ...crawlSourceShape,
+  ...dependencyGraphRequestSchema.shape,
+});
+
+export const generateLlmsTxtRequestSchema = crawlRequestOptionsSchema.extend({
+  ...crawlSourceShape,
+  showFullText: z.boolean().optional(),
+  maxUrls: z.number().int().min(1).optional(),
+});
+
+// At most this many repositories are packed into one output
+export const MAX_PACK_REPOSITORIES = 10;
+
+// One repository of a multi-repository pack; `prefix` defaults to the
+// repository name
+export const repositoryRequestSchema = z
+  .object({
+    url: z.string().min(1),
+    ref: gitRefSchema.optional(),
+    subpath: subpathSchema,
+    prefix: z.string().min(1).optional(),
+    include: patternListSchema,
+    ignore: patternListSchema,
+  })
+  .strict();
+
+// Packs only what changed on a remote repository's ref since it branched
+// off `base`
+export const diffRequestSchema = z
+  .object({
+    base: gitRefSchema,
+    head: gitRefSchema.optional(),
+    includeFileContent: z.boolean().optional(),
+    includeImports: z.boolean().optional(),
+  })
+  .strict();
+
+export const generatePackRequestSchema = crawlRequestOptionsSchema.extend({
+  ...crawlSourceShape,
+  diff: diffRequestSchema.optional(),
+  gitIncludeLog: gitShape.includeLog,
+  gitIncludeBlameSummary: gitShape.includeBlameSummary,
+  gitLogMaxCommits: gitShape.logMaxCommits,
+  outline: outputShape.outline,
+  task: z.string().min(1).optional(),
+  taskMaxFiles: z.number().int().min(1).optional(),
+  dependencyGraph: dependencyGraphRequestSchema.optional(),
+  chunking: outputShape.chunking.unwrap().strict().optional(),
+  repositories: z
+    .array(repositoryRequestSchema)
+    .min(1)
+    .max(MAX_PACK_REPOSITORIES)
+    .optional(),
+});
@@ -58,9 +58,9 @@ export const register = async (req: Request, res: Response) => {
 
   const hashedPassword = await argon2.hash(password);
 
-  user = await db.transaction(async (tx) => {
-    const apiKey = createApiKey();
+  const { plainKey, ...apiKey } = createApiKey();
 
+  user = await db.transaction(async (tx) => {
     const [team] = await tx
       .insert(teams)
       .values({
@@ -82,7 +82,7 @@ export const register = async (req: Request, res: Response) => {
     });
 
     await tx.insert(apiKeys).values({
-      key: apiKey,
+      ...apiKey,
       userId: u?.id as string,
       teamId: team?.id as string,
       name: 'Default',
@@ -100,5 +100,7 @@ export const register = async (req: Request, res: Response) => {
   return res.status(201).json({
     success: true,
     tokens,
+    // The default API key; it is only returned here
+    apiKey: plainKey,
   });
 };
@@ -0,0 +1,248 @@
+import type { Queue } from 'bullmq';
+import type { Request, Response } from 'express';
+
+import {
+  getConcurrencyLimitActiveJobs,
+  releaseConcurrencyLimitActiveJob,
+} from '~/lib/concurrency-limit';
+import {
+  getGeneratedLLmsTxt,
+  updateGeneratedLlmsTxt,
+} from '~/lib/generate-llms-txt/redis';
+import {
+  getGraphGenerationData,
+  updateGraphGenerationData,
+} from '~/lib/generate-graph';
+import {
+  getMetricsGenerationData,
+  updateMetricsGenerationData,
+} from '~/lib/generate-metrics';
+import {
+  getOutlineGenerationData,
+  updateOutlineGenerationData,
+} from '~/lib/generate-outline';
+import {
+  getPackGenerationData,
+  updatePackGenerationData,
+} from '~/lib/generate-pack';
+import {
+  getTreeGenerationData,
+  updateTreeGenerationData,
+} from '~/lib/generate-tree';
+import { cancelJob } from '~/lib/job-events';
+import {
+  getGenerateGraphQueue,
+  getGenerateLlmsTxtQueue,
+  getGenerateMetricsQueue,
+  getGenerateOutlineQueue,
+  getGeneratePackQueue,
+  getGenerateTreeQueue,
+} from '~/services/queue-service';
+import type { JobStatus, JobType } from '~/types';
+
+interface CancelParams {
+  jobId: string;
+}
+
+interface CancellableJob {
+  status: JobStatus;
+  // Whether the job was submitted with the requesting API key's user or team
+  isOwner: boolean;
+}
+
+const CANCELLED_ERROR = 'Job cancelled';
+
+/**
+ * Cancels a job that is still processing. Its worker aborts at the next
+ * checkpoint, while the job's concurrency slot is released right away.
+ */
+async function cancelJobRequest(
+  req: Request<CancelParams>,
+  res: Response,
+  {
+    jobType,
+    queue,
+    getJob,
+    markCancelled,
+  }: {
+    jobType: JobType;
+    queue: Queue;
+    getJob: (jobId: string) => Promise<CancellableJob | null>;
+    markCancelled: (jobId: string) => Promise<void>;
+  },
+) {
+  const { jobId } = req.params;
+  const job = await getJob(jobId);
+
+  if (!job || !job.isOwner) {
+    return res.status(404).json({
+      success: false,
+      error: `${jobType} generation job not found`,
+    });
+  }
+
+  if (job.status !== 'processing') {
+    return res.status(409).json({
+      success: false,
+      error: `Job is already ${job.status}`,
+      status: job.status,
+    });
+  }
+
+  await cancelJob(jobId, jobType);
+  await markCancelled(jobId);
+
+  const teamId = req.apiKeyDetails?.teamId;
+  if (teamId && (await getConcurrencyLimitActiveJobs(teamId)).includes(jobId)) {
+    await releaseConcurrencyLimitActiveJob(teamId, jobId, queue);
+  }
+
+  return res.status(200).json({
+    success: true,
+    status: 'cancelled',
+  });
+}
+
+export async function cancelLLMsTextJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'llmstxt',
+    queue: getGenerateLlmsTxtQueue(),
+    getJob: async (jobId) => {
+      const generation = await getGeneratedLLmsTxt(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.teamId === (req.apiKeyDetails?.teamId ?? null),
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updateGeneratedLlmsTxt(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
+
+export async function cancelTreeJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'tree',
+    queue: getGenerateTreeQueue(),
+    getJob: async (jobId) => {
+      const generation = await getTreeGenerationData(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.userId === req.apiKeyDetails?.userId,
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updateTreeGenerationData(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
+
+export async function cancelPackJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'pack',
+    queue: getGeneratePackQueue(),
+    getJob: async (jobId) => {
+      const generation = await getPackGenerationData(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.userId === req.apiKeyDetails?.userId,
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updatePackGenerationData(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
+
+export async function cancelMetricsJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'metrics',
+    queue: getGenerateMetricsQueue(),
+    getJob: async (jobId) => {
+      const generation = await getMetricsGenerationData(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.userId === req.apiKeyDetails?.userId,
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updateMetricsGenerationData(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
+
+export async function cancelOutlineJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'outline',
+    queue: getGenerateOutlineQueue(),
+    getJob: async (jobId) => {
+      const generation = await getOutlineGenerationData(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.userId === req.apiKeyDetails?.userId,
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updateOutlineGenerationData(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
+
+export async function cancelGraphJobController(
+  req: Request<CancelParams>,
+  res: Response,
+) {
+  return cancelJobRequest(req, res, {
+    jobType: 'graph',
+    queue: getGenerateGraphQueue(),
+    getJob: async (jobId) => {
+      const generation = await getGraphGenerationData(jobId);
+      return generation
+        ? {
+            status: generation.status,
+            isOwner: generation.userId === req.apiKeyDetails?.userId,
+          }
+        : null;
+    },
+    markCancelled: (jobId) =>
+      updateGraphGenerationData(jobId, {
+        status: 'cancelled',
+        error: CANCELLED_ERROR,
+      }),
+  });
+}
@@ -0,0 +1,38 @@
+import type { Request, Response } from 'express';
+
+import {
+  getGraphGenerationData,
+  getGraphGenerationDataExpiry,
+} from '~/lib/generate-graph';
+
+interface StatusParams {
+  jobId: string;
+}
+
+export async function generateGraphStatusController(
+  req: Request<StatusParams, any, any>,
+  res: Response,
+) {
+  const generationId = req.params.jobId;
+  const generation = await getGraphGenerationData(generationId);
+
+  if (!generation) {
+    return res.status(404).json({
+      success: false,
+      error: 'dependency graph generation job not found',
+    });
+  }
+
+  return res.status(200).json({
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
+    data: {
+      graph: generation.graph,
+      output: generation.output,
+      commitSha: generation.commitSha,
+    },
+    status: generation.status,
+    error: generation?.error ?? undefined,
+    expiresAt: (await getGraphGenerationDataExpiry(generationId)).toISOString(),
+  });
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { getGenerateGraphQueue } from '~/services/queue-service';
+import { saveGraphGenerationData } from '~/lib/generate-graph';
+import { generateGraphRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlOptions, CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+
+type GenerateGraphRequest = z.input<typeof generateGraphRequestSchema>;
+
+/**
+ * Queues a job that builds the graph of which files, or directories, of the
+ * requested source import which, rendered as JSON, DOT or Mermaid.
+ * @param req - The request object containing the source and crawl options.
+ * @param res - The response object to send the generation job ID.
+ * @returns A promise that resolves when the graph job is queued.
+ */
+export async function generateGraphController(
+  req: Request<any, any, GenerateGraphRequest>,
+  res: Response,
+) {
+  const userId = req.apiKeyDetails?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+    });
+  }
+
+  let request: z.infer<typeof generateGraphRequestSchema>;
+  try {
+    request = await generateGraphRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const { url, localPath, webhook, level, format, ...crawlOptions } = request;
+  const options: CrawlOptions = {
+    ...crawlOptions,
+    dependencyGraph: { level, format },
+  };
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource({ url, localPath }, req.file);
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  const generationId = randomUUID();
+  const jobData = {
+    source,
+    options,
+    userId,
+    // Used to look up the team's credentials for private repositories
+    teamId: req.apiKeyDetails?.teamId ?? null,
+    generationId,
+    webhook: webhook ?? null,
+  };
+
+  await saveGraphGenerationData({
+    id: generationId,
+    userId,
+    createdAt: Date.now(),
+    status: 'processing',
+    url: describeCrawlSource(source),
+    options,
+  });
+
+  await getGenerateGraphQueue().add(generationId, jobData, {
+    jobId: generationId,
+  });
+
+  return res.status(200).json({
+    success: true,
+    id: generationId,
+  });
+}
@@ -35,8 +35,17 @@ export async function generateLLMsTextStatusController(
     };
   }
 
+  if (generation.commitSha) {
+    data = { ...data, commitSha: generation.commitSha };
+  }
+
+  if (generation.parts) {
+    data = { ...data, parts: generation.parts, manifest: generation.manifest };
+  }
+
   return res.status(200).json({
-    success: generation.status !== 'failed',
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
     data: data,
     status: generation.status,
     error: generation?.error ?? undefined,
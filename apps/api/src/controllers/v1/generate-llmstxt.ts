@@ -1,7 +1,14 @@
 import { randomUUID } from 'node:crypto';
 import type { Request, Response } from 'express';
+import { z } from 'zod';
 import { saveGeneratedLlmsTxt } from '~/lib/generate-llms-txt/redis';
 import { getGenerateLlmsTxtQueue } from '~/services/queue-service';
+import { generateLlmsTxtRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+import { teamHasOutputTemplate } from '~/services/output-templates-service';
 
 export type GenerateLLMsTextResponse = {
   success: boolean;
@@ -15,23 +22,68 @@ export type GenerateLLMsTextResponse = {
  * @returns A promise that resolves when the generation job is queued.
  */
 export async function generateLLMsTextController(req: Request, res: Response) {
+  let request: z.infer<typeof generateLlmsTxtRequestSchema>;
+  try {
+    request = await generateLlmsTxtRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  if (
+    request.template &&
+    !(await teamHasOutputTemplate(
+      req.apiKeyDetails?.teamId ?? null,
+      request.template,
+    ))
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: `Output template "${request.template}" not found`,
+    });
+  }
+
+  const { url, localPath } = request;
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource({ url, localPath }, req.file);
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  const teamId = req.apiKeyDetails?.teamId ?? null;
   const generationId = randomUUID();
+  const { webhook, ...jobRequest } = request;
   const jobData = {
-    request: req.body,
-    teamId: '84594',
+    request: jobRequest,
+    source,
+    teamId,
     plan: 'standard',
     subId: '43434',
     generationId,
+    webhook: webhook ?? null,
   };
 
   await saveGeneratedLlmsTxt(generationId, {
     id: generationId,
-    teamId: '84594',
+    teamId,
     plan: 'standard',
     createdAt: Date.now(),
     status: 'processing',
-    url: req.body.url,
-    showFullText: req.body.showFullText,
+    url: describeCrawlSource(source),
+    showFullText: request.showFullText ?? false,
     generatedText: '',
     fullText: '',
   });
@@ -0,0 +1,40 @@
+import type { Request, Response } from 'express';
+
+import {
+  getMetricsGenerationData,
+  getMetricsGenerationDataExpiry,
+} from '~/lib/generate-metrics';
+
+interface StatusParams {
+  jobId: string;
+}
+
+export async function generateMetricsStatusController(
+  req: Request<StatusParams, any, any>,
+  res: Response,
+) {
+  const generationId = req.params.jobId;
+  const generation = await getMetricsGenerationData(generationId);
+
+  if (!generation) {
+    return res.status(404).json({
+      success: false,
+      error: 'metrics generation job not found',
+    });
+  }
+
+  return res.status(200).json({
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
+    data: {
+      ...generation.metrics,
+      suspiciousFilesResults: generation.suspiciousFilesResults,
+      commitSha: generation.commitSha,
+    },
+    status: generation.status,
+    error: generation?.error ?? undefined,
+    expiresAt: (
+      await getMetricsGenerationDataExpiry(generationId)
+    ).toISOString(),
+  });
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { getGenerateMetricsQueue } from '~/services/queue-service';
+import { saveMetricsGenerationData } from '~/lib/generate-metrics';
+import { generateMetricsRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+
+type GenerateMetricsRequest = z.input<typeof generateMetricsRequestSchema>;
+
+/**
+ * Queues a job that measures the requested source: sizes and token counts
+ * per language and directory, the largest files, and code structure.
+ * @param req - The request object containing the source and crawl options.
+ * @param res - The response object to send the generation job ID.
+ * @returns A promise that resolves when the metrics job is queued.
+ */
+export async function generateMetricsController(
+  req: Request<any, any, GenerateMetricsRequest>,
+  res: Response,
+) {
+  const userId = req.apiKeyDetails?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+    });
+  }
+
+  let request: z.infer<typeof generateMetricsRequestSchema>;
+  try {
+    request = await generateMetricsRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const { url, localPath, webhook, ...options } = request;
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource({ url, localPath }, req.file);
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  const generationId = randomUUID();
+  const jobData = {
+    source,
+    options,
+    userId,
+    // Used to look up the team's credentials for private repositories
+    teamId: req.apiKeyDetails?.teamId ?? null,
+    generationId,
+    webhook: webhook ?? null,
+  };
+
+  await saveMetricsGenerationData({
+    id: generationId,
+    userId,
+    createdAt: Date.now(),
+    status: 'processing',
+    url: describeCrawlSource(source),
+    options,
+    suspiciousFilesResults: [],
+  });
+
+  await getGenerateMetricsQueue().add(generationId, jobData, {
+    jobId: generationId,
+  });
+
+  return res.status(200).json({
+    success: true,
+    id: generationId,
+  });
+}
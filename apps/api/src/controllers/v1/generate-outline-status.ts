@@ -0,0 +1,41 @@
+import type { Request, Response } from 'express';
+
+import {
+  getOutlineGenerationData,
+  getOutlineGenerationDataExpiry,
+} from '~/lib/generate-outline';
+
+interface StatusParams {
+  jobId: string;
+}
+
+export async function generateOutlineStatusController(
+  req: Request<StatusParams, any, any>,
+  res: Response,
+) {
+  const generationId = req.params.jobId;
+  const generation = await getOutlineGenerationData(generationId);
+
+  if (!generation) {
+    return res.status(404).json({
+      success: false,
+      error: 'outline generation job not found',
+    });
+  }
+
+  return res.status(200).json({
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
+    data: {
+      symbols: generation.symbols,
+      totalFiles: generation.totalFiles,
+      suspiciousFilesResults: generation.suspiciousFilesResults,
+      commitSha: generation.commitSha,
+    },
+    status: generation.status,
+    error: generation?.error ?? undefined,
+    expiresAt: (
+      await getOutlineGenerationDataExpiry(generationId)
+    ).toISOString(),
+  });
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { getGenerateOutlineQueue } from '~/services/queue-service';
+import { saveOutlineGenerationData } from '~/lib/generate-outline';
+import { generateOutlineRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+
+type GenerateOutlineRequest = z.input<typeof generateOutlineRequestSchema>;
+
+/**
+ * Queues a job that lists the symbols of the requested source: kind, name,
+ * lines, signature, parent scope and docstring of every definition.
+ * @param req - The request object containing the source and crawl options.
+ * @param res - The response object to send the generation job ID.
+ * @returns A promise that resolves when the outline job is queued.
+ */
+export async function generateOutlineController(
+  req: Request<any, any, GenerateOutlineRequest>,
+  res: Response,
+) {
+  const userId = req.apiKeyDetails?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+    });
+  }
+
+  let request: z.infer<typeof generateOutlineRequestSchema>;
+  try {
+    request = await generateOutlineRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const { url, localPath, webhook, ...options } = request;
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource({ url, localPath }, req.file);
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  const generationId = randomUUID();
+  const jobData = {
+    source,
+    options,
+    userId,
+    // Used to look up the team's credentials for private repositories
+    teamId: req.apiKeyDetails?.teamId ?? null,
+    generationId,
+    webhook: webhook ?? null,
+  };
+
+  await saveOutlineGenerationData({
+    id: generationId,
+    userId,
+    createdAt: Date.now(),
+    status: 'processing',
+    url: describeCrawlSource(source),
+    options,
+    suspiciousFilesResults: [],
+  });
+
+  await getGenerateOutlineQueue().add(generationId, jobData, {
+    jobId: generationId,
+  });
+
+  return res.status(200).json({
+    success: true,
+    id: generationId,
+  });
+}
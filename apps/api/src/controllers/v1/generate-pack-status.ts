@@ -0,0 +1,49 @@
+import type { Request, Response } from 'express';
+
+import {
+  getPackGenerationData,
+  getPackGenerationDataExpiry,
+} from '~/lib/generate-pack';
+
+interface StatusParams {
+  jobId: string;
+}
+
+export async function generatePackStatusController(
+  req: Request<StatusParams, any, any>,
+  res: Response,
+) {
+  const generationId = req.params.jobId;
+  const generation = await getPackGenerationData(generationId);
+
+  if (!generation) {
+    return res.status(404).json({
+      success: false,
+      error: 'pack generation job not found',
+    });
+  }
+
+  return res.status(200).json({
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
+    data: {
+      output: generation.output,
+      totalFiles: generation.totalFiles,
+      totalCharacters: generation.totalCharacters,
+      totalTokens: generation.totalTokens,
+      fileCharCounts: generation.fileCharCounts,
+      fileTokenCounts: generation.fileTokenCounts,
+      suspiciousFilesResults: generation.suspiciousFilesResults,
+      tokenBudget: generation.tokenBudget,
+      relevance: generation.relevance,
+      parts: generation.parts,
+      manifest: generation.manifest,
+      commitSha: generation.commitSha,
+      repositoryCommitShas: generation.repositoryCommitShas,
+      diff: generation.diff,
+    },
+    status: generation.status,
+    error: generation?.error ?? undefined,
+    expiresAt: (await getPackGenerationDataExpiry(generationId)).toISOString(),
+  });
+}
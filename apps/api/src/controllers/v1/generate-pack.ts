@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { getGeneratePackQueue } from '~/services/queue-service';
+import { savePackGenerationData } from '~/lib/generate-pack';
+import { generatePackRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+import { teamHasOutputTemplate } from '~/services/output-templates-service';
+
+type GeneratePackRequest = z.input<typeof generatePackRequestSchema>;
+
+/**
+ * Queues a job that runs the full pack pipeline on the requested source.
+ * @param req - The request object containing the source and crawl options.
+ * @param res - The response object to send the generation job ID.
+ * @returns A promise that resolves when the pack job is queued.
+ */
+export async function generatePackController(
+  req: Request<any, any, GeneratePackRequest>,
+  res: Response,
+) {
+  const userId = req.apiKeyDetails?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+    });
+  }
+
+  let request: z.infer<typeof generatePackRequestSchema>;
+  try {
+    request = await generatePackRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  if (
+    request.template &&
+    !(await teamHasOutputTemplate(
+      req.apiKeyDetails?.teamId ?? null,
+      request.template,
+    ))
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: `Output template "${request.template}" not found`,
+    });
+  }
+
+  if (request.diff?.head && request.remoteBranch) {
+    return res.status(400).json({
+      success: false,
+      error: 'Specify either diff.head or remoteBranch, not both',
+    });
+  }
+
+  const { url, localPath, repositories, webhook, ...options } = request;
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource(
+      { url, localPath, repositories },
+      req.file,
+    );
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  // Changes are computed from the git history, which only a single cloned
+  // repository has
+  if (options.diff && source.type !== 'remote') {
+    return res.status(400).json({
+      success: false,
+      error: 'diff is only supported for a single remote repository',
+    });
+  }
+
+  const generationId = randomUUID();
+  const jobData = {
+    source,
+    options,
+    userId,
+    // Used to look up the team's credentials for private repositories
+    teamId: req.apiKeyDetails?.teamId ?? null,
+    generationId,
+    webhook: webhook ?? null,
+  };
+
+  await savePackGenerationData({
+    id: generationId,
+    userId,
+    createdAt: Date.now(),
+    status: 'processing',
+    url: describeCrawlSource(source),
+    options,
+    output: '',
+    totalFiles: 0,
+    totalCharacters: 0,
+    totalTokens: 0,
+    fileCharCounts: {},
+    fileTokenCounts: {},
+    suspiciousFilesResults: [],
+  });
+
+  await getGeneratePackQueue().add(generationId, jobData, {
+    jobId: generationId,
+  });
+
+  return res.status(200).json({
+    success: true,
+    id: generationId,
+  });
+}
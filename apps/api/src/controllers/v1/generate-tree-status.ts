@@ -26,9 +26,11 @@ export async function generateTreeStatusController(
   console.log('generation', generation);
 
   return res.status(200).json({
-    success: generation.status !== 'failed',
+    success:
+      generation.status !== 'failed' && generation.status !== 'cancelled',
     data: {
       tree: generation.fileTree,
+      commitSha: generation.commitSha,
     },
     status: generation.status,
     error: generation?.error ?? undefined,
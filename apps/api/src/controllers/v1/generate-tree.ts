@@ -1,12 +1,16 @@
 import { randomUUID } from 'node:crypto';
 import type { Request, Response } from 'express';
+import { z } from 'zod';
 
 import { getGenerateTreeQueue } from '~/services/queue-service';
 import { saveTreeGenerationData } from '~/lib/generate-tree';
+import { generateTreeRequestSchema } from '~/config/crawlOptionsSchema';
+import { resolveRequestSource } from '~/lib/crawl-source';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import type { CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
 
-interface GenerateTreeRequest {
-  url: string;
-}
+type GenerateTreeRequest = z.input<typeof generateTreeRequestSchema>;
 
 export async function generateTreeController(
   req: Request<any, any, GenerateTreeRequest>,
@@ -21,11 +25,43 @@ export async function generateTreeController(
     });
   }
 
+  let request: z.infer<typeof generateTreeRequestSchema>;
+  try {
+    request = await generateTreeRequestSchema.parseAsync(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const { url, localPath, webhook, ...options } = request;
+  let source: CrawlSource;
+  try {
+    source = await resolveRequestSource({ url, localPath }, req.file);
+  } catch (error) {
+    if (error instanceof CrawlSourceError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
   const generationId = randomUUID();
   const jobData = {
-    url: req.body.url,
+    source,
+    options,
     userId,
+    // Used to look up the team's credentials for private repositories
+    teamId: req.apiKeyDetails?.teamId ?? null,
     generationId,
+    webhook: webhook ?? null,
   };
 
   await saveTreeGenerationData({
@@ -33,7 +69,7 @@ export async function generateTreeController(
     userId,
     createdAt: Date.now(),
     status: 'processing',
-    url: req.body.url,
+    url: describeCrawlSource(source),
     fileTree: '',
   });
 
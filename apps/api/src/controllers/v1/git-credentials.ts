@@ -0,0 +1,128 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import {
+  deleteGitCredential,
+  listGitCredentialsForTeam,
+  saveGitCredential,
+} from '~/services/git-credentials-service';
+import { isTeamMember } from '~/services/teams-service';
+
+// A bare host name with an optional port, e.g. `github.com` or `git.internal:8443`
+const HOST_PATTERN = /^[a-zA-Z0-9](?:[a-zA-Z0-9.-]*[a-zA-Z0-9])?(?::\d{1,5})?$/;
+
+// A known_hosts entry: host patterns, key type and base64 key, optionally
+// preceded by a marker such as @cert-authority and followed by a comment
+const KNOWN_HOSTS_LINE_PATTERN =
+  /^(?:@[\w-]+\s+)?\S+\s+[\w@.-]+\s+[A-Za-z0-9+/]+={0,3}(?:\s.*)?$/;
+
+const knownHostsSchema = z.string().refine(
+  (value) => {
+    const lines = value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '' && !line.startsWith('#'));
+    return (
+      lines.length > 0 &&
+      lines.every((line) => KNOWN_HOSTS_LINE_PATTERN.test(line))
+    );
+  },
+  { message: 'Expected known_hosts lines, e.g. from ssh-keyscan' },
+);
+
+const createGitCredentialSchema = z
+  .object({
+    name: z.string().min(1),
+    host: z
+      .string()
+      .regex(HOST_PATTERN, 'Expected a host name, e.g. github.com'),
+    type: z.enum(['token', 'ssh_key']),
+    username: z.string().min(1).optional(),
+    secret: z.string().min(1),
+    knownHosts: knownHostsSchema.optional(),
+  })
+  // SSH keys are only offered to servers whose host key is known
+  .refine((value) => value.type !== 'ssh_key' || value.knownHosts, {
+    message: 'SSH key credentials require knownHosts',
+    path: ['knownHosts'],
+  });
+
+/**
+ * Lists the git credentials of a team. Secrets are never returned.
+ */
+export async function teamGitCredentialsController(
+  req: Request<{ teamId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const credentials = await listGitCredentialsForTeam(teamId);
+  return res.status(200).json({ credentials });
+}
+
+/**
+ * Stores a token or SSH key the team's jobs use to clone private
+ * repositories from a host. Replaces an existing credential for that host.
+ */
+export async function teamCreateGitCredentialController(
+  req: Request<
+    { teamId: string },
+    any,
+    z.input<typeof createGitCredentialSchema>
+  >,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  let body: z.infer<typeof createGitCredentialSchema>;
+  try {
+    body = createGitCredentialSchema.parse(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid git credential',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const credential = await saveGitCredential({
+    ...body,
+    teamId,
+    createdBy: userId,
+  });
+  return res.status(200).json({ credential });
+}
+
+export async function teamDeleteGitCredentialController(
+  req: Request<{ teamId: string; credentialId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const { teamId, credentialId } = req.params;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const deleted = await deleteGitCredential(teamId, credentialId);
+  if (!deleted) {
+    return res.status(404).json({ error: 'Git credential not found' });
+  }
+
+  return res
+    .status(200)
+    .json({ message: 'Git credential deleted', credentialId });
+}
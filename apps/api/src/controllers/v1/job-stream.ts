@@ -0,0 +1,184 @@
+import type { Request, Response } from 'express';
+import type { WebSocket } from 'ws';
+
+import {
+  type JobStreamEvent,
+  findJob,
+  getLatestJobEvent,
+  isFinalJobEvent,
+  isJobOwner,
+  subscribeToJobEvents,
+} from '~/lib/job-events';
+import { logger } from '~/lib/logger';
+
+// Proxies drop connections that stay silent for too long
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+interface JobStreamParams {
+  jobId: string;
+}
+
+/**
+ * Checks that the job exists and belongs to the requesting API key; other
+ * teams' jobs are reported as not found.
+ */
+async function canStreamJob(
+  jobId: string,
+  apiKeyDetails: Request['apiKeyDetails'],
+): Promise<boolean> {
+  const job = await findJob(jobId);
+  return job !== null && isJobOwner(job.owner, apiKeyDetails);
+}
+
+/**
+ * Relays a job's events until it completes, fails or is cancelled, or the
+ * signal aborts. The job's latest event is sent first, so a client that
+ * connects late starts from the current state.
+ */
+async function relayJobEvents(
+  jobId: string,
+  {
+    send,
+    end,
+    signal,
+  }: {
+    send: (event: JobStreamEvent) => void;
+    end: () => void;
+    signal: AbortSignal;
+  },
+): Promise<void> {
+  let finished = false;
+  let unsubscribe: (() => Promise<void>) | undefined;
+  const finish = () => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    void unsubscribe?.();
+    if (!signal.aborted) {
+      end();
+    }
+  };
+  const relay = (event: JobStreamEvent) => {
+    if (finished) {
+      return;
+    }
+    send(event);
+    if (isFinalJobEvent(event.event)) {
+      finish();
+    }
+  };
+
+  unsubscribe = await subscribeToJobEvents(jobId, relay);
+  signal.addEventListener('abort', finish, { once: true });
+  if (finished) {
+    // A final event arrived while subscribing
+    void unsubscribe();
+    return;
+  }
+  if (signal.aborted) {
+    finish();
+    return;
+  }
+
+  const [latestEvent, job] = await Promise.all([
+    getLatestJobEvent(jobId),
+    findJob(jobId),
+  ]);
+  if (latestEvent) {
+    relay(latestEvent);
+  }
+  // The job ended without a final event to replay, e.g. before it could
+  // be published
+  if (!finished && job && job.status !== 'processing') {
+    relay({
+      event: job.status,
+      jobId,
+      jobType: job.jobType,
+      timestamp: new Date().toISOString(),
+      data: job.error ? { error: job.error } : {},
+    });
+  }
+}
+
+/**
+ * Streams a job's progress as Server-Sent Events, named after the job
+ * event. The stream ends after the `completed`, `failed` or `cancelled` event.
+ */
+export async function jobStreamController(
+  req: Request<JobStreamParams>,
+  res: Response,
+) {
+  const { jobId } = req.params;
+
+  if (!(await canStreamJob(jobId, req.apiKeyDetails))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found',
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const abortController = new AbortController();
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, KEEP_ALIVE_INTERVAL_MS);
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    abortController.abort();
+  });
+
+  try {
+    await relayJobEvents(jobId, {
+      send: (event) => {
+        res.write(`event: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+      },
+      end: () => res.end(),
+      signal: abortController.signal,
+    });
+  } catch (error) {
+    logger.error('Failed to stream job events', { jobId, error });
+    res.end();
+  }
+}
+
+/**
+ * Streams a job's progress over a WebSocket, one JSON message per job
+ * event. The socket is closed after the `completed`, `failed` or
+ * `cancelled` event.
+ */
+export function jobStreamSocketController(ws: WebSocket, req: Request) {
+  const jobId = req.params.jobId as string;
+
+  const abortController = new AbortController();
+  const keepAlive = setInterval(() => {
+    ws.ping();
+  }, KEEP_ALIVE_INTERVAL_MS);
+  ws.on('close', () => {
+    clearInterval(keepAlive);
+    abortController.abort();
+  });
+
+  (async () => {
+    if (!(await canStreamJob(jobId, req.apiKeyDetails))) {
+      ws.close(4404, 'Job not found');
+      return;
+    }
+
+    await relayJobEvents(jobId, {
+      send: (event) => ws.send(JSON.stringify(event)),
+      end: () => ws.close(1000, 'Job finished'),
+      signal: abortController.signal,
+    });
+  })().catch((error) => {
+    logger.error('Failed to stream job events', { jobId, error });
+    ws.close(1011, 'Internal Server Error');
+  });
+}
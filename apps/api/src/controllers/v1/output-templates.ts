@@ -0,0 +1,112 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import {
+  MAX_CUSTOM_TEMPLATE_LENGTH,
+  validateCustomTemplate,
+} from '~/core/output/outputTemplate';
+import {
+  deleteOutputTemplate,
+  listOutputTemplatesForTeam,
+  saveOutputTemplate,
+} from '~/services/output-templates-service';
+import { isTeamMember } from '~/services/teams-service';
+
+const createOutputTemplateSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/,
+      'Expected letters, digits, ".", "_" or "-", up to 64 characters',
+    ),
+  content: z.string().min(1).max(MAX_CUSTOM_TEMPLATE_LENGTH),
+});
+
+/**
+ * Lists the custom output templates of a team.
+ */
+export async function teamOutputTemplatesController(
+  req: Request<{ teamId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const templates = await listOutputTemplatesForTeam(teamId);
+  return res.status(200).json({ templates });
+}
+
+/**
+ * Stores a Handlebars template the team's jobs can render their output with
+ * through the `template` option. Replaces an existing template of that name.
+ */
+export async function teamCreateOutputTemplateController(
+  req: Request<
+    { teamId: string },
+    any,
+    z.input<typeof createOutputTemplateSchema>
+  >,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  let body: z.infer<typeof createOutputTemplateSchema>;
+  try {
+    body = createOutputTemplateSchema.parse(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid output template',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const problems = validateCustomTemplate(body.content);
+  if (problems.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid output template',
+      details: problems,
+    });
+  }
+
+  const template = await saveOutputTemplate({
+    ...body,
+    teamId,
+    createdBy: userId,
+  });
+  return res.status(200).json({ template });
+}
+
+export async function teamDeleteOutputTemplateController(
+  req: Request<{ teamId: string; templateId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const { teamId, templateId } = req.params;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const deleted = await deleteOutputTemplate(teamId, templateId);
+  if (!deleted) {
+    return res.status(404).json({ error: 'Output template not found' });
+  }
+
+  return res
+    .status(200)
+    .json({ message: 'Output template deleted', templateId });
+}
@@ -0,0 +1,25 @@
+import type { Request, Response } from 'express';
+
+import { getJsonOutputSchema } from '~/core/output/outputStyles/jsonSchema';
+
+/**
+ * Serves the JSON Schema of a version of the `json` output style.
+ */
+export async function jsonOutputSchemaController(
+  req: Request<{ version: string }>,
+  res: Response,
+) {
+  const schema = getJsonOutputSchema(Number(req.params.version));
+
+  if (!schema) {
+    return res.status(404).json({
+      success: false,
+      error: 'JSON output schema version not found',
+    });
+  }
+
+  return res
+    .status(200)
+    .type('application/schema+json')
+    .send(JSON.stringify(schema, null, 2));
+}
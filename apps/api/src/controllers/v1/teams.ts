@@ -1,10 +1,17 @@
 import type { Request, Response } from 'express';
 import { and, eq, sql } from 'drizzle-orm';
 
-import { type ApiKey, apiKeys, teamMembers, teams } from '~/db/schema';
+import { apiKeys, teamMembers, teams } from '~/db/schema';
 import { db } from '~/db';
+import {
+  type ApiKeySummary,
+  apiKeySummaryColumns,
+} from '~/services/api-keys-service';
 
-export async function teamKeysController(req: Request, res: Response) {
+export async function teamKeysController(
+  req: Request<{ teamId: string }>,
+  res: Response,
+) {
   const userId = req.userId;
   const teamId = req.params.teamId;
 
@@ -22,7 +29,7 @@ export async function teamKeysController(req: Request, res: Response) {
   }
 
   const keys = await db
-    .select()
+    .select(apiKeySummaryColumns)
     .from(apiKeys)
     .where(eq(apiKeys.teamId, team.teamId));
 
@@ -40,7 +47,15 @@ export async function teamsController(req: Request, res: Response) {
     .select({
       id: teams.id,
       name: teams.name,
-      apiKeys: sql<ApiKey[]>`json_agg(${apiKeys})`.as('api_keys'),
+      apiKeys: sql<ApiKeySummary[]>`json_agg(json_build_object(
+        'id', ${apiKeys.id},
+        'name', ${apiKeys.name},
+        'keyPrefix', ${apiKeys.keyPrefix},
+        'scopes', ${apiKeys.scopes},
+        'expiresAt', ${apiKeys.expiresAt},
+        'lastUsedAt', ${apiKeys.lastUsedAt},
+        'createdAt', ${apiKeys.createdAt}
+      ))`.as('api_keys'),
     })
     .from(teamMembers)
     .innerJoin(teams, eq(teamMembers.teamId, teams.id))
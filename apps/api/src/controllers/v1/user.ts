@@ -3,8 +3,13 @@ import type { Request, Response } from 'express';
 import { z } from 'zod';
 
 import { db } from '~/db';
-import { apiKeys, users } from '~/db/schema';
-import { createApiKey } from '~/services/api-keys-service';
+import { API_KEY_SCOPES, apiKeys, users } from '~/db/schema';
+import {
+  createApiKey,
+  listApiKeysForUser,
+  toApiKeySummary,
+} from '~/services/api-keys-service';
+import { isTeamMember } from '~/services/teams-service';
 
 export async function userMeController(req: Request, res: Response) {
   const userId = req.userId;
@@ -23,20 +28,30 @@ export async function userApiKeysController(req: Request, res: Response) {
     return res.status(200).json({ keys: [] });
   }
 
-  const keys = await db
-    .select()
-    .from(apiKeys)
-    .where(eq(apiKeys.userId, userId));
+  const keys = await listApiKeysForUser(userId);
   return res.status(200).json({ keys });
 }
 
 const createApiKeySchema = z.object({
   name: z.string(),
   teamId: z.string(),
+  // Defaults to every scope
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).optional(),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => new Date(value) > new Date(), {
+      message: 'Expiry must be in the future',
+    })
+    .optional(),
 });
 
+/**
+ * Creates an API key. The plain key is only returned in this response; the
+ * database keeps its prefix and a salted hash.
+ */
 export async function userCreateApiKeyController(
-  req: Request<any, any, z.infer<typeof createApiKeySchema>>,
+  req: Request<any, any, z.input<typeof createApiKeySchema>>,
   res: Response,
 ) {
   const userId = req.userId;
@@ -45,21 +60,41 @@ export async function userCreateApiKeyController(
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const apiKey = createApiKey();
-
+  let body: z.infer<typeof createApiKeySchema>;
   try {
-    const { name, teamId } = createApiKeySchema.parse(req.body);
+    body = createApiKeySchema.parse(req.body ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid API key options',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  if (!(await isTeamMember(userId, body.teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
 
+  const { plainKey, ...storedKey } = createApiKey();
+
+  try {
     const [key] = await db
       .insert(apiKeys)
       .values({
-        key: apiKey,
-        userId: userId as string,
-        teamId,
-        name,
+        ...storedKey,
+        userId,
+        teamId: body.teamId,
+        name: body.name,
+        scopes: body.scopes,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : null,
       })
       .returning();
-    return res.status(200).json({ key });
+    return res
+      .status(200)
+      .json({ key: plainKey, apiKey: toApiKeySummary(key) });
   } catch (error) {
     console.error(error);
     return res.status(500).json({ error: 'Failed to create API key' });
@@ -0,0 +1,83 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { isTeamMember } from '~/services/teams-service';
+import {
+  getOrCreateWebhookSecret,
+  listWebhookDeliveries,
+  rotateWebhookSecret,
+} from '~/services/webhook-service';
+
+const webhookDeliveriesQuerySchema = z.object({
+  jobId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Lists the webhook deliveries of the API key's team, newest first, with the
+ * outcome of their last attempt.
+ */
+export async function webhookDeliveriesController(req: Request, res: Response) {
+  const teamId = req.apiKeyDetails?.teamId;
+
+  if (!teamId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+    });
+  }
+
+  let query: z.infer<typeof webhookDeliveriesQuerySchema>;
+  try {
+    query = webhookDeliveriesQuerySchema.parse(req.query ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const deliveries = await listWebhookDeliveries(teamId, query);
+  return res.status(200).json({ success: true, deliveries });
+}
+
+/**
+ * Returns the secret the team's webhook deliveries are signed with.
+ */
+export async function teamWebhookSecretController(
+  req: Request<{ teamId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const secret = await getOrCreateWebhookSecret(teamId);
+  return res.status(200).json({ secret });
+}
+
+/**
+ * Replaces the team's webhook secret. Deliveries from then on, including
+ * retries, are signed with the new secret.
+ */
+export async function teamRotateWebhookSecretController(
+  req: Request<{ teamId: string }>,
+  res: Response,
+) {
+  const userId = req.userId;
+  const teamId = req.params.teamId;
+
+  if (!userId || !teamId || !(await isTeamMember(userId, teamId))) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const secret = await rotateWebhookSecret(teamId);
+  return res.status(200).json({ secret });
+}
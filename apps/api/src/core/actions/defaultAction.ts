@@ -1,4 +1,3 @@
-import { isGitInstalled } from '../file/gitCommand';
 import {
   configMergedSchema,
   type OutputStyle,
@@ -6,80 +5,157 @@ import {
   type ConfigMerged,
 } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import type { CrawlOptions } from '~/types';
+import type { CrawlOptions, CrawlRepository, CrawlSource } from '~/types';
 import { pack, type PackResult } from '../packager';
+import { applyDiffScope, type DiffScope } from '../packager/diffScope';
 import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
 import {
-  parseRemoteValue,
-  createTempDirectory,
-  cloneRepository,
-  cleanupTempDirectory,
-} from '../utils/remoteUtils';
+  applySourceRevision,
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
 
-export interface DefaultActionRunnerResult {
+export interface DefaultActionRunnerResult extends SourceRevision {
   packResult: PackResult;
   config: ConfigMerged;
 }
 
 /**
- * Clones a remote repository and runs the default packing process.
- * @param remoteUrl The remote repository URL or shorthand.
+ * Fetches a repository (clone, local copy or archive) and runs the default packing process.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
  * @param options Crawl options influencing the packing process.
  * @returns The packing result and the merged configuration.
  */
 export const runDefaultAction = async (
-  remoteUrl: string,
+  source: CrawlSource | string,
   options: CrawlOptions,
   deps = {
-    isGitInstalled,
-    parseRemoteValue,
-    createTempDirectory,
-    cloneRepository,
+    prepareSourceDirectory,
     cleanupTempDirectory,
     pack,
     buildConfig,
+    applyDiffScope,
   },
 ): Promise<DefaultActionRunnerResult> => {
-  logger.info('Running default action for remote URL:', remoteUrl);
+  logger.info(
+    'Running default action for source:',
+    describeCrawlSource(source),
+  );
 
-  if (!(await deps.isGitInstalled())) {
-    throw new Error('Git is not installed or not in the system PATH.');
-  }
-
-  const parsedFields = deps.parseRemoteValue(remoteUrl);
-  const tempDirPath = await deps.createTempDirectory();
+  const {
+    directory: tempDirPath,
+    revision,
+    diff,
+    history,
+    fileChangeCounts,
+  } = await deps.prepareSourceDirectory(source, options);
   let packResult: PackResult;
+  let diffScope: DiffScope | undefined;
 
   try {
-    await deps.cloneRepository(
-      parsedFields.repoUrl,
-      tempDirPath,
-      options.remoteBranch || parsedFields.remoteBranch,
+    const config = applySourceRevision(
+      deps.buildConfig(options, source),
+      revision,
     );
+    // In diff mode only the changed files, and what they import, are packed
+    if (diff && options.diff) {
+      diffScope = await deps.applyDiffScope(
+        tempDirPath,
+        config,
+        diff,
+        options.diff,
+      );
+    }
 
-    const config = deps.buildConfig(options);
-
-    packResult = await deps.pack([tempDirPath], config, (message) => {
-      logger.info(message);
-    });
+    packResult = await deps.pack(
+      [tempDirPath],
+      diffScope?.config ?? config,
+      (message, progress) => {
+        logger.info(message);
+        options.progressCallback?.(message, progress);
+      },
+      options.signal,
+      { changes: diffScope?.changes, gitHistory: history },
+      fileChangeCounts,
+    );
   } finally {
     await deps.cleanupTempDirectory(tempDirPath);
   }
 
-  const finalConfig = buildConfig(options);
+  const finalConfig =
+    diffScope?.config ??
+    applySourceRevision(buildConfig(options, source), revision);
 
   return {
     packResult,
+    ...revision,
     config: finalConfig,
   };
 };
 
+const splitPatterns = (patterns: string | undefined): string[] =>
+  patterns ? patterns.split(',') : [];
+
+/**
+ * Scopes the filters to each repository of a multi-repository source. The
+ * request's include patterns apply to repositories without their own, and
+ * its ignore patterns to all of them.
+ */
+const applyRepositoryFilters = (
+  config: ConfigBase,
+  options: CrawlOptions,
+  repositories: CrawlRepository[],
+): ConfigBase => {
+  const prefixPatterns = (prefix: string, patterns: string[]) =>
+    patterns.map((pattern) => `${prefix}/${pattern}`);
+  const hasInclude =
+    Boolean(options.include) ||
+    repositories.some((repository) => repository.include);
+
+  return {
+    ...config,
+    // Without any include patterns every file is included
+    ...(hasInclude && {
+      include: repositories.flatMap((repository) => {
+        const include = repository.include ?? options.include;
+        return prefixPatterns(
+          repository.prefix,
+          include ? splitPatterns(include) : ['**/*'],
+        );
+      }),
+    }),
+    ignore: {
+      ...config.ignore,
+      customPatterns: repositories.flatMap((repository) =>
+        prefixPatterns(repository.prefix, [
+          ...splitPatterns(options.ignore),
+          ...splitPatterns(repository.ignore),
+        ]),
+      ),
+    },
+    output: {
+      ...config.output,
+      repositories: repositories.map(({ prefix, url, ref }) => ({
+        prefix,
+        url,
+        ref,
+      })),
+    },
+  };
+};
+
 /**
  * Builds Crawl configuration from options. Simplified as CWD is no longer relevant.
  *
  */
-const buildConfig = (options: CrawlOptions): ConfigMerged => {
-  const config: ConfigBase = {};
+const buildConfig = (
+  options: CrawlOptions,
+  source?: CrawlSource | string,
+): ConfigMerged => {
+  let config: ConfigBase = {};
 
   if (options.output) {
     config.output = { filePath: options.output };
@@ -127,7 +203,13 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
     };
   }
   if (options.securityCheck === false) {
-    config.security = { enableSecurityCheck: options.securityCheck };
+    config.security = { ...config.security, enableSecurityCheck: false };
+  }
+  if (options.suspiciousFileAction) {
+    config.security = {
+      ...config.security,
+      suspiciousFileAction: options.suspiciousFileAction,
+    };
   }
   if (options.fileSummary === false) {
     config.output = {
@@ -161,6 +243,18 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
     config.output = { ...config.output, compress: options.compress };
   }
 
+  if (options.maxTokens !== undefined) {
+    config.output = { ...config.output, maxTokens: options.maxTokens };
+  }
+  if (options.splitOutput) {
+    config.output = { ...config.output, splitOutput: options.splitOutput };
+  }
+  if (options.templateContent) {
+    config.output = {
+      ...config.output,
+      customTemplate: options.templateContent,
+    };
+  }
   if (options.tokenCountEncoding) {
     config.tokenCount = { encoding: options.tokenCountEncoding };
   }
@@ -187,6 +281,59 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
     };
   }
 
+  if (options.outline !== undefined) {
+    config.output = { ...config.output, outline: options.outline };
+  }
+
+  if (options.task) {
+    config.output = {
+      ...config.output,
+      task: {
+        query: options.task,
+        ...(options.taskMaxFiles !== undefined
+          ? { maxFiles: options.taskMaxFiles }
+          : {}),
+      },
+    };
+  }
+
+  if (options.dependencyGraph) {
+    config.output = {
+      ...config.output,
+      dependencyGraph: options.dependencyGraph,
+    };
+  }
+
+  if (options.chunking) {
+    config.output = { ...config.output, chunking: options.chunking };
+  }
+
+  if (options.gitIncludeLog !== undefined) {
+    config.output = {
+      ...config.output,
+      git: { ...config.output?.git, includeLog: options.gitIncludeLog },
+    };
+  }
+  if (options.gitIncludeBlameSummary !== undefined) {
+    config.output = {
+      ...config.output,
+      git: {
+        ...config.output?.git,
+        includeBlameSummary: options.gitIncludeBlameSummary,
+      },
+    };
+  }
+  if (options.gitLogMaxCommits !== undefined) {
+    config.output = {
+      ...config.output,
+      git: { ...config.output?.git, logMaxCommits: options.gitLogMaxCommits },
+    };
+  }
+
+  if (source && typeof source !== 'string' && source.type === 'repositories') {
+    config = applyRepositoryFilters(config, options, source.repositories);
+  }
+
   try {
     return configMergedSchema.parse(config);
   } catch (error) {
@@ -0,0 +1,134 @@
+import {
+  configMergedSchema,
+  type ConfigBase,
+  type ConfigMerged,
+} from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { CrawlOptions, CrawlSource } from '~/types';
+import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
+import { searchFiles } from '../file/fileSearch';
+import {
+  buildDependencyGraph,
+  type DependencyGraph,
+} from '../graph/buildDependencyGraph';
+import { formatDependencyGraph } from '../graph/formatDependencyGraph';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
+import {
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
+
+export interface DependencyGraphActionRunnerResult extends SourceRevision {
+  graph: DependencyGraph;
+  // The graph rendered in the requested format
+  output: string;
+  config: ConfigMerged;
+}
+
+/**
+ * Fetches a repository (clone, local copy or archive) and builds the graph
+ * of which of its files, or directories, import which. Only paths end up in
+ * the graph, so no security check is run.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
+ * @param options Crawl options selecting the files, and the graph's level
+ *   and format.
+ * @returns The graph, its rendering and the merged configuration.
+ */
+export const runDependencyGraphAction = async (
+  source: CrawlSource | string,
+  options: CrawlOptions,
+  deps = {
+    prepareSourceDirectory,
+    cleanupTempDirectory,
+    searchFiles,
+    buildDependencyGraph,
+    buildConfig,
+  },
+): Promise<DependencyGraphActionRunnerResult> => {
+  logger.info(
+    'Running dependency graph action for source:',
+    describeCrawlSource(source),
+  );
+
+  const { directory: tempDirPath, revision } =
+    await deps.prepareSourceDirectory(source, options);
+  const progressCallback = options.progressCallback ?? (() => {});
+  const { signal } = options;
+  let config: ConfigMerged;
+  let graph: DependencyGraph;
+  let output: string;
+
+  try {
+    config = deps.buildConfig(options);
+    // Always set by buildConfig
+    const graphConfig = config.output.dependencyGraph ?? {
+      level: 'file',
+      format: 'mermaid',
+    };
+
+    // --- Pipeline: Search -> Graph -> Format ---
+    progressCallback('Searching for files...', { phase: 'searching' });
+    const { filePaths } = await deps.searchFiles(tempDirPath, config);
+    signal?.throwIfAborted();
+
+    progressCallback('Building dependency graph...', { phase: 'graphing' });
+    graph = await deps.buildDependencyGraph(
+      [{ rootDir: tempDirPath, filePaths }],
+      graphConfig.level,
+    );
+    output = formatDependencyGraph(graph, graphConfig.format);
+    // --- End of pipeline ---
+  } finally {
+    await deps.cleanupTempDirectory(tempDirPath);
+  }
+
+  return {
+    graph,
+    output,
+    ...revision,
+    config,
+  };
+};
+
+/**
+ * Builds configuration relevant to dependency graph generation.
+ */
+const buildConfig = (options: CrawlOptions): ConfigMerged => {
+  const { level, format } = options.dependencyGraph ?? {};
+  const config: ConfigBase = {
+    output: {
+      dependencyGraph: {
+        ...(level ? { level } : {}),
+        ...(format ? { format } : {}),
+      },
+    },
+  };
+
+  if (options.include) {
+    config.include = options.include.split(',');
+  }
+  if (options.ignore) {
+    config.ignore = { customPatterns: options.ignore.split(',') };
+  }
+  if (options.gitignore === false) {
+    config.ignore = { ...config.ignore, useGitignore: options.gitignore };
+  }
+  if (options.defaultPatterns === false) {
+    config.ignore = {
+      ...config.ignore,
+      useDefaultPatterns: options.defaultPatterns,
+    };
+  }
+
+  try {
+    return configMergedSchema.parse(config);
+  } catch (error) {
+    rethrowValidationErrorIfZodError(
+      error,
+      'Invalid configuration options for dependency graph',
+    );
+    throw error;
+  }
+};
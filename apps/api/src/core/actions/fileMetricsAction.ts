@@ -1,104 +1,123 @@
-import { isGitInstalled } from '../file/gitCommand';
+import type { TiktokenEncoding } from 'tiktoken';
+
 import {
   configMergedSchema,
   type ConfigBase,
   type ConfigMerged,
 } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import type { CrawlOptions } from '~/types';
+import type { CrawlOptions, CrawlSource } from '~/types';
 import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
-import type { ProcessedFile } from '../file/fileTypes';
 import { collectFiles } from '../file/fileCollect';
 import { processFiles } from '../file/fileProcess';
 import { searchFiles } from '../file/fileSearch';
 import { sortPaths } from '../file/filePathSort';
 import {
-  parseRemoteValue,
-  createTempDirectory,
-  cloneRepository,
-  cleanupTempDirectory,
-} from '../utils/remoteUtils';
-
-export interface FileMetrics {
-  path: string;
-  content: string;
-  lineCount: number;
-  characterCount: number;
-  fileSize: number;
-}
-
-export interface FileMetricsActionRunnerResult {
-  files: FileMetrics[];
+  type RepositoryMetrics,
+  calculateRepositoryMetrics,
+} from '../metrics/calculateRepositoryMetrics';
+import { validateFileSafety } from '../security/validateFileSafety';
+import type { SuspiciousFileResult } from '../security/workers/securityCheckWorker';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
+import {
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
+
+// Counted besides the configured encoding unless the request names others
+const DEFAULT_METRICS_TOKEN_ENCODINGS: TiktokenEncoding[] = [
+  'o200k_base',
+  'cl100k_base',
+];
+
+export interface FileMetricsActionRunnerResult extends SourceRevision {
+  metrics: RepositoryMetrics;
   config: ConfigMerged;
+  suspiciousFilesResults: SuspiciousFileResult[];
 }
 
 /**
- * Clones a remote repository, processes its files, and calculates metrics.
- * @param remoteUrl The remote repository URL or shorthand.
+ * Fetches a repository (clone, local copy or archive), processes its files, and calculates metrics.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
  * @param options Crawl options influencing file processing.
- * @returns An array of file metrics and the merged configuration.
+ * @returns The repository's metrics and the merged configuration.
  */
 export const runFileMetricsAction = async (
-  remoteUrl: string,
+  source: CrawlSource | string,
   options: CrawlOptions,
   deps = {
-    isGitInstalled,
-    parseRemoteValue,
-    createTempDirectory,
-    cloneRepository,
+    prepareSourceDirectory,
     cleanupTempDirectory,
     searchFiles,
     sortPaths,
     collectFiles,
+    validateFileSafety,
     processFiles,
+    calculateRepositoryMetrics,
     buildConfig,
   },
 ): Promise<FileMetricsActionRunnerResult> => {
-  logger.info('Running file metrics action for remote URL:', remoteUrl);
-
-  if (!(await deps.isGitInstalled())) {
-    throw new Error('Git is not installed or not in the system PATH.');
-  }
-
-  const parsedFields = deps.parseRemoteValue(remoteUrl);
-  const tempDirPath = await deps.createTempDirectory();
-  let filesWithMetrics: FileMetrics[] = [];
+  logger.info(
+    'Running file metrics action for source:',
+    describeCrawlSource(source),
+  );
+
+  const { directory: tempDirPath, revision } =
+    await deps.prepareSourceDirectory(source, options);
+  const progressCallback = options.progressCallback ?? (() => {});
+  const { signal } = options;
+  let metrics: RepositoryMetrics;
+  let suspiciousFilesResults: SuspiciousFileResult[] = [];
 
   try {
-    await deps.cloneRepository(
-      parsedFields.repoUrl,
-      tempDirPath,
-      options.remoteBranch || parsedFields.remoteBranch,
-    );
-
     const config = deps.buildConfig(options);
 
-    // --- Pipeline: Search -> Sort -> Collect -> Process ---
-    logger.info('Searching files...');
+    // --- Pipeline: Search -> Sort -> Collect -> Process -> Measure ---
+    progressCallback('Searching for files...', { phase: 'searching' });
     const { filePaths } = await deps.searchFiles(tempDirPath, config);
+    signal?.throwIfAborted();
 
-    logger.info('Sorting files...');
+    progressCallback('Sorting files...', { phase: 'sorting' });
     const sortedFilePaths = await deps.sortPaths(filePaths);
 
-    logger.info('Collecting files...');
+    progressCallback('Collecting files...', { phase: 'collecting' });
     const rawFiles = await deps.collectFiles(
       sortedFilePaths,
       tempDirPath,
-      () => {},
+      progressCallback,
+      signal,
     );
 
-    logger.info('Processing files...');
-    const processedFiles = await deps.processFiles(rawFiles, config, () => {});
-    // --- End of pipeline ---
+    const { safeRawFiles, suspiciousFilesResults: suspiciousResults } =
+      await deps.validateFileSafety(rawFiles, progressCallback, config, signal);
+    suspiciousFilesResults = suspiciousResults;
 
-    logger.info('Calculating metrics...');
-    filesWithMetrics = processedFiles.map((file: ProcessedFile) => ({
-      path: file.path,
-      content: file.content,
-      lineCount: file.content.split('\n').length,
-      characterCount: file.content.length,
-      fileSize: Buffer.byteLength(file.content, 'utf8'),
-    }));
+    progressCallback('Processing files...', { phase: 'processing' });
+    const processedFiles = await deps.processFiles(
+      safeRawFiles,
+      config,
+      progressCallback,
+      signal,
+    );
+    signal?.throwIfAborted();
+
+    progressCallback('Calculating metrics...', { phase: 'metrics' });
+    const encodings = [
+      ...new Set([
+        config.tokenCount.encoding,
+        ...(options.tokenCountEncodings ?? DEFAULT_METRICS_TOKEN_ENCODINGS),
+      ]),
+    ];
+    metrics = await deps.calculateRepositoryMetrics(
+      processedFiles,
+      encodings,
+      config.output.topFilesLength,
+      progressCallback,
+      signal,
+    );
+    // --- End of pipeline ---
   } finally {
     await deps.cleanupTempDirectory(tempDirPath);
   }
@@ -106,8 +125,10 @@ export const runFileMetricsAction = async (
   const finalConfig = buildConfig(options);
 
   return {
-    files: filesWithMetrics,
+    metrics,
+    ...revision,
     config: finalConfig,
+    suspiciousFilesResults,
   };
 };
 
@@ -144,6 +165,24 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
       removeEmptyLines: options.removeEmptyLines,
     };
   }
+  if (options.securityCheck === false) {
+    config.security = { ...config.security, enableSecurityCheck: false };
+  }
+  if (options.suspiciousFileAction) {
+    config.security = {
+      ...config.security,
+      suspiciousFileAction: options.suspiciousFileAction,
+    };
+  }
+  if (options.tokenCountEncoding) {
+    config.tokenCount = { encoding: options.tokenCountEncoding };
+  }
+  if (options.topFilesLen !== undefined) {
+    config.output = {
+      ...config.output,
+      topFilesLength: options.topFilesLen,
+    };
+  }
 
   try {
     return configMergedSchema.parse(config);
@@ -1,69 +1,60 @@
-import { isGitInstalled } from '../file/gitCommand';
 import {
   configMergedSchema,
   type ConfigBase,
   type ConfigMerged,
 } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import type { CrawlOptions } from '~/types';
+import type { CrawlOptions, CrawlSource } from '~/types';
 import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
 import { generateTreeString } from '../file/fileTreeGenerate';
 import { type FileSearchResult, searchFiles } from '../file/fileSearch';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
 import {
-  parseRemoteValue,
-  createTempDirectory,
-  cloneRepository,
-  cleanupTempDirectory,
-} from '../utils/remoteUtils';
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
 
-export interface FileTreeActionRunnerResult {
+export interface FileTreeActionRunnerResult extends SourceRevision {
   treeString: string;
   config: ConfigMerged;
 }
 
 /**
- * Clones a remote repository and generates its file tree structure.
- * @param remoteUrl The remote repository URL or shorthand.
+ * Fetches a repository (clone, local copy or archive) and generates its file tree structure.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
  * @param options Crawl options influencing file search (e.g., ignore patterns).
  * @returns The generated tree string and the merged configuration.
  */
 export const runFileTreeAction = async (
-  remoteUrl: string,
+  source: CrawlSource | string,
   options: CrawlOptions,
   deps = {
-    isGitInstalled,
-    parseRemoteValue,
-    createTempDirectory,
-    cloneRepository,
+    prepareSourceDirectory,
     cleanupTempDirectory,
     searchFiles,
     generateTreeString,
     buildConfig,
   },
 ): Promise<FileTreeActionRunnerResult> => {
-  logger.info('Running file tree action for remote URL:', remoteUrl);
+  logger.info(
+    'Running file tree action for source:',
+    describeCrawlSource(source),
+  );
 
-  if (!(await deps.isGitInstalled())) {
-    throw new Error('Git is not installed or not in the system PATH.');
-  }
-
-  const parsedFields = deps.parseRemoteValue(remoteUrl);
-  const tempDirPath = await deps.createTempDirectory();
+  const { directory: tempDirPath, revision } =
+    await deps.prepareSourceDirectory(source, options);
   let treeString: string;
   let fileSearchResult: FileSearchResult = { filePaths: [], emptyDirPaths: [] };
 
   try {
-    await deps.cloneRepository(
-      parsedFields.repoUrl,
-      tempDirPath,
-      options.remoteBranch || parsedFields.remoteBranch,
-    );
-
     const config = deps.buildConfig(options);
 
     // Search files in the cloned directory
     // Note: searchFiles takes a single rootDir
     fileSearchResult = await deps.searchFiles(tempDirPath, config);
+    options.signal?.throwIfAborted();
 
     // Generate tree string from search results
     treeString = deps.generateTreeString(
@@ -80,6 +71,7 @@ export const runFileTreeAction = async (
 
   return {
     treeString,
+    ...revision,
     config: finalConfig,
   };
 };
@@ -3,3 +3,6 @@ export * from './runComprehensiveLlmsTxtAction';
 export * from './remoteAction';
 export * from './defaultAction';
 export * from './fileTreeAction';
+export * from './fileMetricsAction';
+export * from './outlineAction';
+export * from './dependencyGraphAction';
@@ -1,4 +1,3 @@
-import { isGitInstalled } from '../file/gitCommand';
 import {
   configMergedSchema,
   type ConfigBase,
@@ -6,66 +5,78 @@ import {
   type OutputStyle,
 } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import type { CrawlOptions } from '~/types';
+import type { CrawlOptions, CrawlSource } from '~/types';
 import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
 import { generateOutput } from '../output/outputGenerate';
 import { collectFiles } from '../file/fileCollect';
-import { processFiles } from '../file/fileProcess';
 import { searchFiles } from '../file/fileSearch';
 import { sortPaths } from '../file/filePathSort';
 import {
-  parseRemoteValue,
-  createTempDirectory,
-  cloneRepository,
-  cleanupTempDirectory,
-} from '../utils/remoteUtils';
+  applyTokenBudget,
+  type TokenBudgetResult,
+} from '../packager/tokenBudget';
+import { type SplitOutputResult, splitOutput } from '../output/outputSplit';
+import { validateFileSafety } from '../security/validateFileSafety';
+import type { SuspiciousFileResult } from '../security/workers/securityCheckWorker';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
+import {
+  applySourceRevision,
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
 
-export interface LlmsTxtActionRunnerResult {
+export interface LlmsTxtActionRunnerResult extends SourceRevision {
   llmsTxt: string;
   config: ConfigMerged;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  tokenBudget?: TokenBudgetResult;
+  parts?: SplitOutputResult['parts'];
+  manifest?: SplitOutputResult['manifest'];
 }
 
 /**
- * Clones a remote repository and generates the LLMSTxt output string.
- * @param remoteUrl The remote repository URL or shorthand.
+ * Fetches a repository (clone, local copy or archive) and generates the LLMSTxt output string.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
  * @param options Crawl options influencing the output generation.
  * @returns The generated LLMSTxt string and the merged configuration.
  */
 export const runLlmsTxtAction = async (
-  remoteUrl: string,
+  source: CrawlSource | string,
   options: CrawlOptions,
   deps = {
-    isGitInstalled,
-    parseRemoteValue,
-    createTempDirectory,
-    cloneRepository,
+    prepareSourceDirectory,
     cleanupTempDirectory,
     searchFiles,
     sortPaths,
     collectFiles,
-    processFiles,
+    validateFileSafety,
+    applyTokenBudget,
     generateOutput,
+    splitOutput,
     buildConfig,
   },
 ): Promise<LlmsTxtActionRunnerResult> => {
-  logger.info('Running llmstxt action for remote URL:', remoteUrl);
-
-  if (!(await deps.isGitInstalled())) {
-    throw new Error('Git is not installed or not in the system PATH.');
-  }
+  logger.info(
+    'Running llmstxt action for source:',
+    describeCrawlSource(source),
+  );
 
-  const parsedFields = deps.parseRemoteValue(remoteUrl);
-  const tempDirPath = await deps.createTempDirectory();
+  const {
+    directory: tempDirPath,
+    revision,
+    fileChangeCounts,
+  } = await deps.prepareSourceDirectory(source, options);
   let llmsTxt: string;
+  let suspiciousFilesResults: SuspiciousFileResult[] = [];
+  let tokenBudget: TokenBudgetResult | undefined;
+  let split: SplitOutputResult | undefined;
 
   try {
-    await deps.cloneRepository(
-      parsedFields.repoUrl,
-      tempDirPath,
-      options.remoteBranch || parsedFields.remoteBranch,
-    );
-
-    const config = deps.buildConfig(options);
+    const config = applySourceRevision(deps.buildConfig(options), revision);
+    const progressCallback = options.progressCallback ?? (() => {});
+    const { signal } = options;
 
     // --- Full pipeline: Search -> Sort -> Collect -> Process -> Generate ---
     logger.info('Searching files in cloned repo...');
@@ -79,12 +90,29 @@ export const runLlmsTxtAction = async (
     const rawFiles = await deps.collectFiles(
       sortedFilePaths,
       tempDirPath,
-      () => {},
+      progressCallback,
+      signal,
     );
 
+    const { safeRawFiles, suspiciousFilesResults: suspiciousResults } =
+      await deps.validateFileSafety(rawFiles, progressCallback, config, signal);
+    suspiciousFilesResults = suspiciousResults;
+
     logger.info('Processing files...');
-    const processedFiles = await deps.processFiles(rawFiles, config, () => {});
+    const budgetResult = await deps.applyTokenBudget(
+      [tempDirPath],
+      safeRawFiles,
+      allFilePaths,
+      config,
+      progressCallback,
+      signal,
+      {},
+      fileChangeCounts,
+    );
+    const processedFiles = budgetResult.processedFiles;
+    tokenBudget = budgetResult.tokenBudget;
 
+    signal?.throwIfAborted();
     logger.info('Generating output...');
     llmsTxt = await deps.generateOutput(
       [tempDirPath],
@@ -92,16 +120,30 @@ export const runLlmsTxtAction = async (
       processedFiles,
       allFilePaths,
     );
+    if (config.output.splitOutput) {
+      logger.info('Splitting output into parts...');
+      split = await deps.splitOutput(
+        [tempDirPath],
+        config,
+        processedFiles,
+        allFilePaths,
+      );
+    }
     // --- End of pipeline ---
   } finally {
     await deps.cleanupTempDirectory(tempDirPath);
   }
 
-  const finalConfig = buildConfig(options);
+  const finalConfig = applySourceRevision(buildConfig(options), revision);
 
   return {
     llmsTxt,
+    ...revision,
     config: finalConfig,
+    suspiciousFilesResults,
+    tokenBudget,
+    parts: split?.parts,
+    manifest: split?.manifest,
   };
 };
 
@@ -180,6 +222,42 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
       git: { ...config.output?.git, sortByChanges: false },
     };
   }
+  if (options.fileSummary !== undefined) {
+    config.output = { ...config.output, fileSummary: options.fileSummary };
+  }
+  if (options.directoryStructure !== undefined) {
+    config.output = {
+      ...config.output,
+      directoryStructure: options.directoryStructure,
+    };
+  }
+  if (options.compress !== undefined) {
+    config.output = { ...config.output, compress: options.compress };
+  }
+  if (options.maxTokens !== undefined) {
+    config.output = { ...config.output, maxTokens: options.maxTokens };
+  }
+  if (options.splitOutput) {
+    config.output = { ...config.output, splitOutput: options.splitOutput };
+  }
+  if (options.templateContent) {
+    config.output = {
+      ...config.output,
+      customTemplate: options.templateContent,
+    };
+  }
+  if (options.tokenCountEncoding) {
+    config.tokenCount = { encoding: options.tokenCountEncoding };
+  }
+  if (options.securityCheck === false) {
+    config.security = { ...config.security, enableSecurityCheck: false };
+  }
+  if (options.suspiciousFileAction) {
+    config.security = {
+      ...config.security,
+      suspiciousFileAction: options.suspiciousFileAction,
+    };
+  }
 
   try {
     return configMergedSchema.parse(config);
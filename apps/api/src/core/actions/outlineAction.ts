@@ -0,0 +1,149 @@
+import {
+  configMergedSchema,
+  type ConfigBase,
+  type ConfigMerged,
+} from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { CrawlOptions, CrawlSource } from '~/types';
+import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
+import { collectFiles } from '../file/fileCollect';
+import { buildOutline } from '../file/fileOutline';
+import { searchFiles } from '../file/fileSearch';
+import { sortPaths } from '../file/filePathSort';
+import type { CodeSymbol } from '../file/fileTypes';
+import { validateFileSafety } from '../security/validateFileSafety';
+import type { SuspiciousFileResult } from '../security/workers/securityCheckWorker';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
+import {
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
+
+export interface OutlineActionRunnerResult extends SourceRevision {
+  symbols: CodeSymbol[];
+  // Files searched, including those without any symbols
+  totalFiles: number;
+  config: ConfigMerged;
+  suspiciousFilesResults: SuspiciousFileResult[];
+}
+
+/**
+ * Fetches a repository (clone, local copy or archive) and lists the
+ * functions, classes and other symbols of its files.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
+ * @param options Crawl options selecting the files to outline.
+ * @returns The symbols of every file and the merged configuration.
+ */
+export const runOutlineAction = async (
+  source: CrawlSource | string,
+  options: CrawlOptions,
+  deps = {
+    prepareSourceDirectory,
+    cleanupTempDirectory,
+    searchFiles,
+    sortPaths,
+    collectFiles,
+    validateFileSafety,
+    buildOutline,
+    buildConfig,
+  },
+): Promise<OutlineActionRunnerResult> => {
+  logger.info(
+    'Running outline action for source:',
+    describeCrawlSource(source),
+  );
+
+  const { directory: tempDirPath, revision } =
+    await deps.prepareSourceDirectory(source, options);
+  const progressCallback = options.progressCallback ?? (() => {});
+  const { signal } = options;
+  let symbols: CodeSymbol[];
+  let totalFiles: number;
+  let suspiciousFilesResults: SuspiciousFileResult[] = [];
+
+  try {
+    const config = deps.buildConfig(options);
+
+    // --- Pipeline: Search -> Sort -> Collect -> Outline ---
+    progressCallback('Searching for files...', { phase: 'searching' });
+    const { filePaths } = await deps.searchFiles(tempDirPath, config);
+    totalFiles = filePaths.length;
+    signal?.throwIfAborted();
+
+    progressCallback('Sorting files...', { phase: 'sorting' });
+    const sortedFilePaths = await deps.sortPaths(filePaths);
+
+    progressCallback('Collecting files...', { phase: 'collecting' });
+    const rawFiles = await deps.collectFiles(
+      sortedFilePaths,
+      tempDirPath,
+      progressCallback,
+      signal,
+    );
+
+    // Signatures and docstrings can hold secrets too
+    const { safeRawFiles, suspiciousFilesResults: suspiciousResults } =
+      await deps.validateFileSafety(rawFiles, progressCallback, config, signal);
+    suspiciousFilesResults = suspiciousResults;
+
+    progressCallback('Outlining files...', { phase: 'outlining' });
+    symbols = await deps.buildOutline(safeRawFiles, progressCallback, signal);
+    // --- End of pipeline ---
+  } finally {
+    await deps.cleanupTempDirectory(tempDirPath);
+  }
+
+  const finalConfig = buildConfig(options);
+
+  return {
+    symbols,
+    totalFiles,
+    ...revision,
+    config: finalConfig,
+    suspiciousFilesResults,
+  };
+};
+
+/**
+ * Builds configuration relevant to outline generation.
+ */
+const buildConfig = (options: CrawlOptions): ConfigMerged => {
+  const config: ConfigBase = {};
+
+  if (options.include) {
+    config.include = options.include.split(',');
+  }
+  if (options.ignore) {
+    config.ignore = { customPatterns: options.ignore.split(',') };
+  }
+  if (options.gitignore === false) {
+    config.ignore = { ...config.ignore, useGitignore: options.gitignore };
+  }
+  if (options.defaultPatterns === false) {
+    config.ignore = {
+      ...config.ignore,
+      useDefaultPatterns: options.defaultPatterns,
+    };
+  }
+  if (options.securityCheck === false) {
+    config.security = { ...config.security, enableSecurityCheck: false };
+  }
+  if (options.suspiciousFileAction) {
+    config.security = {
+      ...config.security,
+      suspiciousFileAction: options.suspiciousFileAction,
+    };
+  }
+
+  try {
+    return configMergedSchema.parse(config);
+  } catch (error) {
+    rethrowValidationErrorIfZodError(
+      error,
+      'Invalid configuration options for outline',
+    );
+    throw error;
+  }
+};
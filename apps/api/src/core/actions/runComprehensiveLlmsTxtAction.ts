@@ -1,4 +1,3 @@
-import { isGitInstalled } from '../file/gitCommand';
 import {
   configMergedSchema,
   type ConfigBase,
@@ -6,21 +5,29 @@ import {
   type OutputStyle,
 } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import type { CrawlOptions } from '~/types';
+import type { CrawlOptions, CrawlSource } from '~/types';
 import { rethrowValidationErrorIfZodError } from '~/utils/errorHandle';
 import { generateOutput } from '../output/outputGenerate';
 import { collectFiles } from '../file/fileCollect';
-import { processFiles } from '../file/fileProcess';
 import { searchFiles, type FileSearchResult } from '../file/fileSearch';
 import { sortPaths } from '../file/filePathSort';
 import { generateTreeString } from '../file/fileTreeGenerate';
-import type { ProcessedFile } from '../file/fileTypes';
+import type { ProcessedFile, RawFile } from '../file/fileTypes';
+import { calculateOutputMetrics } from '../metrics/calculateOutputMetrics';
 import {
-  parseRemoteValue,
-  createTempDirectory,
-  cloneRepository,
-  cleanupTempDirectory,
-} from '../utils/remoteUtils';
+  applyTokenBudget,
+  type TokenBudgetResult,
+} from '../packager/tokenBudget';
+import { type SplitOutputResult, splitOutput } from '../output/outputSplit';
+import { validateFileSafety } from '../security/validateFileSafety';
+import type { SuspiciousFileResult } from '../security/workers/securityCheckWorker';
+import { cleanupTempDirectory } from '../utils/remoteUtils';
+import {
+  applySourceRevision,
+  describeCrawlSource,
+  prepareSourceDirectory,
+  type SourceRevision,
+} from '../utils/sourceUtils';
 
 // Interface for file metrics (consistent with fileMetricsAction)
 export interface FileMetrics {
@@ -31,57 +38,61 @@ export interface FileMetrics {
   // Content is omitted here as it's in the main output
 }
 
-export interface ComprehensiveLlmsTxtActionRunnerResult {
+export interface ComprehensiveLlmsTxtActionRunnerResult extends SourceRevision {
   comprehensiveText: string; // The final combined output
   config: ConfigMerged;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  tokenBudget?: TokenBudgetResult;
+  // Parts hold the file contents; each repeats the directory structure
+  parts?: SplitOutputResult['parts'];
+  manifest?: SplitOutputResult['manifest'];
 }
 
 /**
- * Clones a remote repo, generates comprehensive LLMSTxt including
+ * Fetches a repo (clone, local copy or archive), generates comprehensive LLMSTxt including
  * main content, file tree, and file summaries.
- * @param remoteUrl The remote repository URL or shorthand.
+ * @param source The remote repository URL or shorthand, an allowed local
+ *   directory or an uploaded archive.
  * @param options Crawl options influencing output generation.
  * @returns The comprehensive LLMSTxt string and the merged configuration.
  */
 export const runComprehensiveLlmsTxtAction = async (
-  remoteUrl: string,
+  source: CrawlSource | string,
   options: CrawlOptions,
   deps = {
-    isGitInstalled,
-    parseRemoteValue,
-    createTempDirectory,
-    cloneRepository,
+    prepareSourceDirectory,
     cleanupTempDirectory,
     searchFiles,
     sortPaths,
     collectFiles,
-    processFiles,
+    validateFileSafety,
+    applyTokenBudget,
+    calculateOutputMetrics,
     generateOutput,
+    splitOutput,
     generateTreeString,
     buildConfig, // Keep internal
   },
 ): Promise<ComprehensiveLlmsTxtActionRunnerResult> => {
   logger.info(
-    'Running comprehensive llmstxt action for remote URL:',
-    remoteUrl,
+    'Running comprehensive llmstxt action for source:',
+    describeCrawlSource(source),
   );
 
-  if (!(await deps.isGitInstalled())) {
-    throw new Error('Git is not installed or not in the system PATH.');
-  }
-
-  const parsedFields = deps.parseRemoteValue(remoteUrl);
-  const tempDirPath = await deps.createTempDirectory();
+  const {
+    directory: tempDirPath,
+    revision,
+    fileChangeCounts,
+  } = await deps.prepareSourceDirectory(source, options);
   let comprehensiveText: string;
+  let suspiciousFilesResults: SuspiciousFileResult[] = [];
+  let tokenBudget: TokenBudgetResult | undefined;
+  let split: SplitOutputResult | undefined;
 
   try {
-    await deps.cloneRepository(
-      parsedFields.repoUrl,
-      tempDirPath,
-      options.remoteBranch || parsedFields.remoteBranch,
-    );
-
-    const config = deps.buildConfig(options);
+    const config = applySourceRevision(deps.buildConfig(options), revision);
+    const progressCallback = options.progressCallback ?? (() => {});
+    const { signal } = options;
 
     // --- Full pipeline: Search -> Sort -> Collect -> Process ---
     logger.info('Searching files...');
@@ -98,17 +109,56 @@ export const runComprehensiveLlmsTxtAction = async (
     const rawFiles = await deps.collectFiles(
       sortedFilePaths,
       tempDirPath,
-      () => {},
+      progressCallback,
+      signal,
+    );
+
+    const { safeRawFiles, suspiciousFilesResults: suspiciousResults } =
+      await deps.validateFileSafety(rawFiles, progressCallback, config, signal);
+    suspiciousFilesResults = suspiciousResults;
+
+    logger.info('Generating file tree...');
+    const treeString = deps.generateTreeString(
+      allFilePaths,
+      searchResult.emptyDirPaths, // Use actual empty dirs found
     );
 
+    // The appended tree and summaries count against maxTokens too, so the
+    // files get what is left. Summaries of the raw files are an upper bound.
+    let budgetConfig = config;
+    const maxTokens = config.output.maxTokens;
+    if (maxTokens !== undefined) {
+      const reservedTokens = await deps.calculateOutputMetrics(
+        formatAppendix(treeString, summarizeFiles(safeRawFiles)),
+        config.tokenCount.encoding,
+      );
+      budgetConfig = {
+        ...config,
+        output: {
+          ...config.output,
+          maxTokens: Math.max(1, maxTokens - reservedTokens),
+        },
+      };
+    }
+
     logger.info('Processing files...');
-    const processedFiles: ProcessedFile[] = await deps.processFiles(
-      rawFiles,
-      config,
-      () => {},
+    const budgetResult = await deps.applyTokenBudget(
+      [tempDirPath],
+      safeRawFiles,
+      allFilePaths,
+      budgetConfig,
+      progressCallback,
+      signal,
+      {},
+      fileChangeCounts,
     );
+    const processedFiles: ProcessedFile[] = budgetResult.processedFiles;
+    if (maxTokens !== undefined && budgetResult.tokenBudget) {
+      tokenBudget = { ...budgetResult.tokenBudget, maxTokens };
+    }
     // --- End of pipeline ---
 
+    signal?.throwIfAborted();
     logger.info('Generating main output...');
     // Force includeEmptyDirectories for tree generation consistency here
     const treeConfig = {
@@ -122,51 +172,75 @@ export const runComprehensiveLlmsTxtAction = async (
       allFilePaths,
     );
 
-    logger.info('Generating file tree...');
-    const treeString = deps.generateTreeString(
-      allFilePaths,
-      searchResult.emptyDirPaths, // Use actual empty dirs found
-    );
-
     logger.info('Calculating file metrics...');
-    const fileSummaries: FileMetrics[] = processedFiles.map((file) => ({
-      path: file.path,
-      lineCount: file.content.split('\n').length,
-      characterCount: file.content.length,
-      fileSize: Buffer.byteLength(file.content, 'utf8'),
-    }));
+    const fileSummaries = summarizeFiles(processedFiles);
 
     // --- Combine Outputs ---
     logger.info('Combining outputs...');
-    let combinedOutput = mainOutput;
+    const combinedOutput =
+      mainOutput + formatAppendix(treeString, fileSummaries);
 
-    // Append Tree
-    combinedOutput += '\n\n## Directory Structure\n\n```\n';
-    combinedOutput += treeString;
-    combinedOutput += '\n```\n';
+    comprehensiveText = combinedOutput;
 
-    // Append Summaries
-    if (fileSummaries.length > 0) {
-      combinedOutput += '\n## File Summaries\n';
-      fileSummaries.forEach((summary) => {
-        combinedOutput += `\n- ${summary.path}: ${summary.lineCount} lines, ${summary.characterCount} chars, ${summary.fileSize} bytes`;
-      });
-      combinedOutput += '\n';
+    if (config.output.splitOutput) {
+      logger.info('Splitting output into parts...');
+      split = await deps.splitOutput(
+        [tempDirPath],
+        treeConfig,
+        processedFiles,
+        allFilePaths,
+      );
     }
-
-    comprehensiveText = combinedOutput;
   } finally {
     await deps.cleanupTempDirectory(tempDirPath);
   }
 
-  const finalConfig = buildConfig(options); // Get config used for return value
+  const finalConfig = applySourceRevision(buildConfig(options), revision); // Get config used for return value
 
   return {
     comprehensiveText,
+    ...revision,
     config: finalConfig,
+    suspiciousFilesResults,
+    tokenBudget,
+    parts: split?.parts,
+    manifest: split?.manifest,
   };
 };
 
+const summarizeFiles = (files: (ProcessedFile | RawFile)[]): FileMetrics[] =>
+  files.map((file) => ({
+    path: file.path,
+    lineCount: file.content.split('\n').length,
+    characterCount: file.content.length,
+    fileSize: Buffer.byteLength(file.content, 'utf8'),
+  }));
+
+/**
+ * Formats the directory structure and file summaries appended after the
+ * main output.
+ */
+const formatAppendix = (
+  treeString: string,
+  fileSummaries: FileMetrics[],
+): string => {
+  // Append Tree
+  let appendix = '\n\n## Directory Structure\n\n```\n';
+  appendix += treeString;
+  appendix += '\n```\n';
+
+  // Append Summaries
+  if (fileSummaries.length > 0) {
+    appendix += '\n## File Summaries\n';
+    for (const summary of fileSummaries) {
+      appendix += `\n- ${summary.path}: ${summary.lineCount} lines, ${summary.characterCount} chars, ${summary.fileSize} bytes`;
+    }
+    appendix += '\n';
+  }
+
+  return appendix;
+};
+
 // --- buildConfig (Similar to llmsTxtAction, includes relevant options) ---
 const buildConfig = (options: CrawlOptions): ConfigMerged => {
   const config: ConfigBase = {};
@@ -242,6 +316,42 @@ const buildConfig = (options: CrawlOptions): ConfigMerged => {
       git: { ...config.output?.git, sortByChanges: false },
     };
   }
+  if (options.fileSummary !== undefined) {
+    config.output = { ...config.output, fileSummary: options.fileSummary };
+  }
+  if (options.directoryStructure !== undefined) {
+    config.output = {
+      ...config.output,
+      directoryStructure: options.directoryStructure,
+    };
+  }
+  if (options.compress !== undefined) {
+    config.output = { ...config.output, compress: options.compress };
+  }
+  if (options.maxTokens !== undefined) {
+    config.output = { ...config.output, maxTokens: options.maxTokens };
+  }
+  if (options.splitOutput) {
+    config.output = { ...config.output, splitOutput: options.splitOutput };
+  }
+  if (options.templateContent) {
+    config.output = {
+      ...config.output,
+      customTemplate: options.templateContent,
+    };
+  }
+  if (options.tokenCountEncoding) {
+    config.tokenCount = { encoding: options.tokenCountEncoding };
+  }
+  if (options.securityCheck === false) {
+    config.security = { ...config.security, enableSecurityCheck: false };
+  }
+  if (options.suspiciousFileAction) {
+    config.security = {
+      ...config.security,
+      suspiciousFileAction: options.suspiciousFileAction,
+    };
+  }
 
   try {
     // Use parse to apply schema defaults
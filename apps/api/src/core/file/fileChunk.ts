@@ -0,0 +1,252 @@
+import crypto from 'node:crypto';
+
+import type { CodeSymbol, EmbeddingChunk } from './fileTypes';
+
+export interface ChunkOptions {
+  maxTokens: number;
+  // Tokens repeated at the start of the next chunk when a long symbol is
+  // split; at most half of `maxTokens`
+  overlapTokens: number;
+}
+
+// Lines of code, 1-based and inclusive, that become one or more chunks
+interface ChunkUnit {
+  startLine: number;
+  endLine: number;
+  symbol: string | null;
+  // Symbols nested in the unit, to split it along when it is too long
+  children: SymbolNode[];
+}
+
+interface SymbolNode {
+  qualifiedName: string;
+  startLine: number;
+  endLine: number;
+  children: SymbolNode[];
+}
+
+// Comments, decorators and attributes that belong to the definition below
+const LEADING_LINE_PATTERN = /^\s*(\/\/|\/\*|\*|#|@|--)/;
+
+const hashContent = (content: string): string =>
+  crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * Nests symbols by their line ranges. parseSymbols lists outer symbols
+ * before the symbols nested in them.
+ */
+const buildSymbolTree = (symbols: CodeSymbol[]): SymbolNode[] => {
+  const roots: SymbolNode[] = [];
+  const enclosing: SymbolNode[] = [];
+  const sortedSymbols = [...symbols].sort(
+    (a, b) => a.startLine - b.startLine || b.endLine - a.endLine,
+  );
+
+  for (const symbol of sortedSymbols) {
+    while (
+      enclosing.length > 0 &&
+      symbol.startLine > enclosing[enclosing.length - 1].endLine
+    ) {
+      enclosing.pop();
+    }
+    const node: SymbolNode = {
+      qualifiedName: symbol.parent
+        ? `${symbol.parent}.${symbol.name}`
+        : symbol.name,
+      startLine: symbol.startLine,
+      endLine: symbol.endLine,
+      children: [],
+    };
+    const parent = enclosing[enclosing.length - 1];
+    if (parent && symbol.endLine <= parent.endLine) {
+      parent.children.push(node);
+    } else if (!parent) {
+      roots.push(node);
+    } else {
+      // Overlaps its predecessor without being nested in it
+      continue;
+    }
+    enclosing.push(node);
+  }
+
+  return roots;
+};
+
+/**
+ * Splits the lines of a unit into the symbols nested in it and the code
+ * between them. A symbol takes the comments directly above it along.
+ */
+const splitUnit = (unit: ChunkUnit, lines: string[]): ChunkUnit[] => {
+  const units: ChunkUnit[] = [];
+  let cursor = unit.startLine;
+
+  for (const child of unit.children) {
+    if (child.startLine < cursor) {
+      continue;
+    }
+    let startLine = child.startLine;
+    while (
+      startLine - 1 >= cursor &&
+      LEADING_LINE_PATTERN.test(lines[startLine - 2])
+    ) {
+      startLine--;
+    }
+    if (startLine > cursor) {
+      units.push({
+        startLine: cursor,
+        endLine: startLine - 1,
+        symbol: unit.symbol,
+        children: [],
+      });
+    }
+    const endLine = Math.min(child.endLine, unit.endLine);
+    units.push({
+      startLine,
+      endLine,
+      symbol: child.qualifiedName,
+      children: child.children,
+    });
+    cursor = endLine + 1;
+  }
+  if (cursor <= unit.endLine) {
+    units.push({
+      startLine: cursor,
+      endLine: unit.endLine,
+      symbol: unit.symbol,
+      children: [],
+    });
+  }
+
+  return units;
+};
+
+/**
+ * Cuts a run of lines into windows of at most `maxTokens` tokens, each
+ * starting with the last `overlapTokens` tokens' worth of lines of the
+ * previous one. A single line longer than `maxTokens` is a window of its own.
+ */
+const splitLines = (
+  unit: ChunkUnit,
+  lineTokens: number[],
+  { maxTokens, overlapTokens }: ChunkOptions,
+): { startLine: number; endLine: number }[] => {
+  const maxOverlapTokens = Math.min(overlapTokens, Math.floor(maxTokens / 2));
+  const windows: { startLine: number; endLine: number }[] = [];
+  let startLine = unit.startLine;
+
+  while (startLine <= unit.endLine) {
+    let endLine = startLine;
+    let tokens = lineTokens[startLine - 1];
+    while (
+      endLine < unit.endLine &&
+      tokens + lineTokens[endLine] <= maxTokens
+    ) {
+      tokens += lineTokens[endLine];
+      endLine++;
+    }
+    windows.push({ startLine, endLine });
+    if (endLine === unit.endLine) {
+      break;
+    }
+
+    let nextStartLine = endLine + 1;
+    let overlap = 0;
+    while (
+      nextStartLine - 1 > startLine &&
+      overlap + lineTokens[nextStartLine - 2] <= maxOverlapTokens
+    ) {
+      overlap += lineTokens[nextStartLine - 2];
+      nextStartLine--;
+    }
+    startLine = nextStartLine;
+  }
+
+  return windows;
+};
+
+/**
+ * Splits a file into chunks for embedding. Every top-level function, class
+ * and other symbol, with the comments above it, becomes a chunk, and so does
+ * the code between them. A unit longer than `maxTokens` is split into the
+ * symbols nested in it, or, once there are none, into overlapping runs of
+ * lines. Chunks without any letter or digit, such as a closing brace, are
+ * dropped, and so are blank lines around a chunk.
+ * @param content The file's content, as it is in the repository.
+ * @param symbols The file's symbols, from `parseSymbols`; empty for
+ *   languages without a tree-sitter query.
+ * @param options The chunk size and overlap, in tokens.
+ * @param countTokens Counts the tokens of a piece of the file.
+ * @returns The chunks, in file order.
+ */
+export const chunkFile = (
+  content: string,
+  symbols: CodeSymbol[],
+  options: ChunkOptions,
+  countTokens: (text: string) => number,
+): EmbeddingChunk[] => {
+  const lines = content.split('\n');
+  // Each line counts its line break, so line counts add up to a chunk's
+  const lineTokens = lines.map((line) => countTokens(`${line}\n`));
+  const chunks: EmbeddingChunk[] = [];
+
+  const pushChunk = (
+    firstLine: number,
+    lastLine: number,
+    symbol: string | null,
+  ) => {
+    // Blank lines around a chunk are left out of its range
+    let startLine = firstLine;
+    let endLine = lastLine;
+    while (startLine < endLine && lines[startLine - 1].trim() === '') {
+      startLine++;
+    }
+    while (endLine > startLine && lines[endLine - 1].trim() === '') {
+      endLine--;
+    }
+    const chunkContent = lines.slice(startLine - 1, endLine).join('\n');
+    if (!/[\p{L}\p{N}]/u.test(chunkContent)) {
+      return;
+    }
+    chunks.push({
+      symbol,
+      startLine,
+      endLine,
+      tokenCount: countTokens(chunkContent),
+      hash: hashContent(chunkContent),
+      content: chunkContent,
+    });
+  };
+
+  const addUnit = (unit: ChunkUnit) => {
+    const tokens = lineTokens
+      .slice(unit.startLine - 1, unit.endLine)
+      .reduce((sum, count) => sum + count, 0);
+    if (tokens <= options.maxTokens) {
+      pushChunk(unit.startLine, unit.endLine, unit.symbol);
+    } else if (unit.children.length > 0) {
+      for (const part of splitUnit(unit, lines)) {
+        addUnit(part);
+      }
+    } else {
+      for (const { startLine, endLine } of splitLines(
+        unit,
+        lineTokens,
+        options,
+      )) {
+        pushChunk(startLine, endLine, unit.symbol);
+      }
+    }
+  };
+
+  const fileUnit: ChunkUnit = {
+    startLine: 1,
+    endLine: lines.length,
+    symbol: null,
+    children: buildSymbolTree(symbols),
+  };
+  for (const unit of splitUnit(fileUnit, lines)) {
+    addUnit(unit);
+  }
+
+  return chunks;
+};
@@ -9,13 +9,15 @@ const initTaskRunner = (numOfTasks: number) => {
     numOfTasks,
     require.resolve('./workers/fileCollectWorker'),
   );
-  return (task: FileCollectTask) => pool.run(task);
+  return (task: FileCollectTask, signal?: AbortSignal) =>
+    pool.run(task, { signal });
 };
 
 export const collectFiles = async (
   filePaths: string[],
   rootDir: string,
   progressCallback: CrawlProgressCallback = () => {},
+  signal?: AbortSignal,
   deps = { initTaskRunner },
 ): Promise<RawFile[]> => {
   const runTask = deps.initTaskRunner(filePaths.length);
@@ -34,9 +36,17 @@ export const collectFiles = async (
 
     const results = await Promise.all(
       tasks.map((task) =>
-        runTask(task).then((result) => {
+        runTask(task, signal).then((result) => {
           completedTasks++;
-          progressCallback(`Collect file... (${completedTasks}/${totalTasks})`);
+          progressCallback(
+            `Collect file... (${completedTasks}/${totalTasks})`,
+            {
+              phase: 'collecting',
+              filesDone: completedTasks,
+              filesTotal: totalTasks,
+              currentFile: task.filePath,
+            },
+          );
           logger.info(
             `Collect files... (${completedTasks}/${totalTasks}) ${task.filePath}`,
           );
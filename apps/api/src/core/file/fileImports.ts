@@ -0,0 +1,435 @@
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { logger } from '~/lib/logger';
+import { parseImports } from '../treeSitter/parseFile';
+
+const JS_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.vue',
+];
+// TypeScript sources import each other by their compiled names
+const JS_COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const GO_MODULE_PATTERN = /^module\s+(\S+)/m;
+
+const TS_CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+// Longer chains of `extends` are cut off
+const TS_CONFIG_MAX_EXTENDS = 5;
+
+interface GoModule {
+  // Directory of the go.mod file, relative to the root
+  directory: string;
+  modulePath: string;
+}
+
+// The `baseUrl` and `paths` in effect for a tsconfig.json or jsconfig.json
+interface TsPathAliases {
+  // Relative to the root
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  // What `paths` are relative to: `baseUrl`, or else the directory of the
+  // config that sets them
+  pathsBase: string;
+}
+
+interface TsConfig extends TsPathAliases {
+  // Directory of the config file; it applies to the files below it
+  directory: string;
+}
+
+// Everything imports are resolved against
+interface ImportContext {
+  filePaths: Set<string>;
+  allFilePaths: string[];
+  goModules: GoModule[];
+  // Deepest directories first
+  tsConfigs: TsConfig[];
+}
+
+const resolveJsModule = (base: string, filePaths: Set<string>): string[] => {
+  const extension = path.extname(base);
+  const candidates = [
+    base,
+    ...JS_EXTENSIONS.map((candidate) => `${base}${candidate}`),
+    ...JS_EXTENSIONS.map((candidate) => path.join(base, `index${candidate}`)),
+    ...(JS_COMPILED_EXTENSIONS[extension] ?? []).map(
+      (candidate) => `${base.slice(0, -extension.length)}${candidate}`,
+    ),
+  ];
+  const resolved = candidates.find((candidate) => filePaths.has(candidate));
+  return resolved ? [resolved] : [];
+};
+
+// Returns what the `*` of a `paths` pattern matched, or `undefined`
+const matchPathPattern = (
+  pattern: string,
+  specifier: string,
+): string | undefined => {
+  const starIndex = pattern.indexOf('*');
+  if (starIndex === -1) {
+    return pattern === specifier ? '' : undefined;
+  }
+  const prefix = pattern.slice(0, starIndex);
+  const suffix = pattern.slice(starIndex + 1);
+  if (
+    specifier.length < prefix.length + suffix.length ||
+    !specifier.startsWith(prefix) ||
+    !specifier.endsWith(suffix)
+  ) {
+    return undefined;
+  }
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+};
+
+const resolveJsImport = (
+  filePath: string,
+  specifier: string,
+  { filePaths, tsConfigs }: ImportContext,
+): string[] => {
+  if (specifier.startsWith('.')) {
+    return resolveJsModule(
+      path.join(path.dirname(filePath), specifier),
+      filePaths,
+    );
+  }
+
+  // Path aliases of the nearest config; any other import is a package
+  // outside the repository
+  const tsConfig = tsConfigs.find(
+    ({ directory }) =>
+      directory === '.' || filePath.startsWith(`${directory}/`),
+  );
+  if (!tsConfig) {
+    return [];
+  }
+  for (const [pattern, targets] of Object.entries(tsConfig.paths ?? {})) {
+    const wildcard = matchPathPattern(pattern, specifier);
+    if (wildcard === undefined || !Array.isArray(targets)) {
+      continue;
+    }
+    for (const target of targets) {
+      const resolved = resolveJsModule(
+        path.join(tsConfig.pathsBase, target.replace('*', wildcard)),
+        filePaths,
+      );
+      if (resolved.length > 0) {
+        return resolved;
+      }
+    }
+  }
+  return tsConfig.baseUrl
+    ? resolveJsModule(path.join(tsConfig.baseUrl, specifier), filePaths)
+    : [];
+};
+
+const resolvePythonImport = (
+  filePath: string,
+  moduleName: string,
+  filePaths: Set<string>,
+): string[] => {
+  const level = moduleName.match(/^\.*/)?.[0].length ?? 0;
+  const moduleParts = moduleName.slice(level).split('.').filter(Boolean);
+
+  // Relative imports start from the file's package, absolute ones from any
+  // directory above the file, as the source root isn't known
+  let searchDirs: string[];
+  if (level > 0) {
+    let directory = path.dirname(filePath);
+    for (let i = 1; i < level; i++) {
+      directory = path.dirname(directory);
+    }
+    searchDirs = [directory];
+  } else {
+    searchDirs = [];
+    let directory = path.dirname(filePath);
+    while (directory !== '.' && directory !== path.dirname(directory)) {
+      searchDirs.push(directory);
+      directory = path.dirname(directory);
+    }
+    searchDirs.push('.');
+  }
+
+  for (const directory of searchDirs) {
+    const base = path.join(directory, ...moduleParts);
+    const resolved = [`${base}.py`, path.join(base, '__init__.py')].find(
+      (candidate) => filePaths.has(candidate),
+    );
+    if (resolved) {
+      return [resolved];
+    }
+  }
+  return [];
+};
+
+const resolveGoImport = (
+  importPath: string,
+  { goModules, allFilePaths }: ImportContext,
+): string[] => {
+  const goModule = goModules.find(
+    ({ modulePath }) =>
+      importPath === modulePath || importPath.startsWith(`${modulePath}/`),
+  );
+  // Standard library and third-party packages
+  if (!goModule) {
+    return [];
+  }
+  // A package is every non-test file of its directory
+  const packageDir = path.join(
+    goModule.directory,
+    importPath.slice(goModule.modulePath.length),
+  );
+  return allFilePaths.filter(
+    (filePath) =>
+      path.dirname(filePath) === packageDir &&
+      filePath.endsWith('.go') &&
+      !filePath.endsWith('_test.go'),
+  );
+};
+
+const readGoModules = async (
+  rootDir: string,
+  allFilePaths: string[],
+): Promise<GoModule[]> => {
+  const goModules: GoModule[] = [];
+  for (const filePath of allFilePaths) {
+    if (path.basename(filePath) !== 'go.mod') {
+      continue;
+    }
+    const content = await fs
+      .readFile(path.join(rootDir, filePath), 'utf8')
+      .catch(() => '');
+    const modulePath = content.match(GO_MODULE_PATTERN)?.[1];
+    if (modulePath) {
+      goModules.push({ directory: path.dirname(filePath), modulePath });
+    }
+  }
+  // Nested modules win over the modules containing them
+  return goModules.sort((a, b) => b.modulePath.length - a.modulePath.length);
+};
+
+// tsconfig.json allows comments and trailing commas, which JSON.parse doesn't
+const parseJsonWithComments = (content: string): unknown => {
+  let json = '';
+  let index = 0;
+  while (index < content.length) {
+    const char = content[index];
+    if (char === '"') {
+      const start = index;
+      index++;
+      while (index < content.length && content[index] !== '"') {
+        index += content[index] === '\\' ? 2 : 1;
+      }
+      index++;
+      json += content.slice(start, index);
+    } else if (content.startsWith('//', index)) {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', index)) {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else {
+      json += char;
+      index++;
+    }
+  }
+  return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+};
+
+const readTsConfig = async (
+  rootDir: string,
+  configPath: string,
+  filePaths: Set<string>,
+  depth = 0,
+): Promise<TsPathAliases | null> => {
+  let config: {
+    extends?: unknown;
+    compilerOptions?: { baseUrl?: unknown; paths?: unknown };
+  };
+  try {
+    config = parseJsonWithComments(
+      await fs.readFile(path.join(rootDir, configPath), 'utf8'),
+    ) as typeof config;
+  } catch (error) {
+    logger.debug('Skipping unreadable tsconfig', { configPath, error });
+    return null;
+  }
+  const directory = path.dirname(configPath);
+
+  // Only configs extended by relative path are in the repository
+  let extended: TsPathAliases | null = null;
+  if (
+    typeof config.extends === 'string' &&
+    config.extends.startsWith('.') &&
+    depth < TS_CONFIG_MAX_EXTENDS
+  ) {
+    const extendedPath = path.join(directory, config.extends);
+    const extendedConfigPath = [extendedPath, `${extendedPath}.json`].find(
+      (candidate) => filePaths.has(candidate),
+    );
+    if (extendedConfigPath) {
+      extended = await readTsConfig(
+        rootDir,
+        extendedConfigPath,
+        filePaths,
+        depth + 1,
+      );
+    }
+  }
+
+  const { baseUrl, paths } = config.compilerOptions ?? {};
+  const ownBaseUrl =
+    typeof baseUrl === 'string' ? path.join(directory, baseUrl) : undefined;
+  const ownPaths =
+    paths && typeof paths === 'object'
+      ? (paths as Record<string, string[]>)
+      : undefined;
+  const resolvedBaseUrl = ownBaseUrl ?? extended?.baseUrl;
+  let pathsBase = resolvedBaseUrl ?? directory;
+  if (!resolvedBaseUrl && !ownPaths && extended) {
+    pathsBase = extended.pathsBase;
+  }
+  return {
+    baseUrl: resolvedBaseUrl,
+    paths: ownPaths ?? extended?.paths,
+    pathsBase,
+  };
+};
+
+const readTsConfigs = async (
+  rootDir: string,
+  allFilePaths: string[],
+  filePaths: Set<string>,
+): Promise<TsConfig[]> => {
+  const tsConfigs: TsConfig[] = [];
+  for (const filePath of allFilePaths) {
+    const directory = path.dirname(filePath);
+    // A directory's tsconfig.json wins over its jsconfig.json
+    if (
+      !TS_CONFIG_FILE_NAMES.includes(path.basename(filePath)) ||
+      (path.basename(filePath) === 'jsconfig.json' &&
+        filePaths.has(path.join(directory, 'tsconfig.json')))
+    ) {
+      continue;
+    }
+    const tsConfig = await readTsConfig(rootDir, filePath, filePaths);
+    if (tsConfig?.baseUrl || tsConfig?.paths) {
+      tsConfigs.push({ directory, ...tsConfig });
+    }
+  }
+  return tsConfigs.sort(
+    (a, b) => b.directory.split('/').length - a.directory.split('/').length,
+  );
+};
+
+/**
+ * Whether `resolveFileImports` follows the imports of a file, by its
+ * language.
+ */
+export const hasResolvableImports = (filePath: string): boolean => {
+  const extension = path.extname(filePath);
+  return (
+    JS_EXTENSIONS.includes(extension) ||
+    extension === '.py' ||
+    extension === '.go'
+  );
+};
+
+/**
+ * Resolves, for each of the given files, the files it imports directly, for
+ * JavaScript, TypeScript, Python and Go. Relative imports, tsconfig.json and
+ * jsconfig.json `paths` and `baseUrl`, Python packages and the packages of
+ * the repository's Go modules are followed; other languages and imports of
+ * packages outside the repository are skipped.
+ * @param rootDir The directory the paths are relative to.
+ * @param filePaths The importing files.
+ * @param allFilePaths The files imports may resolve to.
+ * @returns The imported files of each readable importing file in one of
+ *   these languages, sorted and without the file itself.
+ */
+export const resolveFileImports = async (
+  rootDir: string,
+  filePaths: string[],
+  allFilePaths: string[],
+  deps = { parseImports },
+): Promise<Map<string, string[]>> => {
+  const knownFilePaths = new Set(allFilePaths);
+  const context: ImportContext = {
+    filePaths: knownFilePaths,
+    allFilePaths,
+    goModules: await readGoModules(rootDir, allFilePaths),
+    tsConfigs: await readTsConfigs(rootDir, allFilePaths, knownFilePaths),
+  };
+  const fileImports = new Map<string, string[]>();
+
+  for (const filePath of filePaths) {
+    if (!hasResolvableImports(filePath)) {
+      continue;
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(rootDir, filePath), 'utf8');
+    } catch (error) {
+      logger.debug('Skipping imports of unreadable file', { filePath, error });
+      continue;
+    }
+
+    const extension = path.extname(filePath);
+    const importedFiles = new Set<string>();
+    for (const specifier of await deps.parseImports(content, filePath)) {
+      let resolved: string[] = [];
+      if (JS_EXTENSIONS.includes(extension)) {
+        resolved = resolveJsImport(filePath, specifier, context);
+      } else if (extension === '.py') {
+        resolved = resolvePythonImport(filePath, specifier, knownFilePaths);
+      } else {
+        resolved = resolveGoImport(specifier, context);
+      }
+      for (const importedFile of resolved) {
+        importedFiles.add(importedFile);
+      }
+    }
+    importedFiles.delete(filePath);
+    fileImports.set(filePath, [...importedFiles].sort());
+  }
+
+  return fileImports;
+};
+
+/**
+ * Resolves the files that the given files import directly, following the
+ * same imports as `resolveFileImports`.
+ * @param rootDir The directory the paths are relative to.
+ * @param filePaths The importing files.
+ * @param allFilePaths The files imports may resolve to.
+ * @returns The imported files that are not among `filePaths`, sorted.
+ */
+export const resolveImportedFiles = async (
+  rootDir: string,
+  filePaths: string[],
+  allFilePaths: string[],
+  deps = { resolveFileImports },
+): Promise<string[]> => {
+  const fileImports = await deps.resolveFileImports(
+    rootDir,
+    filePaths,
+    allFilePaths,
+  );
+  const importedFiles = new Set([...fileImports.values()].flat());
+  for (const filePath of filePaths) {
+    importedFiles.delete(filePath);
+  }
+  return [...importedFiles].sort();
+};
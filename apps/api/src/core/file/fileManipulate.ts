@@ -212,6 +212,7 @@ class CompositeManipulator extends BaseManipulator {
 }
 
 const manipulators: Record<string, FileManipulator> = {
+  '.bash': new StripCommentsManipulator('perl'),
   '.c': new StripCommentsManipulator('c'),
   '.h': new StripCommentsManipulator('c'),
   '.hpp': new CppManipulator(),
@@ -221,27 +222,37 @@ const manipulators: Record<string, FileManipulator> = {
   '.cs': new StripCommentsManipulator('csharp'),
   '.css': new StripCommentsManipulator('css'),
   '.dart': new StripCommentsManipulator('c'),
+  '.ex': new StripCommentsManipulator('perl'),
+  '.exs': new StripCommentsManipulator('perl'),
   '.go': new StripCommentsManipulator('c'),
+  '.htm': new StripCommentsManipulator('html'),
   '.html': new StripCommentsManipulator('html'),
   '.java': new StripCommentsManipulator('java'),
   '.js': new StripCommentsManipulator('javascript'),
   '.jsx': new StripCommentsManipulator('javascript'),
   '.kt': new StripCommentsManipulator('c'),
+  '.kts': new StripCommentsManipulator('c'),
   '.less': new StripCommentsManipulator('less'),
+  '.lua': new StripCommentsManipulator('lua'),
   '.php': new StripCommentsManipulator('php'),
   '.rb': new StripCommentsManipulator('ruby'),
   '.rs': new StripCommentsManipulator('c'),
   '.sass': new StripCommentsManipulator('sass'),
+  '.sc': new StripCommentsManipulator('c'),
+  '.scala': new StripCommentsManipulator('c'),
   '.scss': new StripCommentsManipulator('sass'),
   '.sh': new StripCommentsManipulator('perl'),
   '.sol': new StripCommentsManipulator('c'),
   '.sql': new StripCommentsManipulator('sql'),
   '.swift': new StripCommentsManipulator('swift'),
+  '.toml': new StripCommentsManipulator('perl'),
   '.ts': new StripCommentsManipulator('javascript'),
   '.tsx': new StripCommentsManipulator('javascript'),
   '.xml': new StripCommentsManipulator('xml'),
   '.yaml': new StripCommentsManipulator('perl'),
   '.yml': new StripCommentsManipulator('perl'),
+  '.zig': new StripCommentsManipulator('c'),
+  '.zsh': new StripCommentsManipulator('perl'),
 
   '.py': new PythonManipulator(),
 
@@ -0,0 +1,59 @@
+import { logger } from '~/lib/logger';
+import { initPiscina } from '~/lib/processConcurrency';
+import type { CrawlProgressCallback } from '~/types';
+import type { CodeSymbol, RawFile } from './fileTypes';
+import type { FileOutlineTask } from './workers/fileOutlineWorker';
+
+const initTaskRunner = (numOfTasks: number) => {
+  const pool = initPiscina(
+    numOfTasks,
+    require.resolve('./workers/fileOutlineWorker'),
+  );
+  return (task: FileOutlineTask, signal?: AbortSignal) =>
+    pool.run(task, { signal }) as Promise<CodeSymbol[]>;
+};
+
+/**
+ * Lists the symbols of every file in a language with a tree-sitter query,
+ * file by file in the order of `rawFiles`. Raw files are outlined so the
+ * line numbers match the repository's files.
+ */
+export const buildOutline = async (
+  rawFiles: RawFile[],
+  progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
+  deps = {
+    initTaskRunner,
+  },
+): Promise<CodeSymbol[]> => {
+  const runTask = deps.initTaskRunner(rawFiles.length);
+
+  const startTime = process.hrtime.bigint();
+  logger.info(`Starting outline of ${rawFiles.length} files using worker pool`);
+
+  let completedTasks = 0;
+  const fileSymbols = await Promise.all(
+    rawFiles.map((rawFile) =>
+      runTask({ rawFile }, signal).then((symbols) => {
+        completedTasks++;
+        progressCallback(
+          `Outlining files... (${completedTasks}/${rawFiles.length})`,
+          {
+            phase: 'outlining',
+            filesDone: completedTasks,
+            filesTotal: rawFiles.length,
+            currentFile: rawFile.path,
+          },
+        );
+        return symbols;
+      }),
+    ),
+  );
+
+  const endTime = process.hrtime.bigint();
+  logger.info(
+    `Outline completed in ${(Number(endTime - startTime) / 1e6).toFixed(2)}ms`,
+  );
+
+  return fileSymbols.flat();
+};
@@ -0,0 +1,137 @@
+import path from 'node:path';
+
+// Files that describe what a project is and how it is built
+const MANIFEST_FILE_NAMES = new Set([
+  'package.json',
+  'pyproject.toml',
+  'setup.py',
+  'requirements.txt',
+  'cargo.toml',
+  'go.mod',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'gemfile',
+  'composer.json',
+  'dockerfile',
+  'makefile',
+]);
+
+const ENTRY_POINT_PATTERN = /^(index|main|app|server|cli|mod|lib)\.[a-z0-9]+$/;
+const SOURCE_DIR_NAMES = new Set([
+  'src',
+  'lib',
+  'app',
+  'pkg',
+  'cmd',
+  'internal',
+]);
+
+const TEST_DIR_NAMES = new Set(['test', 'tests', '__tests__', 'spec', 'e2e']);
+const TEST_FILE_PATTERN = /\.(test|spec)\.[a-z0-9]+$|_test\.[a-z0-9]+$/;
+
+const AUXILIARY_DIR_NAMES = new Set([
+  'docs',
+  'doc',
+  'examples',
+  'example',
+  'fixtures',
+  '__fixtures__',
+  'mocks',
+  '__mocks__',
+  'benchmarks',
+  'scripts',
+]);
+
+const GENERATED_DIR_NAMES = new Set([
+  'dist',
+  'build',
+  'out',
+  'vendor',
+  'generated',
+  '__snapshots__',
+]);
+const GENERATED_FILE_PATTERN =
+  /(\.min\.[a-z]+|\.map|\.snap|\.lock|-lock\.json|\.pb\.go|_pb2\.py|\.generated\.[a-z]+)$/;
+
+/**
+ * Scores a file path by how likely it is to be useful for understanding the
+ * repository. Positive scores favor a file, negative scores penalize it.
+ * @param filePath A path relative to the repository root.
+ */
+export const scoreFilePath = (filePath: string): number => {
+  const segments = filePath.split(/[\\/]/);
+  const fileName = segments[segments.length - 1].toLowerCase();
+  const dirNames = segments
+    .slice(0, -1)
+    .map((segment) => segment.toLowerCase());
+  let score = 0;
+
+  if (dirNames.length === 0 && fileName.startsWith('readme')) {
+    score += 3;
+  }
+  if (MANIFEST_FILE_NAMES.has(fileName)) {
+    score += dirNames.length === 0 ? 2 : 1;
+  }
+  if (ENTRY_POINT_PATTERN.test(fileName)) {
+    score += 1.5;
+  }
+  if (dirNames.length > 0 && SOURCE_DIR_NAMES.has(dirNames[0])) {
+    score += 1;
+  }
+
+  if (
+    TEST_FILE_PATTERN.test(fileName) ||
+    dirNames.some((dir) => TEST_DIR_NAMES.has(dir))
+  ) {
+    score -= 2;
+  }
+  if (dirNames.some((dir) => AUXILIARY_DIR_NAMES.has(dir))) {
+    score -= 2;
+  }
+  if (
+    GENERATED_FILE_PATTERN.test(fileName) ||
+    dirNames.some((dir) => GENERATED_DIR_NAMES.has(dir)) ||
+    fileName.endsWith('.d.ts')
+  ) {
+    score -= 3;
+  }
+
+  // Deeply nested files tend to be implementation details
+  score -= Math.max(0, dirNames.length - 3) * 0.5;
+
+  return score;
+};
+
+export interface FilePriorityInput {
+  path: string;
+  tokenCount: number;
+}
+
+/**
+ * Orders files from most to least important, combining git change
+ * frequency, path heuristics and file size. Ties keep their input order.
+ * @param files Files with their token counts.
+ * @param fileChangeCounts Change counts keyed by path, counted while the
+ *   repositories were cloned.
+ * @returns The file paths, most important first.
+ */
+export const rankFilesByPriority = (
+  files: FilePriorityInput[],
+  fileChangeCounts: Record<string, number>,
+): string[] => {
+  const scored = files.map((file, index) => {
+    const changeCount =
+      fileChangeCounts[file.path.split(path.sep).join('/')] ?? 0;
+    const score =
+      scoreFilePath(file.path) +
+      Math.log2(1 + changeCount) -
+      // Smaller files cost less of the budget for the same amount of context
+      Math.log10(1 + file.tokenCount);
+    return { path: file.path, score, index };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((file) => file.path);
+};
@@ -2,6 +2,11 @@ import type { ConfigMerged } from '~/config/configSchema';
 import type { CrawlProgressCallback } from '~/types';
 import { type FileManipulator, getFileManipulator } from './fileManipulate';
 import type { ProcessedFile, RawFile } from './fileTypes';
+import {
+  getFileResultCache,
+  getFileResultCacheKey,
+  toProcessedFile,
+} from './fileResultCache';
 import type { FileProcessTask } from './workers/fileProcessWorker';
 import { logger } from '~/lib/logger';
 import { initPiscina } from '~/lib/processConcurrency';
@@ -13,50 +18,91 @@ const initTaskRunner = (numOfTasks: number) => {
     numOfTasks,
     require.resolve('./workers/fileProcessWorker'),
   );
-  return (task: FileProcessTask) => pool.run(task);
+  return (task: FileProcessTask, signal?: AbortSignal) =>
+    pool.run(task, { signal });
 };
 
+/**
+ * Processes files (comment removal, compression, ...) in the worker pool.
+ * Results are cached by content, so files that did not change since an
+ * earlier job, for instance in a re-pack of a newer commit, are not
+ * processed again.
+ */
 export const processFiles = async (
   rawFiles: RawFile[],
   config: ConfigMerged,
   progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
   deps: {
     initTaskRunner: typeof initTaskRunner;
     getFileManipulator: GetFileManipulator;
+    getFileResultCache: typeof getFileResultCache;
   } = {
     initTaskRunner,
     getFileManipulator,
+    getFileResultCache,
   },
 ): Promise<ProcessedFile[]> => {
-  const runTask = deps.initTaskRunner(rawFiles.length);
-  const tasks = rawFiles.map(
-    (rawFile, index) =>
+  const cache = deps.getFileResultCache();
+  const cacheKeys = cache
+    ? rawFiles.map((rawFile) => getFileResultCacheKey(rawFile, config))
+    : [];
+  const cachedResults = cache
+    ? await Promise.all(cacheKeys.map((key) => cache.get(key)))
+    : [];
+
+  const results: ProcessedFile[] = new Array(rawFiles.length);
+  const missIndexes: number[] = [];
+  rawFiles.forEach((rawFile, index) => {
+    const cachedResult = cachedResults[index];
+    if (cachedResult) {
+      results[index] = toProcessedFile(rawFile.path, cachedResult);
+    } else {
+      missIndexes.push(index);
+    }
+  });
+  if (cache) {
+    logger.info(
+      `File result cache: ${rawFiles.length - missIndexes.length} hits, ${missIndexes.length} misses`,
+    );
+  }
+
+  const runTask = deps.initTaskRunner(missIndexes.length);
+  const tasks = missIndexes.map(
+    (index) =>
       ({
-        rawFile,
+        rawFile: rawFiles[index],
         config,
+        countTokens: cache !== null,
       }) satisfies FileProcessTask,
   );
 
   try {
     const startTime = process.hrtime.bigint();
     logger.info(
-      `Starting file processing for ${rawFiles.length} files using worker pool`,
+      `Starting file processing for ${tasks.length} files using worker pool`,
     );
 
-    let completedTasks = 0;
-    const totalTasks = tasks.length;
+    let completedTasks = rawFiles.length - tasks.length;
+    const totalTasks = rawFiles.length;
 
-    const results = await Promise.all(
-      tasks.map((task) =>
-        runTask(task).then((result) => {
+    await Promise.all(
+      tasks.map((task, taskIndex) =>
+        runTask(task, signal).then((result) => {
           completedTasks++;
           progressCallback(
             `Processing file... (${completedTasks}/${totalTasks})`,
+            {
+              phase: 'processing',
+              filesDone: completedTasks,
+              filesTotal: totalTasks,
+              currentFile: task.rawFile.path,
+            },
           );
           logger.info(
             `Processing file... (${completedTasks}/${totalTasks}) ${task.rawFile.path}`,
           );
-          return result;
+          results[missIndexes[taskIndex]] = result;
         }),
       ),
     );
@@ -64,10 +110,25 @@ export const processFiles = async (
     const endTime = process.hrtime.bigint();
     const duration = Number(endTime - startTime) / 1e6;
     logger.info(`File processing completed in ${duration.toFixed(2)}ms`);
-
-    return results;
   } catch (error) {
     logger.error('Error during file processing:', error);
     throw error;
   }
+
+  if (cache && missIndexes.length > 0) {
+    await Promise.all(
+      missIndexes.map((index) => {
+        const { content, tokenCount, chunks, embeddingChunks } = results[index];
+        return cache.set(cacheKeys[index], {
+          content,
+          tokenCount: tokenCount ?? 0,
+          chunks,
+          embeddingChunks,
+        });
+      }),
+    );
+    await cache.evict();
+  }
+
+  return results;
 };
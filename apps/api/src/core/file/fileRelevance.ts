@@ -0,0 +1,272 @@
+import type { CodeSymbol, RawFile } from './fileTypes';
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Weights of the score components, each of which is between 0 and 1
+const CONTENT_WEIGHT = 1;
+const PATH_WEIGHT = 0.75;
+const SYMBOL_WEIGHT = 0.75;
+const IMPORT_WEIGHT = 0.5;
+
+// Words of a task that say little about which files it is about
+const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'add',
+  'all',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'change',
+  'code',
+  'do',
+  'does',
+  'file',
+  'files',
+  'fix',
+  'for',
+  'from',
+  'how',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'make',
+  'new',
+  'not',
+  'of',
+  'on',
+  'or',
+  'our',
+  'should',
+  'so',
+  'that',
+  'the',
+  'their',
+  'then',
+  'there',
+  'this',
+  'to',
+  'update',
+  'use',
+  'we',
+  'what',
+  'when',
+  'where',
+  'which',
+  'why',
+  'will',
+  'with',
+]);
+
+export interface FileRelevance {
+  path: string;
+  // The weighted sum of the components below
+  score: number;
+  // BM25 of the file's content, relative to the best matching file
+  contentScore: number;
+  // Share of the task's terms found in the file's path
+  pathScore: number;
+  // Share of the task's terms found in the names of the file's symbols
+  symbolScore: number;
+  // Relative content, path and symbol score of the best matching file it
+  // imports or is imported by
+  importScore: number;
+}
+
+// Folds plurals and common verb endings so `parsers` matches `parser`
+const stemTerm = (term: string): string => {
+  if (term.length > 4 && term.endsWith('ies')) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (term.length > 5 && term.endsWith('ing')) {
+    return term.slice(0, -3);
+  }
+  if (term.length > 4 && term.endsWith('ed')) {
+    return term.slice(0, -2);
+  }
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) {
+    return term.slice(0, -1);
+  }
+  return term;
+};
+
+/**
+ * Splits text into lowercase, stemmed terms, breaking identifiers at case
+ * changes, underscores and other punctuation.
+ */
+const tokenizeText = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(
+      (term) => term.length > 1 && !STOP_WORDS.has(term) && !/^\d+$/.test(term),
+    )
+    .map(stemTerm);
+
+const countTerms = (terms: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Scores are reported with three decimals
+const roundScore = (score: number): number => Math.round(score * 1000) / 1000;
+
+const matchedShare = (queryTerms: string[], terms: Set<string>): number =>
+  queryTerms.filter((term) => terms.has(term)).length / queryTerms.length;
+
+/**
+ * Ranks files by how relevant they are to a natural-language task, without
+ * any model: BM25 over the files' contents, the task's terms in their paths
+ * and symbol names, and a bonus for files one import away from good matches.
+ * @param task The task, e.g. `retry failed webhook deliveries`.
+ * @param rawFiles The files to rank.
+ * @param symbols The symbols of the files, from `buildOutline`.
+ * @param fileImports The files each file imports, from `resolveFileImports`.
+ * @returns The files with a score above zero, most relevant first; ties keep
+ *   their input order.
+ */
+export const rankFilesByRelevance = (
+  task: string,
+  rawFiles: RawFile[],
+  symbols: CodeSymbol[],
+  fileImports: Map<string, string[]>,
+): FileRelevance[] => {
+  const queryTerms = [...new Set(tokenizeText(task))];
+  if (queryTerms.length === 0 || rawFiles.length === 0) {
+    return [];
+  }
+
+  const fileTermCounts = rawFiles.map((file) =>
+    countTerms(tokenizeText(file.content)),
+  );
+  const fileLengths = fileTermCounts.map((counts) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const averageLength =
+    fileLengths.reduce((sum, length) => sum + length, 0) / rawFiles.length || 1;
+  const inverseFrequencies = queryTerms.map((term) => {
+    const documents = fileTermCounts.filter((counts) =>
+      counts.has(term),
+    ).length;
+    return Math.log(
+      1 + (rawFiles.length - documents + 0.5) / (documents + 0.5),
+    );
+  });
+
+  const bm25Scores = fileTermCounts.map((counts, index) =>
+    queryTerms.reduce((score, term, termIndex) => {
+      const frequency = counts.get(term) ?? 0;
+      const lengthNorm =
+        1 - BM25_B + (BM25_B * fileLengths[index]) / averageLength;
+      return (
+        score +
+        (inverseFrequencies[termIndex] * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * lengthNorm)
+      );
+    }, 0),
+  );
+  const maxBm25Score = bm25Scores.reduce(
+    (max, score) => Math.max(max, score),
+    0,
+  );
+
+  const symbolTerms = new Map<string, Set<string>>();
+  for (const symbol of symbols) {
+    const terms = symbolTerms.get(symbol.path) ?? new Set<string>();
+    for (const term of tokenizeText(symbol.name)) {
+      terms.add(term);
+    }
+    symbolTerms.set(symbol.path, terms);
+  }
+
+  const lexicalScores = new Map<string, Omit<FileRelevance, 'importScore'>>();
+  rawFiles.forEach((file, index) => {
+    const contentScore =
+      maxBm25Score > 0 ? bm25Scores[index] / maxBm25Score : 0;
+    const pathScore = matchedShare(
+      queryTerms,
+      new Set(tokenizeText(file.path)),
+    );
+    const symbolScore = matchedShare(
+      queryTerms,
+      symbolTerms.get(file.path) ?? new Set(),
+    );
+    lexicalScores.set(file.path, {
+      path: file.path,
+      score:
+        CONTENT_WEIGHT * contentScore +
+        PATH_WEIGHT * pathScore +
+        SYMBOL_WEIGHT * symbolScore,
+      contentScore,
+      pathScore,
+      symbolScore,
+    });
+  });
+  const maxLexicalScore = [...lexicalScores.values()].reduce(
+    (max, { score }) => Math.max(max, score),
+    0,
+  );
+
+  // Imports link files both ways: a match's helpers and its callers
+  const neighbors = new Map<string, Set<string>>();
+  const link = (from: string, to: string) => {
+    const linked = neighbors.get(from) ?? new Set<string>();
+    linked.add(to);
+    neighbors.set(from, linked);
+  };
+  for (const [filePath, importedFiles] of fileImports) {
+    for (const importedFile of importedFiles) {
+      link(filePath, importedFile);
+      link(importedFile, filePath);
+    }
+  }
+
+  const ranked = [...lexicalScores.values()].map((lexical, index) => {
+    const importScore =
+      maxLexicalScore > 0
+        ? Math.max(
+            0,
+            ...[...(neighbors.get(lexical.path) ?? [])].map(
+              (neighbor) =>
+                (lexicalScores.get(neighbor)?.score ?? 0) / maxLexicalScore,
+            ),
+          )
+        : 0;
+    return {
+      relevance: {
+        ...lexical,
+        score: lexical.score + IMPORT_WEIGHT * importScore,
+        importScore,
+      },
+      index,
+    };
+  });
+
+  return ranked
+    .filter(({ relevance }) => relevance.score > 0)
+    .sort((a, b) => b.relevance.score - a.relevance.score || a.index - b.index)
+    .map(({ relevance }) => ({
+      path: relevance.path,
+      score: roundScore(relevance.score),
+      contentScore: roundScore(relevance.contentScore),
+      pathScore: roundScore(relevance.pathScore),
+      symbolScore: roundScore(relevance.symbolScore),
+      importScore: roundScore(relevance.importScore),
+    }));
+};
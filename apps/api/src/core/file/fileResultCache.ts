@@ -0,0 +1,211 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { ConfigMerged } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { EmbeddingChunk, ProcessedFile, RawFile } from './fileTypes';
+
+const FILE_RESULT_CACHE_ENABLED =
+  process.env.FILE_RESULT_CACHE_ENABLED !== 'false';
+const FILE_RESULT_CACHE_DIR =
+  process.env.FILE_RESULT_CACHE_DIR ||
+  path.join(os.tmpdir(), 'codecrawl-file-cache');
+const FILE_RESULT_CACHE_MAX_SIZE =
+  (Number(process.env.FILE_RESULT_CACHE_MAX_SIZE_MB) || 1024) * 1024 * 1024;
+// Eviction walks the whole cache directory, so it runs at most this often
+const EVICTION_INTERVAL_MS = 60_000;
+// Bump whenever processing changes in a way that makes stored results stale
+const CACHE_FORMAT_VERSION = 3;
+
+export interface CachedFileResult {
+  content: string;
+  tokenCount: number;
+  chunks?: string[];
+  embeddingChunks?: EmbeddingChunk[];
+}
+
+export interface FileResultCache {
+  get(key: string): Promise<CachedFileResult | null>;
+  set(key: string, result: CachedFileResult): Promise<void>;
+  // Removes the least recently used entries once the cache is over its size
+  evict(): Promise<void>;
+}
+
+/**
+ * Hashes file content the way `git hash-object` does, so an unchanged file
+ * keeps its key across commits and branches.
+ */
+export const computeBlobHash = (content: string): string => {
+  const buffer = Buffer.from(content, 'utf8');
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${buffer.length}\0`)
+    .update(buffer)
+    .digest('hex');
+};
+
+/**
+ * Builds the cache key of a file's processing result: its blob hash plus
+ * every input besides the content that changes the result. The extension
+ * picks the comment remover and the tree-sitter language; it is kept as is,
+ * since comment removers are matched case-sensitively.
+ */
+export const getFileResultCacheKey = (
+  rawFile: RawFile,
+  config: ConfigMerged,
+): string => {
+  const fingerprint = JSON.stringify([
+    CACHE_FORMAT_VERSION,
+    computeBlobHash(rawFile.content),
+    path.extname(rawFile.path),
+    config.output.removeComments,
+    config.output.removeEmptyLines,
+    config.output.compress,
+    config.output.showLineNumbers,
+    // Chunks are only extracted for the json and chunks styles
+    config.output.style === 'json',
+    config.output.style === 'chunks' ? config.output.chunking : null,
+    config.tokenCount.encoding,
+  ]);
+  return crypto.createHash('sha256').update(fingerprint).digest('hex');
+};
+
+export const toProcessedFile = (
+  filePath: string,
+  result: CachedFileResult,
+): ProcessedFile => ({
+  path: filePath,
+  content: result.content,
+  tokenCount: result.tokenCount,
+  ...(result.chunks ? { chunks: result.chunks } : {}),
+  ...(result.embeddingChunks
+    ? { embeddingChunks: result.embeddingChunks }
+    : {}),
+});
+
+const isMissingFileError = (error: unknown) =>
+  (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+const listCacheEntries = async (
+  cacheDir: string,
+): Promise<{ filePath: string; size: number; lastUsedAt: number }[]> => {
+  const entries = await fs
+    .readdir(cacheDir, { recursive: true, withFileTypes: true })
+    .catch((error) => {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    });
+
+  const stats = await Promise.all(
+    entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+      .map(async (entry) => {
+        const filePath = path.join(entry.parentPath, entry.name);
+        const stat = await fs.stat(filePath).catch(() => null);
+        return stat
+          ? { filePath, size: stat.size, lastUsedAt: stat.mtimeMs }
+          : null;
+      }),
+  );
+  return stats.filter((stat) => stat !== null);
+};
+
+/**
+ * A content-addressed cache of file processing results on disk. Entries are
+ * plain JSON files sharded by key prefix; an entry's mtime records when it
+ * was last used. Writes are atomic, so several workers can share the cache.
+ * @param cacheDir The directory holding the cache.
+ * @param maxSize The size in bytes above which old entries are evicted.
+ */
+export const createDiskFileResultCache = (
+  cacheDir: string,
+  maxSize: number,
+): FileResultCache => {
+  const getEntryPath = (key: string) =>
+    path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+  let lastEvictionAt = 0;
+
+  return {
+    async get(key) {
+      const entryPath = getEntryPath(key);
+      try {
+        const result = JSON.parse(
+          await fs.readFile(entryPath, 'utf8'),
+        ) as CachedFileResult;
+        const now = new Date();
+        await fs.utimes(entryPath, now, now).catch(() => {});
+        return result;
+      } catch (error) {
+        if (!isMissingFileError(error)) {
+          logger.warn(`Ignoring unreadable file cache entry: ${entryPath}`, {
+            error,
+          });
+        }
+        return null;
+      }
+    },
+
+    async set(key, result) {
+      const entryPath = getEntryPath(key);
+      const tempPath = `${entryPath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      try {
+        await fs.mkdir(path.dirname(entryPath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(result));
+        await fs.rename(tempPath, entryPath);
+      } catch (error) {
+        logger.warn(`Failed to write file cache entry: ${entryPath}`, {
+          error,
+        });
+        await fs.rm(tempPath, { force: true }).catch(() => {});
+      }
+    },
+
+    async evict() {
+      if (Date.now() - lastEvictionAt < EVICTION_INTERVAL_MS) {
+        return;
+      }
+      lastEvictionAt = Date.now();
+
+      const entries = await listCacheEntries(cacheDir);
+      let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+      if (totalSize <= maxSize) {
+        return;
+      }
+
+      entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+      let evicted = 0;
+      for (const entry of entries) {
+        if (totalSize <= maxSize) {
+          break;
+        }
+        await fs.rm(entry.filePath, { force: true });
+        totalSize -= entry.size;
+        evicted++;
+      }
+      logger.info(`Evicted ${evicted} entries from the file result cache`);
+    },
+  };
+};
+
+let fileResultCache: FileResultCache | null | undefined;
+
+/**
+ * Returns the process-wide file result cache, configured through the
+ * `FILE_RESULT_CACHE_*` environment variables.
+ * @returns The cache, or null if it is disabled.
+ */
+export const getFileResultCache = (): FileResultCache | null => {
+  if (fileResultCache === undefined) {
+    fileResultCache = FILE_RESULT_CACHE_ENABLED
+      ? createDiskFileResultCache(
+          FILE_RESULT_CACHE_DIR,
+          FILE_RESULT_CACHE_MAX_SIZE,
+        )
+      : null;
+  }
+  return fileResultCache;
+};
@@ -198,6 +198,10 @@ export const getIgnorePatterns = async (
     logger.info('Adding default ignore patterns');
     for (const pattern of defaultIgnoreList) {
       ignorePatterns.add(pattern);
+      // Every repository of a multi-repository pack is a root of its own
+      for (const repository of config.output.repositories ?? []) {
+        ignorePatterns.add(`${repository.prefix}/${pattern}`);
+      }
     }
   }
 
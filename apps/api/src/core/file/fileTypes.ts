@@ -6,4 +6,102 @@ export interface RawFile {
 export interface ProcessedFile {
   path: string;
   content: string;
+  // Set for the json and chunks output styles, and for results from the file
+  // cache
+  tokenCount?: number;
+  // Only set for the json output style
+  chunks?: string[];
+  // Only set for the chunks output style
+  embeddingChunks?: EmbeddingChunk[];
+}
+
+// A piece of a file sized for embedding, cut at symbol boundaries
+export interface EmbeddingChunk {
+  // Qualified name of the innermost symbol holding the chunk, such as
+  // `Parser.parse`, or null at the top level of the file
+  symbol: string | null;
+  // 1-based and inclusive, in the file as it is in the repository
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  // SHA-256 of the content, hex encoded
+  hash: string;
+  content: string;
+}
+
+export type FileChangeStatus =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'type-changed';
+
+// A file changed between the base and head of a diff
+export interface FileChange {
+  path: string;
+  // The path before a rename or copy
+  previousPath?: string;
+  status: FileChangeStatus;
+  // Unified diff of the file
+  patch: string;
+}
+
+// A commit of the repository's recent history
+export interface GitLogCommit {
+  sha: string;
+  author: string;
+  // ISO 8601 author date
+  date: string;
+  subject: string;
+  // The files the commit touched; capped for large commits
+  files: string[];
+  totalFiles: number;
+}
+
+// What the recent history says about one file
+export interface GitFileHistory {
+  lastModified: string;
+  lastAuthor: string;
+  lastCommitSha: string;
+  // Commits of the history that touched the file
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  // The authors with the most commits to the file, at most three
+  topAuthors: { name: string; commits: number }[];
+}
+
+// The last commits of a repository, and per-file summaries of them
+export interface GitHistory {
+  commits: GitLogCommit[];
+  // Keyed by file path
+  files: Record<string, GitFileHistory>;
+}
+
+export type CodeSymbolKind =
+  | 'function'
+  | 'method'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'module'
+  | 'macro';
+
+// A definition found in a file by the tree-sitter queries
+export interface CodeSymbol {
+  kind: CodeSymbolKind;
+  name: string;
+  path: string;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  // The definition up to its body, on one line
+  signature: string;
+  // Qualified name of the enclosing symbol, such as `Outer.Inner`
+  parent: string | null;
+  // The doc comment before the definition, or a Python docstring, without
+  // comment markers
+  docstring: string | null;
 }
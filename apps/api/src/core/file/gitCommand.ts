@@ -1,12 +1,43 @@
 import { execFile } from 'node:child_process';
 import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import { promisify } from 'node:util';
 
 import { logger } from '~/lib/logger';
+import type {
+  FileChange,
+  FileChangeStatus,
+  GitFileHistory,
+  GitHistory,
+  GitLogCommit,
+} from './fileTypes';
 
 const execFileAsync = promisify(execFile);
 
+// Diffs of large changes easily exceed execFile's default 1 MB of output
+const GIT_DIFF_MAX_BUFFER = 256 * 1024 * 1024;
+// How far each attempt deepens the base and head histories while looking
+// for the commit the head branched off from
+const MERGE_BASE_DEEPEN_STEPS = [50, 200, 1000];
+// Files listed per commit of the git log; the rest are only counted
+const GIT_LOG_MAX_COMMIT_FILES = 20;
+const GIT_LOG_TOP_AUTHORS = 3;
+// Separate the records and fields of the git log output
+const GIT_LOG_RECORD_SEPARATOR = '\x1e';
+const GIT_LOG_FIELD_SEPARATOR = '\x1f';
+// Characters and sequences `git check-ref-format` rejects, and a leading `-`
+// that git would read as an option
+const INVALID_GIT_REF_PATTERN =
+  /[\s~^:?*[\\]|\.\.|@\{|\/\/|^[-/]|[/.]$|(?:^|\/)\.|\.lock(?:\/|$)/;
+// Only HTTPS and SSH remotes may be used; file://, ext:: and the other
+// transports can read local paths or run commands
+const GIT_PROTOCOL_CONFIG: [string, string][] = [
+  ['protocol.allow', 'never'],
+  ['protocol.https.allow', 'always'],
+  ['protocol.ssh.allow', 'always'],
+];
+
 export const getFileChangeCount = async (
   directory: string,
   maxCommits = 100,
@@ -47,76 +78,700 @@ export const isGitInstalled = async (deps = { execFileAsync }) => {
   }
 };
 
+/**
+ * Checks that a ref is safe to hand to git: a branch, tag or other ref name
+ * following the rules of `git check-ref-format`, `HEAD` or a commit SHA.
+ * Names starting with `-` are rejected, as git would take them for options.
+ */
+export const isValidGitRef = (ref: string): boolean =>
+  ref !== '' &&
+  ref !== '@' &&
+  !INVALID_GIT_REF_PATTERN.test(ref) &&
+  ![...ref].some((char) => char < ' ' || char === '\x7f');
+
+export interface GitAuthCredential {
+  type: 'token' | 'ssh_key';
+  username?: string;
+  secret: string;
+  // known_hosts lines the server's host key is verified against; required
+  // for SSH keys
+  knownHosts?: string;
+}
+
+// scp-like syntax (git@host:owner/repo.git) or ssh:// URLs
+export const isSshUrl = (url: string): boolean =>
+  /^ssh:\/\//i.test(url) || /^[\w.-]+@[\w.-]+:(?!\/\/)/.test(url);
+
+interface GitAuthEnvironment {
+  env: NodeJS.ProcessEnv;
+  cleanup: () => Promise<void>;
+}
+
+// Sets git config through the environment, which applies to every git
+// process, including the ones git spawns itself
+const toGitConfigEnv = (config: [string, string][]): NodeJS.ProcessEnv => ({
+  GIT_CONFIG_COUNT: config.length.toString(),
+  ...Object.fromEntries(
+    config.flatMap(([key, value], index) => [
+      [`GIT_CONFIG_KEY_${index}`, key],
+      [`GIT_CONFIG_VALUE_${index}`, value],
+    ]),
+  ),
+});
+
+/**
+ * Builds the environment git runs with. Only HTTPS and SSH remotes are
+ * allowed. Credentials are passed through environment-only git config or a
+ * temporary key file, never through the URL or command-line arguments, so
+ * they can't show up in logs or errors. SSH keys are only offered to
+ * servers presenting one of the credential's known host keys.
+ */
+export const createGitAuthEnvironment = async (
+  url: string,
+  credential?: GitAuthCredential,
+): Promise<GitAuthEnvironment> => {
+  // Fail fast instead of waiting for a password prompt
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: '0',
+    ...toGitConfigEnv(GIT_PROTOCOL_CONFIG),
+  };
+
+  if (!credential) {
+    return { env, cleanup: async () => {} };
+  }
+
+  if (credential.type === 'token') {
+    if (isSshUrl(url)) {
+      throw new Error('Token credentials require an HTTPS repository URL');
+    }
+    const basicAuth = Buffer.from(
+      `${credential.username || 'x-access-token'}:${credential.secret}`,
+    ).toString('base64');
+
+    return {
+      env: {
+        ...env,
+        ...toGitConfigEnv([
+          ...GIT_PROTOCOL_CONFIG,
+          [
+            `http.${new URL(url).origin}/.extraHeader`,
+            `Authorization: Basic ${basicAuth}`,
+          ],
+        ]),
+      },
+      cleanup: async () => {},
+    };
+  }
+
+  // Without the server's host key, the key could be offered to whoever
+  // answers for the host
+  if (!credential.knownHosts?.trim()) {
+    throw new Error('SSH key credentials require the known host keys');
+  }
+
+  const keyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codecrawl-ssh-'));
+  const keyPath = path.join(keyDir, 'id_key');
+  const knownHostsPath = path.join(keyDir, 'known_hosts');
+  await fs.writeFile(keyPath, `${credential.secret.trim()}\n`, {
+    mode: 0o600,
+  });
+  await fs.writeFile(knownHostsPath, `${credential.knownHosts.trim()}\n`, {
+    mode: 0o600,
+  });
+
+  return {
+    env: {
+      ...env,
+      GIT_SSH_COMMAND: [
+        'ssh',
+        `-i "${keyPath}"`,
+        '-o IdentitiesOnly=yes',
+        '-o BatchMode=yes',
+        '-o StrictHostKeyChecking=yes',
+        `-o UserKnownHostsFile="${knownHostsPath}"`,
+        '-o GlobalKnownHostsFile=/dev/null',
+      ].join(' '),
+    },
+    cleanup: () => fs.rm(keyDir, { recursive: true, force: true }),
+  };
+};
+
+/**
+ * Removes credentials from a git URL so it can be logged or echoed back.
+ */
+export const redactUrlCredentials = (url: string): string => {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@\s]+@/i, '$1***@');
+};
+
+const redactSecret = (error: unknown, credential?: GitAuthCredential) => {
+  if (!credential || !(error instanceof Error)) {
+    return error;
+  }
+  // Defensive: the secret is never passed as an argument, but git output
+  // is echoed in the error message
+  const redacted = new Error(
+    error.message.split(credential.secret).join('***'),
+  );
+  return redacted;
+};
+
+export interface GitDiffResult {
+  // Commit the base ref points to
+  baseCommitSha: string;
+  // Commit the changes are computed from: where the head branched off the
+  // base, or the base itself when no common ancestor was found
+  mergeBaseCommitSha: string;
+  changes: FileChange[];
+}
+
+export interface GitCloneResult {
+  // Commit that was checked out
+  commitSha: string;
+  // Present when a diff base was given
+  diff?: GitDiffResult;
+  // Present when history commits were requested
+  history?: GitHistory;
+  // How many of the last commits touched each file, keyed by path; present
+  // when change count commits were requested
+  fileChangeCounts?: Record<string, number>;
+}
+
+/**
+ * Shallow-clones a repository into the directory, without its `.git`.
+ * Any ref the remote can serve is fetched on its own at depth 1: branches,
+ * tags, full commit SHAs and pull or merge request refs. With a subpath,
+ * only that directory is fetched (sparse checkout of a blobless clone) and
+ * it becomes the root of the directory. With a diff base, the changes from
+ * the base to the checked out commit are collected before `.git` is removed,
+ * and so are the log of the last `historyCommits` commits and how often each
+ * file changed in the last `changeCountCommits` commits.
+ * @returns The SHA of the commit that was checked out, the diff, the
+ *   history and the file change counts.
+ */
 export const execGitShallowClone = async (
   url: string,
   directory: string,
   remoteBranch?: string,
-  deps = { execFileAsync },
-) => {
+  credential?: GitAuthCredential,
+  signal?: AbortSignal,
+  subpath?: string,
+  diffBase?: string,
+  historyCommits?: number,
+  changeCountCommits?: number,
+  deps = { execFileAsync, createGitAuthEnvironment },
+): Promise<GitCloneResult> => {
   // Check if the URL is valid
+  if (!isSshUrl(url)) {
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch (error) {
+      throw new Error(
+        `Invalid repository URL. Please provide a valid URL. url: ${redactUrlCredentials(url)}`,
+      );
+    }
+    if (protocol !== 'https:') {
+      throw new Error(
+        `Only HTTPS and SSH repository URLs are supported. url: ${redactUrlCredentials(url)}`,
+      );
+    }
+  }
+  for (const ref of [remoteBranch, diffBase]) {
+    if (ref !== undefined && !isValidGitRef(ref)) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+  }
+
+  const auth = await deps.createGitAuthEnvironment(url, credential);
+  // Aborting kills the running git process
+  const execOptions = { env: auth.env, signal };
+  let commitSha: string;
+  let diff: GitDiffResult | undefined;
+  let history: GitHistory | undefined;
+  let fileChangeCounts: Record<string, number> | undefined;
+  const logCommits = Math.max(historyCommits ?? 0, changeCountCommits ?? 0);
+
   try {
-    new URL(url);
-  } catch (error) {
-    throw new Error(
-      `Invalid repository URL. Please provide a valid URL. url: ${url}`,
+    await runShallowClone(
+      url,
+      directory,
+      remoteBranch,
+      subpath,
+      // One more commit, so the oldest one read from the log has its parent
+      // to be diffed against
+      logCommits + 1,
+      execOptions,
+      deps,
     );
+    const result = await deps.execFileAsync(
+      'git',
+      ['-C', directory, 'rev-parse', 'HEAD'],
+      execOptions,
+    );
+    commitSha = result.stdout.trim();
+    if (diffBase) {
+      diff = await runDiff(
+        directory,
+        diffBase,
+        commitSha,
+        subpath,
+        execOptions,
+        deps,
+      );
+    }
+    if (historyCommits) {
+      history = await readGitHistory(
+        directory,
+        historyCommits,
+        subpath,
+        execOptions,
+        deps,
+      );
+    }
+    if (changeCountCommits) {
+      fileChangeCounts = await readFileChangeCounts(
+        directory,
+        changeCountCommits,
+        subpath,
+        execOptions,
+        deps,
+      );
+    }
+  } catch (error) {
+    throw redactSecret(error, credential);
+  } finally {
+    await auth.cleanup();
   }
 
-  if (remoteBranch) {
-    await deps.execFileAsync('git', ['-C', directory, 'init']);
-    await deps.execFileAsync('git', [
-      '-C',
-      directory,
-      'remote',
-      'add',
-      'origin',
-      url,
-    ]);
-    try {
-      await deps.execFileAsync('git', [
+  // Clean up .git directory
+  await fs.rm(path.join(directory, '.git'), { recursive: true, force: true });
+
+  if (subpath) {
+    await rebaseOntoSubpath(directory, subpath);
+  }
+
+  return { commitSha, diff, history, fileChangeCounts };
+};
+
+/**
+ * Replaces the directory's contents with those of its subpath. Sparse
+ * checkouts keep the files at the root of the repository as well.
+ */
+const rebaseOntoSubpath = async (directory: string, subpath: string) => {
+  const subpathStats = await fs
+    .stat(path.join(directory, subpath))
+    .catch(() => null);
+  if (!subpathStats?.isDirectory()) {
+    throw new Error(`Directory not found in repository: ${subpath}`);
+  }
+
+  const fullTreePath = `${directory}.full`;
+  await fs.rename(directory, fullTreePath);
+  try {
+    await fs.rename(path.join(fullTreePath, subpath), directory);
+  } finally {
+    await fs.rm(fullTreePath, { recursive: true, force: true });
+  }
+};
+
+const runShallowClone = async (
+  url: string,
+  directory: string,
+  remoteBranch: string | undefined,
+  subpath: string | undefined,
+  depth: number,
+  execOptions: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  deps: { execFileAsync: typeof execFileAsync },
+) => {
+  await deps.execFileAsync('git', ['-C', directory, 'init'], execOptions);
+  await deps.execFileAsync(
+    'git',
+    ['-C', directory, 'remote', 'add', '--end-of-options', 'origin', url],
+    execOptions,
+  );
+  // Without blobs in the fetch, checkout only downloads the files of the
+  // sparse directories
+  const filterArgs = subpath ? ['--filter=blob:none'] : [];
+  if (subpath) {
+    await deps.execFileAsync(
+      'git',
+      ['-C', directory, 'sparse-checkout', 'set', '--cone', '--', subpath],
+      execOptions,
+    );
+  }
+  // Unlike `git clone --branch`, fetching a ref by name also works for
+  // commit SHAs and for refs outside refs/heads and refs/tags, such as
+  // refs/pull/123/head
+  const ref = remoteBranch ?? 'HEAD';
+  try {
+    await deps.execFileAsync(
+      'git',
+      [
         '-C',
         directory,
         'fetch',
         '--depth',
-        '1',
+        depth.toString(),
+        ...filterArgs,
+        '--end-of-options',
         'origin',
-        remoteBranch,
-      ]);
-    } catch (error: unknown) {
-      // git fetch --depth 1 origin <short SHA> always throws "couldn't find remote ref" error
-      const isRefNotFoundError =
-        error instanceof Error &&
-        error.message.includes(`couldn't find remote ref ${remoteBranch}`);
-
-      if (!isRefNotFoundError) {
-        // Rethrow error as nothing else we can do
-        throw error;
-      }
+        ref,
+      ],
+      execOptions,
+    );
+    await deps.execFileAsync(
+      'git',
+      ['-C', directory, 'checkout', 'FETCH_HEAD'],
+      execOptions,
+    );
+  } catch (error: unknown) {
+    // git fetch --depth 1 origin <short SHA> always throws "couldn't find remote ref" error
+    const isRefNotFoundError =
+      error instanceof Error &&
+      error.message.includes(`couldn't find remote ref ${ref}`);
 
-      // Short SHA detection - matches a hexadecimal string of 4 to 39 characters
-      // If the string matches this regex, it MIGHT be a short SHA
-      // If the string doesn't match, it is DEFINITELY NOT a short SHA
-      const isNotShortSHA = !remoteBranch.match(/^[0-9a-f]{4,39}$/i);
+    if (!isRefNotFoundError) {
+      // Rethrow error as nothing else we can do
+      throw error;
+    }
 
-      if (isNotShortSHA) {
-        // Rethrow error as nothing else we can do
-        throw error;
-      }
+    // Short SHA detection - matches a hexadecimal string of 4 to 39 characters
+    // If the string matches this regex, it MIGHT be a short SHA
+    // If the string doesn't match, it is DEFINITELY NOT a short SHA
+    const isNotShortSHA = !ref.match(/^[0-9a-f]{4,39}$/i);
+
+    if (isNotShortSHA) {
+      // Rethrow error as nothing else we can do
+      throw error;
+    }
+
+    // Maybe the error is due to a short SHA, let's try again
+    // Can't use --depth 1 here as we need to fetch the specific commit, but
+    // commits and trees are enough to resolve it; checkout fetches the blobs
+    await deps.execFileAsync(
+      'git',
+      ['-C', directory, 'fetch', '--filter=blob:none', 'origin'],
+      execOptions,
+    );
+    await deps.execFileAsync(
+      'git',
+      ['-C', directory, 'checkout', '--end-of-options', ref],
+      execOptions,
+    );
+  }
+};
+
+const FILE_CHANGE_STATUSES: Record<string, FileChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type-changed',
+};
+
+/**
+ * Parses `git diff --name-status -z` output. Renames and copies are
+ * followed by both the old and the new path.
+ */
+const parseNameStatus = (output: string): Omit<FileChange, 'patch'>[] => {
+  const fields = output.split('\0');
+  const entries: Omit<FileChange, 'patch'>[] = [];
+  let index = 0;
+  while (index < fields.length - 1) {
+    const code = fields[index++].charAt(0);
+    const status = FILE_CHANGE_STATUSES[code] ?? 'modified';
+    if (code === 'R' || code === 'C') {
+      const previousPath = fields[index++];
+      entries.push({ path: fields[index++], previousPath, status });
+    } else {
+      entries.push({ path: fields[index++], status });
+    }
+  }
+  return entries;
+};
 
-      // Maybe the error is due to a short SHA, let's try again
-      // Can't use --depth 1 here as we need to fetch the specific commit
-      await deps.execFileAsync('git', ['-C', directory, 'fetch', 'origin']);
-      await deps.execFileAsync('git', [
+/**
+ * Finds the commit the head branched off the base from, deepening both
+ * shallow histories until they meet.
+ * @returns The commit's SHA, or undefined if it is further back than the
+ *   histories are deepened.
+ */
+const findMergeBase = async (
+  directory: string,
+  baseCommitSha: string,
+  headCommitSha: string,
+  filterArgs: string[],
+  execOptions: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  deps: { execFileAsync: typeof execFileAsync },
+): Promise<string | undefined> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await deps.execFileAsync(
+        'git',
+        [
+          '-C',
+          directory,
+          'merge-base',
+          '--end-of-options',
+          baseCommitSha,
+          headCommitSha,
+        ],
+        execOptions,
+      );
+      return result.stdout.trim();
+    } catch (error) {
+      // Exits with an error while the histories don't meet yet
+      execOptions.signal?.throwIfAborted();
+    }
+    if (attempt === MERGE_BASE_DEEPEN_STEPS.length) {
+      return undefined;
+    }
+    await deps.execFileAsync(
+      'git',
+      [
         '-C',
         directory,
-        'checkout',
-        remoteBranch,
-      ]);
+        'fetch',
+        `--deepen=${MERGE_BASE_DEEPEN_STEPS[attempt]}`,
+        ...filterArgs,
+        '--end-of-options',
+        'origin',
+        baseCommitSha,
+        headCommitSha,
+      ],
+      execOptions,
+    );
+  }
+};
+
+/**
+ * Fetches the base ref next to the checked out head and collects the unified
+ * diff of every file changed since the head branched off the base, like a
+ * pull request shows it. With a subpath, only changes inside it are
+ * collected, relative to it.
+ */
+const runDiff = async (
+  directory: string,
+  base: string,
+  headCommitSha: string,
+  subpath: string | undefined,
+  execOptions: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  deps: { execFileAsync: typeof execFileAsync },
+): Promise<GitDiffResult> => {
+  // Only the blobs of changed files are downloaded, when diffing them
+  const filterArgs = ['--filter=blob:none'];
+  await deps.execFileAsync(
+    'git',
+    [
+      '-C',
+      directory,
+      'fetch',
+      '--depth',
+      '1',
+      ...filterArgs,
+      '--end-of-options',
+      'origin',
+      base,
+    ],
+    execOptions,
+  );
+  const baseResult = await deps.execFileAsync(
+    'git',
+    ['-C', directory, 'rev-parse', 'FETCH_HEAD^{commit}'],
+    execOptions,
+  );
+  const baseCommitSha = baseResult.stdout.trim();
+
+  const mergeBaseCommitSha = await findMergeBase(
+    directory,
+    baseCommitSha,
+    headCommitSha,
+    filterArgs,
+    execOptions,
+    deps,
+  );
+  if (!mergeBaseCommitSha) {
+    logger.warn('No common ancestor found; diffing against the base itself', {
+      base,
+      baseCommitSha,
+      headCommitSha,
+    });
+  }
+  const fromCommitSha = mergeBaseCommitSha ?? baseCommitSha;
+
+  const diffArgs = [
+    '-C',
+    directory,
+    'diff',
+    '--no-color',
+    '--no-ext-diff',
+    '--find-renames',
+    ...(subpath ? [`--relative=${subpath}/`] : []),
+  ];
+  const diffOptions = { ...execOptions, maxBuffer: GIT_DIFF_MAX_BUFFER };
+  // One after the other, as both may download missing blobs
+  const nameStatusResult = await deps.execFileAsync(
+    'git',
+    [...diffArgs, '--name-status', '-z', fromCommitSha, headCommitSha],
+    diffOptions,
+  );
+  const patchResult = await deps.execFileAsync(
+    'git',
+    [...diffArgs, fromCommitSha, headCommitSha],
+    diffOptions,
+  );
+
+  // Both list the files in the same order, one `diff --git` block per file
+  const patches = patchResult.stdout
+    .split(/^(?=diff --git )/m)
+    .filter((patch) => patch.startsWith('diff --git '))
+    .map((patch) => patch.trimEnd());
+  const changes = parseNameStatus(nameStatusResult.stdout).map(
+    (change, index) => ({ ...change, patch: patches[index] ?? '' }),
+  );
+
+  return { baseCommitSha, mergeBaseCommitSha: fromCommitSha, changes };
+};
+
+const toTopAuthors = (
+  authorCommits: Map<string, number>,
+): GitFileHistory['topAuthors'] =>
+  [...authorCommits]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, GIT_LOG_TOP_AUTHORS)
+    .map(([name, commits]) => ({ name, commits }));
+
+/**
+ * Counts how many of the last commits of the checked out history touched
+ * each file. With a subpath, only commits touching it count, and paths are
+ * relative to it.
+ */
+const readFileChangeCounts = async (
+  directory: string,
+  maxCommits: number,
+  subpath: string | undefined,
+  execOptions: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  deps: { execFileAsync: typeof execFileAsync },
+): Promise<Record<string, number>> => {
+  const result = await deps.execFileAsync(
+    'git',
+    [
+      '-C',
+      directory,
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '-n',
+      maxCommits.toString(),
+      '--no-renames',
+      '--name-only',
+      '--format=',
+      ...(subpath ? [`--relative=${subpath}/`, '--', subpath] : []),
+    ],
+    { ...execOptions, maxBuffer: GIT_DIFF_MAX_BUFFER },
+  );
+
+  // Without a prototype, paths such as `constructor` can't collide
+  const fileChangeCounts: Record<string, number> = Object.create(null);
+  for (const filePath of result.stdout.split('\n').filter(Boolean)) {
+    fileChangeCounts[filePath] = (fileChangeCounts[filePath] ?? 0) + 1;
+  }
+  return fileChangeCounts;
+};
+
+/**
+ * Reads the last commits of the checked out history, with the files each one
+ * touched, and summarizes them per file: when and by whom it was last
+ * modified, who changed it most and how many lines changed. With a subpath,
+ * only commits touching it count, and paths are relative to it.
+ */
+const readGitHistory = async (
+  directory: string,
+  maxCommits: number,
+  subpath: string | undefined,
+  execOptions: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  deps: { execFileAsync: typeof execFileAsync },
+): Promise<GitHistory> => {
+  const result = await deps.execFileAsync(
+    'git',
+    [
+      '-C',
+      directory,
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '-n',
+      maxCommits.toString(),
+      '--no-renames',
+      '--numstat',
+      `--format=${GIT_LOG_RECORD_SEPARATOR}%H${GIT_LOG_FIELD_SEPARATOR}%an${GIT_LOG_FIELD_SEPARATOR}%aI${GIT_LOG_FIELD_SEPARATOR}%s`,
+      ...(subpath ? [`--relative=${subpath}/`, '--', subpath] : []),
+    ],
+    { ...execOptions, maxBuffer: GIT_DIFF_MAX_BUFFER },
+  );
+
+  const commits: GitLogCommit[] = [];
+  // Without a prototype, paths such as `constructor` can't collide
+  const files: Record<string, GitFileHistory> = Object.create(null);
+  const authorsByFile = new Map<string, Map<string, number>>();
+
+  // Records are newest first, so a file's first record is its last change
+  for (const record of result.stdout.split(GIT_LOG_RECORD_SEPARATOR)) {
+    const [header, ...statLines] = record.split('\n');
+    const [sha, author, date, subject] = header.split(GIT_LOG_FIELD_SEPARATOR);
+    if (!sha || date === undefined) {
+      continue;
+    }
+
+    const touchedFiles: string[] = [];
+    for (const statLine of statLines) {
+      // Binary files have `-` instead of line counts
+      const [added, deleted, filePath] = statLine.split('\t');
+      if (!filePath) {
+        continue;
+      }
+      touchedFiles.push(filePath);
+
+      let fileHistory = files[filePath];
+      if (!fileHistory) {
+        fileHistory = {
+          lastModified: date,
+          lastAuthor: author,
+          lastCommitSha: sha,
+          commits: 0,
+          linesAdded: 0,
+          linesDeleted: 0,
+          topAuthors: [],
+        };
+        files[filePath] = fileHistory;
+      }
+      fileHistory.commits++;
+      fileHistory.linesAdded += Number.parseInt(added, 10) || 0;
+      fileHistory.linesDeleted += Number.parseInt(deleted, 10) || 0;
+
+      let authorCommits = authorsByFile.get(filePath);
+      if (!authorCommits) {
+        authorCommits = new Map();
+        authorsByFile.set(filePath, authorCommits);
+      }
+      authorCommits.set(author, (authorCommits.get(author) ?? 0) + 1);
     }
-  } else {
-    await deps.execFileAsync('git', ['clone', '--depth', '1', url, directory]);
+
+    commits.push({
+      sha,
+      author,
+      date,
+      subject,
+      files: touchedFiles.slice(0, GIT_LOG_MAX_COMMIT_FILES),
+      totalFiles: touchedFiles.length,
+    });
   }
 
-  // Clean up .git directory
-  await fs.rm(path.join(directory, '.git'), { recursive: true, force: true });
+  for (const [filePath, authorCommits] of authorsByFile) {
+    files[filePath].topAuthors = toTopAuthors(authorCommits);
+  }
+
+  return { commits, files };
 };
@@ -0,0 +1,19 @@
+import { logger } from '~/lib/logger';
+import { parseSymbols } from '../../treeSitter/parseFile';
+import type { CodeSymbol, RawFile } from '../fileTypes';
+
+export interface FileOutlineTask {
+  rawFile: RawFile;
+}
+
+export default async ({ rawFile }: FileOutlineTask): Promise<CodeSymbol[]> => {
+  const processStartAt = process.hrtime.bigint();
+  const symbols = await parseSymbols(rawFile.content, rawFile.path);
+
+  const processEndAt = process.hrtime.bigint();
+  logger.info(
+    `Outlined ${rawFile.path}. Took: ${(Number(processEndAt - processStartAt) / 1e6).toFixed(2)}ms`,
+  );
+
+  return symbols;
+};
@@ -1,23 +1,126 @@
+import type { TiktokenEncoding } from 'tiktoken';
+
 import type { ConfigMerged } from '~/config/configSchema';
 import { logger } from '~/lib/logger';
-import { parseFile } from '../../treeSitter/parseFile';
+import { TokenCounter } from '../../tokenCount';
+import {
+  CHUNK_SEPARATOR,
+  canParseFile,
+  parseFile,
+  parseSymbols,
+} from '../../treeSitter/parseFile';
+import { chunkFile } from '../fileChunk';
 import { getFileManipulator } from '../fileManipulate';
-import type { RawFile } from '../fileTypes';
+import type { ProcessedFile, RawFile } from '../fileTypes';
 
 export interface FileProcessTask {
   rawFile: RawFile;
   config: ConfigMerged;
+  // Count tokens even when the style doesn't need them, to cache the count
+  countTokens?: boolean;
 }
 
-export default async ({ config, rawFile }: FileProcessTask) => {
+// Worker-level singleton for TokenCounter
+let tokenCounter: TokenCounter | null = null;
+
+const getTokenCounter = (encodingName: TiktokenEncoding) => {
+  if (tokenCounter === null) {
+    tokenCounter = new TokenCounter(encodingName);
+  }
+  return tokenCounter;
+};
+
+export default async ({
+  config,
+  rawFile,
+  countTokens,
+}: FileProcessTask): Promise<ProcessedFile> => {
+  if (config.output.style === 'chunks') {
+    return processChunks(rawFile, config);
+  }
+
   const processedContent = await processContent(rawFile, config);
 
+  if (config.output.style === 'json') {
+    return {
+      path: rawFile.path,
+      content: processedContent,
+      tokenCount: getTokenCounter(config.tokenCount.encoding).countTokens(
+        processedContent,
+        rawFile.path,
+      ),
+      chunks: await extractChunks(rawFile, processedContent, config),
+    };
+  }
+
+  if (countTokens) {
+    return {
+      path: rawFile.path,
+      content: processedContent,
+      tokenCount: getTokenCounter(config.tokenCount.encoding).countTokens(
+        processedContent,
+        rawFile.path,
+      ),
+    };
+  }
+
   return {
     path: rawFile.path,
     content: processedContent,
   };
 };
 
+/**
+ * Splits a file into embedding chunks. Chunks are cut from the file as it is,
+ * so their line ranges match the repository; the options that rewrite
+ * content, such as `removeComments`, don't apply.
+ */
+const processChunks = async (
+  rawFile: RawFile,
+  config: ConfigMerged,
+): Promise<ProcessedFile> => {
+  const counter = getTokenCounter(config.tokenCount.encoding);
+  const countTokens = (text: string) => counter.countTokens(text, rawFile.path);
+
+  return {
+    path: rawFile.path,
+    content: rawFile.content,
+    tokenCount: countTokens(rawFile.content),
+    embeddingChunks: chunkFile(
+      rawFile.content,
+      await parseSymbols(rawFile.content, rawFile.path),
+      config.output.chunking,
+      countTokens,
+    ),
+  };
+};
+
+/**
+ * Extracts the tree-sitter chunks the `compress` option produces, reusing the
+ * processed content when it is already compressed.
+ * @returns The chunks, or undefined if the language is not supported.
+ */
+const extractChunks = async (
+  rawFile: RawFile,
+  processedContent: string,
+  config: ConfigMerged,
+): Promise<string[] | undefined> => {
+  if (!(await canParseFile(rawFile.path))) {
+    return undefined;
+  }
+
+  const compressedContent = config.output.compress
+    ? processedContent
+    : await parseFile(rawFile.content.trim(), rawFile.path);
+  if (compressedContent === undefined) {
+    return undefined;
+  }
+
+  return compressedContent
+    .split(`\n${CHUNK_SEPARATOR}\n`)
+    .filter((chunk) => chunk.length > 0);
+};
+
 export const processContent = async (
   rawFile: RawFile,
   config: ConfigMerged,
@@ -69,3 +172,11 @@ export const processContent = async (
 
   return processedContent;
 };
+
+// Cleanup when worker is terminated
+process.on('exit', () => {
+  if (tokenCounter) {
+    tokenCounter.free();
+    tokenCounter = null;
+  }
+});
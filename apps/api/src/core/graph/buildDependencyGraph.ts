@@ -0,0 +1,103 @@
+import path from 'node:path';
+
+import type { DependencyGraphLevel } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import { hasResolvableImports, resolveFileImports } from '../file/fileImports';
+
+// A file, or at package level a directory of files
+export interface DependencyGraphNode {
+  id: string;
+  // Files of the node whose imports were followed
+  files: number;
+}
+
+export interface DependencyGraphEdge {
+  // The importing node
+  from: string;
+  to: string;
+  // Imports between the nodes' files; always 1 at file level
+  imports: number;
+}
+
+export interface DependencyGraph {
+  level: DependencyGraphLevel;
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
+
+// Files found under one root directory
+export interface DependencyGraphSource {
+  rootDir: string;
+  filePaths: string[];
+}
+
+const getNodeId = (filePath: string, level: DependencyGraphLevel): string =>
+  level === 'file' ? filePath : path.dirname(filePath);
+
+/**
+ * Builds the graph of which files import which, from the JavaScript,
+ * TypeScript, Python and Go files of the sources. Only imports resolved to
+ * files of the same source are edges; at package level, the files of a
+ * directory are merged into one node and imports within it are dropped.
+ * @param sources The files to graph and the directories they are in.
+ * @param level Whether nodes are files or directories.
+ * @returns The nodes and edges, sorted by id.
+ */
+export const buildDependencyGraph = async (
+  sources: DependencyGraphSource[],
+  level: DependencyGraphLevel,
+  deps = {
+    resolveFileImports,
+  },
+): Promise<DependencyGraph> => {
+  const nodeFiles = new Map<string, number>();
+  const edgeImports = new Map<string, DependencyGraphEdge>();
+
+  for (const { rootDir, filePaths } of sources) {
+    const fileImports = await deps.resolveFileImports(
+      rootDir,
+      filePaths.filter(hasResolvableImports),
+      filePaths,
+    );
+    for (const [filePath, importedFiles] of fileImports) {
+      const from = getNodeId(filePath, level);
+      nodeFiles.set(from, (nodeFiles.get(from) ?? 0) + 1);
+
+      for (const importedFile of importedFiles) {
+        const to = getNodeId(importedFile, level);
+        if (to === from) {
+          continue;
+        }
+        const key = JSON.stringify([from, to]);
+        const edge = edgeImports.get(key);
+        if (edge) {
+          edge.imports++;
+        } else {
+          edgeImports.set(key, { from, to, imports: 1 });
+        }
+      }
+    }
+  }
+
+  // Imported files are nodes even when their own imports weren't followed
+  for (const { to } of edgeImports.values()) {
+    if (!nodeFiles.has(to)) {
+      nodeFiles.set(to, 0);
+    }
+  }
+
+  const nodes = [...nodeFiles]
+    .map(([id, files]) => ({ id, files }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const edges = [...edgeImports.values()].sort(
+    (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+  );
+
+  logger.info('Built dependency graph', {
+    level,
+    nodes: nodes.length,
+    edges: edges.length,
+  });
+
+  return { level, nodes, edges };
+};
@@ -0,0 +1,60 @@
+import type { DependencyGraphFormat } from '~/config/configSchema';
+import type { DependencyGraph } from './buildDependencyGraph';
+
+const escapeDotString = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Mermaid labels are quoted; quotes inside them are written as entities
+const escapeMermaidLabel = (value: string): string =>
+  `"${value.replace(/"/g, '#quot;')}"`;
+
+const formatDot = (graph: DependencyGraph): string => {
+  const lines = ['digraph dependencies {', '  rankdir=LR;'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${escapeDotString(node.id)};`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.imports > 1 ? ` [label="${edge.imports}"]` : '';
+    lines.push(
+      `  ${escapeDotString(edge.from)} -> ${escapeDotString(edge.to)}${label};`,
+    );
+  }
+  lines.push('}');
+  return lines.join('\n');
+};
+
+// Paths aren't valid Mermaid ids, so nodes are numbered and labelled
+const formatMermaid = (graph: DependencyGraph): string => {
+  const nodeIds = new Map(
+    graph.nodes.map((node, index) => [node.id, `n${index}`]),
+  );
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeIds.get(node.id)}[${escapeMermaidLabel(node.id)}]`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.imports > 1 ? `|${edge.imports}|` : '';
+    lines.push(
+      `  ${nodeIds.get(edge.from)} -->${label} ${nodeIds.get(edge.to)}`,
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Renders a dependency graph as JSON, a Graphviz DOT digraph or a Mermaid
+ * flowchart. Edges joining more than one import are labelled with the count.
+ */
+export const formatDependencyGraph = (
+  graph: DependencyGraph,
+  format: DependencyGraphFormat,
+): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+    case 'dot':
+      return formatDot(graph);
+    case 'mermaid':
+      return formatMermaid(graph);
+  }
+};
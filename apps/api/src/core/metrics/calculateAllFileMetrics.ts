@@ -12,20 +12,40 @@ const initTaskRunner = (numOfTasks: number) => {
     numOfTasks,
     require.resolve('./workers/fileMetricsWorker'),
   );
-  return (task: FileMetricsTask) => pool.run(task);
+  return (task: FileMetricsTask, signal?: AbortSignal) =>
+    pool.run(task, { signal });
 };
 
+/**
+ * Counts characters and tokens per file. Token counts already known from
+ * processing (json style, file result cache) are reused.
+ */
 export const calculateAllFileMetrics = async (
   processedFiles: ProcessedFile[],
   tokenCounterEncoding: TiktokenEncoding,
   progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
   deps = {
     initTaskRunner,
   },
 ): Promise<FileMetrics[]> => {
-  const runTask = deps.initTaskRunner(processedFiles.length);
-  const tasks = processedFiles.map(
-    (file, index) =>
+  const results: FileMetrics[] = new Array(processedFiles.length);
+  const uncountedFiles: { file: ProcessedFile; index: number }[] = [];
+  processedFiles.forEach((file, index) => {
+    if (file.tokenCount !== undefined) {
+      results[index] = {
+        path: file.path,
+        charCount: file.content.length,
+        tokenCount: file.tokenCount,
+      };
+    } else {
+      uncountedFiles.push({ file, index });
+    }
+  });
+
+  const runTask = deps.initTaskRunner(uncountedFiles.length);
+  const tasks = uncountedFiles.map(
+    ({ file, index }) =>
       ({
         file,
         index,
@@ -37,21 +57,37 @@ export const calculateAllFileMetrics = async (
   try {
     const startTime = process.hrtime.bigint();
     logger.info(
-      `Starting metrics calculation for ${processedFiles.length} files using worker pool`,
+      `Starting metrics calculation for ${tasks.length} files using worker pool`,
     );
 
-    let completedTasks = 0;
-    const results = await Promise.all(
+    let completedTasks = processedFiles.length - tasks.length;
+    const partialMetrics = { totalCharacters: 0, totalTokens: 0 };
+    for (const metrics of results) {
+      if (metrics) {
+        partialMetrics.totalCharacters += metrics.charCount;
+        partialMetrics.totalTokens += metrics.tokenCount;
+      }
+    }
+    await Promise.all(
       tasks.map((task) =>
-        runTask(task).then((result) => {
+        runTask(task, signal).then((result) => {
           completedTasks++;
+          partialMetrics.totalCharacters += result.charCount;
+          partialMetrics.totalTokens += result.tokenCount;
           progressCallback(
             `Calculating metrics... (${completedTasks}/${task.totalFiles})`,
+            {
+              phase: 'metrics',
+              filesDone: completedTasks,
+              filesTotal: task.totalFiles,
+              currentFile: task.file.path,
+              metrics: { ...partialMetrics },
+            },
           );
           logger.info(
             `Calculating metrics... (${completedTasks}/${task.totalFiles}) ${task.file.path}`,
           );
-          return result;
+          results[task.index] = result;
         }),
       ),
     );
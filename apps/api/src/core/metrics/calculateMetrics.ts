@@ -17,23 +17,26 @@ export const calculateMetrics = async (
   output: string,
   progressCallback: CrawlProgressCallback,
   config: ConfigMerged,
+  signal?: AbortSignal,
   deps = {
     calculateAllFileMetrics,
     calculateOutputMetrics,
   },
 ): Promise<CalculateMetricsResult> => {
-  progressCallback('Calculating metrics...');
+  progressCallback('Calculating metrics...', { phase: 'metrics' });
 
   const [fileMetrics, totalTokens] = await Promise.all([
     deps.calculateAllFileMetrics(
       processedFiles,
       config.tokenCount.encoding,
       progressCallback,
+      signal,
     ),
     deps.calculateOutputMetrics(
       output,
       config.tokenCount.encoding,
       config.output.filePath,
+      signal,
     ),
   ]);
 
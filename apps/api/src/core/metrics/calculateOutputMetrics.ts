@@ -12,13 +12,15 @@ const initTaskRunner = (numOfTasks: number) => {
     numOfTasks,
     require.resolve('./workers/outputMetricsWorker'),
   );
-  return (task: OutputMetricsTask) => pool.run(task);
+  return (task: OutputMetricsTask, signal?: AbortSignal) =>
+    pool.run(task, { signal });
 };
 
 export const calculateOutputMetrics = async (
   content: string,
   encoding: TiktokenEncoding,
   path?: string,
+  signal?: AbortSignal,
   deps = {
     initTaskRunner,
   },
@@ -45,11 +47,14 @@ export const calculateOutputMetrics = async (
       // Process chunks in parallel
       const chunkResults = await Promise.all(
         chunks.map((chunk, index) =>
-          runTask({
-            content: chunk,
-            encoding,
-            path: path ? `${path}-chunk-${index}` : undefined,
-          }),
+          runTask(
+            {
+              content: chunk,
+              encoding,
+              path: path ? `${path}-chunk-${index}` : undefined,
+            },
+            signal,
+          ),
         ),
       );
 
@@ -57,7 +62,7 @@ export const calculateOutputMetrics = async (
       result = chunkResults.reduce((sum, count) => sum + count, 0);
     } else {
       // Process small content directly
-      result = await runTask({ content, encoding, path });
+      result = await runTask({ content, encoding, path }, signal);
     }
 
     const endTime = process.hrtime.bigint();
@@ -0,0 +1,219 @@
+import path from 'node:path';
+import type { TiktokenEncoding } from 'tiktoken';
+
+import { logger } from '~/lib/logger';
+import { initPiscina } from '~/lib/processConcurrency';
+import type { CrawlProgressCallback } from '~/types';
+import type { ProcessedFile } from '../file/fileTypes';
+import { ext2Lang } from '../treeSitter/ext2Lang';
+import type {
+  RepositoryFileAnalysis,
+  RepositoryMetricsTask,
+} from './workers/repositoryMetricsWorker';
+
+// Language of files whose extension has no tree-sitter grammar
+const OTHER_LANGUAGE = 'other';
+
+export interface MetricsTotals {
+  files: number;
+  lines: number;
+  characters: number;
+  bytes: number;
+  // Token count per encoding
+  tokens: Record<string, number>;
+  // Totals of the files whose syntax was analyzed; zero without any
+  analyzedFiles: number;
+  functions: number;
+  classes: number;
+  complexity: number;
+}
+
+export interface LanguageMetrics extends MetricsTotals {
+  language: string;
+}
+
+// Totals of every file below the directory
+export interface DirectoryMetrics extends MetricsTotals {
+  path: string;
+}
+
+export interface RepositoryFileMetrics {
+  path: string;
+  language: string;
+  lines: number;
+  characters: number;
+  bytes: number;
+  tokens: Record<string, number>;
+  // Null for languages without syntax analysis
+  functions: number | null;
+  classes: number | null;
+  complexity: number | null;
+}
+
+export interface RepositoryMetrics {
+  // The first encoding ranks the languages and the largest files
+  encodings: TiktokenEncoding[];
+  totals: MetricsTotals;
+  languages: LanguageMetrics[];
+  directories: DirectoryMetrics[];
+  largestFiles: RepositoryFileMetrics[];
+}
+
+const initTaskRunner = (numOfTasks: number) => {
+  const pool = initPiscina(
+    numOfTasks,
+    require.resolve('./workers/repositoryMetricsWorker'),
+  );
+  return (task: RepositoryMetricsTask, signal?: AbortSignal) =>
+    pool.run(task, { signal }) as Promise<RepositoryFileAnalysis>;
+};
+
+const createTotals = (): MetricsTotals => ({
+  files: 0,
+  lines: 0,
+  characters: 0,
+  bytes: 0,
+  tokens: {},
+  analyzedFiles: 0,
+  functions: 0,
+  classes: 0,
+  complexity: 0,
+});
+
+const addFileToTotals = (
+  totals: MetricsTotals,
+  file: RepositoryFileMetrics,
+) => {
+  totals.files++;
+  totals.lines += file.lines;
+  totals.characters += file.characters;
+  totals.bytes += file.bytes;
+  for (const [encoding, tokenCount] of Object.entries(file.tokens)) {
+    totals.tokens[encoding] = (totals.tokens[encoding] ?? 0) + tokenCount;
+  }
+  if (file.complexity !== null) {
+    totals.analyzedFiles++;
+    totals.functions += file.functions ?? 0;
+    totals.classes += file.classes ?? 0;
+    totals.complexity += file.complexity;
+  }
+};
+
+const getFileLanguage = (filePath: string): string => {
+  const extension = path.extname(filePath).toLowerCase().slice(1);
+  return Object.keys(ext2Lang).includes(extension)
+    ? ext2Lang[extension as keyof typeof ext2Lang]
+    : OTHER_LANGUAGE;
+};
+
+/**
+ * Measures a repository's files and aggregates them per language and per
+ * directory. Tokens are counted with every encoding, and the syntax of
+ * files in languages with a tree-sitter grammar is analyzed for functions,
+ * classes and an estimate of cyclomatic complexity.
+ * @param processedFiles The files to measure.
+ * @param encodings The encodings to count tokens with, the first ranking
+ *   the languages and the largest files.
+ * @param topFilesLength How many of the largest files to list.
+ */
+export const calculateRepositoryMetrics = async (
+  processedFiles: ProcessedFile[],
+  encodings: TiktokenEncoding[],
+  topFilesLength: number,
+  progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
+  deps = {
+    initTaskRunner,
+  },
+): Promise<RepositoryMetrics> => {
+  const [primaryEncoding] = encodings;
+  const runTask = deps.initTaskRunner(processedFiles.length);
+
+  const startTime = process.hrtime.bigint();
+  logger.info(
+    `Starting repository metrics calculation for ${processedFiles.length} files using worker pool`,
+  );
+
+  let completedTasks = 0;
+  const partialMetrics = { totalCharacters: 0, totalTokens: 0 };
+  const files = await Promise.all(
+    processedFiles.map((file) =>
+      runTask({ file, encodings }, signal).then(
+        ({ tokenCounts, structure }): RepositoryFileMetrics => {
+          completedTasks++;
+          partialMetrics.totalCharacters += file.content.length;
+          partialMetrics.totalTokens += tokenCounts[primaryEncoding] ?? 0;
+          progressCallback(
+            `Calculating metrics... (${completedTasks}/${processedFiles.length})`,
+            {
+              phase: 'metrics',
+              filesDone: completedTasks,
+              filesTotal: processedFiles.length,
+              currentFile: file.path,
+              metrics: { ...partialMetrics },
+            },
+          );
+
+          return {
+            path: file.path,
+            language: getFileLanguage(file.path),
+            lines: file.content.split('\n').length,
+            characters: file.content.length,
+            bytes: Buffer.byteLength(file.content, 'utf8'),
+            tokens: tokenCounts,
+            functions: structure?.functionCount ?? null,
+            classes: structure?.classCount ?? null,
+            complexity: structure?.complexity ?? null,
+          };
+        },
+      ),
+    ),
+  );
+
+  const totals = createTotals();
+  const languages = new Map<string, LanguageMetrics>();
+  const directories = new Map<string, DirectoryMetrics>();
+  for (const file of files) {
+    addFileToTotals(totals, file);
+
+    let language = languages.get(file.language);
+    if (!language) {
+      language = { language: file.language, ...createTotals() };
+      languages.set(file.language, language);
+    }
+    addFileToTotals(language, file);
+
+    for (
+      let directoryPath = path.posix.dirname(file.path);
+      directoryPath !== '.';
+      directoryPath = path.posix.dirname(directoryPath)
+    ) {
+      let directory = directories.get(directoryPath);
+      if (!directory) {
+        directory = { path: directoryPath, ...createTotals() };
+        directories.set(directoryPath, directory);
+      }
+      addFileToTotals(directory, file);
+    }
+  }
+
+  const byPrimaryTokens = (
+    a: { tokens: Record<string, number> },
+    b: { tokens: Record<string, number> },
+  ) => (b.tokens[primaryEncoding] ?? 0) - (a.tokens[primaryEncoding] ?? 0);
+
+  const endTime = process.hrtime.bigint();
+  logger.info(
+    `Repository metrics calculation completed in ${(Number(endTime - startTime) / 1e6).toFixed(2)}ms`,
+  );
+
+  return {
+    encodings,
+    totals,
+    languages: [...languages.values()].sort(byPrimaryTokens),
+    directories: [...directories.values()].sort((a, b) =>
+      a.path.localeCompare(b.path),
+    ),
+    largestFiles: [...files].sort(byPrimaryTokens).slice(0, topFilesLength),
+  };
+};
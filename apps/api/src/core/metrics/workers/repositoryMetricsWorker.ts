@@ -0,0 +1,64 @@
+import type { TiktokenEncoding } from 'tiktoken';
+
+import { logger } from '~/lib/logger';
+import type { ProcessedFile } from '../../file/fileTypes';
+import { TokenCounter } from '../../tokenCount';
+import {
+  type CodeStructure,
+  analyzeCodeStructure,
+} from '../../treeSitter/parseFile';
+
+export interface RepositoryMetricsTask {
+  file: ProcessedFile;
+  encodings: TiktokenEncoding[];
+}
+
+export interface RepositoryFileAnalysis {
+  path: string;
+  tokenCounts: Record<string, number>;
+  // Missing for languages without syntax analysis
+  structure?: CodeStructure;
+}
+
+// Worker-level TokenCounters, one per encoding
+const tokenCounters = new Map<TiktokenEncoding, TokenCounter>();
+
+const getTokenCounter = (encodingName: TiktokenEncoding) => {
+  let tokenCounter = tokenCounters.get(encodingName);
+  if (!tokenCounter) {
+    tokenCounter = new TokenCounter(encodingName);
+    tokenCounters.set(encodingName, tokenCounter);
+  }
+  return tokenCounter;
+};
+
+export default async ({
+  file,
+  encodings,
+}: RepositoryMetricsTask): Promise<RepositoryFileAnalysis> => {
+  const processStartAt = process.hrtime.bigint();
+
+  const tokenCounts: Record<string, number> = {};
+  for (const encoding of encodings) {
+    tokenCounts[encoding] = getTokenCounter(encoding).countTokens(
+      file.content,
+      file.path,
+    );
+  }
+  const structure = await analyzeCodeStructure(file.content, file.path);
+
+  const processEndAt = process.hrtime.bigint();
+  logger.info(
+    `Analyzed ${file.path}. Took: ${(Number(processEndAt - processStartAt) / 1e6).toFixed(2)}ms`,
+  );
+
+  return { path: file.path, tokenCounts, structure };
+};
+
+// Cleanup when worker is terminated
+process.on('exit', () => {
+  for (const tokenCounter of tokenCounters.values()) {
+    tokenCounter.free();
+  }
+  tokenCounters.clear();
+});
@@ -1,36 +1,81 @@
 import { XMLBuilder } from 'fast-xml-parser';
 import Handlebars from 'handlebars';
 
-import type { ProcessedFile } from '../file/fileTypes';
+import type { CodeSymbol, ProcessedFile } from '../file/fileTypes';
 import type {
+  FileOutline,
+  OutputExtras,
   OutputGeneratorContext,
   RenderContext,
+  RenderedDependencyGraph,
 } from './outputGeneratorTypes';
 import type { ConfigMerged } from '~/config/configSchema';
 import { getXmlTemplate } from './outputStyles/xmlStyle';
 import { getMarkdownTemplate } from './outputStyles/markdownStyle';
 import { getPlainTemplate } from './outputStyles/plainStyle';
+import { generateJsonOutput } from './outputStyles/jsonStyle';
+import { generateChunksOutput } from './outputStyles/chunksStyle';
+import { renderCustomTemplate } from './outputTemplate';
 import { generateTreeString } from '../file/fileTreeGenerate';
+import { formatDependencyGraph } from '../graph/formatDependencyGraph';
 import { type FileSearchResult, searchFiles } from '../file/fileSearch';
 
 const calculateMarkdownDelimiter = (
-  files: ReadonlyArray<ProcessedFile>,
+  contents: ReadonlyArray<string>,
 ): string => {
-  const maxBackticks = files
-    .flatMap((file) => file.content.match(/`+/g) ?? [])
+  const maxBackticks = contents
+    .flatMap((content) => content.match(/`+/g) ?? [])
     .reduce((max, match) => Math.max(max, match.length), 0);
 
   return '`'.repeat(Math.max(3, maxBackticks + 1));
 };
 
+const groupSymbolsByFile = (symbols: CodeSymbol[]): FileOutline[] => {
+  const outline: FileOutline[] = [];
+  for (const symbol of symbols) {
+    const fileOutline = outline[outline.length - 1];
+    if (fileOutline?.path === symbol.path) {
+      fileOutline.symbols.push(symbol);
+    } else {
+      outline.push({ path: symbol.path, symbols: [symbol] });
+    }
+  }
+  return outline;
+};
+
+const renderDependencyGraph = ({
+  config,
+  dependencyGraph,
+}: OutputGeneratorContext): RenderedDependencyGraph | null => {
+  const format = config.output.dependencyGraph?.format;
+  if (!dependencyGraph || !format) {
+    return null;
+  }
+  return {
+    level: dependencyGraph.level,
+    format,
+    content: formatDependencyGraph(dependencyGraph, format),
+  };
+};
+
 const createRenderContext = (
   outputGeneratorContext: OutputGeneratorContext,
 ): RenderContext => {
+  const dependencyGraph = renderDependencyGraph(outputGeneratorContext);
   return {
     processedFiles: outputGeneratorContext.processedFiles,
-    markdownCodeBlockDelimiter: calculateMarkdownDelimiter(
-      outputGeneratorContext.processedFiles,
-    ),
+    changes: outputGeneratorContext.changes,
+    gitLog: outputGeneratorContext.gitLog,
+    fileHistories: outputGeneratorContext.fileHistories,
+    outline: groupSymbolsByFile(outputGeneratorContext.symbols),
+    dependencyGraph,
+    relevance: outputGeneratorContext.relevance,
+    markdownCodeBlockDelimiter: calculateMarkdownDelimiter([
+      ...outputGeneratorContext.processedFiles.map((file) => file.content),
+      ...outputGeneratorContext.changes.map((change) => change.patch),
+      ...outputGeneratorContext.symbols.map((symbol) => symbol.signature),
+      dependencyGraph?.content ?? '',
+    ]),
   };
 };
 
@@ -40,13 +85,103 @@ const generateParsableXmlOutput = async (
   const xmlBuilder = new XMLBuilder({ ignoreAttributes: false });
   const xmlDocument = {
     codecrawl: {
+      ...(renderContext.relevance
+        ? {
+            relevant_files: {
+              '#text':
+                'This section lists the files most relevant to the task, most relevant first.',
+              '@_task': renderContext.relevance.task,
+              file: renderContext.relevance.files.map((file) => ({
+                '@_path': file.path,
+                '@_score': file.score,
+                '@_content_score': file.contentScore,
+                '@_path_score': file.pathScore,
+                '@_symbol_score': file.symbolScore,
+                '@_import_score': file.importScore,
+              })),
+            },
+          }
+        : {}),
+      ...(renderContext.changes.length > 0
+        ? {
+            changes: {
+              '#text': 'This section contains the diff of every changed file.',
+              change: renderContext.changes.map((change) => ({
+                '#text': change.patch,
+                '@_path': change.path,
+                '@_status': change.status,
+                ...(change.previousPath
+                  ? { '@_previous_path': change.previousPath }
+                  : {}),
+              })),
+            },
+          }
+        : {}),
+      ...(renderContext.gitLog.length > 0
+        ? {
+            git_log: {
+              '#text': 'This section contains the most recent commits.',
+              commit: renderContext.gitLog.map((commit) => ({
+                '@_sha': commit.sha,
+                '@_author': commit.author,
+                '@_date': commit.date,
+                '@_total_files': commit.totalFiles,
+                subject: commit.subject,
+                file: commit.files.map((filePath) => ({ '@_path': filePath })),
+              })),
+            },
+          }
+        : {}),
+      ...(renderContext.outline.length > 0
+        ? {
+            outline: {
+              '#text':
+                'This section lists the functions, classes and other symbols of each file.',
+              file: renderContext.outline.map((fileOutline) => ({
+                '@_path': fileOutline.path,
+                symbol: fileOutline.symbols.map((symbol) => ({
+                  '@_kind': symbol.kind,
+                  '@_name': symbol.name,
+                  '@_start_line': symbol.startLine,
+                  '@_end_line': symbol.endLine,
+                  ...(symbol.parent ? { '@_parent': symbol.parent } : {}),
+                  signature: symbol.signature,
+                  ...(symbol.docstring ? { docstring: symbol.docstring } : {}),
+                })),
+              })),
+            },
+          }
+        : {}),
+      ...(renderContext.dependencyGraph
+        ? {
+            dependency_graph: {
+              '#text': renderContext.dependencyGraph.content,
+              '@_level': renderContext.dependencyGraph.level,
+              '@_format': renderContext.dependencyGraph.format,
+            },
+          }
+        : {}),
       files: {
         '#text':
           "This section contains the contents of the repository's files.",
-        file: renderContext.processedFiles.map((file) => ({
-          '#text': file.content,
-          '@_path': file.path,
-        })),
+        file: renderContext.processedFiles.map((file) => {
+          const history = renderContext.fileHistories[file.path];
+          return {
+            '#text': file.content,
+            '@_path': file.path,
+            ...(history
+              ? {
+                  '@_last_modified': history.lastModified,
+                  '@_last_author': history.lastAuthor,
+                  '@_last_commit': history.lastCommitSha,
+                  '@_top_authors': history.topAuthors
+                    .map(({ name, commits }) => `${name} (${commits})`)
+                    .join(', '),
+                  '@_churn': `+${history.linesAdded}/-${history.linesDeleted} lines in ${history.commits} commits`,
+                }
+              : {}),
+          };
+        }),
       },
     },
   };
@@ -94,10 +229,10 @@ export const generateOutput = async (
   config: ConfigMerged,
   processedFiles: ProcessedFile[],
   allFilePaths: string[],
+  extras: OutputExtras = {},
   deps = {
     buildOutputGeneratorContext,
-    generateHandlebarOutput,
-    generateParsableXmlOutput,
+    renderOutput,
   },
 ): Promise<string> => {
   const outputGeneratorContext = await deps.buildOutputGeneratorContext(
@@ -105,7 +240,45 @@ export const generateOutput = async (
     config,
     allFilePaths,
     processedFiles,
+    extras,
   );
+  return deps.renderOutput(config, outputGeneratorContext);
+};
+
+/**
+ * Renders the files of an already built context in the configured style.
+ */
+export const renderOutput = async (
+  config: ConfigMerged,
+  outputGeneratorContext: OutputGeneratorContext,
+  deps = {
+    generateHandlebarOutput,
+    generateParsableXmlOutput,
+    generateJsonOutput,
+    generateChunksOutput,
+    renderCustomTemplate,
+  },
+): Promise<string> => {
+  // A team's custom template replaces the built-in style templates
+  if (config.output.customTemplate) {
+    return deps.renderCustomTemplate(config.output.customTemplate, {
+      ...createRenderContext(outputGeneratorContext),
+      generationDate: outputGeneratorContext.generationDate,
+      treeString: config.output.directoryStructure
+        ? outputGeneratorContext.treeString
+        : '',
+      headerText: config.output.headerText ?? null,
+      commitSha: config.output.commitSha ?? null,
+      part: outputGeneratorContext.part ?? null,
+    });
+  }
+  if (config.output.style === 'json') {
+    return deps.generateJsonOutput(outputGeneratorContext);
+  }
+  if (config.output.style === 'chunks') {
+    return deps.generateChunksOutput(outputGeneratorContext);
+  }
+
   const renderContext = createRenderContext(outputGeneratorContext);
 
   if (!config.output.parsableStyle)
@@ -125,6 +298,7 @@ export const buildOutputGeneratorContext = async (
   config: ConfigMerged,
   allFilePaths: string[],
   processedFiles: ProcessedFile[],
+  extras: OutputExtras = {},
 ): Promise<OutputGeneratorContext> => {
   let emptyDirPaths: string[] = [];
   if (config.output.includeEmptyDirectories) {
@@ -154,6 +328,18 @@ export const buildOutputGeneratorContext = async (
     generationDate: new Date().toISOString(),
     treeString: generateTreeString(allFilePaths, emptyDirPaths),
     processedFiles,
+    changes: extras.changes ?? [],
+    gitLog: config.output.git.includeLog
+      ? (extras.gitHistory?.commits ?? [])
+      : [],
+    fileHistories:
+      (config.output.git.includeBlameSummary && extras.gitHistory?.files) ||
+      Object.create(null),
+    symbols: config.output.outline ? (extras.symbols ?? []) : [],
+    dependencyGraph: config.output.dependencyGraph
+      ? (extras.dependencyGraph ?? null)
+      : null,
+    relevance: config.output.task ? (extras.relevance ?? null) : null,
     config,
   };
 };
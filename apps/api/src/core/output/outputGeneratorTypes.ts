@@ -1,14 +1,86 @@
-import type { ConfigMerged } from '~/config/configSchema';
-import type { ProcessedFile } from '../file/fileTypes';
+import type {
+  ConfigMerged,
+  DependencyGraphFormat,
+  DependencyGraphLevel,
+} from '~/config/configSchema';
+import type {
+  CodeSymbol,
+  FileChange,
+  GitFileHistory,
+  GitHistory,
+  GitLogCommit,
+  ProcessedFile,
+} from '../file/fileTypes';
+import type { DependencyGraph } from '../graph/buildDependencyGraph';
+import type { TaskRelevance } from '../packager/taskScope';
+
+// What is rendered besides the files, gathered before packing
+export interface OutputExtras {
+  // The changed files and their diffs, in diff mode
+  changes?: FileChange[];
+  // The recent history of the cloned repositories
+  gitHistory?: GitHistory;
+  // The symbols of the files, in outline mode
+  symbols?: CodeSymbol[];
+  // The graph of the files' imports, when requested
+  dependencyGraph?: DependencyGraph;
+  // The files selected for a task and their scores
+  relevance?: TaskRelevance;
+}
+
+// The symbols of one file, as the templates list them
+export interface FileOutline {
+  path: string;
+  symbols: CodeSymbol[];
+}
 
 export interface OutputGeneratorContext {
   generationDate: string;
   treeString: string;
   processedFiles: ProcessedFile[];
+  // The changed files and their diffs; empty unless packing a diff
+  changes: FileChange[];
+  // Empty unless `output.git.includeLog` is set
+  gitLog: GitLogCommit[];
+  // Keyed by file path; empty unless `output.git.includeBlameSummary` is set
+  fileHistories: Record<string, GitFileHistory>;
+  // Empty unless `output.outline` is set
+  symbols: CodeSymbol[];
+  // Null unless `output.dependencyGraph` is set
+  dependencyGraph: DependencyGraph | null;
+  // Null unless `output.task` is set
+  relevance: TaskRelevance | null;
   config: ConfigMerged;
+  // Set while rendering one part of a split output
+  part?: { number: number; total: number };
+}
+
+// The dependency graph, rendered in the configured format
+export interface RenderedDependencyGraph {
+  level: DependencyGraphLevel;
+  format: DependencyGraphFormat;
+  content: string;
 }
 
 export interface RenderContext {
   readonly processedFiles: ReadonlyArray<ProcessedFile>;
+  readonly changes: ReadonlyArray<FileChange>;
+  readonly gitLog: ReadonlyArray<GitLogCommit>;
+  readonly fileHistories: Readonly<Record<string, GitFileHistory>>;
+  // Files without symbols are left out
+  readonly outline: ReadonlyArray<FileOutline>;
+  readonly dependencyGraph: RenderedDependencyGraph | null;
+  readonly relevance: TaskRelevance | null;
   readonly markdownCodeBlockDelimiter: string;
 }
+
+// What a team's custom template can reference, on top of the files
+export interface CustomTemplateContext extends RenderContext {
+  readonly generationDate: string;
+  // Empty when `output.directoryStructure` is disabled
+  readonly treeString: string;
+  readonly headerText: string | null;
+  // Commit the repository was checked out at, if it was cloned
+  readonly commitSha: string | null;
+  readonly part: { number: number; total: number } | null;
+}
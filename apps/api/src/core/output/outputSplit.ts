@@ -0,0 +1,255 @@
+import type { ConfigMerged } from '~/config/configSchema';
+import type { ProcessedFile } from '../file/fileTypes';
+import { calculateAllFileMetrics } from '../metrics/calculateAllFileMetrics';
+import { calculateOutputMetrics } from '../metrics/calculateOutputMetrics';
+import type {
+  OutputExtras,
+  OutputGeneratorContext,
+} from './outputGeneratorTypes';
+import { buildOutputGeneratorContext, renderOutput } from './outputGenerate';
+import { generateHeader } from './outputStyleDecorate';
+
+export interface OutputPart {
+  index: number;
+  output: string;
+  filePaths: string[];
+  totalCharacters: number;
+  totalBytes: number;
+  totalTokens: number;
+}
+
+export interface OutputManifest {
+  totalParts: number;
+  // Maps every file path to the index of the part holding it
+  files: Record<string, number>;
+}
+
+export interface SplitOutputResult {
+  parts: OutputPart[];
+  manifest: OutputManifest;
+}
+
+type SizeUnit = 'tokens' | 'bytes';
+
+/**
+ * Renders the header and directory structure repeated at the top of every
+ * part, so each part can be read on its own.
+ */
+export const generatePartPreamble = (
+  context: OutputGeneratorContext,
+  partNumber: number,
+  totalParts: number,
+): string => {
+  const { config } = context;
+  if (config.output.style === 'json' || config.output.style === 'chunks') {
+    // The json document carries its own summary, tree and part number, and
+    // chunk lines stand on their own
+    return '';
+  }
+
+  const header = `${generateHeader(config, context.generationDate)}\nThis is part ${partNumber} of ${totalParts}; no file is split across parts.`;
+  const treeString = config.output.directoryStructure ? context.treeString : '';
+
+  switch (config.output.style) {
+    case 'xml':
+      return [
+        `<part number="${partNumber}" total="${totalParts}">`,
+        `<file_summary>\n${header}\n</file_summary>`,
+        treeString
+          ? `<directory_structure>\n${treeString}\n</directory_structure>`
+          : '',
+        '</part>\n',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    case 'plain':
+      return [
+        `Part ${partNumber} of ${totalParts}`,
+        '================',
+        header,
+        treeString
+          ? `\nDirectory Structure\n================\n${treeString}`
+          : '',
+        '\n',
+      ].join('\n');
+    default:
+      return [
+        `# Part ${partNumber} of ${totalParts}`,
+        '',
+        header,
+        treeString
+          ? `\n## Directory Structure\n\n\`\`\`\n${treeString}\n\`\`\``
+          : '',
+        '\n',
+      ].join('\n');
+  }
+};
+
+/**
+ * Groups consecutive files into parts whose estimated size stays within the
+ * limit. A file larger than the limit gets a part of its own. The first part
+ * may start out larger, as it also holds the changes, the git log and the
+ * outline.
+ */
+const groupFiles = (
+  fileSizes: number[],
+  fixedPartSize: number,
+  maxPartSize: number,
+  firstPartSize = fixedPartSize,
+): number[][] => {
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let currentSize = firstPartSize;
+
+  fileSizes.forEach((size, index) => {
+    if (current.length > 0 && currentSize + size > maxPartSize) {
+      groups.push(current);
+      current = [];
+      currentSize = fixedPartSize;
+    }
+    current.push(index);
+    currentSize += size;
+  });
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+};
+
+/**
+ * Splits the output into numbered parts of at most `output.splitOutput`
+ * tokens or bytes each. Files are kept in order and never split; every part
+ * repeats the header and directory structure, and the first part holds the
+ * changes of a diff, the git log and the outline.
+ * @param rootDirs The directories the files were collected from.
+ * @param config The merged configuration, with `output.splitOutput` set.
+ * @param processedFiles The files to render, in output order.
+ * @param allFilePaths Every file path, for the directory structure.
+ * @param extras The changes, git history and symbols to render, if any.
+ * @returns The rendered parts and a manifest mapping files to parts.
+ */
+export const splitOutput = async (
+  rootDirs: string[],
+  config: ConfigMerged,
+  processedFiles: ProcessedFile[],
+  allFilePaths: string[],
+  extras: OutputExtras = {},
+  deps = {
+    buildOutputGeneratorContext,
+    renderOutput,
+    calculateAllFileMetrics,
+    calculateOutputMetrics,
+  },
+): Promise<SplitOutputResult> => {
+  const splitConfig = config.output.splitOutput;
+  if (!splitConfig) {
+    throw new Error('splitOutput is not configured');
+  }
+  const unit: SizeUnit =
+    splitConfig.maxTokens !== undefined ? 'tokens' : 'bytes';
+  const maxPartSize = splitConfig.maxTokens ?? splitConfig.maxBytes ?? 0;
+  const encoding = config.tokenCount.encoding;
+
+  const context = await deps.buildOutputGeneratorContext(
+    rootDirs,
+    config,
+    allFilePaths,
+    processedFiles,
+    extras,
+  );
+  // The changes, the git log, the outline, the dependency graph and the
+  // task's file scores are only rendered into the first part
+  const renderFiles = (
+    files: ProcessedFile[],
+    part?: OutputGeneratorContext['part'],
+  ) =>
+    deps.renderOutput(config, {
+      ...context,
+      processedFiles: files,
+      changes: part?.number === 1 ? context.changes : [],
+      gitLog: part?.number === 1 ? context.gitLog : [],
+      symbols: part?.number === 1 ? context.symbols : [],
+      dependencyGraph: part?.number === 1 ? context.dependencyGraph : null,
+      relevance: part?.number === 1 ? context.relevance : null,
+      part,
+    });
+  const measure = async (text: string) =>
+    unit === 'tokens'
+      ? deps.calculateOutputMetrics(text, encoding)
+      : Buffer.byteLength(text, 'utf8');
+
+  // A file's size is what it adds to an otherwise empty document
+  const emptyOutput = await renderFiles([]);
+  const emptySize = await measure(emptyOutput);
+  const singleFileOutputs = await Promise.all(
+    processedFiles.map((file) => renderFiles([file])),
+  );
+  const singleFileSizes =
+    unit === 'tokens'
+      ? (
+          await deps.calculateAllFileMetrics(
+            processedFiles.map((file, index) => ({
+              path: file.path,
+              content: singleFileOutputs[index],
+            })),
+            encoding,
+            () => {},
+          )
+        ).map((metrics) => metrics.tokenCount)
+      : singleFileOutputs.map((output) => Buffer.byteLength(output, 'utf8'));
+  const fileSizes = singleFileSizes.map((size) =>
+    Math.max(0, size - emptySize),
+  );
+
+  // Sized for the largest part numbers that can occur
+  const maxParts = Math.max(1, processedFiles.length);
+  const fixedPartSize =
+    (await measure(generatePartPreamble(context, maxParts, maxParts))) +
+    (await measure(
+      await renderFiles([], { number: maxParts, total: maxParts }),
+    ));
+  const firstPartSize =
+    context.changes.length > 0 ||
+    context.gitLog.length > 0 ||
+    context.symbols.length > 0
+      ? (await measure(generatePartPreamble(context, 1, maxParts))) +
+        (await measure(await renderFiles([], { number: 1, total: maxParts })))
+      : fixedPartSize;
+
+  const groups = groupFiles(
+    fileSizes,
+    fixedPartSize,
+    maxPartSize,
+    firstPartSize,
+  );
+  if (groups.length === 0) {
+    groups.push([]);
+  }
+
+  const parts: OutputPart[] = [];
+  const files: Record<string, number> = {};
+  for (const [index, group] of groups.entries()) {
+    const partFiles = group.map((fileIndex) => processedFiles[fileIndex]);
+    const output =
+      generatePartPreamble(context, index + 1, groups.length) +
+      (await renderFiles(partFiles, {
+        number: index + 1,
+        total: groups.length,
+      }));
+
+    for (const file of partFiles) {
+      files[file.path] = index;
+    }
+    parts.push({
+      index,
+      output,
+      filePaths: partFiles.map((file) => file.path),
+      totalCharacters: output.length,
+      totalBytes: Buffer.byteLength(output, 'utf8'),
+      totalTokens: await deps.calculateOutputMetrics(output, encoding),
+    });
+  }
+
+  return { parts, manifest: { totalParts: parts.length, files } };
+};
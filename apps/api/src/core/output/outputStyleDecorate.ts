@@ -1,4 +1,14 @@
-import type { ConfigMerged } from '~/config/configSchema';
+import type {
+  ConfigMerged,
+  DependencyGraphFormat,
+  OutputRepository,
+} from '~/config/configSchema';
+
+const DEPENDENCY_GRAPH_FORMAT_NAMES: Record<DependencyGraphFormat, string> = {
+  json: 'JSON',
+  dot: 'DOT',
+  mermaid: 'Mermaid',
+};
 
 interface ContentInfo {
   selection: {
@@ -12,6 +22,7 @@ interface ContentInfo {
     commentsRemoved: boolean;
     emptyLinesRemoved: boolean;
     securityCheckEnabled: boolean;
+    secretsRedacted: boolean;
     showLineNumbers: boolean;
     parsableStyle: boolean;
     compressed: boolean;
@@ -21,6 +32,9 @@ interface ContentInfo {
   };
 }
 
+const describeRepository = (repository: OutputRepository): string =>
+  `${repository.prefix}/ (${repository.url}${repository.ref ? ` at ${repository.ref}` : ''}${repository.commitSha ? `, commit ${repository.commitSha}` : ''})`;
+
 export const analyzeContent = (config: ConfigMerged): ContentInfo => {
   return {
     selection: {
@@ -35,6 +49,9 @@ export const analyzeContent = (config: ConfigMerged): ContentInfo => {
       commentsRemoved: config.output.removeComments,
       emptyLinesRemoved: config.output.removeEmptyLines,
       securityCheckEnabled: config.security.enableSecurityCheck,
+      secretsRedacted:
+        config.security.enableSecurityCheck &&
+        config.security.suspiciousFileAction === 'redact',
       showLineNumbers: config.output.showLineNumbers,
       parsableStyle: config.output.parsableStyle,
       compressed: config.output.compress,
@@ -53,7 +70,10 @@ export const generateHeader = (
 
   // Generate selection description
   let description: string;
-  if (info.selection.isEntireCodebase) {
+  const diff = config.output.diff;
+  if (diff) {
+    description = `This file is a merged representation of the changes made since branching off ${diff.base}`;
+  } else if (info.selection.isEntireCodebase) {
     description = 'This file is a merged representation of the entire codebase';
   } else {
     const parts: any = [];
@@ -90,13 +110,43 @@ export const generateHeader = (
   if (!info.processing.securityCheckEnabled) {
     processingNotes.push('security check has been disabled');
   }
+  if (info.processing.secretsRedacted) {
+    processingNotes.push('detected secrets have been redacted');
+  }
 
   const processingInfo =
     processingNotes.length > 0
       ? `The content has been processed where ${processingNotes.join(', ')}.`
       : '';
 
-  return `${description}, combined into a single document by Repomix.\n${processingInfo}`.trim();
+  const repositories = config.output.repositories ?? [];
+  const repositoriesInfo =
+    repositories.length > 0
+      ? `It combines ${repositories.length} repositories, each under its own directory: ${repositories.map(describeRepository).join(', ')}.\n`
+      : '';
+  const commitInfo = config.output.commitSha
+    ? `It was generated from commit ${config.output.commitSha}.\n`
+    : '';
+  const diffInfo = diff
+    ? `The changes are those since commit ${diff.mergeBaseCommitSha}${
+        diff.mergeBaseCommitSha === diff.baseCommitSha
+          ? `, the head of ${diff.base}`
+          : `, where it branched off ${diff.base} (now at commit ${diff.baseCommitSha})`
+      }.${config.output.files ? '' : ' File contents are not included, only the diff of each changed file.'}\n`
+    : '';
+
+  const outlineInfo = config.output.outline
+    ? 'It lists the functions, classes and other symbols of each file instead of their contents.\n'
+    : '';
+  const taskInfo = config.output.task
+    ? `It contains only the files most relevant to the task "${config.output.task.query}".\n`
+    : '';
+  const dependencyGraph = config.output.dependencyGraph;
+  const dependencyGraphInfo = dependencyGraph
+    ? `It includes the graph of which ${dependencyGraph.level === 'package' ? 'directories' : 'files'} import which, in ${DEPENDENCY_GRAPH_FORMAT_NAMES[dependencyGraph.format]} format.\n`
+    : '';
+
+  return `${description}, combined into a single document by Repomix.\n${commitInfo}${diffInfo}${taskInfo}${outlineInfo}${dependencyGraphInfo}${repositoriesInfo}${processingInfo}`.trim();
 };
 
 export const generateSummaryPurpose = (): string => {
@@ -140,7 +190,12 @@ export const generateSummaryNotes = (config: ConfigMerged): string => {
   ];
 
   // File selection notes
-  if (info.selection.include) {
+  const diff = config.output.diff;
+  if (diff) {
+    notes.push(
+      `- Only files changed since branching off ${diff.base}${diff.includeImports ? ', and the files they import,' : ''} are included`,
+    );
+  } else if (info.selection.include) {
     notes.push(
       `- Only files matching these patterns are included: ${config.include.join(', ')}`,
     );
@@ -182,13 +237,59 @@ export const generateSummaryNotes = (config: ConfigMerged): string => {
       '- Security check has been disabled - content may contain sensitive information',
     );
   }
+  if (info.processing.secretsRedacted) {
+    notes.push(
+      '- Detected secrets have been replaced with [REDACTED] placeholders',
+    );
+  } else if (info.processing.securityCheckEnabled) {
+    notes.push(
+      '- Files detected as containing secrets have been excluded from this output',
+    );
+  }
 
-  // Sorting notes
-  if (info.sorting.gitChanges) {
+  // Sorting notes; a task orders files by relevance instead
+  if (info.sorting.gitChanges && !config.output.task) {
     notes.push(
       '- Files are sorted by Git change count (files with more changes are at the bottom)',
     );
   }
 
+  // Outline notes
+  if (config.output.outline) {
+    notes.push(
+      '- Only files in languages with a tree-sitter query are outlined; line numbers refer to the original files',
+    );
+  }
+
+  // Task notes
+  if (config.output.task) {
+    notes.push(
+      `- At most ${config.output.task.maxFiles} files are included, most relevant first, ranked by how well their content, path and symbol names match the task and by their imports of and by other matches`,
+    );
+  }
+
+  // Dependency graph notes
+  if (config.output.dependencyGraph) {
+    notes.push(
+      '- The dependency graph only covers JavaScript, TypeScript, Python and Go imports that resolve to files of the repository',
+    );
+  }
+
+  // History notes
+  const { includeLog, includeBlameSummary, logMaxCommits } = config.output.git;
+  if (includeLog || includeBlameSummary) {
+    const sections = [
+      includeLog ? 'the Git log' : '',
+      includeBlameSummary
+        ? 'the last modified, top authors and churn of each file'
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' and ');
+    notes.push(
+      `- ${sections.charAt(0).toUpperCase()}${sections.slice(1)} cover at most the last ${logMaxCommits} commits of cloned repositories`,
+    );
+  }
+
   return notes.join('\n');
 };
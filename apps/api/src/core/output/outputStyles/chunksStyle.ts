@@ -0,0 +1,39 @@
+import type { OutputGeneratorContext } from '../outputGeneratorTypes';
+import { getLanguageFromPath } from './markdownStyle';
+
+// One line of the `chunks` output
+export interface ChunkRecord {
+  path: string;
+  language: string | null;
+  // Qualified name of the symbol holding the chunk, or null at the top level
+  symbol: string | null;
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  hash: string;
+  content: string;
+}
+
+/**
+ * Builds the `chunks` output: JSON Lines with one embedding chunk per line,
+ * in file order. Chunks are cut by the file process workers; the output has
+ * no summary or directory structure, so it can be ingested as is.
+ */
+export const generateChunksOutput = (context: OutputGeneratorContext): string =>
+  context.processedFiles
+    .flatMap((file) =>
+      (file.embeddingChunks ?? []).map((chunk) => {
+        const record: ChunkRecord = {
+          path: file.path,
+          language: getLanguageFromPath(file.path) || null,
+          symbol: chunk.symbol,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          tokenCount: chunk.tokenCount,
+          hash: chunk.hash,
+          content: chunk.content,
+        };
+        return `${JSON.stringify(record)}\n`;
+      }),
+    )
+    .join('');
@@ -0,0 +1,482 @@
+import type {
+  CodeSymbol,
+  FileChangeStatus,
+  GitFileHistory,
+  GitLogCommit,
+} from '../../file/fileTypes';
+import type { DependencyGraph } from '../../graph/buildDependencyGraph';
+import type { TaskRelevance } from '../../packager/taskScope';
+
+/**
+ * Version of the `json` output document. Bump it, and publish a new schema
+ * next to the old one, whenever the document changes shape.
+ */
+export const JSON_OUTPUT_SCHEMA_VERSION = 6;
+
+export const getJsonOutputSchemaUrl = (version = JSON_OUTPUT_SCHEMA_VERSION) =>
+  `https://api.irere.dev/v1/schemas/json-output/${version}`;
+
+export interface JsonOutputFile {
+  path: string;
+  language: string | null;
+  content: string;
+  charCount: number;
+  tokenCount: number | null;
+  chunks: string[] | null;
+  git: GitFileHistory | null;
+}
+
+export interface JsonOutputChange {
+  path: string;
+  previousPath: string | null;
+  status: FileChangeStatus;
+  patch: string;
+}
+
+export interface JsonOutputDocument {
+  $schema: string;
+  schemaVersion: number;
+  generatedAt: string;
+  part?: { number: number; total: number };
+  summary: {
+    header: string;
+    purpose: string;
+    notes: string[];
+    headerText: string | null;
+    relevance: TaskRelevance | null;
+  };
+  directoryStructure: string | null;
+  changes: JsonOutputChange[] | null;
+  gitLog: GitLogCommit[] | null;
+  outline: CodeSymbol[] | null;
+  dependencyGraph: DependencyGraph | null;
+  files: JsonOutputFile[];
+}
+
+// JSON Schema (draft 2020-12) for each published version of the document
+const jsonOutputSchemas: Record<number, object> = {
+  1: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: getJsonOutputSchemaUrl(1),
+    title: 'Codecrawl JSON output',
+    type: 'object',
+    required: [
+      '$schema',
+      'schemaVersion',
+      'generatedAt',
+      'summary',
+      'directoryStructure',
+      'files',
+    ],
+    additionalProperties: false,
+    properties: {
+      $schema: { type: 'string', format: 'uri' },
+      schemaVersion: { const: 1 },
+      generatedAt: { type: 'string', format: 'date-time' },
+      part: {
+        description: 'Present when the output was split into parts',
+        type: 'object',
+        required: ['number', 'total'],
+        additionalProperties: false,
+        properties: {
+          number: { type: 'integer', minimum: 1 },
+          total: { type: 'integer', minimum: 1 },
+        },
+      },
+      summary: {
+        type: 'object',
+        required: ['header', 'purpose', 'notes', 'headerText'],
+        additionalProperties: false,
+        properties: {
+          header: { type: 'string' },
+          purpose: { type: 'string' },
+          notes: { type: 'array', items: { type: 'string' } },
+          headerText: { type: ['string', 'null'] },
+        },
+      },
+      directoryStructure: {
+        description: 'The file tree, or null when disabled',
+        type: ['string', 'null'],
+      },
+      files: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: [
+            'path',
+            'language',
+            'content',
+            'charCount',
+            'tokenCount',
+            'chunks',
+          ],
+          additionalProperties: false,
+          properties: {
+            path: { type: 'string' },
+            language: { type: ['string', 'null'] },
+            content: { type: 'string' },
+            charCount: { type: 'integer', minimum: 0 },
+            tokenCount: { type: ['integer', 'null'], minimum: 0 },
+            chunks: {
+              description:
+                'Code chunks extracted with tree-sitter, or null when the language is not supported',
+              type: ['array', 'null'],
+              items: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const jsonOutputSchemaV1 = jsonOutputSchemas[1] as {
+  required: string[];
+  properties: Record<string, object>;
+};
+
+// Version 2 adds the changed files of a diff
+jsonOutputSchemas[2] = {
+  ...jsonOutputSchemaV1,
+  $id: getJsonOutputSchemaUrl(2),
+  required: [...jsonOutputSchemaV1.required, 'changes'],
+  properties: {
+    ...jsonOutputSchemaV1.properties,
+    schemaVersion: { const: 2 },
+    changes: {
+      description:
+        'The changed files and their unified diffs, or null unless a diff was packed',
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        required: ['path', 'previousPath', 'status', 'patch'],
+        additionalProperties: false,
+        properties: {
+          path: { type: 'string' },
+          previousPath: {
+            description: 'The path before a rename or copy',
+            type: ['string', 'null'],
+          },
+          status: {
+            enum: [
+              'added',
+              'modified',
+              'deleted',
+              'renamed',
+              'copied',
+              'type-changed',
+            ],
+          },
+          patch: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const jsonOutputSchemaV2 = jsonOutputSchemas[2] as {
+  required: string[];
+  properties: Record<string, object> & {
+    files: { items: { required: string[]; properties: object } };
+  };
+};
+const jsonOutputFileSchemaV2 = jsonOutputSchemaV2.properties.files.items;
+
+// Version 3 adds the git log, and the history of every file
+jsonOutputSchemas[3] = {
+  ...jsonOutputSchemaV2,
+  $id: getJsonOutputSchemaUrl(3),
+  required: [...jsonOutputSchemaV2.required, 'gitLog'],
+  properties: {
+    ...jsonOutputSchemaV2.properties,
+    schemaVersion: { const: 3 },
+    gitLog: {
+      description:
+        'The most recent commits, newest first, or null unless the git log was requested',
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        required: ['sha', 'author', 'date', 'subject', 'files', 'totalFiles'],
+        additionalProperties: false,
+        properties: {
+          sha: { type: 'string' },
+          author: { type: 'string' },
+          date: { type: 'string', format: 'date-time' },
+          subject: { type: 'string' },
+          files: {
+            description: 'The files the commit touched, capped at 20',
+            type: 'array',
+            items: { type: 'string' },
+          },
+          totalFiles: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+    files: {
+      ...jsonOutputSchemaV2.properties.files,
+      items: {
+        ...jsonOutputFileSchemaV2,
+        required: [...jsonOutputFileSchemaV2.required, 'git'],
+        properties: {
+          ...jsonOutputFileSchemaV2.properties,
+          git: {
+            description:
+              'What the recent commits say about the file, or null unless the blame summary was requested',
+            type: ['object', 'null'],
+            required: [
+              'lastModified',
+              'lastAuthor',
+              'lastCommitSha',
+              'commits',
+              'linesAdded',
+              'linesDeleted',
+              'topAuthors',
+            ],
+            additionalProperties: false,
+            properties: {
+              lastModified: { type: 'string', format: 'date-time' },
+              lastAuthor: { type: 'string' },
+              lastCommitSha: { type: 'string' },
+              commits: { type: 'integer', minimum: 1 },
+              linesAdded: { type: 'integer', minimum: 0 },
+              linesDeleted: { type: 'integer', minimum: 0 },
+              topAuthors: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['name', 'commits'],
+                  additionalProperties: false,
+                  properties: {
+                    name: { type: 'string' },
+                    commits: { type: 'integer', minimum: 1 },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const jsonOutputSchemaV3 = jsonOutputSchemas[3] as {
+  required: string[];
+  properties: Record<string, object>;
+};
+
+// Version 4 adds the symbols of an outline
+jsonOutputSchemas[4] = {
+  ...jsonOutputSchemaV3,
+  $id: getJsonOutputSchemaUrl(4),
+  required: [...jsonOutputSchemaV3.required, 'outline'],
+  properties: {
+    ...jsonOutputSchemaV3.properties,
+    schemaVersion: { const: 4 },
+    outline: {
+      description:
+        'The symbols of every file in the order they appear, or null unless an outline was requested',
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        required: [
+          'kind',
+          'name',
+          'path',
+          'startLine',
+          'endLine',
+          'signature',
+          'parent',
+          'docstring',
+        ],
+        additionalProperties: false,
+        properties: {
+          kind: {
+            enum: [
+              'function',
+              'method',
+              'class',
+              'interface',
+              'type',
+              'enum',
+              'module',
+              'macro',
+            ],
+          },
+          name: { type: 'string' },
+          path: { type: 'string' },
+          startLine: { type: 'integer', minimum: 1 },
+          endLine: { type: 'integer', minimum: 1 },
+          signature: {
+            description: 'The definition up to its body, on one line',
+            type: 'string',
+          },
+          parent: {
+            description:
+              'Qualified name of the enclosing symbol, such as Outer.Inner',
+            type: ['string', 'null'],
+          },
+          docstring: {
+            description: 'The doc comment or docstring without comment markers',
+            type: ['string', 'null'],
+          },
+        },
+      },
+    },
+  },
+};
+
+const jsonOutputSchemaV4 = jsonOutputSchemas[4] as {
+  required: string[];
+  properties: Record<string, object>;
+};
+
+// Version 5 adds the dependency graph
+jsonOutputSchemas[5] = {
+  ...jsonOutputSchemaV4,
+  $id: getJsonOutputSchemaUrl(5),
+  required: [...jsonOutputSchemaV4.required, 'dependencyGraph'],
+  properties: {
+    ...jsonOutputSchemaV4.properties,
+    schemaVersion: { const: 5 },
+    dependencyGraph: {
+      description:
+        'Which files, or directories, import which, or null unless a dependency graph was requested',
+      type: ['object', 'null'],
+      required: ['level', 'nodes', 'edges'],
+      additionalProperties: false,
+      properties: {
+        level: { enum: ['file', 'package'] },
+        nodes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'files'],
+            additionalProperties: false,
+            properties: {
+              id: {
+                description: 'The file path, or the directory at package level',
+                type: 'string',
+              },
+              files: {
+                description: 'Files of the node whose imports were followed',
+                type: 'integer',
+                minimum: 0,
+              },
+            },
+          },
+        },
+        edges: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['from', 'to', 'imports'],
+            additionalProperties: false,
+            properties: {
+              from: { description: 'The importing node', type: 'string' },
+              to: { type: 'string' },
+              imports: {
+                description: 'Imports between the files of the two nodes',
+                type: 'integer',
+                minimum: 1,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const jsonOutputSchemaV5 = jsonOutputSchemas[5] as {
+  required: string[];
+  properties: Record<string, object> & {
+    summary: { required: string[]; properties: object };
+  };
+};
+const jsonOutputSummarySchemaV5 = jsonOutputSchemaV5.properties.summary;
+
+// Version 6 adds the files selected for a task, and their scores
+jsonOutputSchemas[6] = {
+  ...jsonOutputSchemaV5,
+  $id: getJsonOutputSchemaUrl(6),
+  properties: {
+    ...jsonOutputSchemaV5.properties,
+    schemaVersion: { const: 6 },
+    summary: {
+      ...jsonOutputSummarySchemaV5,
+      required: [...jsonOutputSummarySchemaV5.required, 'relevance'],
+      properties: {
+        ...jsonOutputSummarySchemaV5.properties,
+        relevance: {
+          description:
+            'The files most relevant to the task, most relevant first, or null unless a task was given',
+          type: ['object', 'null'],
+          required: ['task', 'maxFiles', 'files'],
+          additionalProperties: false,
+          properties: {
+            task: { type: 'string' },
+            maxFiles: { type: 'integer', minimum: 1 },
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: [
+                  'path',
+                  'score',
+                  'contentScore',
+                  'pathScore',
+                  'symbolScore',
+                  'importScore',
+                ],
+                additionalProperties: false,
+                properties: {
+                  path: { type: 'string' },
+                  score: {
+                    description: 'The weighted sum of the other scores',
+                    type: 'number',
+                    exclusiveMinimum: 0,
+                  },
+                  contentScore: {
+                    description:
+                      "BM25 of the file's content, relative to the best matching file",
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                  },
+                  pathScore: {
+                    description: "Share of the task's terms in the path",
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                  },
+                  symbolScore: {
+                    description:
+                      "Share of the task's terms in the file's symbol names",
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                  },
+                  importScore: {
+                    description:
+                      'Relative score of the best matching file it imports or is imported by',
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Returns the published JSON Schema for a version of the document.
+ * @returns The schema, or null if the version does not exist.
+ */
+export const getJsonOutputSchema = (version: number): object | null =>
+  jsonOutputSchemas[version] ?? null;
@@ -0,0 +1,61 @@
+import type { OutputGeneratorContext } from '../outputGeneratorTypes';
+import {
+  generateHeader,
+  generateSummaryNotes,
+  generateSummaryPurpose,
+} from '../outputStyleDecorate';
+import {
+  JSON_OUTPUT_SCHEMA_VERSION,
+  type JsonOutputDocument,
+  getJsonOutputSchemaUrl,
+} from './jsonSchema';
+import { getLanguageFromPath } from './markdownStyle';
+
+/**
+ * Builds the versioned `json` output document. Per-file token counts and
+ * chunks are filled in by the file process workers.
+ */
+export const generateJsonOutput = (context: OutputGeneratorContext): string => {
+  const { config } = context;
+
+  const document: JsonOutputDocument = {
+    $schema: getJsonOutputSchemaUrl(),
+    schemaVersion: JSON_OUTPUT_SCHEMA_VERSION,
+    generatedAt: context.generationDate,
+    ...(context.part ? { part: context.part } : {}),
+    summary: {
+      header: generateHeader(config, context.generationDate),
+      purpose: generateSummaryPurpose(),
+      notes: generateSummaryNotes(config)
+        .split('\n')
+        .map((note) => note.replace(/^- /, '')),
+      headerText: config.output.headerText ?? null,
+      relevance: context.relevance,
+    },
+    directoryStructure: config.output.directoryStructure
+      ? context.treeString
+      : null,
+    changes: config.output.diff
+      ? context.changes.map((change) => ({
+          path: change.path,
+          previousPath: change.previousPath ?? null,
+          status: change.status,
+          patch: change.patch,
+        }))
+      : null,
+    gitLog: config.output.git.includeLog ? context.gitLog : null,
+    outline: config.output.outline ? context.symbols : null,
+    dependencyGraph: context.dependencyGraph,
+    files: context.processedFiles.map((file) => ({
+      path: file.path,
+      language: getLanguageFromPath(file.path) || null,
+      content: file.content,
+      charCount: file.content.length,
+      tokenCount: file.tokenCount ?? null,
+      chunks: file.chunks ?? null,
+      git: context.fileHistories[file.path] ?? null,
+    })),
+  };
+
+  return `${JSON.stringify(document, null, 2)}\n`;
+};
@@ -2,8 +2,88 @@ import Handlebars from 'handlebars';
 
 export const getMarkdownTemplate = () => {
   return /* md */ `
+{{#if relevance}}
+# Relevant Files
+
+Files most relevant to the task "{{{relevance.task}}}", most relevant first:
+
+| File | Score | Content | Path | Symbols | Imports |
+| --- | --- | --- | --- | --- | --- |
+{{#each relevance.files}}
+| {{{this.path}}} | {{this.score}} | {{this.contentScore}} | {{this.pathScore}} | {{this.symbolScore}} | {{this.importScore}} |
+{{/each}}
+
+{{/if}}
+{{#if changes.length}}
+# Changes
+
+{{#each changes}}
+## {{{this.path}}} ({{this.status}}{{#if this.previousPath}} from {{{this.previousPath}}}{{/if}})
+{{{../markdownCodeBlockDelimiter}}}diff
+{{{this.patch}}}
+{{{../markdownCodeBlockDelimiter}}}
+
+{{/each}}
+{{/if}}
+{{#if gitLog.length}}
+# Git Log
+
+{{#each gitLog}}
+## {{{this.subject}}}
+- Commit: {{{this.sha}}}
+- Author: {{{this.author}}}
+- Date: {{{this.date}}}
+- Files ({{this.totalFiles}}): {{#each this.files}}{{#unless @first}}, {{/unless}}{{{this}}}{{/each}}
+
+{{/each}}
+{{/if}}
+{{#if outline.length}}
+# Outline
+
+{{#each outline}}
+## File: {{{this.path}}}
+{{#each this.symbols}}
+- {{this.kind}} {{{this.name}}}{{#if this.parent}} in {{{this.parent}}}{{/if}} (lines {{this.startLine}}-{{this.endLine}})
+  {{{../../markdownCodeBlockDelimiter}}}{{{getFileExtension this.path}}}
+  {{{this.signature}}}
+  {{{../../markdownCodeBlockDelimiter}}}
+{{#if this.docstring}}
+  {{{this.docstring}}}
+{{/if}}
+{{/each}}
+
+{{/each}}
+{{/if}}
+{{#if dependencyGraph}}
+# Dependency Graph
+
+{{{markdownCodeBlockDelimiter}}}{{dependencyGraph.format}}
+{{{dependencyGraph.content}}}
+{{{markdownCodeBlockDelimiter}}}
+
+{{/if}}
+{{#if processedFiles.length}}
+{{#if changes.length}}
+# Files
+
+{{else if gitLog.length}}
+# Files
+
+{{else if dependencyGraph}}
+# Files
+
+{{else if relevance}}
+# Files
+
+{{/if}}
+{{/if}}
 {{#each processedFiles}}
 ## File: {{{this.path}}}
+{{#with (lookup ../fileHistories this.path)}}
+Last modified: {{{lastModified}}} by {{{lastAuthor}}} ({{{lastCommitSha}}})
+Top authors: {{#each topAuthors}}{{#unless @first}}, {{/unless}}{{{name}}} ({{commits}}){{/each}}
+Churn: +{{linesAdded}}/-{{linesDeleted}} lines in {{commits}} commits
+{{/with}}
 {{{../markdownCodeBlockDelimiter}}}{{{getFileExtension this.path}}}
 {{{this.content}}}
 {{{../markdownCodeBlockDelimiter}}}
@@ -12,7 +92,11 @@ export const getMarkdownTemplate = () => {
 `;
 };
 
-Handlebars.registerHelper('getFileExtension', (filePath) => {
+/**
+ * Maps a file path to the language name used for syntax highlighting.
+ * @returns The language name, or an empty string if unknown.
+ */
+export const getLanguageFromPath = (filePath: string): string => {
   const extension = filePath.split('.').pop()?.toLowerCase();
   switch (extension) {
     case 'js':
@@ -116,4 +200,6 @@ Handlebars.registerHelper('getFileExtension', (filePath) => {
     default:
       return '';
   }
-});
+};
+
+Handlebars.registerHelper('getFileExtension', getLanguageFromPath);
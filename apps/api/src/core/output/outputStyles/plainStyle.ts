@@ -3,6 +3,75 @@ const PLAIN_LONG_SEPARATOR = '='.repeat(64);
 
 export const getPlainTemplate = () => {
   return `
+{{#if relevance}}
+${PLAIN_LONG_SEPARATOR}
+Relevant Files
+${PLAIN_LONG_SEPARATOR}
+
+Task: {{{relevance.task}}}
+
+{{#each relevance.files}}
+{{{this.path}}} (score {{this.score}}: content {{this.contentScore}}, path {{this.pathScore}}, symbols {{this.symbolScore}}, imports {{this.importScore}})
+{{/each}}
+
+{{/if}}
+{{#if changes.length}}
+${PLAIN_LONG_SEPARATOR}
+Changes
+${PLAIN_LONG_SEPARATOR}
+
+{{#each changes}}
+${PLAIN_SEPARATOR}
+Change: {{{this.path}}} ({{this.status}}{{#if this.previousPath}} from {{{this.previousPath}}}{{/if}})
+${PLAIN_SEPARATOR}
+{{{this.patch}}}
+{{/each}}
+
+{{/if}}
+{{#if gitLog.length}}
+${PLAIN_LONG_SEPARATOR}
+Git Log
+${PLAIN_LONG_SEPARATOR}
+
+{{#each gitLog}}
+${PLAIN_SEPARATOR}
+Commit: {{{this.sha}}}
+${PLAIN_SEPARATOR}
+Author: {{{this.author}}}
+Date: {{{this.date}}}
+Files ({{this.totalFiles}}): {{#each this.files}}{{#unless @first}}, {{/unless}}{{{this}}}{{/each}}
+
+{{{this.subject}}}
+{{/each}}
+
+{{/if}}
+{{#if outline.length}}
+${PLAIN_LONG_SEPARATOR}
+Outline
+${PLAIN_LONG_SEPARATOR}
+
+{{#each outline}}
+${PLAIN_SEPARATOR}
+File: {{{this.path}}}
+${PLAIN_SEPARATOR}
+{{#each this.symbols}}
+{{this.kind}} {{{this.name}}}{{#if this.parent}} in {{{this.parent}}}{{/if}} (lines {{this.startLine}}-{{this.endLine}})
+  {{{this.signature}}}
+{{#if this.docstring}}
+  {{{this.docstring}}}
+{{/if}}
+{{/each}}
+{{/each}}
+
+{{/if}}
+{{#if dependencyGraph}}
+${PLAIN_LONG_SEPARATOR}
+Dependency Graph ({{dependencyGraph.format}})
+${PLAIN_LONG_SEPARATOR}
+
+{{{dependencyGraph.content}}}
+
+{{/if}}
 ${PLAIN_LONG_SEPARATOR}
 Files
 ${PLAIN_LONG_SEPARATOR}
@@ -10,6 +79,11 @@ ${PLAIN_LONG_SEPARATOR}
 {{#each processedFiles}}
 ${PLAIN_SEPARATOR}
 File: {{{this.path}}}
+{{#with (lookup ../fileHistories this.path)}}
+Last modified: {{{lastModified}}} by {{{lastAuthor}}} ({{{lastCommitSha}}})
+Top authors: {{#each topAuthors}}{{#unless @first}}, {{/unless}}{{{name}}} ({{commits}}){{/each}}
+Churn: +{{linesAdded}}/-{{linesDeleted}} lines in {{commits}} commits
+{{/with}}
 ${PLAIN_SEPARATOR}
 {{{this.content}}}
 {{/each}}
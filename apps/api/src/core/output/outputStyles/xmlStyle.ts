@@ -1,8 +1,63 @@
 export const getXmlTemplate = () => {
   return /* xml */ `
+  {{#if relevance}}
+  <relevant_files task="{{relevance.task}}">
+  {{#each relevance.files}}
+  <file path="{{{this.path}}}" score="{{this.score}}" content_score="{{this.contentScore}}" path_score="{{this.pathScore}}" symbol_score="{{this.symbolScore}}" import_score="{{this.importScore}}"/>
+  {{/each}}
+  </relevant_files>
+
+  {{/if}}
+  {{#if changes.length}}
+  <changes>
+  {{#each changes}}
+  <change path="{{{this.path}}}" status="{{this.status}}"{{#if this.previousPath}} previous_path="{{{this.previousPath}}}"{{/if}}>
+  {{{this.patch}}}
+  </change>
+
+  {{/each}}
+  </changes>
+
+  {{/if}}
+  {{#if gitLog.length}}
+  <git_log>
+  {{#each gitLog}}
+  <commit sha="{{this.sha}}" author="{{this.author}}" date="{{this.date}}" total_files="{{this.totalFiles}}">
+  <subject>{{this.subject}}</subject>
+  {{#each this.files}}
+  <file path="{{this}}"/>
+  {{/each}}
+  </commit>
+  {{/each}}
+  </git_log>
+
+  {{/if}}
+  {{#if outline.length}}
+  <outline>
+  {{#each outline}}
+  <file path="{{{this.path}}}">
+  {{#each this.symbols}}
+  <symbol kind="{{this.kind}}" name="{{this.name}}" start_line="{{this.startLine}}" end_line="{{this.endLine}}"{{#if this.parent}} parent="{{this.parent}}"{{/if}}>
+  <signature>{{{this.signature}}}</signature>
+  {{#if this.docstring}}
+  <docstring>{{{this.docstring}}}</docstring>
+  {{/if}}
+  </symbol>
+  {{/each}}
+  </file>
+  {{/each}}
+  </outline>
+
+  {{/if}}
+  {{#if dependencyGraph}}
+  <dependency_graph level="{{dependencyGraph.level}}" format="{{dependencyGraph.format}}">
+  {{{dependencyGraph.content}}}
+  </dependency_graph>
+
+  {{/if}}
   <files>  
   {{#each processedFiles}}
-  <file path="{{{this.path}}}">
+  <file path="{{{this.path}}}"{{#with (lookup ../fileHistories this.path)}} last_modified="{{lastModified}}" last_author="{{lastAuthor}}" last_commit="{{lastCommitSha}}" top_authors="{{#each topAuthors}}{{#unless @first}}, {{/unless}}{{name}} ({{commits}}){{/each}}" churn="+{{linesAdded}}/-{{linesDeleted}} lines in {{commits}} commits"{{/with}}>
   {{{this.content}}}
   </file>
   
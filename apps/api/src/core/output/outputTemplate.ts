@@ -0,0 +1,112 @@
+import Handlebars from 'handlebars';
+
+import type { CustomTemplateContext } from './outputGeneratorTypes';
+import { getLanguageFromPath } from './outputStyles/markdownStyle';
+
+export const MAX_CUSTOM_TEMPLATE_LENGTH = 64 * 1024;
+
+/**
+ * Helpers available to custom templates, in addition to the Handlebars
+ * built-ins `if`, `unless`, `each`, `with` and `lookup`.
+ */
+const customTemplateHelpers: Record<string, Handlebars.HelperDelegate> = {
+  // {{getFileExtension this.path}} -> "typescript"
+  getFileExtension: (filePath: unknown) =>
+    typeof filePath === 'string' ? getLanguageFromPath(filePath) : '',
+  // {{#if (eq a b)}}
+  eq: (a: unknown, b: unknown) => a === b,
+  // {{add @index 1}}
+  add: (a: unknown, b: unknown) => Number(a) + Number(b),
+  // {{{json this}}}
+  json: (value: unknown) => JSON.stringify(value),
+};
+
+// Custom templates get their own environment so they can't see or register
+// helpers and partials of the built-in templates
+const createTemplateEnvironment = () => {
+  const environment = Handlebars.create();
+  environment.registerHelper(customTemplateHelpers);
+  // The built-in `log` would write template data to the server console
+  environment.registerHelper('log', () => '');
+  return environment;
+};
+
+const templateEnvironment = createTemplateEnvironment();
+
+// Partials and decorators could pull in code or templates from outside
+const FORBIDDEN_NODE_TYPES = new Set([
+  'PartialStatement',
+  'PartialBlockStatement',
+  'DecoratorBlock',
+  'Decorator',
+]);
+
+const findForbiddenNodes = (node: unknown, found: string[]): string[] => {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      findForbiddenNodes(child, found);
+    }
+  } else if (node && typeof node === 'object') {
+    const { type } = node as { type?: unknown };
+    if (typeof type === 'string' && FORBIDDEN_NODE_TYPES.has(type)) {
+      found.push(type);
+    }
+    for (const value of Object.values(node)) {
+      findForbiddenNodes(value, found);
+    }
+  }
+  return found;
+};
+
+/**
+ * Checks that a custom template parses and only uses allowed features.
+ * @param source The Handlebars source.
+ * @returns A list of problems; empty when the template is valid.
+ */
+export const validateCustomTemplate = (source: string): string[] => {
+  if (source.length > MAX_CUSTOM_TEMPLATE_LENGTH) {
+    return [
+      `Template exceeds the maximum length of ${MAX_CUSTOM_TEMPLATE_LENGTH} characters`,
+    ];
+  }
+
+  let program: hbs.AST.Program;
+  try {
+    program = templateEnvironment.parse(source);
+  } catch (error) {
+    return [
+      `Invalid template syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    ];
+  }
+
+  return [...new Set(findForbiddenNodes(program, []))].map(
+    (type) => `${type} is not allowed in custom templates`,
+  );
+};
+
+/**
+ * Renders a custom template against the output context. Prototype
+ * properties and methods are never exposed to the template.
+ * @throws Error if the template is invalid or fails to render.
+ */
+export const renderCustomTemplate = (
+  source: string,
+  templateContext: CustomTemplateContext,
+): string => {
+  const problems = validateCustomTemplate(source);
+  if (problems.length > 0) {
+    throw new Error(`Invalid custom template: ${problems.join('; ')}`);
+  }
+
+  try {
+    const template = templateEnvironment.compile(source, { strict: false });
+    return `${template(templateContext, {
+      allowProtoPropertiesByDefault: false,
+      allowProtoMethodsByDefault: false,
+    }).trim()}\n`;
+  } catch (error) {
+    throw new Error(
+      `Failed to render custom template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+};
@@ -0,0 +1,102 @@
+import { minimatch } from 'minimatch';
+
+import type { ConfigMerged } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { DiffOptions } from '~/types';
+import { resolveImportedFiles } from '../file/fileImports';
+import { getIgnorePatterns, searchFiles } from '../file/fileSearch';
+import type { FileChange } from '../file/fileTypes';
+import type { GitDiffResult } from '../file/gitCommand';
+
+export interface DiffScope {
+  config: ConfigMerged;
+  // The changes to render, limited to the files the config selects
+  changes: FileChange[];
+}
+
+// Deleted files are gone from the checkout, so they are matched against the
+// patterns instead of searched for; `.gitignore` files are not consulted
+const isSelectedPath = (
+  filePath: string,
+  includePatterns: string[],
+  ignorePatterns: string[],
+): boolean =>
+  (includePatterns.length === 0 ||
+    includePatterns.some((pattern) =>
+      minimatch(filePath, pattern, { dot: true }),
+    )) &&
+  !ignorePatterns.some((pattern) =>
+    minimatch(filePath, pattern, { dot: true }),
+  );
+
+/**
+ * Narrows a pack down to the files changed by a diff. Changes to files the
+ * config's include and ignore patterns leave out are dropped; the remaining
+ * files, and with `includeImports` the files they import, become the only
+ * files included.
+ * @param rootDir The checkout of the diff's head.
+ * @param config The merged configuration of the request.
+ * @param diff The changes between the merge base and the head.
+ * @param options The diff options of the request.
+ * @returns The configuration to pack with and the changes to render.
+ */
+export const applyDiffScope = async (
+  rootDir: string,
+  config: ConfigMerged,
+  diff: GitDiffResult,
+  options: DiffOptions,
+  deps = {
+    searchFiles,
+    getIgnorePatterns,
+    resolveImportedFiles,
+  },
+): Promise<DiffScope> => {
+  const [{ filePaths }, ignorePatterns] = await Promise.all([
+    deps.searchFiles(rootDir, config),
+    deps.getIgnorePatterns(rootDir, config),
+  ]);
+  const selectedPaths = new Set(filePaths);
+
+  const changes = diff.changes.filter((change) =>
+    change.status === 'deleted'
+      ? isSelectedPath(change.path, config.include, ignorePatterns)
+      : selectedPaths.has(change.path),
+  );
+  const changedPaths = changes
+    .filter((change) => change.status !== 'deleted')
+    .map((change) => change.path);
+  const importedPaths = options.includeImports
+    ? await deps.resolveImportedFiles(rootDir, changedPaths, filePaths)
+    : [];
+  const includedPaths = [...changedPaths, ...importedPaths];
+
+  logger.info('Scoped pack to diff', {
+    changes: changes.length,
+    droppedChanges: diff.changes.length - changes.length,
+    importedFiles: importedPaths.length,
+  });
+
+  const includeFileContent =
+    options.includeFileContent === true || options.includeImports === true;
+
+  return {
+    changes,
+    config: {
+      ...config,
+      include: includedPaths,
+      output: {
+        ...config.output,
+        // An empty include list would select every file
+        files: includeFileContent && includedPaths.length > 0,
+        directoryStructure:
+          config.output.directoryStructure && includedPaths.length > 0,
+        diff: {
+          base: options.base,
+          baseCommitSha: diff.baseCommitSha,
+          mergeBaseCommitSha: diff.mergeBaseCommitSha,
+          includeImports: options.includeImports === true,
+        },
+      },
+    },
+  };
+};
@@ -1,12 +1,23 @@
 import type { ConfigMerged } from '~/config/configSchema';
 import type { CrawlProgressCallback } from '~/types';
 import { collectFiles } from '../file/fileCollect';
+import { buildOutline } from '../file/fileOutline';
 import { sortPaths } from '../file/filePathSort';
-import { processFiles } from '../file/fileProcess';
 import { searchFiles } from '../file/fileSearch';
-import type { RawFile } from '../file/fileTypes';
+import type { FileChange, RawFile } from '../file/fileTypes';
+import { buildDependencyGraph } from '../graph/buildDependencyGraph';
 import { calculateMetrics } from '../metrics/calculateMetrics';
 import { generateOutput } from '../output/outputGenerate';
+import type { OutputExtras } from '../output/outputGeneratorTypes';
+import {
+  type OutputManifest,
+  type OutputPart,
+  splitOutput,
+} from '../output/outputSplit';
+import { validateFileSafety } from '../security/validateFileSafety';
+import type { SuspiciousFileResult } from '../security/workers/securityCheckWorker';
+import { applyTaskScope, type TaskRelevance } from './taskScope';
+import { applyTokenBudget, type TokenBudgetResult } from './tokenBudget';
 
 export interface PackResult {
   totalFiles: number;
@@ -15,22 +26,38 @@ export interface PackResult {
   fileCharCounts: Record<string, number>;
   fileTokenCounts: Record<string, number>;
   output: string;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  tokenBudget?: TokenBudgetResult;
+  // Present when `output.task` is set
+  relevance?: TaskRelevance;
+  // Present when `output.splitOutput` is set
+  parts?: OutputPart[];
+  manifest?: OutputManifest;
 }
 
 export const pack = async (
   rootDirs: string[],
   config: ConfigMerged,
   progressCallback: CrawlProgressCallback = () => {},
+  signal?: AbortSignal,
+  extras: OutputExtras = {},
+  fileChangeCounts: Record<string, number> = {},
   deps = {
     searchFiles,
     collectFiles,
-    processFiles,
+    validateFileSafety,
+    applyTokenBudget,
     generateOutput,
+    splitOutput,
     calculateMetrics,
     sortPaths,
+    buildOutline,
+    buildDependencyGraph,
+    applyTaskScope,
   },
 ): Promise<PackResult> => {
-  progressCallback('Searching for files...');
+  signal?.throwIfAborted();
+  progressCallback('Searching for files...', { phase: 'searching' });
 
   const filePathsByDir = await Promise.all(
     rootDirs.map(async (rootDir) => ({
@@ -40,7 +67,8 @@ export const pack = async (
   );
 
   // Sort file paths
-  progressCallback('Sorting files...');
+  signal?.throwIfAborted();
+  progressCallback('Sorting files...', { phase: 'sorting' });
   const allFilePaths = filePathsByDir.flatMap(({ filePaths }) => filePaths);
   const sortedFilePaths = await deps.sortPaths(allFilePaths);
 
@@ -54,37 +82,129 @@ export const pack = async (
     ),
   }));
 
-  progressCallback('Collecting files...');
-  const rawFiles = (
-    await Promise.all(
-      sortedFilePathsByDir.map(({ rootDir, filePaths }) =>
-        deps.collectFiles(filePaths, rootDir, progressCallback),
-      ),
-    )
-  ).reduce((acc: RawFile[], curr: RawFile[]) => acc.concat(...curr), []);
-
-  // Process files (remove comments, etc.)
-  progressCallback('Processing files...');
-  const processedFiles = await deps.processFiles(
-    rawFiles,
+  // The directory structure still lists files whose contents are left out
+  progressCallback('Collecting files...', { phase: 'collecting' });
+  const rawFiles =
+    config.output.files || config.output.outline
+      ? (
+          await Promise.all(
+            sortedFilePathsByDir.map(({ rootDir, filePaths }) =>
+              deps.collectFiles(filePaths, rootDir, progressCallback, signal),
+            ),
+          )
+        ).reduce((acc: RawFile[], curr: RawFile[]) => acc.concat(...curr), [])
+      : [];
+
+  // Drop or redact files containing secrets before they reach the output
+  const { safeRawFiles, suspiciousFilesResults } =
+    await deps.validateFileSafety(rawFiles, progressCallback, config, signal);
+
+  // Diffs can leak secrets too, so they are checked like files
+  const changes = extras.changes ?? [];
+  const safeChanges: FileChange[] = [];
+  if (changes.length > 0) {
+    const patchSafety = await deps.validateFileSafety(
+      changes.map((change) => ({ path: change.path, content: change.patch })),
+      progressCallback,
+      config,
+      signal,
+    );
+    for (const change of changes) {
+      const safePatch = patchSafety.safeRawFiles.find(
+        (file) => file.path === change.path,
+      );
+      if (safePatch) {
+        safeChanges.push({ ...change, patch: safePatch.content });
+      }
+    }
+    suspiciousFilesResults.push(...patchSafety.suspiciousFilesResults);
+  }
+  const safeExtras: OutputExtras = { ...extras, changes: safeChanges };
+
+  // A task keeps only the files most relevant to it, most relevant first
+  let selectedRawFiles = safeRawFiles;
+  if (config.output.task) {
+    const taskScope = await deps.applyTaskScope(
+      sortedFilePathsByDir,
+      safeRawFiles,
+      config.output.task,
+      progressCallback,
+      signal,
+    );
+    selectedRawFiles = taskScope.rawFiles;
+    safeExtras.relevance = taskScope.relevance;
+  }
+
+  // An outline lists the symbols of the files in place of their contents
+  if (config.output.outline) {
+    progressCallback('Outlining files...', { phase: 'outlining' });
+    safeExtras.symbols = await deps.buildOutline(
+      selectedRawFiles,
+      progressCallback,
+      signal,
+    );
+  }
+
+  // The graph only holds paths, which the directory structure shows anyway
+  if (config.output.dependencyGraph) {
+    signal?.throwIfAborted();
+    progressCallback('Building dependency graph...', { phase: 'graphing' });
+    safeExtras.dependencyGraph = await deps.buildDependencyGraph(
+      sortedFilePathsByDir,
+      config.output.dependencyGraph.level,
+    );
+  }
+
+  // Process files (remove comments, etc.), fitting them into
+  // `output.maxTokens` if set
+  progressCallback('Processing files...', { phase: 'processing' });
+  const { processedFiles, tokenBudget } = await deps.applyTokenBudget(
+    rootDirs,
+    config.output.outline ? [] : selectedRawFiles,
+    allFilePaths,
     config,
     progressCallback,
+    signal,
+    safeExtras,
+    fileChangeCounts,
   );
 
-  progressCallback('Generating output...');
+  signal?.throwIfAborted();
+  progressCallback('Generating output...', { phase: 'generating' });
   const output = await deps.generateOutput(
     rootDirs,
     config,
     processedFiles,
-    filePathsByDir.flatMap(({ filePaths }) => filePaths),
+    allFilePaths,
+    safeExtras,
   );
 
+  const split = config.output.splitOutput
+    ? await deps.splitOutput(
+        rootDirs,
+        config,
+        processedFiles,
+        allFilePaths,
+        safeExtras,
+      )
+    : undefined;
+
+  signal?.throwIfAborted();
   const metrics = await deps.calculateMetrics(
     processedFiles,
     output,
     progressCallback,
     config,
+    signal,
   );
 
-  return { ...metrics, output };
+  return {
+    ...metrics,
+    output,
+    suspiciousFilesResults,
+    tokenBudget,
+    relevance: safeExtras.relevance,
+    parts: split?.parts,
+    manifest: split?.manifest,
+  };
 };
@@ -0,0 +1,81 @@
+import type { ConfigMerged } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { CrawlProgressCallback } from '~/types';
+import { resolveFileImports } from '../file/fileImports';
+import { buildOutline } from '../file/fileOutline';
+import {
+  type FileRelevance,
+  rankFilesByRelevance,
+} from '../file/fileRelevance';
+import type { RawFile } from '../file/fileTypes';
+
+// The files selected for a task, and why
+export interface TaskRelevance {
+  task: string;
+  // Files ranked below `maxFiles` are left out
+  maxFiles: number;
+  // The selected files, most relevant first
+  files: FileRelevance[];
+}
+
+export interface TaskScope {
+  // The selected files, most relevant first
+  rawFiles: RawFile[];
+  relevance: TaskRelevance;
+}
+
+/**
+ * Narrows a pack down to the files most relevant to a natural-language task.
+ * Files are ranked locally, from their contents, paths, symbol names and
+ * imports; the top `maxFiles` with any relevance are kept.
+ * @param sources The files found under each root directory, to resolve
+ *   imports against.
+ * @param rawFiles The collected files to choose from.
+ * @param task The task and how many files to keep, from `output.task`.
+ * @param progressCallback Receives progress messages.
+ * @param signal Aborts ranking when the job is cancelled.
+ * @returns The selected files and their scores.
+ */
+export const applyTaskScope = async (
+  sources: { rootDir: string; filePaths: string[] }[],
+  rawFiles: RawFile[],
+  task: NonNullable<ConfigMerged['output']['task']>,
+  progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
+  deps = {
+    buildOutline,
+    resolveFileImports,
+    rankFilesByRelevance,
+  },
+): Promise<TaskScope> => {
+  const symbols = await deps.buildOutline(rawFiles, progressCallback, signal);
+  signal?.throwIfAborted();
+
+  progressCallback('Ranking files for the task...', { phase: 'ranking' });
+  const fileImports = new Map<string, string[]>();
+  for (const { rootDir, filePaths } of sources) {
+    const sourceImports = await deps.resolveFileImports(
+      rootDir,
+      filePaths,
+      filePaths,
+    );
+    for (const [filePath, importedFiles] of sourceImports) {
+      fileImports.set(filePath, importedFiles);
+    }
+  }
+
+  const files = deps
+    .rankFilesByRelevance(task.query, rawFiles, symbols, fileImports)
+    .slice(0, task.maxFiles);
+  const rawFilesByPath = new Map(rawFiles.map((file) => [file.path, file]));
+
+  logger.info('Scoped pack to task', {
+    rankedFiles: rawFiles.length,
+    selectedFiles: files.length,
+  });
+
+  return {
+    rawFiles: files.flatMap(({ path }) => rawFilesByPath.get(path) ?? []),
+    relevance: { task: task.query, maxFiles: task.maxFiles, files },
+  };
+};
@@ -0,0 +1,252 @@
+import type { ConfigMerged } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { CrawlProgressCallback } from '~/types';
+import { rankFilesByPriority } from '../file/filePrioritize';
+import { processFiles } from '../file/fileProcess';
+import type { ProcessedFile, RawFile } from '../file/fileTypes';
+import { calculateAllFileMetrics } from '../metrics/calculateAllFileMetrics';
+import { calculateOutputMetrics } from '../metrics/calculateOutputMetrics';
+import { generateOutput } from '../output/outputGenerate';
+import type { OutputExtras } from '../output/outputGeneratorTypes';
+
+// Estimated tokens of the markup around each file (path header, fences)
+const FILE_WRAPPER_TOKENS = 10;
+// The estimate is checked against the rendered output and the budget is
+// tightened by the overshoot, at most this many times
+const MAX_FIT_ATTEMPTS = 3;
+
+export type FileInclusionMode = 'full' | 'compressed' | 'omitted';
+
+export interface TokenBudgetResult {
+  maxTokens: number;
+  fullFiles: string[];
+  compressedFiles: string[];
+  // Still listed in the directory structure, but without content
+  omittedFiles: string[];
+}
+
+export interface ApplyTokenBudgetResult {
+  processedFiles: ProcessedFile[];
+  tokenBudget?: TokenBudgetResult;
+}
+
+const toTokenCounts = (
+  metrics: { path: string; tokenCount: number }[],
+): Record<string, number> =>
+  Object.fromEntries(metrics.map((file) => [file.path, file.tokenCount]));
+
+const sumFileCosts = (tokenCounts: Record<string, number>): number =>
+  Object.values(tokenCounts).reduce(
+    (sum, tokens) => sum + tokens + FILE_WRAPPER_TOKENS,
+    0,
+  );
+
+/**
+ * Chooses, in priority order, whether each file fits in full, fits once
+ * compressed to its tree-sitter chunks, or has to be left out.
+ */
+const selectInclusionModes = (
+  rankedPaths: string[],
+  fullTokens: Record<string, number>,
+  compressedTokens: Record<string, number>,
+  budget: number,
+): Map<string, FileInclusionMode> => {
+  const modes = new Map<string, FileInclusionMode>();
+  let remaining = budget;
+
+  for (const filePath of rankedPaths) {
+    const fullCost = fullTokens[filePath] + FILE_WRAPPER_TOKENS;
+    const compressedCost = compressedTokens[filePath] + FILE_WRAPPER_TOKENS;
+
+    if (fullCost <= remaining) {
+      modes.set(filePath, 'full');
+      remaining -= fullCost;
+    } else if (compressedCost < fullCost && compressedCost <= remaining) {
+      modes.set(filePath, 'compressed');
+      remaining -= compressedCost;
+    } else {
+      modes.set(filePath, 'omitted');
+    }
+  }
+
+  return modes;
+};
+
+/**
+ * Processes files and, when `output.maxTokens` is set, fits them into the
+ * token budget. Files are ranked by git change frequency, path heuristics and
+ * size, or by relevance when packing for a task; the most important ones are
+ * kept in full, the next ones compressed and the rest omitted.
+ * @param rootDirs The directories the files were collected from.
+ * @param rawFiles The files to process, in output order.
+ * @param allFilePaths Every file path, for the directory structure.
+ * @param config The merged configuration.
+ * @param progressCallback Receives progress messages.
+ * @param signal Aborts processing when the job is cancelled.
+ * @param extras The changes, git history, symbols, dependency graph and
+ *   task relevance to render; they are always kept, and count against the
+ *   budget.
+ * @param fileChangeCounts How often each file changed recently, keyed by
+ *   path, counted while the repositories were cloned.
+ * @returns The processed files to render and, if a budget was applied, which
+ *   files were kept, compressed or omitted.
+ */
+export const applyTokenBudget = async (
+  rootDirs: string[],
+  rawFiles: RawFile[],
+  allFilePaths: string[],
+  config: ConfigMerged,
+  progressCallback: CrawlProgressCallback,
+  signal?: AbortSignal,
+  extras: OutputExtras = {},
+  fileChangeCounts: Record<string, number> = {},
+  deps = {
+    processFiles,
+    calculateAllFileMetrics,
+    calculateOutputMetrics,
+    generateOutput,
+  },
+): Promise<ApplyTokenBudgetResult> => {
+  const processedFiles = await deps.processFiles(
+    rawFiles,
+    config,
+    progressCallback,
+    signal,
+  );
+
+  const maxTokens = config.output.maxTokens;
+  if (maxTokens === undefined) {
+    return { processedFiles };
+  }
+
+  progressCallback('Fitting files into the token budget...', {
+    phase: 'processing',
+  });
+  const encoding = config.tokenCount.encoding;
+
+  const fullTokens = toTokenCounts(
+    await deps.calculateAllFileMetrics(
+      processedFiles,
+      encoding,
+      () => {},
+      signal,
+    ),
+  );
+  const baseTokens = await deps.calculateOutputMetrics(
+    await deps.generateOutput(rootDirs, config, [], allFilePaths, extras),
+    encoding,
+    undefined,
+    signal,
+  );
+
+  // Compressed variants are only needed once the full files don't fit
+  let compressedFiles: ProcessedFile[] | undefined;
+  let compressedTokens: Record<string, number> = fullTokens;
+  // Chunks are cut from the files as they are, so they have no compressed
+  // variant either
+  const ensureCompressedFiles = async () => {
+    if (
+      compressedFiles ||
+      config.output.compress ||
+      config.output.style === 'chunks'
+    ) {
+      return;
+    }
+    compressedFiles = await deps.processFiles(
+      rawFiles,
+      { ...config, output: { ...config.output, compress: true } },
+      () => {},
+      signal,
+    );
+    compressedTokens = toTokenCounts(
+      await deps.calculateAllFileMetrics(
+        compressedFiles,
+        encoding,
+        () => {},
+        signal,
+      ),
+    );
+  };
+
+  // A task's ranking replaces the general one
+  let rankedPaths = extras.relevance?.files.map((file) => file.path);
+  if (!rankedPaths) {
+    rankedPaths = rankFilesByPriority(
+      processedFiles.map((file) => ({
+        path: file.path,
+        tokenCount: fullTokens[file.path],
+      })),
+      fileChangeCounts,
+    );
+  }
+
+  let budget = maxTokens - baseTokens;
+  let modes = new Map<string, FileInclusionMode>();
+  let selectedFiles: ProcessedFile[] = [];
+
+  for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS; attempt++) {
+    if (sumFileCosts(fullTokens) > budget) {
+      await ensureCompressedFiles();
+    }
+
+    modes = selectInclusionModes(
+      rankedPaths,
+      fullTokens,
+      compressedTokens,
+      budget,
+    );
+    selectedFiles = processedFiles.flatMap((file, index) => {
+      switch (modes.get(file.path)) {
+        case 'full':
+          return [file];
+        case 'compressed':
+          return [compressedFiles?.[index] ?? file];
+        default:
+          return [];
+      }
+    });
+
+    const outputTokens = await deps.calculateOutputMetrics(
+      await deps.generateOutput(
+        rootDirs,
+        config,
+        selectedFiles,
+        allFilePaths,
+        extras,
+      ),
+      encoding,
+      undefined,
+      signal,
+    );
+    if (outputTokens <= maxTokens) {
+      break;
+    }
+
+    logger.info('Output exceeds the token budget, tightening selection', {
+      maxTokens,
+      outputTokens,
+      attempt,
+    });
+    budget -= outputTokens - maxTokens;
+  }
+
+  const pathsWithMode = (mode: FileInclusionMode) =>
+    processedFiles
+      .filter((file) => modes.get(file.path) === mode)
+      .map((file) => file.path);
+
+  const tokenBudget: TokenBudgetResult = {
+    maxTokens,
+    fullFiles: pathsWithMode('full'),
+    compressedFiles: pathsWithMode('compressed'),
+    omittedFiles: pathsWithMode('omitted'),
+  };
+  logger.info('Applied token budget', {
+    maxTokens,
+    fullFiles: tokenBudget.fullFiles.length,
+    compressedFiles: tokenBudget.compressedFiles.length,
+    omittedFiles: tokenBudget.omittedFiles.length,
+  });
+
+  return { processedFiles: selectedFiles, tokenBudget };
+};
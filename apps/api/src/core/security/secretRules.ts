@@ -0,0 +1,149 @@
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+}
+
+/**
+ * Patterns for well-known credential formats. Every pattern must use the
+ * global flag so all occurrences can be reported and redacted.
+ */
+export const secretRules: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'Private key block',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:A3T[A-Z0-9]|AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern:
+      /aws_?secret_?access_?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    id: 'gcp-api-key',
+    description: 'Google Cloud API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    id: 'gcp-service-account-key',
+    description: 'Google Cloud service account private key',
+    pattern: /"private_key_id"\s*:\s*"[0-9a-f]{40}"/g,
+  },
+  {
+    id: 'azure-storage-key',
+    description: 'Azure storage account key',
+    pattern: /AccountKey=[A-Za-z0-9+/=]{86,88}/g,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern:
+      /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g,
+  },
+  {
+    id: 'gitlab-token',
+    description: 'GitLab personal access token',
+    pattern: /\bglpat-[A-Za-z0-9_-]{20}\b/g,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    id: 'slack-webhook',
+    description: 'Slack incoming webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9_/]+/g,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe live secret key',
+    pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{24,}\b/g,
+  },
+  {
+    id: 'anthropic-api-key',
+    description: 'Anthropic API key',
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{80,}/g,
+  },
+  {
+    id: 'openai-api-key',
+    description: 'OpenAI API key',
+    pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{32,}/g,
+  },
+  {
+    id: 'npm-token',
+    description: 'npm access token',
+    pattern: /\bnpm_[A-Za-z0-9]{36}\b/g,
+  },
+  {
+    id: 'sendgrid-api-key',
+    description: 'SendGrid API key',
+    pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/g,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'credentials-in-url',
+    description: 'Password embedded in a connection URL',
+    pattern:
+      /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"]+:[^\s:@/'"]+@(?!localhost\b|127\.0\.0\.1\b|example\.)[^\s/'"]+/gi,
+  },
+];
+
+// Values assigned to secret-looking names, e.g. `apiKey = "..."`
+export const secretAssignmentPattern =
+  /(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|auth[_-]?key)[\w-]*["']?\s*[:=]\s*["']([^"'\s]{16,})["']/gi;
+
+// Standalone quoted strings made of base64/hex-like characters
+export const candidateStringPattern = /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/g;
+
+export const ASSIGNMENT_ENTROPY_THRESHOLD = 3.5;
+export const STANDALONE_ENTROPY_THRESHOLD = 4.5;
+
+/**
+ * Shannon entropy of a string, in bits per character.
+ */
+export const calculateShannonEntropy = (value: string): number => {
+  if (!value) {
+    return 0;
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+};
+
+/**
+ * Filters out values that have high entropy but are not secrets,
+ * such as integrity hashes and repeated placeholder characters.
+ */
+export const isLikelyNonSecret = (value: string): boolean => {
+  if (/^sha(?:1|256|384|512)-/i.test(value)) {
+    return true;
+  }
+  if (/^(?:x+|\*+|<[^>]*>|\$\{[^}]*\})$/i.test(value)) {
+    return true;
+  }
+  // Requires a mix of letters and digits to be considered a key
+  return !(/[A-Za-z]/.test(value) && /[0-9]/.test(value));
+};
@@ -0,0 +1,77 @@
+import { logger } from '~/lib/logger';
+import { initPiscina } from '~/lib/processConcurrency';
+import type { RawFile } from '../file/fileTypes';
+import type {
+  SecurityCheckTask,
+  SuspiciousFileResult,
+} from './workers/securityCheckWorker';
+import type { CrawlProgressCallback } from '~/types';
+
+const initTaskRunner = (numOfTasks: number) => {
+  const pool = initPiscina(
+    numOfTasks,
+    require.resolve('./workers/securityCheckWorker'),
+  );
+  return (task: SecurityCheckTask, signal?: AbortSignal) =>
+    pool.run(task, { signal });
+};
+
+export const runSecurityCheck = async (
+  rawFiles: RawFile[],
+  redact: boolean,
+  progressCallback: CrawlProgressCallback = () => {},
+  signal?: AbortSignal,
+  deps = { initTaskRunner },
+): Promise<SuspiciousFileResult[]> => {
+  const runTask = deps.initTaskRunner(rawFiles.length);
+  const tasks = rawFiles.map(
+    (file) =>
+      ({
+        filePath: file.path,
+        content: file.content,
+        redact,
+      }) satisfies SecurityCheckTask,
+  );
+
+  try {
+    const startTime = process.hrtime.bigint();
+    logger.info(
+      `Starting security check for ${tasks.length} files using worker pool`,
+    );
+
+    let completedTasks = 0;
+    const totalTasks = tasks.length;
+
+    const results = await Promise.all(
+      tasks.map((task) =>
+        runTask(task, signal).then((result: SuspiciousFileResult | null) => {
+          completedTasks++;
+          progressCallback(
+            `Running security check... (${completedTasks}/${totalTasks})`,
+            {
+              phase: 'security',
+              filesDone: completedTasks,
+              filesTotal: totalTasks,
+              currentFile: task.filePath,
+            },
+          );
+          logger.info(
+            `Running security check... (${completedTasks}/${totalTasks}) ${task.filePath}`,
+          );
+          return result;
+        }),
+      ),
+    );
+
+    const endTime = process.hrtime.bigint();
+    const duration = Number(endTime - startTime) / 1e6;
+
+    logger.info(`Security check completed in ${duration.toFixed(2)}ms`);
+    return results.filter(
+      (result): result is SuspiciousFileResult => result !== null,
+    );
+  } catch (error) {
+    logger.error('Error during security check');
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import type { ConfigMerged } from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import type { CrawlProgressCallback } from '~/types';
+import type { RawFile } from '../file/fileTypes';
+import { runSecurityCheck } from './securityCheck';
+import type { SuspiciousFileResult } from './workers/securityCheckWorker';
+
+export interface FileSafetyResult {
+  safeRawFiles: RawFile[];
+  suspiciousFilesResults: SuspiciousFileResult[];
+}
+
+/**
+ * Scans collected files for secrets and either drops the flagged files or
+ * replaces the detected values, depending on `security.suspiciousFileAction`.
+ */
+export const validateFileSafety = async (
+  rawFiles: RawFile[],
+  progressCallback: CrawlProgressCallback,
+  config: ConfigMerged,
+  signal?: AbortSignal,
+  deps = { runSecurityCheck },
+): Promise<FileSafetyResult> => {
+  if (!config.security.enableSecurityCheck) {
+    return { safeRawFiles: rawFiles, suspiciousFilesResults: [] };
+  }
+
+  progressCallback('Running security check...', { phase: 'security' });
+  const redact = config.security.suspiciousFileAction === 'redact';
+  const suspiciousFilesResults = await deps.runSecurityCheck(
+    rawFiles,
+    redact,
+    progressCallback,
+    signal,
+  );
+
+  const suspiciousByPath = new Map(
+    suspiciousFilesResults.map((result) => [result.filePath, result]),
+  );
+
+  const safeRawFiles = rawFiles.flatMap((file) => {
+    const suspicious = suspiciousByPath.get(file.path);
+    if (!suspicious) {
+      return [file];
+    }
+    if (redact && suspicious.redactedContent !== undefined) {
+      return [{ ...file, content: suspicious.redactedContent }];
+    }
+    return [];
+  });
+
+  if (suspiciousFilesResults.length > 0) {
+    logger.warn(
+      `Security check flagged ${suspiciousFilesResults.length} file(s); ${
+        redact ? 'secrets were redacted' : 'files were excluded'
+      }`,
+    );
+  }
+
+  return {
+    safeRawFiles,
+    // Redacted content is only needed to build the safe files
+    suspiciousFilesResults: suspiciousFilesResults.map(
+      ({ filePath, messages }) => ({ filePath, messages }),
+    ),
+  };
+};
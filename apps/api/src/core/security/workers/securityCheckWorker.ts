@@ -0,0 +1,134 @@
+import {
+  ASSIGNMENT_ENTROPY_THRESHOLD,
+  STANDALONE_ENTROPY_THRESHOLD,
+  calculateShannonEntropy,
+  candidateStringPattern,
+  isLikelyNonSecret,
+  secretAssignmentPattern,
+  secretRules,
+} from '../secretRules';
+
+export interface SecurityCheckTask {
+  filePath: string;
+  content: string;
+  redact: boolean;
+}
+
+export interface SuspiciousFileResult {
+  filePath: string;
+  messages: string[];
+  redactedContent?: string;
+}
+
+interface SecretMatch {
+  start: number;
+  end: number;
+  description: string;
+}
+
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+export default async ({
+  filePath,
+  content,
+  redact,
+}: SecurityCheckTask): Promise<SuspiciousFileResult | null> => {
+  const matches = findSecrets(content);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return {
+    filePath,
+    messages: buildMessages(content, matches),
+    redactedContent: redact ? redactSecrets(content, matches) : undefined,
+  };
+};
+
+export const findSecrets = (content: string): SecretMatch[] => {
+  const matches: SecretMatch[] = [];
+
+  for (const rule of secretRules) {
+    for (const match of content.matchAll(rule.pattern)) {
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        description: rule.description,
+      });
+    }
+  }
+
+  for (const match of content.matchAll(secretAssignmentPattern)) {
+    const value = match[1];
+    if (
+      isLikelyNonSecret(value) ||
+      calculateShannonEntropy(value) < ASSIGNMENT_ENTROPY_THRESHOLD
+    ) {
+      continue;
+    }
+    const start = match.index + match[0].lastIndexOf(value);
+    matches.push({
+      start,
+      end: start + value.length,
+      description: 'High-entropy value assigned to a secret-like name',
+    });
+  }
+
+  for (const match of content.matchAll(candidateStringPattern)) {
+    const value = match[1];
+    if (
+      isLikelyNonSecret(value) ||
+      calculateShannonEntropy(value) < STANDALONE_ENTROPY_THRESHOLD
+    ) {
+      continue;
+    }
+    const start = match.index + 1;
+    matches.push({
+      start,
+      end: start + value.length,
+      description: 'High-entropy string',
+    });
+  }
+
+  return mergeOverlappingMatches(matches);
+};
+
+// Keeps the first reported description when ranges overlap
+const mergeOverlappingMatches = (matches: SecretMatch[]): SecretMatch[] => {
+  const sorted = [...matches].sort((a, b) => a.start - b.start);
+  const merged: SecretMatch[] = [];
+
+  for (const match of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && match.start < last.end) {
+      last.end = Math.max(last.end, match.end);
+      continue;
+    }
+    merged.push({ ...match });
+  }
+
+  return merged;
+};
+
+const buildMessages = (content: string, matches: SecretMatch[]): string[] => {
+  return matches.map((match) => {
+    const line = content.slice(0, match.start).split('\n').length;
+    return `${match.description} (line ${line})`;
+  });
+};
+
+export const redactSecrets = (
+  content: string,
+  matches: SecretMatch[],
+): string => {
+  let result = '';
+  let cursor = 0;
+
+  for (const match of matches) {
+    result += content.slice(cursor, match.start) + REDACTED_PLACEHOLDER;
+    cursor = match.end;
+  }
+
+  return result + content.slice(cursor);
+};
@@ -0,0 +1,36 @@
+import 'dart:math';
+import 'package:shop/model/item.dart';
+
+/// A shopping cart holding items and their quantities.
+class Cart {
+  final String owner;
+  final Map<Item, int> _items = {};
+
+  Cart(this.owner);
+
+  Cart.empty() : owner = '';
+
+  // Adds an item, or raises its quantity
+  void add(Item item, [int quantity = 1]) {
+    _items[item] = max(0, (_items[item] ?? 0) + quantity);
+  }
+
+  double get total =>
+      _items.entries.fold(0, (sum, entry) => sum + entry.key.price * entry.value);
+}
+
+mixin Discounted {
+  double discount(double total) => total * 0.9;
+}
+
+extension CartFormat on Cart {
+  String describe() => '$owner: $total';
+}
+
+enum Currency { eur, usd }
+
+typedef CartId = String;
+
+String formatPrice(double value) {
+  return value.toStringAsFixed(2);
+}
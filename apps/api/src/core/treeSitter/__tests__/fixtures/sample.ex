@@ -0,0 +1,31 @@
+defmodule Shop.Cart do
+  @moduledoc """
+  A shopping cart holding items and their quantities.
+  """
+
+  alias Shop.Item
+  import Enum, only: [reduce: 3]
+  require Logger
+  use GenServer
+
+  @doc "Adds an item, or raises its quantity"
+  def add(cart, %Item{} = item, quantity \\ 1) do
+    Map.update(cart, item, quantity, &(&1 + quantity))
+  end
+
+  def total(cart) do
+    reduce(cart, 0, fn {item, quantity}, sum -> sum + item.price * quantity end)
+  end
+
+  defp log_total(cart) do
+    Logger.info("Total: #{total(cart)}")
+  end
+
+  defmacro empty do
+    quote do: %{}
+  end
+end
+
+defprotocol Shop.Priced do
+  def price(item)
+end
@@ -0,0 +1,43 @@
+package com.example.shop
+
+import kotlin.math.max
+import com.example.shop.model.Item
+
+/**
+ * A shopping cart holding items and their quantities.
+ */
+class Cart(private val owner: String) {
+    private val items = mutableMapOf<Item, Int>()
+
+    // Adds an item, or raises its quantity
+    fun add(item: Item, quantity: Int = 1) {
+        items[item] = max(0, (items[item] ?: 0) + quantity)
+    }
+
+    fun total(): Double {
+        return items.entries.sumOf { (item, quantity) -> item.price * quantity }
+    }
+
+    companion object {
+        fun empty(owner: String) = Cart(owner)
+    }
+}
+
+interface Discount {
+    fun apply(total: Double): Double
+}
+
+enum class Currency {
+    EUR,
+    USD,
+}
+
+object Registry {
+    val carts = mutableListOf<Cart>()
+}
+
+typealias CartId = String
+
+fun formatPrice(value: Double): String {
+    return "%.2f".format(value)
+}
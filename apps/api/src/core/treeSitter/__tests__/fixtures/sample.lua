@@ -0,0 +1,25 @@
+-- A small inventory module
+local json = require("json")
+local utils = require "utils"
+
+local Inventory = {}
+Inventory.__index = Inventory
+
+--- Creates an empty inventory
+function Inventory.new()
+  return setmetatable({ items = {} }, Inventory)
+end
+
+function Inventory:add(name, count)
+  self.items[name] = (self.items[name] or 0) + count
+end
+
+local function serialize(inventory)
+  return json.encode(inventory.items)
+end
+
+function summary(inventory)
+  return utils.keys(inventory.items)
+end
+
+return Inventory
@@ -0,0 +1,28 @@
+package example.shop
+
+import scala.collection.mutable
+import example.shop.model.{Item, Price}
+
+// A shopping cart holding items and their quantities
+class Cart(owner: String) {
+  private val items = mutable.Map.empty[Item, Int]
+
+  def add(item: Item, quantity: Int = 1): Unit = {
+    items(item) = items.getOrElse(item, 0) + quantity
+  }
+
+  def total: Double =
+    items.map { case (item, quantity) => item.price * quantity }.sum
+}
+
+object Cart {
+  def empty(owner: String): Cart = new Cart(owner)
+}
+
+trait Discount {
+  def apply(total: Double): Double
+}
+
+type CartId = String
+
+def formatPrice(value: Double): String = f"$value%.2f"
@@ -0,0 +1,25 @@
+#!/usr/bin/env bash
+# Builds and deploys the site
+set -euo pipefail
+
+source ./lib/common.sh
+. ./lib/colors.sh
+
+# Prints a message in green
+log() {
+  echo -e "${GREEN}$1${RESET}"
+}
+
+build() {
+  log "Building"
+  npm ci
+  npm run build
+}
+
+function deploy {
+  log "Deploying to $1"
+  rsync -a dist/ "$1"
+}
+
+build
+deploy "${TARGET:-staging}"
@@ -0,0 +1,37 @@
+const std = @import("std");
+const Item = @import("item.zig").Item;
+
+/// A shopping cart holding items and their quantities.
+pub const Cart = struct {
+    items: std.ArrayList(Item),
+
+    // Adds an item to the cart
+    pub fn add(self: *Cart, item: Item) !void {
+        try self.items.append(item);
+    }
+
+    pub fn total(self: Cart) f64 {
+        var sum: f64 = 0;
+        for (self.items.items) |item| sum += item.price;
+        return sum;
+    }
+};
+
+pub const Currency = enum {
+    eur,
+    usd,
+};
+
+const Payment = union(enum) {
+    card: []const u8,
+    cash: f64,
+};
+
+fn formatPrice(value: f64, buffer: []u8) ![]u8 {
+    return std.fmt.bufPrint(buffer, "{d:.2}", .{value});
+}
+
+test "empty cart totals zero" {
+    const cart = Cart{ .items = std.ArrayList(Item).init(std.testing.allocator) };
+    try std.testing.expectEqual(@as(f64, 0), cart.total());
+}
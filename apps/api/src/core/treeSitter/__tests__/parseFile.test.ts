@@ -0,0 +1,33 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { describe, expect, test } from '@jest/globals';
+
+import { parseFile } from '../parseFile';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Each fixture has its expected compressed output next to it, in
+// `sample.<ext>.chunks`
+const FIXTURE_EXTENSIONS = [
+  'kt',
+  'scala',
+  'sh',
+  'lua',
+  'ex',
+  'dart',
+  'zig',
+  'html',
+  'toml',
+];
+
+describe('parseFile', () => {
+  test.each(FIXTURE_EXTENSIONS)('compresses a .%s file', async (extension) => {
+    const fixturePath = path.join(FIXTURES_DIR, `sample.${extension}`);
+    const content = await fs.readFile(fixturePath, 'utf-8');
+    const expected = await fs.readFile(`${fixturePath}.chunks`, 'utf-8');
+
+    const chunks = await parseFile(content, fixturePath);
+
+    expect(`${chunks}\n`).toBe(expected);
+  });
+});
@@ -27,4 +27,19 @@ export const ext2Lang = {
   swift: 'swift',
   css: 'css',
   sol: 'solidity',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  scala: 'scala',
+  sc: 'scala',
+  sh: 'bash',
+  bash: 'bash',
+  zsh: 'bash',
+  lua: 'lua',
+  ex: 'elixir',
+  exs: 'elixir',
+  dart: 'dart',
+  zig: 'zig',
+  html: 'html',
+  htm: 'html',
+  toml: 'toml',
 };
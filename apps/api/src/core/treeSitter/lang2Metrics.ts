@@ -0,0 +1,236 @@
+import type { SupportedLang } from './lang2Query';
+
+/**
+ * Syntax node types counted by `analyzeCodeStructure`. Every decision node
+ * adds a path through the code; logical expressions only do when their
+ * operator is one of `logicalOperators`.
+ */
+export interface CodeMetricsNodeTypes {
+  functions: string[];
+  classes: string[];
+  // C and C++ name structs in declarations too, so only those with this
+  // field count as classes
+  classBodyField?: string;
+  decisions: string[];
+  logicalExpressions: string[];
+  logicalOperators: string[];
+}
+
+const javascriptNodeTypes: CodeMetricsNodeTypes = {
+  functions: [
+    'function_declaration',
+    'function_expression',
+    'generator_function_declaration',
+    'generator_function',
+    'arrow_function',
+    'method_definition',
+  ],
+  classes: ['class_declaration', 'class'],
+  decisions: [
+    'if_statement',
+    'for_statement',
+    'for_in_statement',
+    'while_statement',
+    'do_statement',
+    'switch_case',
+    'catch_clause',
+    'ternary_expression',
+  ],
+  logicalExpressions: ['binary_expression'],
+  logicalOperators: ['&&', '||', '??'],
+};
+
+const cNodeTypes: CodeMetricsNodeTypes = {
+  functions: ['function_definition'],
+  classes: ['struct_specifier'],
+  classBodyField: 'body',
+  decisions: [
+    'if_statement',
+    'for_statement',
+    'while_statement',
+    'do_statement',
+    'case_statement',
+    'conditional_expression',
+  ],
+  logicalExpressions: ['binary_expression'],
+  logicalOperators: ['&&', '||'],
+};
+
+export const lang2Metrics: Partial<
+  Record<SupportedLang, CodeMetricsNodeTypes>
+> = {
+  javascript: javascriptNodeTypes,
+  typescript: {
+    ...javascriptNodeTypes,
+    classes: ['class_declaration', 'abstract_class_declaration', 'class'],
+  },
+  python: {
+    functions: ['function_definition', 'lambda'],
+    classes: ['class_definition'],
+    decisions: [
+      'if_statement',
+      'elif_clause',
+      'for_statement',
+      'while_statement',
+      'except_clause',
+      'conditional_expression',
+      'boolean_operator',
+      'case_clause',
+      'for_in_clause',
+      'if_clause',
+    ],
+    logicalExpressions: [],
+    logicalOperators: [],
+  },
+  go: {
+    functions: ['function_declaration', 'method_declaration', 'func_literal'],
+    classes: ['struct_type'],
+    decisions: [
+      'if_statement',
+      'for_statement',
+      'expression_case',
+      'type_case',
+      'communication_case',
+    ],
+    logicalExpressions: ['binary_expression'],
+    logicalOperators: ['&&', '||'],
+  },
+  java: {
+    functions: [
+      'method_declaration',
+      'constructor_declaration',
+      'lambda_expression',
+    ],
+    classes: [
+      'class_declaration',
+      'interface_declaration',
+      'enum_declaration',
+      'record_declaration',
+    ],
+    decisions: [
+      'if_statement',
+      'for_statement',
+      'enhanced_for_statement',
+      'while_statement',
+      'do_statement',
+      'switch_label',
+      'catch_clause',
+      'ternary_expression',
+    ],
+    logicalExpressions: ['binary_expression'],
+    logicalOperators: ['&&', '||'],
+  },
+  rust: {
+    functions: ['function_item', 'closure_expression'],
+    classes: ['struct_item', 'enum_item', 'trait_item'],
+    decisions: [
+      'if_expression',
+      'for_expression',
+      'while_expression',
+      'loop_expression',
+      'match_arm',
+    ],
+    logicalExpressions: ['binary_expression'],
+    logicalOperators: ['&&', '||'],
+  },
+  c: cNodeTypes,
+  cpp: {
+    ...cNodeTypes,
+    functions: ['function_definition', 'lambda_expression'],
+    classes: ['class_specifier', 'struct_specifier'],
+    decisions: [...cNodeTypes.decisions, 'for_range_loop', 'catch_clause'],
+  },
+  c_sharp: {
+    functions: [
+      'method_declaration',
+      'constructor_declaration',
+      'local_function_statement',
+      'lambda_expression',
+    ],
+    classes: [
+      'class_declaration',
+      'interface_declaration',
+      'struct_declaration',
+      'record_declaration',
+      'enum_declaration',
+    ],
+    decisions: [
+      'if_statement',
+      'for_statement',
+      'for_each_statement',
+      'while_statement',
+      'do_statement',
+      'switch_section',
+      'catch_clause',
+      'conditional_expression',
+    ],
+    logicalExpressions: ['binary_expression'],
+    logicalOperators: ['&&', '||', '??'],
+  },
+  ruby: {
+    functions: ['method', 'singleton_method', 'lambda'],
+    classes: ['class', 'module'],
+    decisions: [
+      'if',
+      'elsif',
+      'unless',
+      'while',
+      'until',
+      'for',
+      'when',
+      'rescue',
+      'conditional',
+      'if_modifier',
+      'unless_modifier',
+      'while_modifier',
+      'until_modifier',
+    ],
+    logicalExpressions: ['binary'],
+    logicalOperators: ['&&', '||', 'and', 'or'],
+  },
+  php: {
+    functions: [
+      'function_definition',
+      'method_declaration',
+      'anonymous_function_creation_expression',
+      'arrow_function',
+    ],
+    classes: [
+      'class_declaration',
+      'interface_declaration',
+      'trait_declaration',
+      'enum_declaration',
+    ],
+    decisions: [
+      'if_statement',
+      'else_if_clause',
+      'for_statement',
+      'foreach_statement',
+      'while_statement',
+      'do_statement',
+      'case_statement',
+      'catch_clause',
+      'conditional_expression',
+    ],
+    logicalExpressions: ['binary_expression'],
+    logicalOperators: ['&&', '||', 'and', 'or', 'xor', '??'],
+  },
+  swift: {
+    functions: ['function_declaration', 'init_declaration', 'lambda_literal'],
+    classes: ['class_declaration', 'protocol_declaration'],
+    decisions: [
+      'if_statement',
+      'guard_statement',
+      'for_statement',
+      'while_statement',
+      'repeat_while_statement',
+      'switch_entry',
+      'catch_block',
+      'ternary_expression',
+      'conjunction_expression',
+      'disjunction_expression',
+    ],
+    logicalExpressions: [],
+    logicalOperators: [],
+  },
+};
@@ -1,19 +1,28 @@
 import {
+  queryBash,
   queryC,
   queryCpp,
   queryCSharp,
   queryCss,
+  queryDart,
+  queryElixir,
   queryGo,
+  queryHtml,
   queryJava,
   queryJavascript,
+  queryKotlin,
+  queryLua,
   queryPhp,
   queryPython,
   queryRuby,
   queryRust,
+  queryScala,
   querySolidity,
   querySwift,
+  queryToml,
   queryTypescript,
   queryVue,
+  queryZig,
 } from './queries';
 
 export const lang2Query = {
@@ -32,6 +41,15 @@ export const lang2Query = {
   vue: queryVue,
   ruby: queryRuby,
   go: queryGo,
+  kotlin: queryKotlin,
+  scala: queryScala,
+  bash: queryBash,
+  lua: queryLua,
+  elixir: queryElixir,
+  dart: queryDart,
+  zig: queryZig,
+  html: queryHtml,
+  toml: queryToml,
 };
 
 export type SupportedLang = keyof typeof lang2Query;
@@ -1,4 +1,8 @@
+import type { Node } from 'web-tree-sitter';
+
 import { logger } from '../../lib/logger';
+import type { CodeSymbol, CodeSymbolKind } from '../file/fileTypes';
+import { lang2Metrics } from './lang2Metrics';
 import type { SupportedLang } from './lang2Query';
 import { LanguageParser } from './languageParser';
 import { createParseStrategy, type ParseContext } from './parseStrategies';
@@ -84,6 +88,504 @@ export const parseFile = async (fileContent: string, filePath: string) => {
     .trim();
 };
 
+/**
+ * Checks whether `parseFile` supports the language of a file.
+ */
+export const canParseFile = async (filePath: string): Promise<boolean> => {
+  const languageParser = await getLanguageParserSingleton();
+  return languageParser.guessTheLang(filePath) !== undefined;
+};
+
+const unquote = (text: string) => text.replace(/^['"`]|['"`]$/g, '');
+
+/**
+ * Lists the modules a file imports, as written in the source: relative or
+ * package specifiers for JavaScript and TypeScript, dotted module names for
+ * Python (with leading dots when relative) and import paths for Go. Other
+ * languages have no imports listed.
+ */
+export const parseImports = async (
+  fileContent: string,
+  filePath: string,
+): Promise<string[]> => {
+  const languageParser = await getLanguageParserSingleton();
+  const lang = languageParser.guessTheLang(filePath);
+  if (lang === undefined) {
+    return [];
+  }
+
+  const imports = new Set<string>();
+  try {
+    const parser = await languageParser.getParserForLang(lang);
+    const rootNode = parser.parse(fileContent)?.rootNode;
+    if (!rootNode) {
+      return [];
+    }
+
+    switch (lang) {
+      case 'javascript':
+      case 'typescript':
+        for (const node of rootNode.descendantsOfType([
+          'import_statement',
+          'export_statement',
+        ])) {
+          const source = node?.childForFieldName('source');
+          if (source) {
+            imports.add(unquote(source.text));
+          }
+        }
+        // require('./module') and import('./module')
+        for (const node of rootNode.descendantsOfType('call_expression')) {
+          const callee = node?.childForFieldName('function');
+          const argument = node?.childForFieldName('arguments')?.namedChild(0);
+          if (
+            (callee?.text === 'require' || callee?.type === 'import') &&
+            argument?.type === 'string'
+          ) {
+            imports.add(unquote(argument.text));
+          }
+        }
+        break;
+      case 'python':
+        for (const node of rootNode.descendantsOfType('import_statement')) {
+          for (const name of node?.childrenForFieldName('name') ?? []) {
+            // `import a.b as c` names an aliased_import
+            const moduleName =
+              name?.type === 'aliased_import'
+                ? name.childForFieldName('name')
+                : name;
+            if (moduleName) {
+              imports.add(moduleName.text);
+            }
+          }
+        }
+        for (const node of rootNode.descendantsOfType(
+          'import_from_statement',
+        )) {
+          const moduleName = node?.childForFieldName('module_name')?.text;
+          if (!moduleName) {
+            continue;
+          }
+          imports.add(moduleName);
+          // `from . import a` may import the module `a`
+          for (const name of node?.childrenForFieldName('name') ?? []) {
+            const importedName =
+              name?.type === 'aliased_import'
+                ? name.childForFieldName('name')
+                : name;
+            if (importedName) {
+              imports.add(
+                moduleName.endsWith('.')
+                  ? `${moduleName}${importedName.text}`
+                  : `${moduleName}.${importedName.text}`,
+              );
+            }
+          }
+        }
+        break;
+      case 'go':
+        for (const node of rootNode.descendantsOfType('import_spec')) {
+          const importPath = node?.childForFieldName('path');
+          if (importPath) {
+            imports.add(unquote(importPath.text));
+          }
+        }
+        break;
+    }
+  } catch (error) {
+    logger.info(`Error parsing imports of file: ${error}\n`);
+  }
+
+  return [...imports];
+};
+
+export interface CodeStructure {
+  functionCount: number;
+  classCount: number;
+  // Decision points plus one per function, plus one for the top level
+  complexity: number;
+}
+
+/**
+ * Counts the functions and classes of a file and estimates its cyclomatic
+ * complexity from its syntax tree.
+ * @returns The counts, or undefined if the file's language isn't analyzed.
+ */
+export const analyzeCodeStructure = async (
+  fileContent: string,
+  filePath: string,
+): Promise<CodeStructure | undefined> => {
+  const languageParser = await getLanguageParserSingleton();
+  const lang = languageParser.guessTheLang(filePath);
+  const nodeTypes = lang && lang2Metrics[lang];
+  if (!lang || !nodeTypes) {
+    return undefined;
+  }
+
+  try {
+    const parser = await languageParser.getParserForLang(lang);
+    const tree = parser.parse(fileContent);
+    if (!tree) {
+      return undefined;
+    }
+
+    // Keywords such as `class` or `if` share their names with node types
+    const findNodes = (types: string[]) =>
+      tree.rootNode
+        .descendantsOfType(types)
+        .filter((node): node is Node => node?.isNamed === true);
+
+    const { classBodyField } = nodeTypes;
+    const functionCount = findNodes(nodeTypes.functions).length;
+    const classCount = findNodes(nodeTypes.classes).filter(
+      (node) => !classBodyField || node.childForFieldName(classBodyField),
+    ).length;
+    const decisionCount =
+      findNodes(nodeTypes.decisions).length +
+      findNodes(nodeTypes.logicalExpressions).filter((node) => {
+        const operator = node.childForFieldName('operator')?.type;
+        return operator && nodeTypes.logicalOperators.includes(operator);
+      }).length;
+    tree.delete();
+
+    return {
+      functionCount,
+      classCount,
+      complexity: decisionCount + functionCount + 1,
+    };
+  } catch (error) {
+    logger.info(`Error analyzing code structure of file: ${error}\n`);
+    return undefined;
+  }
+};
+
+const SYMBOL_KINDS: CodeSymbolKind[] = [
+  'function',
+  'method',
+  'class',
+  'interface',
+  'type',
+  'enum',
+  'module',
+  'macro',
+];
+
+// Kinds that a function nested in one of them is a method of
+const CLASS_KINDS: CodeSymbolKind[] = ['class', 'interface'];
+
+// Nodes that wrap a definition without being one, such as `export`
+const DEFINITION_WRAPPER_TYPES = [
+  'export_statement',
+  'ambient_declaration',
+  'decorated_definition',
+  'type_declaration',
+];
+
+const COMMENT_TYPES = [
+  'comment',
+  'line_comment',
+  'block_comment',
+  'multiline_comment',
+  'documentation_comment',
+];
+
+// Zig containers hold their members without a body node
+const ZIG_CONTAINER_TYPES = [
+  'struct_declaration',
+  'enum_declaration',
+  'union_declaration',
+  'opaque_declaration',
+];
+
+const isWithin = (node: Node, ancestor: Node) =>
+  ancestor.startIndex <= node.startIndex && node.endIndex <= ancestor.endIndex;
+
+/**
+ * Finds the node a captured name defines. Some queries capture the
+ * enclosing class or impl block as the definition of a method, and C and
+ * C++ capture only the declarator of a function.
+ */
+const getDefinedNode = (definitionNode: Node, nameNode: Node): Node | null => {
+  const definedName = definitionNode.childForFieldName('name');
+  if (
+    definitionNode.type !== 'declaration_list' &&
+    (!definedName || isWithin(nameNode, definedName))
+  ) {
+    let node = definitionNode;
+    while (node.type.endsWith('declarator') && node.parent) {
+      node = node.parent;
+    }
+    return node;
+  }
+
+  for (
+    let node = nameNode.parent;
+    node && node.id !== definitionNode.id;
+    node = node.parent
+  ) {
+    const name = node.childForFieldName('name');
+    if (name && isWithin(nameNode, name)) {
+      return node;
+    }
+  }
+  return null;
+};
+
+const findBody = (node: Node): Node | null => {
+  const body = node.childForFieldName('body');
+  if (body) {
+    return body;
+  }
+  if (ZIG_CONTAINER_TYPES.includes(node.type)) {
+    return node.children.find((child) => child?.type === '{') ?? null;
+  }
+  for (const child of node.namedChildren) {
+    const childBody = child && findBody(child);
+    if (childBody) {
+      return childBody;
+    }
+  }
+  return null;
+};
+
+const getSignature = (node: Node, fileContent: string): string => {
+  const body = findBody(node);
+  // Comments between the name and the body aren't part of the signature;
+  // without a body, the signature is the first line
+  const comment = node.namedChildren.find(
+    (child) =>
+      child &&
+      COMMENT_TYPES.includes(child.type) &&
+      (body
+        ? child.startIndex < body.startIndex
+        : child.startPosition.row === node.startPosition.row),
+  );
+  const headerEnd = comment?.startIndex ?? body?.startIndex;
+  const header = headerEnd
+    ? fileContent.slice(node.startIndex, headerEnd)
+    : node.text.split('\n')[0];
+  return header
+    .replace(/\s+/g, ' ')
+    .replace(/\s*(\{|:|=>|;|,)?\s*$/, '')
+    .trim();
+};
+
+// Nodes such as TOML tables end at the start of the line after them
+const getEndLine = (node: Node): number =>
+  node.endPosition.column === 0 && node.endPosition.row > node.startPosition.row
+    ? node.endPosition.row
+    : node.endPosition.row + 1;
+
+const stripCommentMarkers = (comment: string): string =>
+  comment
+    .split('\n')
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^(\/\*+|\*+\/?|\/\/[/!]?|#+|-{2,})\s?/, '')
+        .replace(/\s*\*+\/$/, '')
+        .trimEnd(),
+    )
+    .join('\n')
+    .trim();
+
+const getPythonDocstring = (node: Node): string | null => {
+  const statement = node.childForFieldName('body')?.namedChild(0);
+  const docstring = statement?.namedChild(0);
+  if (
+    statement?.type !== 'expression_statement' ||
+    docstring?.type !== 'string'
+  ) {
+    return null;
+  }
+  return docstring.text
+    .replace(/^[rRbBuU]*("""|'''|"|')/, '')
+    .replace(/("""|'''|"|')$/, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .trim();
+};
+
+// Comments that start their line, keyed by the row they end on
+const getLineComments = (rootNode: Node, lines: string[]) => {
+  const comments = new Map<number, Node>();
+  for (const node of rootNode.descendantsOfType(COMMENT_TYPES)) {
+    const { row, column } = node?.startPosition ?? { row: 0, column: 0 };
+    if (node?.isNamed && lines[row].slice(0, column).trim() === '') {
+      comments.set(node.endPosition.row, node);
+    }
+  }
+  return comments;
+};
+
+const getDocComment = (
+  node: Node,
+  lineComments: Map<number, Node>,
+): string | null => {
+  let definition = node;
+  while (
+    definition.parent &&
+    DEFINITION_WRAPPER_TYPES.includes(definition.parent.type)
+  ) {
+    definition = definition.parent;
+  }
+  // Rust attributes sit between a definition and its doc comment
+  let row = definition.startPosition.row;
+  for (
+    let sibling = definition.previousNamedSibling;
+    sibling?.type === 'attribute_item' && sibling.endPosition.row + 1 >= row;
+    sibling = sibling.previousNamedSibling
+  ) {
+    row = sibling.startPosition.row;
+  }
+
+  // The comments on the lines directly above the definition
+  const comments: string[] = [];
+  for (
+    let comment = lineComments.get(row - 1);
+    comment;
+    comment = lineComments.get(row - 1)
+  ) {
+    comments.unshift(stripCommentMarkers(comment.text));
+    row = comment.startPosition.row;
+  }
+  return comments.join('\n').trim() || null;
+};
+
+/**
+ * Lists the functions, classes and other definitions of a file captured by
+ * its language's query, in the order they appear. Each symbol names the
+ * symbol it's nested in, so a file's outline can be rebuilt from the list.
+ */
+export const parseSymbols = async (
+  fileContent: string,
+  filePath: string,
+): Promise<CodeSymbol[]> => {
+  const languageParser = await getLanguageParserSingleton();
+  const lang = languageParser.guessTheLang(filePath);
+  if (lang === undefined) {
+    return [];
+  }
+
+  try {
+    const parser = await languageParser.getParserForLang(lang);
+    const query = await languageParser.getQueryForLang(lang);
+    const tree = parser.parse(fileContent);
+    if (!tree) {
+      return [];
+    }
+    const lineComments = getLineComments(
+      tree.rootNode,
+      fileContent.split('\n'),
+    );
+
+    // Patterns can capture the same node under different kinds, such as
+    // TypeScript interfaces; the first pattern wins
+    const definitions = new Map<
+      number,
+      {
+        node: Node;
+        kind: CodeSymbolKind;
+        name: string;
+        scope?: string;
+        patternIndex: number;
+      }
+    >();
+    for (const match of query.matches(tree.rootNode)) {
+      const definitionCapture = match.captures.find((capture) =>
+        capture.name.startsWith('definition.'),
+      );
+      const kind = definitionCapture?.name.slice(
+        'definition.'.length,
+      ) as CodeSymbolKind;
+      if (!definitionCapture || !SYMBOL_KINDS.includes(kind)) {
+        continue;
+      }
+      const nameCapture = match.captures.find(
+        (capture) =>
+          capture.name === `name.definition.${kind}` || capture.name === 'name',
+      );
+      const node =
+        nameCapture && getDefinedNode(definitionCapture.node, nameCapture.node);
+      if (!node) {
+        continue;
+      }
+
+      const existing = definitions.get(node.id);
+      if (!existing || match.patternIndex < existing.patternIndex) {
+        definitions.set(node.id, {
+          node,
+          kind,
+          name: nameCapture.node.text,
+          // C++ methods defined outside their class, and Rust methods of
+          // an impl block
+          scope:
+            match.captures.find((capture) => capture.name === 'scope')?.node
+              .text ??
+            (definitionCapture.node.type === 'declaration_list'
+              ? definitionCapture.node.parent?.childForFieldName('type')?.text
+              : undefined),
+          patternIndex: match.patternIndex,
+        });
+      }
+    }
+
+    // Outer definitions come before the definitions nested in them
+    const sortedDefinitions = [...definitions.values()].sort(
+      (a, b) =>
+        a.node.startIndex - b.node.startIndex ||
+        b.node.endIndex - a.node.endIndex,
+    );
+    const symbols: CodeSymbol[] = [];
+    const enclosing: {
+      node: Node;
+      kind: CodeSymbolKind;
+      qualifiedName: string;
+    }[] = [];
+    for (const { node, kind, name, scope } of sortedDefinitions) {
+      while (
+        enclosing.length > 0 &&
+        !isWithin(node, enclosing[enclosing.length - 1].node)
+      ) {
+        enclosing.pop();
+      }
+      const enclosingSymbol = enclosing[enclosing.length - 1];
+      const parent = enclosingSymbol?.qualifiedName ?? scope;
+      enclosing.push({
+        node,
+        kind,
+        qualifiedName: parent ? `${parent}.${name}` : name,
+      });
+
+      symbols.push({
+        kind:
+          kind === 'function' &&
+          enclosingSymbol &&
+          CLASS_KINDS.includes(enclosingSymbol.kind)
+            ? 'method'
+            : kind,
+        name,
+        path: filePath,
+        startLine: node.startPosition.row + 1,
+        endLine: getEndLine(node),
+        signature: getSignature(node, fileContent),
+        parent: parent ?? null,
+        docstring:
+          lang === 'python'
+            ? getPythonDocstring(node)
+            : getDocComment(node, lineComments),
+      });
+    }
+    tree.delete();
+
+    return symbols;
+  } catch (error) {
+    logger.info(`Error parsing symbols of file: ${error}\n`);
+    return [];
+  }
+};
+
 const getLanguageParserSingleton = async () => {
   if (!languageParserSingleton) {
     languageParserSingleton = new LanguageParser();
@@ -0,0 +1,70 @@
+import type { Node } from 'web-tree-sitter';
+import type { ParseContext, ParseStrategy } from './ParseStrategy';
+
+const TAG_NODE_TYPES = ['start_tag', 'self_closing_tag'];
+
+export class HtmlParseStrategy implements ParseStrategy {
+  parseCapture(
+    capture: { node: Node; name: string },
+    lines: string[],
+    processedChunks: Set<string>,
+    context: ParseContext,
+  ): string | null {
+    const { name, node } = capture;
+    const startRow = node.startPosition.row;
+    const endRow = node.endPosition.row;
+
+    if (!lines[startRow]) {
+      return null;
+    }
+
+    // Keep the document's skeleton: comments, the doctype and every start
+    // tag with its attributes, but not the text, scripts or styles inside
+    const isCommentCapture = name === 'comment';
+    const isDoctypeCapture = name === 'definition.doctype';
+    const isTagCapture = name === 'definition.tag';
+
+    if (!isCommentCapture && !isDoctypeCapture && !isTagCapture) {
+      return null;
+    }
+
+    let chunk: string;
+    if (isTagCapture) {
+      // Only one chunk is kept per line, so it holds every start tag that
+      // begins on the line, without the content and end tags between them
+      const rowKey = `tags:${startRow}`;
+      if (processedChunks.has(rowKey)) {
+        return null;
+      }
+      processedChunks.add(rowKey);
+      const rowTags = (
+        context.tree?.rootNode.descendantsOfType(
+          TAG_NODE_TYPES,
+          { row: startRow, column: 0 },
+          { row: startRow, column: lines[startRow].length },
+        ) ?? []
+      ).filter(
+        (tag): tag is Node =>
+          tag !== null && tag.startPosition.row === startRow,
+      );
+      chunk = (rowTags.length > 0 ? rowTags : [node])
+        .map((tag) => tag.text)
+        .join('');
+    } else {
+      const selectedLines = lines.slice(startRow, endRow + 1);
+      if (selectedLines.length < 1) {
+        return null;
+      }
+      chunk = selectedLines.join('\n');
+    }
+
+    const normalizedChunk = chunk.trim();
+
+    if (processedChunks.has(normalizedChunk)) {
+      return null;
+    }
+
+    processedChunks.add(normalizedChunk);
+    return chunk;
+  }
+}
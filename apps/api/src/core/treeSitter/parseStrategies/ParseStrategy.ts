@@ -7,6 +7,7 @@ import { DefaultParseStrategy } from './DefaultParseStrategy';
 import { PythonParseStrategy } from './PythonParseStrategy';
 import { CssParseStrategy } from './CssParseStrategy';
 import { VueParseStrategy } from './VueParseStrategy';
+import { HtmlParseStrategy } from './HtmlParseStrategy';
 
 export interface ParseContext {
   fileContent: string;
@@ -36,6 +37,8 @@ export function createParseStrategy(lang: SupportedLang): ParseStrategy {
       return new CssParseStrategy();
     case 'vue':
       return new VueParseStrategy();
+    case 'html':
+      return new HtmlParseStrategy();
     default:
       return new DefaultParseStrategy();
   }
@@ -1,6 +1,7 @@
 export * from './CssParseStrategy';
 export * from './DefaultParseStrategy';
 export * from './GoParseStrategy';
+export * from './HtmlParseStrategy';
 export * from './ParseStrategy';
 export * from './PythonParseStrategy';
 export * from './TypescriptStrategy';
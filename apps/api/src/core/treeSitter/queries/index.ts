@@ -1,15 +1,24 @@
+export * from './queryBash';
 export * from './queryC';
 export * from './queryCSharp';
 export * from './queryCpp';
 export * from './queryCss';
+export * from './queryDart';
+export * from './queryElixir';
 export * from './queryGo';
+export * from './queryHtml';
 export * from './queryJava';
 export * from './queryJavascript';
+export * from './queryKotlin';
+export * from './queryLua';
 export * from './queryPhp';
 export * from './queryPython';
 export * from './queryRuby';
 export * from './queryRust';
+export * from './queryScala';
 export * from './querySolidity';
 export * from './querySwift';
+export * from './queryToml';
 export * from './queryTypescript';
 export * from './queryVue';
+export * from './queryZig';
@@ -0,0 +1,11 @@
+export const queryBash = `
+(comment) @comment
+
+; Sourced scripts
+(command
+  name: (command_name) @_command
+  (#match? @_command "^(source|\\\\.)$")) @definition.import
+
+(function_definition
+  name: (word) @name.definition.function) @definition.function
+`;
@@ -0,0 +1,33 @@
+export const queryDart = `
+(comment) @comment
+(documentation_comment) @comment
+
+(import_or_export) @definition.import
+
+(class_definition
+  name: (identifier) @name.definition.class) @definition.class
+
+(mixin_declaration
+  (identifier) @name.definition.class) @definition.class
+
+(extension_declaration
+  name: (identifier) @name.definition.class) @definition.class
+
+(enum_declaration
+  name: (identifier) @name.definition.enum) @definition.enum
+
+(type_alias
+  (type_identifier) @name.definition.type) @definition.type
+
+(constructor_signature
+  name: (identifier) @name.definition.method) @definition.method
+
+(function_signature
+  name: (identifier) @name.definition.function) @definition.function
+
+(getter_signature
+  name: (identifier) @name.definition.function) @definition.function
+
+(setter_signature
+  name: (identifier) @name.definition.function) @definition.function
+`;
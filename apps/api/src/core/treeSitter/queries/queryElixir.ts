@@ -0,0 +1,43 @@
+export const queryElixir = `
+(comment) @comment
+
+; alias, import, require and use
+(call
+  target: (identifier) @_keyword
+  (#match? @_keyword "^(alias|import|require|use)$")) @definition.import
+
+; Module attributes such as @moduledoc and @doc
+(unary_operator
+  operator: "@"
+  operand: (call
+    target: (identifier) @_attribute
+    (#match? @_attribute "^(moduledoc|doc|typedoc)$"))) @comment
+
+(call
+  target: (identifier) @_keyword
+  (arguments
+    (alias) @name.definition.module)
+  (#match? @_keyword "^(defmodule|defprotocol|defimpl)$")) @definition.module
+
+(call
+  target: (identifier) @_keyword
+  (arguments
+    [
+      (identifier) @name.definition.macro
+      (call target: (identifier) @name.definition.macro)
+      (binary_operator
+        left: (call target: (identifier) @name.definition.macro))
+    ])
+  (#match? @_keyword "^(defmacro|defmacrop|defguard|defguardp)$")) @definition.macro
+
+(call
+  target: (identifier) @_keyword
+  (arguments
+    [
+      (identifier) @name.definition.function
+      (call target: (identifier) @name.definition.function)
+      (binary_operator
+        left: (call target: (identifier) @name.definition.function))
+    ])
+  (#match? @_keyword "^(def|defp|defdelegate)$")) @definition.function
+`;
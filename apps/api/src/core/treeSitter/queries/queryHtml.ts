@@ -0,0 +1,11 @@
+export const queryHtml = `
+(comment) @comment
+
+(doctype) @definition.doctype
+
+(start_tag
+  (tag_name) @name.definition.tag) @definition.tag
+
+(self_closing_tag
+  (tag_name) @name.definition.tag) @definition.tag
+`;
@@ -0,0 +1,37 @@
+export const queryKotlin = `
+(line_comment) @comment
+(multiline_comment) @comment
+
+; Package and imports
+(package_header
+  (identifier) @name.reference.module) @definition.package
+
+; The header runs on to the next declaration, so only its path is captured
+(import_header
+  (identifier) @name.reference.module)
+
+; Interfaces and enum classes are class declarations too, so they come first
+(class_declaration
+  "interface"
+  (type_identifier) @name.definition.interface) @definition.interface
+
+(class_declaration
+  (type_identifier) @name.definition.enum
+  (enum_class_body)) @definition.enum
+
+(class_declaration
+  (type_identifier) @name.definition.class) @definition.class
+
+(object_declaration
+  (type_identifier) @name.definition.class) @definition.class
+
+(companion_object) @definition.class
+
+(type_alias
+  (type_identifier) @name.definition.type) @definition.type
+
+(function_declaration
+  (simple_identifier) @name.definition.function) @definition.function
+
+(secondary_constructor) @definition.method
+`;
@@ -0,0 +1,26 @@
+export const queryLua = `
+(comment) @comment
+
+; require("module")
+(call
+  function: (variable
+    name: (identifier) @_function)
+  (#eq? @_function "require")) @definition.import
+
+; Functions stored in a table, such as M.add or M:add
+(function_definition_statement
+  name: (variable
+    table: (identifier) @scope
+    field: (identifier) @name.definition.function)) @definition.function
+
+(function_definition_statement
+  name: (variable
+    table: (identifier) @scope
+    method: (identifier) @name.definition.method)) @definition.method
+
+(function_definition_statement
+  name: (identifier) @name.definition.function) @definition.function
+
+(local_function_definition_statement
+  name: (identifier) @name.definition.function) @definition.function
+`;
@@ -0,0 +1,28 @@
+export const queryScala = `
+(comment) @comment
+
+; Package and imports
+(package_clause
+  name: (package_identifier) @name.reference.module) @definition.package
+
+(import_declaration
+  path: (_) @name.reference.module) @definition.import
+
+(class_definition
+  name: (identifier) @name.definition.class) @definition.class
+
+(object_definition
+  name: (identifier) @name.definition.class) @definition.class
+
+(trait_definition
+  name: (identifier) @name.definition.interface) @definition.interface
+
+(type_definition
+  name: (type_identifier) @name.definition.type) @definition.type
+
+(function_definition
+  name: (identifier) @name.definition.function) @definition.function
+
+(function_declaration
+  name: (identifier) @name.definition.function) @definition.function
+`;
@@ -0,0 +1,14 @@
+export const queryToml = `
+(comment) @comment
+
+; Tables and arrays of tables, outlined as modules
+(table
+  [(bare_key) (dotted_key) (quoted_key)] @name.definition.module) @definition.module
+
+(table_array_element
+  [(bare_key) (dotted_key) (quoted_key)] @name.definition.module) @definition.module
+
+; Keys, with the first line of their value
+(pair
+  [(bare_key) (dotted_key) (quoted_key)] @name.definition.key)
+`;
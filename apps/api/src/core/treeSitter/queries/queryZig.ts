@@ -0,0 +1,40 @@
+export const queryZig = `
+(comment) @comment
+
+; const std = @import("std");
+(variable_declaration
+  (builtin_function
+    (builtin_identifier) @_builtin
+    (#eq? @_builtin "@import"))) @definition.import
+
+; const Item = @import("item.zig").Item;
+(variable_declaration
+  (field_expression
+    object: (builtin_function
+      (builtin_identifier) @_builtin
+      (#eq? @_builtin "@import")))) @definition.import
+
+; Containers are anonymous, and named by the constant they are assigned to
+(variable_declaration
+  (identifier) @name.definition.class
+  (struct_declaration)) @definition.class
+
+(variable_declaration
+  (identifier) @name.definition.enum
+  (enum_declaration)) @definition.enum
+
+(variable_declaration
+  (identifier) @name.definition.type
+  (union_declaration)) @definition.type
+
+(variable_declaration
+  (identifier) @name.definition.type
+  (opaque_declaration)) @definition.type
+
+(function_declaration
+  name: (identifier) @name.definition.function) @definition.function
+
+(test_declaration
+  (string
+    (string_content) @name.definition.test)) @definition.test
+`;
@@ -0,0 +1,334 @@
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from '@jest/globals';
+import { Header } from 'tar';
+
+interface TarEntrySpec {
+  path: string;
+  type?: 'File' | 'Directory' | 'SymbolicLink' | 'Link';
+  content?: string;
+  linkpath?: string;
+}
+
+interface ZipEntrySpec {
+  name: string;
+  content?: string;
+  // Unix file type and permissions
+  mode?: number;
+  // Overrides the uncompressed size written to the headers
+  declaredSize?: number;
+  deflate?: boolean;
+}
+
+const createTarGz = (entries: TarEntrySpec[]): Buffer => {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const body = Buffer.from(entry.content ?? '');
+    const header = Buffer.alloc(512);
+    new Header({
+      path: entry.path,
+      type: entry.type ?? 'File',
+      size: body.length,
+      mode: 0o644,
+      mtime: new Date(0),
+      linkpath: entry.linkpath,
+    }).encode(header, 0);
+    blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+  }
+  // Two empty blocks end the archive
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+};
+
+const createZip = (entries: ZipEntrySpec[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.content ?? '');
+    const compressed = entry.deflate ? zlib.deflateRawSync(data) : data;
+    const crc = zlib.crc32(data);
+    const method = entry.deflate ? 8 : 0;
+    const size = entry.declaredSize ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    // Made on unix, so the upper bits of the external attributes are a mode
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((entry.mode ?? 0o100644) * 0x10000, 38);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+// The limits are read when the module loads
+let extractArchive: typeof import('../archiveUtils').extractArchive;
+
+beforeAll(async () => {
+  process.env.MAX_ARCHIVE_ENTRIES = '4';
+  process.env.MAX_ARCHIVE_EXTRACTED_SIZE_MB = String(1 / 1024);
+  ({ extractArchive } = await import('../archiveUtils'));
+});
+
+let workDir: string;
+let destination: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-utils-test-'));
+  destination = path.join(workDir, 'out');
+  await fs.mkdir(destination);
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+const extract = async (fileName: string, archive: Buffer) => {
+  const archivePath = path.join(workDir, fileName);
+  await fs.writeFile(archivePath, archive);
+  await extractArchive(archivePath, fileName, destination);
+};
+
+const listFiles = async (directory: string) =>
+  (await fs.readdir(directory, { recursive: true })).sort();
+
+describe('extractArchive', () => {
+  test('rejects unsupported formats', async () => {
+    await expect(extract('source.rar', Buffer.alloc(0))).rejects.toThrow(
+      'Unsupported archive format',
+    );
+  });
+
+  describe('tar.gz', () => {
+    test('extracts files and directories', async () => {
+      await extract(
+        'source.tar.gz',
+        createTarGz([
+          { path: 'src/', type: 'Directory' },
+          { path: 'src/index.ts', content: 'export {};\n' },
+        ]),
+      );
+
+      expect(await listFiles(destination)).toEqual(['src', 'src/index.ts']);
+      expect(
+        await fs.readFile(path.join(destination, 'src/index.ts'), 'utf-8'),
+      ).toBe('export {};\n');
+    });
+
+    test('rejects entries outside the target directory', async () => {
+      await expect(
+        extract(
+          'source.tar.gz',
+          createTarGz([
+            { path: 'README.md', content: 'hello' },
+            { path: '../escaped.txt', content: 'escaped' },
+          ]),
+        ),
+      ).rejects.toThrow('Archive entry escapes the target directory');
+
+      expect(await listFiles(destination)).toEqual([]);
+      await expect(
+        fs.access(path.join(workDir, 'escaped.txt')),
+      ).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    test('rejects absolute entry paths', async () => {
+      await expect(
+        extract(
+          'source.tgz',
+          createTarGz([{ path: '/tmp/absolute.txt', content: 'absolute' }]),
+        ),
+      ).rejects.toThrow('Archive entry escapes the target directory');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+
+    test('does not extract symbolic or hard links', async () => {
+      const outsideFile = path.join(workDir, 'outside.txt');
+      await fs.writeFile(outsideFile, 'outside');
+
+      await extract(
+        'source.tar.gz',
+        createTarGz([
+          { path: 'link', type: 'SymbolicLink', linkpath: workDir },
+          { path: 'hardlink', type: 'Link', linkpath: outsideFile },
+          // Written into a real directory, as the link above was skipped
+          { path: 'link/outside.txt', content: 'overwritten' },
+        ]),
+      );
+
+      expect(await listFiles(destination)).toEqual([
+        'link',
+        'link/outside.txt',
+      ]);
+      expect(
+        (await fs.lstat(path.join(destination, 'link'))).isDirectory(),
+      ).toBe(true);
+      expect(await fs.readFile(outsideFile, 'utf-8')).toBe('outside');
+    });
+
+    test('rejects archives with too many entries', async () => {
+      await expect(
+        extract(
+          'source.tar.gz',
+          createTarGz(
+            ['a', 'b', 'c', 'd', 'e'].map((name) => ({
+              path: `${name}.txt`,
+              content: name,
+            })),
+          ),
+        ),
+      ).rejects.toThrow('Archive contains too many entries');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+
+    test('rejects archives over the extracted size limit', async () => {
+      await expect(
+        extract(
+          'source.tar.gz',
+          createTarGz([{ path: 'large.txt', content: 'x'.repeat(2048) }]),
+        ),
+      ).rejects.toThrow('Archive exceeds the extracted size limit');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+  });
+
+  describe('zip', () => {
+    test('extracts files and directories', async () => {
+      await extract(
+        'source.zip',
+        createZip([
+          { name: 'src/', mode: 0o040755 },
+          { name: 'src/index.ts', content: 'export {};\n', deflate: true },
+        ]),
+      );
+
+      expect(await listFiles(destination)).toEqual(['src', 'src/index.ts']);
+      expect(
+        await fs.readFile(path.join(destination, 'src/index.ts'), 'utf-8'),
+      ).toBe('export {};\n');
+    });
+
+    test('rejects entries outside the target directory', async () => {
+      await expect(
+        extract(
+          'source.zip',
+          createZip([{ name: '../escaped.txt', content: 'escaped' }]),
+        ),
+      ).rejects.toThrow('invalid relative path');
+
+      expect(await listFiles(destination)).toEqual([]);
+      await expect(
+        fs.access(path.join(workDir, 'escaped.txt')),
+      ).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    test('rejects absolute entry paths', async () => {
+      await expect(
+        extract(
+          'source.zip',
+          createZip([{ name: '/tmp/absolute.txt', content: 'absolute' }]),
+        ),
+      ).rejects.toThrow('absolute path');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+
+    test('does not extract symbolic links', async () => {
+      await extract(
+        'source.zip',
+        createZip([
+          { name: 'link', content: workDir, mode: 0o120777 },
+          { name: 'README.md', content: 'hello' },
+        ]),
+      );
+
+      expect(await listFiles(destination)).toEqual(['README.md']);
+    });
+
+    test('rejects archives with too many entries', async () => {
+      await expect(
+        extract(
+          'source.zip',
+          createZip(
+            ['a', 'b', 'c', 'd', 'e'].map((name) => ({
+              name: `${name}.txt`,
+              content: name,
+            })),
+          ),
+        ),
+      ).rejects.toThrow('Archive contains too many entries');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+
+    test('rejects archives over the extracted size limit', async () => {
+      await expect(
+        extract(
+          'source.zip',
+          createZip([
+            { name: 'large.txt', content: 'x'.repeat(2048), deflate: true },
+          ]),
+        ),
+      ).rejects.toThrow('Archive exceeds the extracted size limit');
+
+      expect(await listFiles(destination)).toEqual([]);
+    });
+
+    test('rejects entries larger than their declared size', async () => {
+      await expect(
+        extract(
+          'source.zip',
+          createZip([
+            {
+              name: 'bomb.txt',
+              content: 'x'.repeat(2048),
+              declaredSize: 16,
+              deflate: true,
+            },
+          ]),
+        ),
+      ).rejects.toThrow('too many bytes in the stream');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+
+import {
+  copyLocalDirectory,
+  resolveAllowedLocalPath,
+} from '../localSourceUtils';
+
+let workDir: string;
+let allowedDir: string;
+let outsideDir: string;
+
+beforeEach(async () => {
+  // The real path, as the temporary directory may be behind a symlink
+  workDir = await fs.realpath(
+    await fs.mkdtemp(path.join(os.tmpdir(), 'local-source-test-')),
+  );
+  allowedDir = path.join(workDir, 'allowed');
+  outsideDir = path.join(workDir, 'outside');
+  await fs.mkdir(path.join(allowedDir, 'project'), { recursive: true });
+  await fs.mkdir(outsideDir);
+  await fs.writeFile(path.join(outsideDir, 'secret.txt'), 'secret');
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe('resolveAllowedLocalPath', () => {
+  test('resolves directories inside an allowed directory', async () => {
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, 'project'), [allowedDir]),
+    ).resolves.toBe(path.join(allowedDir, 'project'));
+  });
+
+  test('rejects every path when no directory is allowed', async () => {
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, 'project'), []),
+    ).rejects.toThrow('Local directory sources are not enabled');
+  });
+
+  test('rejects directories outside the allowed directories', async () => {
+    await expect(
+      resolveAllowedLocalPath(outsideDir, [allowedDir]),
+    ).rejects.toThrow('Local path is not in an allowed directory');
+  });
+
+  test('rejects paths that climb out of an allowed directory', async () => {
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, '..', 'outside'), [
+        allowedDir,
+      ]),
+    ).rejects.toThrow('Local path is not in an allowed directory');
+  });
+
+  test('rejects siblings sharing the allowed directory as a prefix', async () => {
+    await fs.mkdir(`${allowedDir}-other`);
+
+    await expect(
+      resolveAllowedLocalPath(`${allowedDir}-other`, [allowedDir]),
+    ).rejects.toThrow('Local path is not in an allowed directory');
+  });
+
+  test('rejects symlinks leading out of an allowed directory', async () => {
+    await fs.symlink(outsideDir, path.join(allowedDir, 'link'));
+
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, 'link'), [allowedDir]),
+    ).rejects.toThrow('Local path is not in an allowed directory');
+  });
+
+  test('rejects files', async () => {
+    await fs.writeFile(path.join(allowedDir, 'file.txt'), 'file');
+
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, 'file.txt'), [allowedDir]),
+    ).rejects.toThrow('Local path is not a directory');
+  });
+
+  test('rejects paths that do not exist', async () => {
+    await expect(
+      resolveAllowedLocalPath(path.join(allowedDir, 'missing'), [allowedDir]),
+    ).rejects.toThrow('Local path does not exist');
+  });
+});
+
+describe('copyLocalDirectory', () => {
+  test('copies the directory without symlinks or .git', async () => {
+    const projectDir = path.join(allowedDir, 'project');
+    await fs.mkdir(path.join(projectDir, 'src'));
+    await fs.mkdir(path.join(projectDir, '.git'));
+    await fs.writeFile(path.join(projectDir, 'src/index.ts'), 'export {};\n');
+    await fs.writeFile(path.join(projectDir, '.git/HEAD'), 'ref: main\n');
+    await fs.symlink(outsideDir, path.join(projectDir, 'outside'));
+    await fs.symlink(
+      path.join(outsideDir, 'secret.txt'),
+      path.join(projectDir, 'secret.txt'),
+    );
+    const destination = path.join(workDir, 'copy');
+
+    await copyLocalDirectory(projectDir, destination, {
+      resolveAllowedLocalPath: (requestedPath: string) =>
+        resolveAllowedLocalPath(requestedPath, [allowedDir]),
+    });
+
+    expect((await fs.readdir(destination, { recursive: true })).sort()).toEqual(
+      ['src', 'src/index.ts'],
+    );
+  });
+
+  test('rejects directories outside the allowed directories', async () => {
+    const destination = path.join(workDir, 'copy');
+
+    await expect(
+      copyLocalDirectory(outsideDir, destination, {
+        resolveAllowedLocalPath: (requestedPath: string) =>
+          resolveAllowedLocalPath(requestedPath, [allowedDir]),
+      }),
+    ).rejects.toThrow('Local path is not in an allowed directory');
+    await expect(fs.access(destination)).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+  });
+});
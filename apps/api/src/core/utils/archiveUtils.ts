@@ -0,0 +1,205 @@
+import { createWriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import * as tar from 'tar';
+import yauzl from 'yauzl';
+
+import { logger } from '~/lib/logger';
+
+// Limits guarding against archive bombs
+const MAX_EXTRACTED_SIZE =
+  (Number(process.env.MAX_ARCHIVE_EXTRACTED_SIZE_MB) || 1024) * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = Number(process.env.MAX_ARCHIVE_ENTRIES) || 100000;
+
+// Only regular files and directories are extracted; links are skipped
+const TAR_ALLOWED_ENTRY_TYPES = new Set([
+  'File',
+  'OldFile',
+  'ContiguousFile',
+  'Directory',
+]);
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+/**
+ * Detects the archive format from a file name.
+ * @param fileName The original name of the uploaded file.
+ * @returns The archive format, or null if the extension is not supported.
+ */
+export const getArchiveFormat = (fileName: string): ArchiveFormat | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.zip')) {
+    return 'zip';
+  }
+  if (lowerName.endsWith('.tar.gz') || lowerName.endsWith('.tgz')) {
+    return 'tar.gz';
+  }
+  return null;
+};
+
+/**
+ * Resolves an archive entry against the destination and rejects entries that
+ * would be written outside of it.
+ */
+const resolveEntryPath = (destination: string, entryName: string): string => {
+  const targetPath = path.resolve(destination, entryName);
+  if (
+    path.isAbsolute(entryName) ||
+    (targetPath !== destination &&
+      !targetPath.startsWith(`${destination}${path.sep}`))
+  ) {
+    throw new Error(`Archive entry escapes the target directory: ${entryName}`);
+  }
+  return targetPath;
+};
+
+const assertWithinLimits = (entryCount: number, totalSize: number) => {
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(
+      `Archive contains too many entries (limit: ${MAX_ARCHIVE_ENTRIES})`,
+    );
+  }
+  if (totalSize > MAX_EXTRACTED_SIZE) {
+    throw new Error(
+      `Archive exceeds the extracted size limit of ${
+        MAX_EXTRACTED_SIZE / 1024 / 1024
+      }MB`,
+    );
+  }
+};
+
+/**
+ * Extracts a gzipped tarball. Entries are validated before anything is
+ * written so that a rejected archive leaves no files behind.
+ */
+export const extractTarGz = async (
+  archivePath: string,
+  destination: string,
+): Promise<void> => {
+  const entries: { path: string; type: string; size: number }[] = [];
+  await tar.t({
+    file: archivePath,
+    onReadEntry: (entry) => {
+      entries.push({ path: entry.path, type: entry.type, size: entry.size });
+    },
+  });
+
+  let totalSize = 0;
+  for (const entry of entries) {
+    resolveEntryPath(destination, entry.path);
+    if (TAR_ALLOWED_ENTRY_TYPES.has(entry.type)) {
+      totalSize += entry.size;
+    }
+  }
+  assertWithinLimits(entries.length, totalSize);
+
+  await tar.x({
+    file: archivePath,
+    cwd: destination,
+    strict: true,
+    preservePaths: false,
+    preserveOwner: false,
+    filter: (_entryPath, entry) =>
+      'type' in entry && TAR_ALLOWED_ENTRY_TYPES.has(entry.type),
+  });
+};
+
+const isZipSymlink = (entry: yauzl.Entry): boolean => {
+  // The upper 16 bits hold the unix mode when the archive was made on unix
+  const mode = (entry.externalFileAttributes >>> 16) & 0o170000;
+  return mode === 0o120000;
+};
+
+const openZip = (archivePath: string) =>
+  new Promise<yauzl.ZipFile>((resolve, reject) => {
+    yauzl.open(
+      archivePath,
+      { lazyEntries: true, decodeStrings: true, validateEntrySizes: true },
+      (error, zipFile) => (error ? reject(error) : resolve(zipFile)),
+    );
+  });
+
+const openZipEntryStream = (zipFile: yauzl.ZipFile, entry: yauzl.Entry) =>
+  new Promise<NodeJS.ReadableStream>((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) =>
+      error ? reject(error) : resolve(stream),
+    );
+  });
+
+/**
+ * Extracts a zip archive. File names are validated by yauzl (no absolute
+ * paths or `..` segments) and again against the destination directory.
+ */
+export const extractZip = async (
+  archivePath: string,
+  destination: string,
+): Promise<void> => {
+  const zipFile = await openZip(archivePath);
+
+  try {
+    assertWithinLimits(zipFile.entryCount, 0);
+
+    let totalSize = 0;
+    await new Promise<void>((resolve, reject) => {
+      zipFile.on('error', reject);
+      zipFile.on('end', resolve);
+      zipFile.on('entry', async (entry: yauzl.Entry) => {
+        try {
+          const targetPath = resolveEntryPath(destination, entry.fileName);
+
+          if (entry.fileName.endsWith('/')) {
+            await fs.mkdir(targetPath, { recursive: true });
+          } else if (isZipSymlink(entry)) {
+            logger.debug(`Skipping symlink in archive: ${entry.fileName}`);
+          } else {
+            totalSize += entry.uncompressedSize;
+            assertWithinLimits(zipFile.entryCount, totalSize);
+
+            await fs.mkdir(path.dirname(targetPath), { recursive: true });
+            const readStream = await openZipEntryStream(zipFile, entry);
+            await pipeline(readStream, createWriteStream(targetPath));
+          }
+
+          zipFile.readEntry();
+        } catch (error) {
+          reject(error);
+        }
+      });
+      zipFile.readEntry();
+    });
+  } finally {
+    zipFile.close();
+  }
+};
+
+/**
+ * Extracts an uploaded archive into a directory.
+ * @param archivePath Path to the archive on disk.
+ * @param fileName The original file name, used to detect the format.
+ * @param destination The directory to extract into.
+ * @param deps Dependencies, the format-specific extractors.
+ * @throws Error if the format is unsupported or the archive is unsafe.
+ */
+export const extractArchive = async (
+  archivePath: string,
+  fileName: string,
+  destination: string,
+  deps = { extractZip, extractTarGz },
+): Promise<void> => {
+  const format = getArchiveFormat(fileName);
+  logger.info('Extracting archive', { fileName, format, destination });
+
+  switch (format) {
+    case 'zip':
+      await deps.extractZip(archivePath, destination);
+      break;
+    case 'tar.gz':
+      await deps.extractTarGz(archivePath, destination);
+      break;
+    default:
+      throw new Error(
+        `Unsupported archive format: ${fileName}. Expected .zip or .tar.gz`,
+      );
+  }
+};
@@ -0,0 +1,93 @@
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { logger } from '~/lib/logger';
+
+/**
+ * Reads the directories local sources may be read from. Local sources are
+ * disabled unless `LOCAL_SOURCE_ALLOWED_DIRS` lists at least one directory.
+ * @returns Absolute paths of the allowed directories.
+ */
+export const getAllowedLocalDirectories = (): string[] => {
+  return (process.env.LOCAL_SOURCE_ALLOWED_DIRS ?? '')
+    .split(path.delimiter)
+    .map((dir) => dir.trim())
+    .filter(Boolean)
+    .map((dir) => path.resolve(dir));
+};
+
+const isWithinDirectory = (target: string, directory: string): boolean => {
+  const relativePath = path.relative(directory, target);
+  return (
+    relativePath === '' ||
+    (!relativePath.startsWith('..') && !path.isAbsolute(relativePath))
+  );
+};
+
+/**
+ * Resolves a requested local path, following symlinks, and ensures it lies
+ * inside one of the allowed directories.
+ * @param requestedPath The path sent by the client.
+ * @param allowedDirectories Directories the path must be contained in.
+ * @returns The resolved real path of the directory.
+ * @throws Error if local sources are disabled or the path is not allowed.
+ */
+export const resolveAllowedLocalPath = async (
+  requestedPath: string,
+  allowedDirectories = getAllowedLocalDirectories(),
+): Promise<string> => {
+  if (allowedDirectories.length === 0) {
+    throw new Error('Local directory sources are not enabled on this server');
+  }
+
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(path.resolve(requestedPath));
+  } catch {
+    throw new Error(`Local path does not exist: ${requestedPath}`);
+  }
+
+  const realAllowedDirectories = await Promise.all(
+    allowedDirectories.map((dir) => fs.realpath(dir).catch(() => dir)),
+  );
+
+  if (!realAllowedDirectories.some((dir) => isWithinDirectory(realPath, dir))) {
+    throw new Error(
+      `Local path is not in an allowed directory: ${requestedPath}`,
+    );
+  }
+
+  const stats = await fs.stat(realPath);
+  if (!stats.isDirectory()) {
+    throw new Error(`Local path is not a directory: ${requestedPath}`);
+  }
+
+  return realPath;
+};
+
+/**
+ * Copies an allowed local directory into a working directory. Symlinks are
+ * skipped so the copy cannot reach outside the source directory, and `.git`
+ * is dropped to match what a clone leaves behind.
+ * @param requestedPath The path sent by the client.
+ * @param destination The directory to copy into.
+ */
+export const copyLocalDirectory = async (
+  requestedPath: string,
+  destination: string,
+  deps = { resolveAllowedLocalPath },
+): Promise<void> => {
+  const sourcePath = await deps.resolveAllowedLocalPath(requestedPath);
+  logger.info('Copying local directory', { sourcePath, destination });
+
+  await fs.cp(sourcePath, destination, {
+    recursive: true,
+    filter: async (entryPath) => {
+      if (path.basename(entryPath) === '.git') {
+        return false;
+      }
+      const stats = await fs.lstat(entryPath);
+      return !stats.isSymbolicLink();
+    },
+  });
+};
@@ -1,22 +1,77 @@
 import * as fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
-import GitUrlParse, { type GitUrl } from 'git-url-parse';
+import GitUrlParse from 'git-url-parse';
 
-import { execGitShallowClone } from '../file/gitCommand';
+import {
+  execGitShallowClone,
+  type GitAuthCredential,
+  type GitCloneResult,
+  isSshUrl,
+  isValidGitRef,
+  redactUrlCredentials,
+} from '../file/gitCommand';
 import { logger } from '~/lib/logger';
 
-// Interface extending GitUrl to include commit hash
-interface IGitUrl extends GitUrl {
-  commit: string | undefined;
-}
-
 // Check the short form of the GitHub URL. e.g. owner/repo
 const VALID_NAME_PATTERN = '[a-zA-Z0-9](?:[a-zA-Z0-9._-]*[a-zA-Z0-9])?';
 const validShorthandRegex = new RegExp(
   `^${VALID_NAME_PATTERN}/${VALID_NAME_PATTERN}$`,
 );
 
+// Web pages of pull and merge requests, commits and tags, with the ref each
+// one is fetched as. The repository URL is everything before the match.
+const WEB_REF_PATTERNS: {
+  pattern: RegExp;
+  toRef: (match: string) => string;
+}[] = [
+  // GitHub pull requests, e.g. /pull/123 or /pull/123/files
+  {
+    pattern: /\/pull\/(\d+)(?:\/[^?#]*)?(?:[?#].*)?$/,
+    toRef: (id) => `refs/pull/${id}/head`,
+  },
+  // Gitea and Forgejo pull requests
+  {
+    pattern: /\/pulls\/(\d+)(?:\/[^?#]*)?(?:[?#].*)?$/,
+    toRef: (id) => `refs/pull/${id}/head`,
+  },
+  // GitLab merge requests
+  {
+    pattern: /\/-\/merge_requests\/(\d+)(?:\/[^?#]*)?(?:[?#].*)?$/,
+    toRef: (id) => `refs/merge-requests/${id}/head`,
+  },
+  // Commits, e.g. /commit/<sha> or GitLab's /-/commit/<sha>
+  {
+    pattern: /(?:\/-)?\/commit\/([0-9a-f]{4,64})\/?(?:[?#].*)?$/i,
+    toRef: (sha) => sha,
+  },
+  // Tags, e.g. /releases/tag/v1.0 or GitLab's /-/tags/v1.0
+  {
+    pattern: /(?:\/releases\/tag|\/-\/tags)\/([^/?#]+)\/?(?:[?#].*)?$/,
+    toRef: (tag) => `refs/tags/${decodeURIComponent(tag)}`,
+  },
+];
+
+/**
+ * Splits the web URL of a pull or merge request, commit or tag into the
+ * repository URL and the ref to fetch.
+ * @returns The repository URL and ref, or null for other URLs.
+ */
+const parseWebRefUrl = (
+  remoteValue: string,
+): { repoValue: string; ref: string } | null => {
+  for (const { pattern, toRef } of WEB_REF_PATTERNS) {
+    const match = pattern.exec(remoteValue);
+    if (match?.[1]) {
+      return {
+        repoValue: remoteValue.slice(0, match.index),
+        ref: toRef(match[1]),
+      };
+    }
+  }
+  return null;
+};
+
 /**
  * Checks if a string is a valid GitHub shorthand (owner/repo).
  * @param remoteValue The string to check.
@@ -28,23 +83,34 @@ export const isValidShorthand = (remoteValue: string): boolean => {
 
 /**
  * Parses a remote repository value (URL or shorthand) into a usable URL and branch/ref.
+ * Directory URLs such as `https://github.com/owner/repo/tree/<ref>/<path>`
+ * also yield the subpath; the ref is the first segment after `tree`. Pull
+ * and merge request, commit and tag pages of GitHub, GitLab and Gitea yield
+ * the ref they show, e.g. `refs/pull/123/head` for `.../pull/123`.
  * @param remoteValue The remote repository URL or shorthand (e.g., "owner/repo", "https://github.com/owner/repo.git#main").
- * @returns An object containing the normalized git URL and the target branch/ref.
+ * @returns An object containing the normalized git URL, the target branch/ref
+ *   and the directory to crawl, if any.
  * @throws Error if the input value is invalid.
  */
 export const parseRemoteValue = (
   remoteValue: string,
-): { repoUrl: string; remoteBranch: string | undefined } => {
+): {
+  repoUrl: string;
+  remoteBranch: string | undefined;
+  subpath: string | undefined;
+} => {
   if (isValidShorthand(remoteValue)) {
     logger.info(`Formatting GitHub shorthand: ${remoteValue}`);
     return {
       repoUrl: `https://github.com/${remoteValue}.git`,
       remoteBranch: undefined, // Default branch will be cloned
+      subpath: undefined,
     };
   }
 
   try {
-    const parsedFields = GitUrlParse(remoteValue) as IGitUrl;
+    const webRef = parseWebRefUrl(remoteValue);
+    const parsedFields = GitUrlParse(webRef?.repoValue ?? remoteValue);
 
     // Ensure .git suffix for cloning
     parsedFields.git_suffix = true;
@@ -61,25 +127,42 @@ export const parseRemoteValue = (
 
     const repoUrl = parsedFields.toString(parsedFields.protocol);
     let remoteBranch: string | undefined = undefined;
+    let subpath: string | undefined = undefined;
 
-    if (parsedFields.ref) {
+    if (webRef) {
+      remoteBranch = webRef.ref;
+    } else if (parsedFields.ref && parsedFields.filepathtype === 'tree') {
+      // A directory URL, e.g. /tree/main/packages/api
+      remoteBranch = parsedFields.ref;
+      subpath = parsedFields.filepath || undefined;
+    } else if (parsedFields.ref) {
       // Handle cases like #main or #refs/heads/develop/feature
       remoteBranch = parsedFields.filepath
         ? `${parsedFields.ref}/${parsedFields.filepath}` // If there's a path after #, include it
         : parsedFields.ref;
-    } else if (parsedFields.commit) {
-      // Handle commit hash if present (though less common in GitUrlParse)
-      remoteBranch = parsedFields.commit;
+    } else if (parsedFields.hash) {
+      // A ref after the URL, e.g. repo.git#v1.0 or repo.git#<sha>
+      remoteBranch = parsedFields.hash;
+    }
+
+    // The ref bypasses request validation, as it is part of the URL
+    if (remoteBranch !== undefined && !isValidGitRef(remoteBranch)) {
+      throw new Error(`Invalid ref in repo URL: ${remoteBranch}`);
     }
 
     return {
       repoUrl: repoUrl,
       remoteBranch: remoteBranch,
+      subpath,
     };
   } catch (error) {
-    logger.error('Failed to parse remote value', { remoteValue, error });
+    const safeRemoteValue = redactUrlCredentials(remoteValue);
+    logger.error('Failed to parse remote value', {
+      remoteValue: safeRemoteValue,
+      error,
+    });
     throw new Error(
-      `Invalid remote repository URL or shorthand: ${remoteValue}. ${error instanceof Error ? error.message : 'Parsing failed.'}`,
+      `Invalid remote repository URL or shorthand: ${safeRemoteValue}. ${error instanceof Error ? error.message : 'Parsing failed.'}`,
     );
   }
 };
@@ -99,6 +182,21 @@ export const isValidRemoteValue = (remoteValue: string): boolean => {
   }
 };
 
+/**
+ * Extracts the host (with port, if any) a repository URL points to, as used
+ * to look up stored git credentials.
+ * @param repoUrl A normalized repository URL from parseRemoteValue.
+ * @returns The lowercased host.
+ */
+export const getRemoteHost = (repoUrl: string): string => {
+  const parsedFields = GitUrlParse(repoUrl);
+  return (
+    parsedFields.port && !isSshUrl(repoUrl)
+      ? `${parsedFields.resource}:${parsedFields.port}`
+      : parsedFields.resource
+  ).toLowerCase();
+};
+
 /**
  * Creates a temporary directory for cloning the repository.
  * @returns The path to the created temporary directory.
@@ -121,28 +219,78 @@ export const createTempDirectory = async (): Promise<string> => {
  * Clones a Git repository into a specified directory.
  * @param url The Git repository URL.
  * @param directory The target directory path for cloning.
- * @param remoteBranch Optional specific branch, tag, or commit hash to check out.
+ * @param remoteBranch Optional branch, tag, commit SHA or other ref (e.g.
+ *   `refs/pull/123/head`) to check out.
+ * @param credential Optional credential for a private repository. SSH keys
+ *   require an SSH URL, so HTTPS URLs are rewritten for them.
+ * @param signal Optional signal that kills the running git process.
+ * @param subpath Optional directory to fetch on its own; it becomes the root
+ *   of the target directory.
+ * @param diffBase Optional ref to collect the changes since.
+ * @param historyCommits Optional number of recent commits to read the log
+ *   of.
+ * @param changeCountCommits Optional number of recent commits to count the
+ *   changes of each file in.
  * @param deps Dependencies, primarily execGitShallowClone.
+ * @returns The SHA of the commit that was checked out, the changes since
+ *   the diff base, the recent history and the file change counts.
  * @throws Error if cloning fails.
  */
 export const cloneRepository = async (
   url: string,
   directory: string,
   remoteBranch?: string,
+  credential?: GitAuthCredential,
+  signal?: AbortSignal,
+  subpath?: string,
+  diffBase?: string,
+  historyCommits?: number,
+  changeCountCommits?: number,
   deps = { execGitShallowClone },
-): Promise<void> => {
+): Promise<GitCloneResult> => {
+  const cloneUrl =
+    credential?.type === 'ssh_key' && !isSshUrl(url)
+      ? GitUrlParse(url).toString('ssh')
+      : url;
+  const safeUrl = redactUrlCredentials(cloneUrl);
+
   logger.info('Attempting to clone repository', {
-    url,
+    url: safeUrl,
     directory,
     branch: remoteBranch ?? 'default',
+    subpath,
+    diffBase,
+    historyCommits,
+    changeCountCommits,
+    authenticated: Boolean(credential),
   });
 
   try {
     // Use shallow clone for efficiency
-    await deps.execGitShallowClone(url, directory, remoteBranch);
-    logger.info('Successfully cloned repository', { url, directory });
+    const result = await deps.execGitShallowClone(
+      cloneUrl,
+      directory,
+      remoteBranch,
+      credential,
+      signal,
+      subpath,
+      diffBase,
+      historyCommits,
+      changeCountCommits,
+    );
+    logger.info('Successfully cloned repository', {
+      url: safeUrl,
+      directory,
+      commitSha: result.commitSha,
+      changedFiles: result.diff?.changes.length,
+    });
+    return result;
   } catch (error) {
-    logger.error('Failed to clone repository', { url, directory, error });
+    logger.error('Failed to clone repository', {
+      url: safeUrl,
+      directory,
+      error,
+    });
     // Attempt cleanup even if clone fails
     await cleanupTempDirectory(directory).catch((cleanupError) => {
       logger.error('Failed to cleanup directory after clone failure', {
@@ -150,8 +298,10 @@ export const cloneRepository = async (
         cleanupError,
       });
     });
+    // Killed because the job was cancelled, not a clone failure
+    signal?.throwIfAborted();
     throw new Error(
-      `Failed to clone repository ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      `Failed to clone repository ${safeUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`,
     );
   }
 };
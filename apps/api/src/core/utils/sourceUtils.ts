@@ -0,0 +1,321 @@
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { GitHistory } from '../file/fileTypes';
+import { type GitDiffResult, isGitInstalled } from '../file/gitCommand';
+import {
+  type ConfigMerged,
+  DEFAULT_GIT_LOG_MAX_COMMITS,
+  DEFAULT_GIT_SORT_BY_CHANGES_MAX_COMMITS,
+} from '~/config/configSchema';
+import { logger } from '~/lib/logger';
+import { getGitCredentialForHost } from '~/services/git-credentials-service';
+import type { CrawlOptions, CrawlSource } from '~/types';
+import { extractArchive } from './archiveUtils';
+import { copyLocalDirectory } from './localSourceUtils';
+import {
+  parseRemoteValue,
+  createTempDirectory,
+  cloneRepository,
+  cleanupTempDirectory,
+  getRemoteHost,
+} from './remoteUtils';
+
+/**
+ * The commits a source's repositories were checked out at. Local directories
+ * and archives have none.
+ */
+export interface SourceRevision {
+  // Commit of a remote repository
+  commitSha?: string;
+  // Commits of a multi-repository source, by prefix
+  repositoryCommitShas?: Record<string, string>;
+}
+
+export interface PreparedSource {
+  // Temporary directory holding the source's files
+  directory: string;
+  revision: SourceRevision;
+  // Present in diff mode
+  diff?: GitDiffResult;
+  // Present when the git log or blame summary was requested for cloned
+  // repositories
+  history?: GitHistory;
+  // How often each file changed recently, keyed by path; present when a
+  // token budget ranks the files of cloned repositories
+  fileChangeCounts?: Record<string, number>;
+}
+
+/**
+ * Prefixes the paths of a repository's history with the directory the
+ * repository was cloned into.
+ */
+const prefixGitHistory = (history: GitHistory, prefix: string): GitHistory => ({
+  commits: history.commits.map((commit) => ({
+    ...commit,
+    files: commit.files.map((filePath) => `${prefix}/${filePath}`),
+  })),
+  files: Object.fromEntries(
+    Object.entries(history.files).map(([filePath, fileHistory]) => [
+      `${prefix}/${filePath}`,
+      fileHistory,
+    ]),
+  ),
+});
+
+/**
+ * Prefixes the paths of a repository's file change counts with the directory
+ * the repository was cloned into.
+ */
+const prefixFileChangeCounts = (
+  fileChangeCounts: Record<string, number>,
+  prefix: string,
+): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(fileChangeCounts).map(([filePath, count]) => [
+      `${prefix}/${filePath}`,
+      count,
+    ]),
+  );
+
+/**
+ * Normalizes a source, treating plain strings as remote repositories.
+ */
+export const toCrawlSource = (source: CrawlSource | string): CrawlSource =>
+  typeof source === 'string' ? { type: 'remote', url: source } : source;
+
+/**
+ * Describes a source for logs and job metadata without exposing server paths
+ * of uploaded archives.
+ */
+export const describeCrawlSource = (source: CrawlSource | string): string => {
+  const crawlSource = toCrawlSource(source);
+  switch (crawlSource.type) {
+    case 'remote':
+      return crawlSource.url;
+    case 'local':
+      return `local:${crawlSource.path}`;
+    case 'archive':
+      return `archive:${crawlSource.fileName}`;
+    case 'repositories':
+      return crawlSource.repositories
+        .map((repository) =>
+          repository.ref
+            ? `${repository.url}#${repository.ref}`
+            : repository.url,
+        )
+        .join(', ');
+  }
+};
+
+/**
+ * Materializes a source into a new temporary directory: remote repositories
+ * are cloned, allowed local directories are copied and uploaded archives are
+ * extracted. Multiple repositories are cloned in parallel, each into its
+ * prefix directory. The caller owns the returned directory and must clean
+ * it up.
+ * @param source The source to materialize.
+ * @param options Crawl options, used for the remote branch, the diff base,
+ *   the git history to read, whether files are ranked for a token budget and
+ *   for looking up the team's git credential for the repository host.
+ * @returns The temporary directory holding the files, the commits cloned
+ *   repositories were checked out at and, if requested, the changes, the
+ *   recent history and the file change counts.
+ */
+export const prepareSourceDirectory = async (
+  source: CrawlSource | string,
+  options: CrawlOptions,
+  deps = {
+    isGitInstalled,
+    parseRemoteValue,
+    createTempDirectory,
+    cloneRepository,
+    cleanupTempDirectory,
+    copyLocalDirectory,
+    extractArchive,
+    getGitCredentialForHost,
+  },
+): Promise<PreparedSource> => {
+  const crawlSource = toCrawlSource(source);
+  // The history is read while the clone still has its `.git`
+  const historyCommits =
+    options.gitIncludeLog || options.gitIncludeBlameSummary
+      ? (options.gitLogMaxCommits ?? DEFAULT_GIT_LOG_MAX_COMMITS)
+      : undefined;
+  // A token budget ranks files by how often they changed, unless a task
+  // ranks them by relevance
+  const changeCountCommits =
+    options.maxTokens !== undefined && !options.task
+      ? DEFAULT_GIT_SORT_BY_CHANGES_MAX_COMMITS
+      : undefined;
+
+  // Clones a repository into the directory; cloneRepository removes the
+  // directory itself when cloning fails. An explicit ref or subpath wins over
+  // the one in the URL.
+  const clone = async (
+    url: string,
+    { ref, subpath }: { ref?: string; subpath?: string },
+    directory: string,
+    signal: AbortSignal | undefined,
+    diffBase?: string,
+  ) => {
+    const parsedFields = deps.parseRemoteValue(url);
+    const credential = options.teamId
+      ? await deps.getGitCredentialForHost(
+          options.teamId,
+          getRemoteHost(parsedFields.repoUrl),
+        )
+      : null;
+    return deps.cloneRepository(
+      parsedFields.repoUrl,
+      directory,
+      ref || parsedFields.remoteBranch,
+      credential ?? undefined,
+      signal,
+      subpath || parsedFields.subpath,
+      diffBase,
+      historyCommits,
+      changeCountCommits,
+    );
+  };
+
+  if (crawlSource.type === 'remote') {
+    if (!(await deps.isGitInstalled())) {
+      throw new Error('Git is not installed or not in the system PATH.');
+    }
+
+    const tempDirPath = await deps.createTempDirectory();
+    const { commitSha, diff, history, fileChangeCounts } = await clone(
+      crawlSource.url,
+      {
+        ref: options.diff?.head ?? options.remoteBranch,
+        subpath: options.subpath,
+      },
+      tempDirPath,
+      options.signal,
+      options.diff?.base,
+    );
+    return {
+      directory: tempDirPath,
+      revision: { commitSha },
+      diff,
+      history,
+      fileChangeCounts,
+    };
+  }
+
+  if (crawlSource.type === 'repositories') {
+    if (!(await deps.isGitInstalled())) {
+      throw new Error('Git is not installed or not in the system PATH.');
+    }
+
+    const tempDirPath = await deps.createTempDirectory();
+    // The first failed clone stops the others
+    const cloneAbortController = new AbortController();
+    const cloneSignal = options.signal
+      ? AbortSignal.any([options.signal, cloneAbortController.signal])
+      : cloneAbortController.signal;
+
+    let cloneError: unknown;
+    const repositoryCommitShas: Record<string, string> = {};
+    const histories: GitHistory[] = [];
+    const fileChangeCounts: Record<string, number> = {};
+    await Promise.all(
+      crawlSource.repositories.map(async (repository) => {
+        try {
+          const directory = path.join(tempDirPath, repository.prefix);
+          await fs.mkdir(directory, { recursive: true });
+          const {
+            commitSha,
+            history,
+            fileChangeCounts: repositoryChangeCounts,
+          } = await clone(repository.url, repository, directory, cloneSignal);
+          repositoryCommitShas[repository.prefix] = commitSha;
+          if (history) {
+            histories.push(prefixGitHistory(history, repository.prefix));
+          }
+          if (repositoryChangeCounts) {
+            Object.assign(
+              fileChangeCounts,
+              prefixFileChangeCounts(repositoryChangeCounts, repository.prefix),
+            );
+          }
+        } catch (error) {
+          if (!cloneAbortController.signal.aborted) {
+            cloneError = error;
+            cloneAbortController.abort(error);
+          }
+        }
+      }),
+    );
+    if (cloneAbortController.signal.aborted) {
+      await deps.cleanupTempDirectory(tempDirPath);
+      options.signal?.throwIfAborted();
+      throw cloneError;
+    }
+    return {
+      directory: tempDirPath,
+      revision: { repositoryCommitShas },
+      // The newest commits across all repositories
+      history: historyCommits
+        ? {
+            commits: histories
+              .flatMap((history) => history.commits)
+              .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))
+              .slice(0, historyCommits),
+            files: Object.assign(
+              Object.create(null),
+              ...histories.map((history) => history.files),
+            ),
+          }
+        : undefined,
+      fileChangeCounts: changeCountCommits ? fileChangeCounts : undefined,
+    };
+  }
+
+  const tempDirPath = await deps.createTempDirectory();
+
+  try {
+    if (crawlSource.type === 'local') {
+      await deps.copyLocalDirectory(crawlSource.path, tempDirPath);
+    } else {
+      await deps.extractArchive(
+        crawlSource.archivePath,
+        crawlSource.fileName,
+        tempDirPath,
+      );
+    }
+    options.signal?.throwIfAborted();
+  } catch (error) {
+    await deps.cleanupTempDirectory(tempDirPath);
+    throw error;
+  } finally {
+    if (crawlSource.type === 'archive') {
+      // The upload is no longer needed once extracted (or rejected)
+      await fs.rm(crawlSource.archivePath, { force: true }).catch((error) => {
+        logger.error('Failed to remove uploaded archive', { error });
+      });
+    }
+  }
+
+  return { directory: tempDirPath, revision: {} };
+};
+
+/**
+ * Records the commits a source was checked out at in the output config, so
+ * the output's header names the exact revision that was packed.
+ */
+export const applySourceRevision = (
+  config: ConfigMerged,
+  revision: SourceRevision,
+): ConfigMerged => ({
+  ...config,
+  output: {
+    ...config.output,
+    commitSha: revision.commitSha,
+    repositories: config.output.repositories?.map((repository) => ({
+      ...repository,
+      commitSha: revision.repositoryCommitShas?.[repository.prefix],
+    })),
+  },
+});
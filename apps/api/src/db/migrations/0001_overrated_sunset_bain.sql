@@ -0,0 +1,17 @@
+CREATE TABLE "git_credentials" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"team_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"host" varchar(255) NOT NULL,
+	"type" varchar(32) NOT NULL,
+	"username" varchar(255),
+	"encrypted_secret" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "git_credentials" ADD CONSTRAINT "git_credentials_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "git_credentials" ADD CONSTRAINT "git_credentials_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "git_credentials_team_id_idx" ON "git_credentials" USING btree ("team_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "git_credentials_team_id_host_idx" ON "git_credentials" USING btree ("team_id","host");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "output_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"name" varchar(64) NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "output_templates" ADD CONSTRAINT "output_templates_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "output_templates" ADD CONSTRAINT "output_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "output_templates_team_id_idx" ON "output_templates" USING btree ("team_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "output_templates_team_id_name_idx" ON "output_templates" USING btree ("team_id","name");
\ No newline at end of file
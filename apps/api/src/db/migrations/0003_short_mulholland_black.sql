@@ -0,0 +1,14 @@
+ALTER TABLE "api_keys" ADD COLUMN "key_prefix" varchar(32);--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "key_salt" varchar(64);--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "key_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "scopes" text[] DEFAULT ARRAY['llmstxt', 'tree', 'pack', 'status']::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "last_used_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "api_keys" SET "key_prefix" = substring("key" from 1 for 15), "key_salt" = replace(gen_random_uuid()::text, '-', '');--> statement-breakpoint
+UPDATE "api_keys" SET "key_hash" = encode(sha256(convert_to("key_salt" || "key", 'UTF8')), 'hex');--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "key_prefix" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "key_salt" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "key_hash" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_key_prefix_unique" UNIQUE("key_prefix");--> statement-breakpoint
+ALTER TABLE "api_keys" DROP CONSTRAINT "api_keys_key_unique";--> statement-breakpoint
+ALTER TABLE "api_keys" DROP COLUMN "key";
@@ -0,0 +1,2 @@
+ALTER TABLE "api_keys" ALTER COLUMN "scopes" SET DEFAULT ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'status']::text[];--> statement-breakpoint
+UPDATE "api_keys" SET "scopes" = array_append("scopes", 'metrics') WHERE "scopes" @> ARRAY['llmstxt', 'tree', 'pack', 'status']::text[] AND NOT ('metrics' = ANY("scopes"));
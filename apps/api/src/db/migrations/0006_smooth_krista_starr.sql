@@ -0,0 +1,2 @@
+ALTER TABLE "api_keys" ALTER COLUMN "scopes" SET DEFAULT ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'outline', 'status']::text[];--> statement-breakpoint
+UPDATE "api_keys" SET "scopes" = array_append("scopes", 'outline') WHERE "scopes" @> ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'status']::text[] AND NOT ('outline' = ANY("scopes"));
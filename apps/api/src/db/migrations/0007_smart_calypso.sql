@@ -0,0 +1,2 @@
+ALTER TABLE "api_keys" ALTER COLUMN "scopes" SET DEFAULT ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'outline', 'graph', 'status']::text[];--> statement-breakpoint
+UPDATE "api_keys" SET "scopes" = array_append("scopes", 'graph') WHERE "scopes" @> ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'outline', 'status']::text[] AND NOT ('graph' = ANY("scopes"));
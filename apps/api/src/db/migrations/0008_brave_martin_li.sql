@@ -0,0 +1 @@
+ALTER TABLE "git_credentials" ADD COLUMN "known_hosts" text;
\ No newline at end of file
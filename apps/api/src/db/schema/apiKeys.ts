@@ -1,7 +1,8 @@
-import { type InferSelectModel, relations } from 'drizzle-orm';
+import { type InferSelectModel, relations, sql } from 'drizzle-orm';
 import {
   pgTable,
   varchar,
+  text,
   timestamp,
   boolean,
   index,
@@ -11,12 +12,38 @@ import {
 import { users } from './users';
 import { teams } from './teams';
 
+export const API_KEY_SCOPES = [
+  'llmstxt',
+  'tree',
+  'pack',
+  'metrics',
+  'outline',
+  'graph',
+  'status',
+] as const;
+
+// `status` only allows reading the status and results of jobs
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
 export const apiKeys = pgTable(
   'api_keys',
   {
     id: uuid('id').primaryKey().defaultRandom(),
     name: varchar('name', { length: 255 }).notNull(),
-    key: varchar('key', { length: 255 }).notNull().unique(),
+    // Start of the key, used to look it up and to show it, e.g. `cc_1a2b3c4d5e6f`
+    keyPrefix: varchar('key_prefix', { length: 32 }).notNull().unique(),
+    // Hex SHA-256 of the salt followed by the key; the key itself is not stored
+    keySalt: varchar('key_salt', { length: 64 }).notNull(),
+    keyHash: varchar('key_hash', { length: 64 }).notNull(),
+    scopes: text('scopes')
+      .array()
+      .$type<ApiKeyScope[]>()
+      .default(
+        sql`ARRAY['llmstxt', 'tree', 'pack', 'metrics', 'outline', 'graph', 'status']::text[]`,
+      )
+      .notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
     userId: uuid('user_id')
       .references(() => users.id)
       .notNull(),
@@ -0,0 +1,60 @@
+import { type InferSelectModel, relations } from 'drizzle-orm';
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+import { users } from './users';
+import { teams } from './teams';
+
+export type GitCredentialType = 'token' | 'ssh_key';
+
+export const gitCredentials = pgTable(
+  'git_credentials',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 255 }).notNull(),
+    teamId: uuid('team_id')
+      .references(() => teams.id)
+      .notNull(),
+    createdBy: uuid('created_by')
+      .references(() => users.id)
+      .notNull(),
+    // Host (and optional port) the credential is used for, e.g. github.com
+    host: varchar('host', { length: 255 }).notNull(),
+    type: varchar('type', { length: 32 }).$type<GitCredentialType>().notNull(),
+    username: varchar('username', { length: 255 }),
+    // AES-256-GCM encrypted token or private key
+    encryptedSecret: text('encrypted_secret').notNull(),
+    // OpenSSH known_hosts lines with the host keys SSH keys are only offered
+    // to, e.g. the output of `ssh-keyscan github.com`
+    knownHosts: text('known_hosts'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index('git_credentials_team_id_idx').on(table.teamId),
+    uniqueIndex('git_credentials_team_id_host_idx').on(
+      table.teamId,
+      table.host,
+    ),
+  ],
+);
+
+export const gitCredentialsRelations = relations(gitCredentials, ({ one }) => ({
+  team: one(teams, {
+    fields: [gitCredentials.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export type GitCredential = InferSelectModel<typeof gitCredentials>;
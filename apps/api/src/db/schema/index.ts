@@ -2,3 +2,6 @@ export * from './llm-txts';
 export * from './users';
 export * from './apiKeys';
 export * from './teams';
+export * from './gitCredentials';
+export * from './outputTemplates';
+export * from './webhookDeliveries';
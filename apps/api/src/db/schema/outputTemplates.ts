@@ -0,0 +1,55 @@
+import { type InferSelectModel, relations } from 'drizzle-orm';
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+import { users } from './users';
+import { teams } from './teams';
+
+export const outputTemplates = pgTable(
+  'output_templates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    teamId: uuid('team_id')
+      .references(() => teams.id)
+      .notNull(),
+    createdBy: uuid('created_by')
+      .references(() => users.id)
+      .notNull(),
+    // Referenced by the `template` crawl option
+    name: varchar('name', { length: 64 }).notNull(),
+    // Handlebars source rendered against the output RenderContext
+    content: text('content').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index('output_templates_team_id_idx').on(table.teamId),
+    uniqueIndex('output_templates_team_id_name_idx').on(
+      table.teamId,
+      table.name,
+    ),
+  ],
+);
+
+export const outputTemplatesRelations = relations(
+  outputTemplates,
+  ({ one }) => ({
+    team: one(teams, {
+      fields: [outputTemplates.teamId],
+      references: [teams.id],
+    }),
+  }),
+);
+
+export type OutputTemplate = InferSelectModel<typeof outputTemplates>;
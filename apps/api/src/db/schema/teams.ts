@@ -6,6 +6,8 @@ import { users } from './users';
 export const teams = pgTable('teams', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
+  // Signs webhook deliveries; created the first time it is needed
+  webhookSecret: varchar('webhook_secret', { length: 128 }),
   createdAt: timestamp('created_at', { withTimezone: true })
     .defaultNow()
     .notNull(),
@@ -0,0 +1,69 @@
+import { type InferSelectModel, relations } from 'drizzle-orm';
+import {
+  pgTable,
+  varchar,
+  text,
+  integer,
+  jsonb,
+  timestamp,
+  index,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+import { teams } from './teams';
+import type { JobEvent } from '../../types';
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'retrying'
+  | 'succeeded'
+  | 'failed';
+
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    teamId: uuid('team_id')
+      .references(() => teams.id)
+      .notNull(),
+    // Id of the tree, llmstxt or pack job the event is about
+    jobId: varchar('job_id', { length: 64 }).notNull(),
+    event: varchar('event', { length: 16 }).$type<JobEvent>().notNull(),
+    url: text('url').notNull(),
+    payload: jsonb('payload').notNull(),
+    status: varchar('status', { length: 16 })
+      .$type<WebhookDeliveryStatus>()
+      .default('pending')
+      .notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    // Status code of the last attempt, if the endpoint responded
+    responseStatus: integer('response_status'),
+    error: text('error'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('webhook_deliveries_team_id_created_at_idx').on(
+      table.teamId,
+      table.createdAt,
+    ),
+    index('webhook_deliveries_job_id_idx').on(table.jobId),
+  ],
+);
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    team: one(teams, {
+      fields: [webhookDeliveries.teamId],
+      references: [teams.id],
+    }),
+  }),
+);
+
+export type WebhookDelivery = InferSelectModel<typeof webhookDeliveries>;
@@ -1,4 +1,4 @@
-import type { JobsOptions } from 'bullmq';
+import type { JobsOptions, Queue } from 'bullmq';
 
 import { redisConnection } from '~/services/queue-service';
 
@@ -85,6 +85,37 @@ export async function getConcurrencyLimitedJobs(teamId: string) {
   );
 }
 
+/**
+ * Frees the concurrency slot a job holds and moves the team's next waiting
+ * job, if any, onto the queue.
+ */
+export async function releaseConcurrencyLimitActiveJob(
+  teamId: string,
+  id: string,
+  queue: Queue,
+) {
+  await removeConcurrencyLimitActiveJob(teamId, id);
+  cleanOldConcurrencyLimitEntries(teamId);
+
+  const nextJob = await takeConcurrencyLimitedJob(teamId);
+  if (nextJob !== null) {
+    await pushConcurrencyLimitActiveJob(teamId, nextJob.id, 60 * 1000);
+
+    await queue.add(
+      nextJob.id,
+      {
+        ...nextJob.data,
+        concurrencyLimitHit: true,
+      },
+      {
+        ...nextJob.opts,
+        jobId: nextJob.id,
+        priority: nextJob.priority,
+      },
+    );
+  }
+}
+
 export async function getConcurrencyQueueJobsCount(
   teamId: string,
 ): Promise<number> {
@@ -0,0 +1,137 @@
+import path from 'node:path';
+
+import { resolveAllowedLocalPath } from '~/core/utils/localSourceUtils';
+import { parseRemoteValue } from '~/core/utils/remoteUtils';
+import type { CrawlRepository, CrawlSource } from '~/types';
+import { CrawlSourceError } from '~/utils/errorHandle';
+
+interface CrawlRepositoryRequest extends Omit<CrawlRepository, 'prefix'> {
+  prefix?: string;
+}
+
+interface CrawlSourceRequest {
+  url?: string;
+  localPath?: string;
+  repositories?: CrawlRepositoryRequest[];
+}
+
+const PREFIX_SEGMENT_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Normalizes the directory a repository's files are placed under.
+ * @throws CrawlSourceError if the prefix isn't a plain relative path.
+ */
+const normalizeRepositoryPrefix = (prefix: string): string => {
+  const segments = prefix.split('/').filter(Boolean);
+  if (
+    segments.length === 0 ||
+    segments.some(
+      (segment) =>
+        !PREFIX_SEGMENT_PATTERN.test(segment) ||
+        segment === '.' ||
+        segment === '..' ||
+        segment === '.git',
+    )
+  ) {
+    throw new CrawlSourceError(`Invalid repository prefix: ${prefix}`);
+  }
+  return segments.join('/');
+};
+
+/**
+ * Validates the repositories of a multi-repository request and gives each
+ * one its prefix, which defaults to the repository name.
+ * @throws CrawlSourceError if a URL is invalid or two prefixes overlap.
+ */
+const resolveRepositories = (
+  repositories: CrawlRepositoryRequest[],
+): CrawlRepository[] => {
+  const resolved = repositories.map(({ prefix, ...repository }) => {
+    let repoUrl: string;
+    try {
+      repoUrl = parseRemoteValue(repository.url).repoUrl;
+    } catch (error) {
+      throw new CrawlSourceError(
+        error instanceof Error ? error.message : 'Invalid repository URL',
+      );
+    }
+    return {
+      ...repository,
+      prefix: normalizeRepositoryPrefix(
+        prefix ?? path.posix.basename(repoUrl, '.git'),
+      ),
+    };
+  });
+
+  for (const [index, { prefix }] of resolved.entries()) {
+    const overlapping = resolved.find(
+      (other, otherIndex) =>
+        otherIndex !== index &&
+        (other.prefix === prefix || prefix.startsWith(`${other.prefix}/`)),
+    );
+    if (overlapping) {
+      throw new CrawlSourceError(
+        `Repository prefixes must not overlap: ${prefix} and ${overlapping.prefix}`,
+      );
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Picks the crawl source of an API request. Exactly one of `url`,
+ * `localPath`, `repositories` or an uploaded archive must be given. Local paths are checked
+ * against the allowed directories here so bad requests fail before queuing.
+ * @param request The validated request body.
+ * @param file The archive uploaded with a multipart request, if any.
+ * @returns The crawl source to hand to the queue worker.
+ * @throws CrawlSourceError if the source is missing, ambiguous or not allowed.
+ */
+export async function resolveRequestSource(
+  request: CrawlSourceRequest,
+  file?: Express.Multer.File,
+): Promise<CrawlSource> {
+  const providedSources = [
+    request.url,
+    request.localPath,
+    request.repositories,
+    file,
+  ].filter(Boolean);
+
+  if (providedSources.length !== 1) {
+    throw new CrawlSourceError(
+      request.repositories
+        ? 'Provide exactly one source: url, localPath, repositories or an archive upload'
+        : 'Provide exactly one source: url, localPath or an archive upload',
+    );
+  }
+
+  if (request.repositories) {
+    return {
+      type: 'repositories',
+      repositories: resolveRepositories(request.repositories),
+    };
+  }
+
+  if (file) {
+    return {
+      type: 'archive',
+      archivePath: file.path,
+      fileName: file.originalname,
+    };
+  }
+
+  if (request.localPath) {
+    try {
+      await resolveAllowedLocalPath(request.localPath);
+    } catch (error) {
+      throw new CrawlSourceError(
+        error instanceof Error ? error.message : 'Invalid local path',
+      );
+    }
+    return { type: 'local', path: request.localPath };
+  }
+
+  return { type: 'remote', url: request.url as string };
+}
@@ -0,0 +1,65 @@
+import type { DependencyGraph } from '~/core/graph/buildDependencyGraph';
+import type { SourceRevision } from '~/core/utils/sourceUtils';
+import { redisConnection } from '~/services/queue-service';
+import type { CrawlOptions, JobStatus } from '~/types';
+
+export interface GraphGenerationData extends SourceRevision {
+  id: string;
+  userId: string;
+  createdAt: number;
+  status: JobStatus;
+  url: string;
+  options: CrawlOptions;
+  // Set once the job completes
+  graph?: DependencyGraph;
+  // The graph rendered in the requested format
+  output?: string;
+  error?: string;
+}
+
+// TTL of 24 hours
+const GRAPH_GENERATION_TTL = 24 * 60 * 60;
+
+export async function saveGraphGenerationData(data: GraphGenerationData) {
+  await redisConnection.set(
+    `graph:${data.id}`,
+    JSON.stringify(data),
+    'EX',
+    GRAPH_GENERATION_TTL,
+  );
+}
+
+export async function getGraphGenerationData(
+  id: string,
+): Promise<GraphGenerationData | null> {
+  const data = await redisConnection.get(`graph:${id}`);
+  return data ? JSON.parse(data) : null;
+}
+
+export async function updateGraphGenerationData(
+  id: string,
+  data: Partial<GraphGenerationData>,
+) {
+  const current = await getGraphGenerationData(id);
+  if (!current) return;
+
+  const updatedGeneration = {
+    ...current,
+    ...data,
+  };
+
+  await redisConnection.set(
+    `graph:${id}`,
+    JSON.stringify(updatedGeneration),
+    'EX',
+    GRAPH_GENERATION_TTL,
+  );
+}
+
+export async function getGraphGenerationDataExpiry(id: string) {
+  const d = new Date();
+  const ttl = await redisConnection.pttl(`graph:${id}`);
+  d.setMilliseconds(d.getMilliseconds() + ttl);
+  d.setMilliseconds(0);
+  return d;
+}
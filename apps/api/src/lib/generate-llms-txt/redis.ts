@@ -1,16 +1,22 @@
+import type { OutputManifest, OutputPart } from '~/core/output/outputSplit';
 import { redisConnection } from '../../services/queue-service';
+import type { JobStatus } from '../../types';
 import { logger as _logger } from '../logger';
 
 export interface GenerationData {
   id: string;
-  teamId: string;
+  teamId: string | null;
   plan: string;
   createdAt: number;
-  status: 'processing' | 'completed' | 'failed';
+  status: JobStatus;
   url: string;
   showFullText: boolean;
   generatedText: string;
   fullText: string;
+  parts?: OutputPart[];
+  manifest?: OutputManifest;
+  // Commit a remote repository was checked out at
+  commitSha?: string;
   error?: string;
 }
 
@@ -63,7 +69,7 @@ export async function getGeneratedLlmsTxtExpiry(id: string): Promise<Date> {
 // Convenience method for status updates
 export async function updateGeneratedLlmsTxtStatus(
   id: string,
-  status: 'processing' | 'completed' | 'failed',
+  status: JobStatus,
   generatedText?: string,
   fullText?: string,
   error?: string,
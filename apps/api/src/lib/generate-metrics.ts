@@ -0,0 +1,65 @@
+import type { RepositoryMetrics } from '~/core/metrics/calculateRepositoryMetrics';
+import type { SuspiciousFileResult } from '~/core/security/workers/securityCheckWorker';
+import type { SourceRevision } from '~/core/utils/sourceUtils';
+import { redisConnection } from '~/services/queue-service';
+import type { CrawlOptions, JobStatus } from '~/types';
+
+export interface MetricsGenerationData extends SourceRevision {
+  id: string;
+  userId: string;
+  createdAt: number;
+  status: JobStatus;
+  url: string;
+  options: CrawlOptions;
+  // Set once the job completes
+  metrics?: RepositoryMetrics;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  error?: string;
+}
+
+// TTL of 24 hours
+const METRICS_GENERATION_TTL = 24 * 60 * 60;
+
+export async function saveMetricsGenerationData(data: MetricsGenerationData) {
+  await redisConnection.set(
+    `metrics:${data.id}`,
+    JSON.stringify(data),
+    'EX',
+    METRICS_GENERATION_TTL,
+  );
+}
+
+export async function getMetricsGenerationData(
+  id: string,
+): Promise<MetricsGenerationData | null> {
+  const data = await redisConnection.get(`metrics:${id}`);
+  return data ? JSON.parse(data) : null;
+}
+
+export async function updateMetricsGenerationData(
+  id: string,
+  data: Partial<MetricsGenerationData>,
+) {
+  const current = await getMetricsGenerationData(id);
+  if (!current) return;
+
+  const updatedGeneration = {
+    ...current,
+    ...data,
+  };
+
+  await redisConnection.set(
+    `metrics:${id}`,
+    JSON.stringify(updatedGeneration),
+    'EX',
+    METRICS_GENERATION_TTL,
+  );
+}
+
+export async function getMetricsGenerationDataExpiry(id: string) {
+  const d = new Date();
+  const ttl = await redisConnection.pttl(`metrics:${id}`);
+  d.setMilliseconds(d.getMilliseconds() + ttl);
+  d.setMilliseconds(0);
+  return d;
+}
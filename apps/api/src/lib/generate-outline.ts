@@ -0,0 +1,66 @@
+import type { CodeSymbol } from '~/core/file/fileTypes';
+import type { SuspiciousFileResult } from '~/core/security/workers/securityCheckWorker';
+import type { SourceRevision } from '~/core/utils/sourceUtils';
+import { redisConnection } from '~/services/queue-service';
+import type { CrawlOptions, JobStatus } from '~/types';
+
+export interface OutlineGenerationData extends SourceRevision {
+  id: string;
+  userId: string;
+  createdAt: number;
+  status: JobStatus;
+  url: string;
+  options: CrawlOptions;
+  // Set once the job completes
+  symbols?: CodeSymbol[];
+  totalFiles?: number;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  error?: string;
+}
+
+// TTL of 24 hours
+const OUTLINE_GENERATION_TTL = 24 * 60 * 60;
+
+export async function saveOutlineGenerationData(data: OutlineGenerationData) {
+  await redisConnection.set(
+    `outline:${data.id}`,
+    JSON.stringify(data),
+    'EX',
+    OUTLINE_GENERATION_TTL,
+  );
+}
+
+export async function getOutlineGenerationData(
+  id: string,
+): Promise<OutlineGenerationData | null> {
+  const data = await redisConnection.get(`outline:${id}`);
+  return data ? JSON.parse(data) : null;
+}
+
+export async function updateOutlineGenerationData(
+  id: string,
+  data: Partial<OutlineGenerationData>,
+) {
+  const current = await getOutlineGenerationData(id);
+  if (!current) return;
+
+  const updatedGeneration = {
+    ...current,
+    ...data,
+  };
+
+  await redisConnection.set(
+    `outline:${id}`,
+    JSON.stringify(updatedGeneration),
+    'EX',
+    OUTLINE_GENERATION_TTL,
+  );
+}
+
+export async function getOutlineGenerationDataExpiry(id: string) {
+  const d = new Date();
+  const ttl = await redisConnection.pttl(`outline:${id}`);
+  d.setMilliseconds(d.getMilliseconds() + ttl);
+  d.setMilliseconds(0);
+  return d;
+}
@@ -0,0 +1,79 @@
+import type { OutputDiff } from '~/config/configSchema';
+import type { OutputManifest, OutputPart } from '~/core/output/outputSplit';
+import type { TaskRelevance } from '~/core/packager/taskScope';
+import type { TokenBudgetResult } from '~/core/packager/tokenBudget';
+import type { SuspiciousFileResult } from '~/core/security/workers/securityCheckWorker';
+import type { SourceRevision } from '~/core/utils/sourceUtils';
+import { redisConnection } from '~/services/queue-service';
+import type { CrawlOptions, JobStatus } from '~/types';
+
+export interface PackGenerationData extends SourceRevision {
+  id: string;
+  userId: string;
+  createdAt: number;
+  status: JobStatus;
+  url: string;
+  options: CrawlOptions;
+  output: string;
+  totalFiles: number;
+  totalCharacters: number;
+  totalTokens: number;
+  fileCharCounts: Record<string, number>;
+  fileTokenCounts: Record<string, number>;
+  suspiciousFilesResults: SuspiciousFileResult[];
+  tokenBudget?: TokenBudgetResult;
+  // The files selected for a task and their scores
+  relevance?: TaskRelevance;
+  parts?: OutputPart[];
+  manifest?: OutputManifest;
+  // The refs and commits compared, in diff mode
+  diff?: OutputDiff;
+  error?: string;
+}
+
+// TTL of 24 hours
+const PACK_GENERATION_TTL = 24 * 60 * 60;
+
+export async function savePackGenerationData(data: PackGenerationData) {
+  await redisConnection.set(
+    `pack:${data.id}`,
+    JSON.stringify(data),
+    'EX',
+    PACK_GENERATION_TTL,
+  );
+}
+
+export async function getPackGenerationData(
+  id: string,
+): Promise<PackGenerationData | null> {
+  const data = await redisConnection.get(`pack:${id}`);
+  return data ? JSON.parse(data) : null;
+}
+
+export async function updatePackGenerationData(
+  id: string,
+  data: Partial<PackGenerationData>,
+) {
+  const current = await getPackGenerationData(id);
+  if (!current) return;
+
+  const updatedGeneration = {
+    ...current,
+    ...data,
+  };
+
+  await redisConnection.set(
+    `pack:${id}`,
+    JSON.stringify(updatedGeneration),
+    'EX',
+    PACK_GENERATION_TTL,
+  );
+}
+
+export async function getPackGenerationDataExpiry(id: string) {
+  const d = new Date();
+  const ttl = await redisConnection.pttl(`pack:${id}`);
+  d.setMilliseconds(d.getMilliseconds() + ttl);
+  d.setMilliseconds(0);
+  return d;
+}
@@ -1,12 +1,15 @@
 import { redisConnection } from '~/services/queue-service';
+import type { JobStatus } from '~/types';
 
 export interface TreeGenerationData {
   id: string;
   userId: string;
   createdAt: number;
-  status: 'processing' | 'completed' | 'failed';
+  status: JobStatus;
   url: string;
   fileTree: string;
+  // Commit a remote repository was checked out at
+  commitSha?: string;
   error?: string;
 }
 
@@ -44,7 +47,7 @@ export async function getTreeGenerationDataExpiry(id: string) {
 
 export async function updateTreeGenerationDataStatus(
   id: string,
-  status: 'processing' | 'completed' | 'failed',
+  status: JobStatus,
   fileTree?: string,
   error?: string,
 ) {
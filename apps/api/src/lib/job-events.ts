@@ -0,0 +1,285 @@
+import type IORedis from 'ioredis';
+
+import { redisConnection } from '~/services/queue-service';
+import type {
+  CrawlProgressCallback,
+  CrawlProgressPhase,
+  JobEvent,
+  JobStatus,
+  JobType,
+} from '~/types';
+import { getGraphGenerationData } from './generate-graph';
+import { getGeneratedLLmsTxt } from './generate-llms-txt/redis';
+import { getMetricsGenerationData } from './generate-metrics';
+import { getOutlineGenerationData } from './generate-outline';
+import { getPackGenerationData } from './generate-pack';
+import { getTreeGenerationData } from './generate-tree';
+import { logger } from './logger';
+
+// The latest event is kept as long as the job's results
+const JOB_EVENT_TTL = 24 * 60 * 60;
+// Progress is published at most this often, besides phase changes and the
+// last file of a phase
+const JOB_PROGRESS_INTERVAL_MS = 250;
+
+export interface JobStreamEvent {
+  event: JobEvent;
+  jobId: string;
+  jobType: JobType;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export type JobStreamListener = (event: JobStreamEvent) => void;
+
+const getJobEventsChannel = (jobId: string) => `job-events:${jobId}`;
+const getLatestJobEventKey = (jobId: string) => `job-events:${jobId}:latest`;
+const getCancelledJobKey = (jobId: string) => `job-events:${jobId}:cancelled`;
+
+export const isFinalJobEvent = (event: JobEvent): boolean =>
+  event === 'completed' || event === 'failed' || event === 'cancelled';
+
+/**
+ * Publishes a job event to everyone streaming the job, and keeps it as the
+ * job's latest event for clients that connect later.
+ */
+export async function publishJobEvent(
+  jobId: string,
+  jobType: JobType,
+  event: JobEvent,
+  data: Record<string, unknown> = {},
+): Promise<void> {
+  const message = JSON.stringify({
+    event,
+    jobId,
+    jobType,
+    timestamp: new Date().toISOString(),
+    data,
+  } satisfies JobStreamEvent);
+
+  try {
+    await redisConnection
+      .multi()
+      .set(getLatestJobEventKey(jobId), message, 'EX', JOB_EVENT_TTL)
+      .publish(getJobEventsChannel(jobId), message)
+      .exec();
+  } catch (error) {
+    logger.error('Failed to publish job event', { jobId, event, error });
+  }
+}
+
+/**
+ * Creates a progress callback that publishes `progress` events. Updates
+ * within the same phase are throttled, but the first and last update of
+ * every phase always go out.
+ */
+export function createJobProgressPublisher(
+  jobId: string,
+  jobType: JobType,
+): CrawlProgressCallback {
+  let lastPhase: CrawlProgressPhase | undefined;
+  let lastPublishedAt = 0;
+
+  return (message, progress) => {
+    const now = Date.now();
+    const isPhaseBoundary =
+      progress?.phase !== lastPhase ||
+      (progress?.filesDone !== undefined &&
+        progress.filesDone === progress.filesTotal);
+    if (!isPhaseBoundary && now - lastPublishedAt < JOB_PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    lastPhase = progress?.phase;
+    lastPublishedAt = now;
+    void publishJobEvent(jobId, jobType, 'progress', { message, ...progress });
+  };
+}
+
+/**
+ * Marks a job as cancelled and tells the worker running it to stop. A job
+ * that is still queued is dropped once a worker picks it up.
+ */
+export async function cancelJob(jobId: string, jobType: JobType) {
+  await redisConnection.set(
+    getCancelledJobKey(jobId),
+    '1',
+    'EX',
+    JOB_EVENT_TTL,
+  );
+  await publishJobEvent(jobId, jobType, 'cancelled');
+}
+
+export async function isJobCancelled(jobId: string): Promise<boolean> {
+  return (await redisConnection.exists(getCancelledJobKey(jobId))) === 1;
+}
+
+export async function getLatestJobEvent(
+  jobId: string,
+): Promise<JobStreamEvent | null> {
+  const data = await redisConnection.get(getLatestJobEventKey(jobId));
+  return data ? JSON.parse(data) : null;
+}
+
+// Who submitted a job: llms.txt jobs record the API key's team, the other
+// job types its user
+export type JobOwner = { teamId: string | null } | { userId: string };
+
+/**
+ * Looks a job up in the stores of every job type.
+ * @returns The job's type, status and owner, or null if there is no such
+ *   job.
+ */
+export async function findJob(jobId: string): Promise<{
+  jobType: JobType;
+  status: JobStatus;
+  error?: string;
+  owner: JobOwner;
+} | null> {
+  const [pack, tree, llmstxt, metrics, outline, graph] = await Promise.all([
+    getPackGenerationData(jobId),
+    getTreeGenerationData(jobId),
+    getGeneratedLLmsTxt(jobId),
+    getMetricsGenerationData(jobId),
+    getOutlineGenerationData(jobId),
+    getGraphGenerationData(jobId),
+  ]);
+  if (pack) {
+    return {
+      jobType: 'pack',
+      status: pack.status,
+      error: pack.error,
+      owner: { userId: pack.userId },
+    };
+  }
+  if (tree) {
+    return {
+      jobType: 'tree',
+      status: tree.status,
+      error: tree.error,
+      owner: { userId: tree.userId },
+    };
+  }
+  if (llmstxt) {
+    return {
+      jobType: 'llmstxt',
+      status: llmstxt.status,
+      error: llmstxt.error,
+      owner: { teamId: llmstxt.teamId },
+    };
+  }
+  if (metrics) {
+    return {
+      jobType: 'metrics',
+      status: metrics.status,
+      error: metrics.error,
+      owner: { userId: metrics.userId },
+    };
+  }
+  if (outline) {
+    return {
+      jobType: 'outline',
+      status: outline.status,
+      error: outline.error,
+      owner: { userId: outline.userId },
+    };
+  }
+  if (graph) {
+    return {
+      jobType: 'graph',
+      status: graph.status,
+      error: graph.error,
+      owner: { userId: graph.userId },
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks that a job was submitted by the requesting API key's team or, for
+ * job types that only record the user, by its user.
+ */
+export function isJobOwner(
+  owner: JobOwner,
+  apiKeyDetails: { userId: string; teamId: string | null } | undefined,
+): boolean {
+  if (!apiKeyDetails) {
+    return false;
+  }
+  return 'teamId' in owner
+    ? owner.teamId === apiKeyDetails.teamId
+    : owner.userId === apiKeyDetails.userId;
+}
+
+// Connections in subscriber mode can't run other commands, so all streams
+// of a process share one
+let subscriberConnection: IORedis | undefined;
+const channelListeners = new Map<string, Set<JobStreamListener>>();
+
+const getSubscriberConnection = (): IORedis => {
+  if (!subscriberConnection) {
+    subscriberConnection = redisConnection.duplicate();
+    subscriberConnection.on('message', (channel: string, message: string) => {
+      const listeners = channelListeners.get(channel);
+      if (!listeners) {
+        return;
+      }
+      const event = JSON.parse(message) as JobStreamEvent;
+      for (const listener of listeners) {
+        listener(event);
+      }
+    });
+  }
+  return subscriberConnection;
+};
+
+/**
+ * Calls the listener with every event published for the job from now on.
+ * @returns A function that stops listening.
+ */
+export async function subscribeToJobEvents(
+  jobId: string,
+  listener: JobStreamListener,
+): Promise<() => Promise<void>> {
+  const channel = getJobEventsChannel(jobId);
+  const connection = getSubscriberConnection();
+
+  let listeners = channelListeners.get(channel);
+  if (!listeners) {
+    listeners = new Set();
+    channelListeners.set(channel, listeners);
+    await connection.subscribe(channel);
+  }
+  listeners.add(listener);
+
+  return async () => {
+    const currentListeners = channelListeners.get(channel);
+    if (!currentListeners?.delete(listener) || currentListeners.size > 0) {
+      return;
+    }
+    channelListeners.delete(channel);
+    await connection.unsubscribe(channel);
+  };
+}
+
+/**
+ * Creates an abort signal that fires once the job is cancelled, or right
+ * away if it already was.
+ * @returns The signal, and a function to call when the job is done.
+ */
+export async function watchJobCancellation(
+  jobId: string,
+): Promise<{ signal: AbortSignal; stop: () => Promise<void> }> {
+  const abortController = new AbortController();
+  const cancel = () => abortController.abort(new Error('Job cancelled'));
+
+  const stop = await subscribeToJobEvents(jobId, (event) => {
+    if (event.event === 'cancelled') {
+      cancel();
+    }
+  });
+  if (await isJobCancelled(jobId)) {
+    cancel();
+  }
+
+  return { signal: abortController.signal, stop };
+}
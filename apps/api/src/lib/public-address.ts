@@ -0,0 +1,113 @@
+import dns from 'node:dns/promises';
+import type { LookupAddress } from 'node:dns';
+import net from 'node:net';
+
+// Loopback, private, link-local (including cloud metadata endpoints),
+// shared, multicast and other addresses that aren't reachable on the
+// internet
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+export class NonPublicAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+/**
+ * Checks that an IP address can be reached on the internet. IPv4-mapped
+ * IPv6 addresses are checked as the IPv4 address they map.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const mappedAddress = address.toLowerCase().startsWith(IPV4_MAPPED_PREFIX)
+    ? address.slice(IPV4_MAPPED_PREFIX.length)
+    : address;
+  const family = net.isIP(mappedAddress);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(
+    mappedAddress,
+    family === 4 ? 'ipv4' : 'ipv6',
+  );
+};
+
+/**
+ * Resolves a host name, or takes an IP address as is, and checks that every
+ * address it has is public, so requests to it can't reach the internal
+ * network.
+ * @throws NonPublicAddressError if the host doesn't resolve or one of its
+ *   addresses isn't public.
+ */
+export const resolvePublicAddresses = async (
+  hostname: string,
+): Promise<LookupAddress[]> => {
+  // URL host names keep the brackets around IPv6 addresses
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const family = net.isIP(host);
+  let addresses: LookupAddress[];
+  if (family !== 0) {
+    addresses = [{ address: host, family }];
+  } else {
+    try {
+      addresses = await dns.lookup(host, { all: true, verbatim: true });
+    } catch (error) {
+      throw new NonPublicAddressError(`Host ${host} could not be resolved`);
+    }
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicAddress(address))
+  ) {
+    throw new NonPublicAddressError(
+      `Host ${host} resolves to a non-public address`,
+    );
+  }
+  return addresses;
+};
+
+/**
+ * A `lookup` for outgoing connections that only connects to public
+ * addresses. The addresses are checked as the socket resolves them, so a
+ * host can't pass a check and then resolve to an internal address (DNS
+ * rebinding).
+ */
+export const lookupPublicAddress = async (
+  hostname: string,
+): Promise<LookupAddress> => {
+  const [address] = await resolvePublicAddresses(hostname);
+  return address;
+};
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+let uploadDir: string;
+let app: express.Express;
+
+beforeAll(async () => {
+  uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-upload-test-'));
+  // The upload directory and limit are read when the module loads
+  process.env.UPLOAD_DIR = uploadDir;
+  process.env.MAX_ARCHIVE_UPLOAD_SIZE_MB = String(1 / 1024);
+  const { archiveUploadMiddleware } = await import('../archive-upload');
+
+  app = express();
+  app.use(express.json());
+  app.post('/jobs', archiveUploadMiddleware, (req, res) => {
+    if (req.body.reject) {
+      res.status(400).json({ success: false });
+      return;
+    }
+    res.json({ body: req.body, fileName: req.file?.originalname ?? null });
+  });
+});
+
+afterEach(async () => {
+  for (const fileName of await fs.readdir(uploadDir)) {
+    await fs.rm(path.join(uploadDir, fileName), { force: true });
+  }
+});
+
+afterAll(async () => {
+  await fs.rm(uploadDir, { recursive: true, force: true });
+});
+
+// Rejected uploads are removed once the response has been sent
+const waitForEmptyUploadDir = async () => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const files = await fs.readdir(uploadDir);
+    if (files.length === 0) {
+      return files;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return fs.readdir(uploadDir);
+};
+
+describe('archiveUploadMiddleware', () => {
+  test('passes JSON requests through', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .send({ url: 'https://github.com/owner/repo' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      body: { url: 'https://github.com/owner/repo' },
+      fileName: null,
+    });
+  });
+
+  test('accepts an archive with the options as JSON', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .field('options', JSON.stringify({ compress: true }))
+      .attach('archive', Buffer.from('archive'), 'source.tar.gz');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      body: { compress: true },
+      fileName: 'source.tar.gz',
+    });
+    // Kept for the worker that extracts it
+    expect(await fs.readdir(uploadDir)).toHaveLength(1);
+  });
+
+  test('rejects files that are not archives', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .attach('archive', Buffer.from('#!/bin/sh'), 'install.sh');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      'Only .zip and .tar.gz archives are supported',
+    );
+    expect(await waitForEmptyUploadDir()).toEqual([]);
+  });
+
+  test('rejects archives over the upload size limit', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .attach('archive', Buffer.alloc(4096), 'source.zip');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('File too large');
+    expect(await waitForEmptyUploadDir()).toEqual([]);
+  });
+
+  test('rejects more than one file', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .attach('archive', Buffer.from('first'), 'first.zip')
+      .attach('archive', Buffer.from('second'), 'second.zip');
+
+    expect(response.status).toBe(400);
+    expect(await waitForEmptyUploadDir()).toEqual([]);
+  });
+
+  test('rejects options that are not JSON and removes the upload', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .field('options', '{not json')
+      .attach('archive', Buffer.from('archive'), 'source.zip');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('The options field must be a JSON object');
+    expect(await waitForEmptyUploadDir()).toEqual([]);
+  });
+
+  test('removes the upload when the request is rejected', async () => {
+    const response = await request(app)
+      .post('/jobs')
+      .field('options', JSON.stringify({ reject: true }))
+      .attach('archive', Buffer.from('archive'), 'source.zip');
+
+    expect(response.status).toBe(400);
+    expect(await waitForEmptyUploadDir()).toEqual([]);
+  });
+});
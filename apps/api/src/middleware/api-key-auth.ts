@@ -1,6 +1,12 @@
+import crypto from 'node:crypto';
 import type { Request, Response, NextFunction } from 'express';
 
-import { validateApiKey } from '~/services/api-keys-service';
+import type { ApiKeyScope } from '~/db/schema';
+import {
+  hasApiKeyScope,
+  isApiKeyExpired,
+  validateApiKey,
+} from '~/services/api-keys-service';
 import { redisRateLimitClient, getRateLimiter } from '~/services/rate-limiter';
 import type { RateLimiterMode } from '~/types';
 import { logger } from '~/lib/logger';
@@ -12,6 +18,8 @@ export interface AuthenticatedApiKeyDetails {
   id: string;
   userId: string;
   teamId: string | null;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
 }
 
 declare global {
@@ -22,8 +30,13 @@ declare global {
   }
 }
 
+/**
+ * Authenticates requests with an API key that has the given scope, and
+ * applies the rate limit of the mode.
+ */
 export const apiKeyAuthMiddleware = (
   mode: RateLimiterMode,
+  scope: ApiKeyScope,
 ): ((req: Request, res: Response, next: NextFunction) => Promise<void>) => {
   return async (
     req: Request,
@@ -51,7 +64,11 @@ export const apiKeyAuthMiddleware = (
         return;
       }
 
-      const cacheKey = `${API_KEY_CACHE_PREFIX}${apiKey}`;
+      // Keys are cached under their hash so Redis never holds a plain key
+      const cacheKey = `${API_KEY_CACHE_PREFIX}${crypto
+        .createHash('sha256')
+        .update(apiKey)
+        .digest('hex')}`;
       let validatedKeyDetails: AuthenticatedApiKeyDetails | null | undefined =
         undefined;
 
@@ -75,6 +92,8 @@ export const apiKeyAuthMiddleware = (
               id: validationResult.id,
               userId: validationResult.userId,
               teamId: validationResult.teamId,
+              scopes: validationResult.scopes,
+              expiresAt: validationResult.expiresAt?.toISOString() ?? null,
             };
 
             redisRateLimitClient
@@ -103,13 +122,25 @@ export const apiKeyAuthMiddleware = (
       }
 
       // Handle invalid key (either from cache or direct validation)
-      if (!validatedKeyDetails) {
+      // Cached details can outlive the key's expiry
+      if (
+        !validatedKeyDetails ||
+        isApiKeyExpired(validatedKeyDetails.expiresAt)
+      ) {
         res
           .status(401)
           .json({ success: false, error: 'Unauthorized: Invalid API key' });
         return;
       }
 
+      if (!hasApiKeyScope(validatedKeyDetails.scopes, scope)) {
+        res.status(403).json({
+          success: false,
+          error: `Forbidden: API key is missing the "${scope}" scope`,
+        });
+        return;
+      }
+
       try {
         const { userId } = validatedKeyDetails;
         const rateLimiter = getRateLimiter(mode, apiKey);
@@ -0,0 +1,73 @@
+import * as fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+
+import { getArchiveFormat } from '~/core/utils/archiveUtils';
+
+// Must be shared with the queue workers when they run on another host
+const UPLOAD_DIR =
+  process.env.UPLOAD_DIR ?? path.join(os.tmpdir(), 'codecrawl-uploads');
+const MAX_UPLOAD_SIZE =
+  (Number(process.env.MAX_ARCHIVE_UPLOAD_SIZE_MB) || 100) * 1024 * 1024;
+
+const upload = multer({
+  dest: UPLOAD_DIR,
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1, fields: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!getArchiveFormat(file.originalname)) {
+      cb(new Error('Only .zip and .tar.gz archives are supported'));
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Accepts an optional `archive` file upload on multipart requests. The crawl
+ * options travel as a JSON string in the `options` field and replace the
+ * request body so controllers validate them like a JSON request. Requests
+ * that are not multipart pass through untouched.
+ */
+export const archiveUploadMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  upload.single('archive')(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid upload',
+      });
+      return;
+    }
+
+    if (!req.is('multipart/form-data')) {
+      next();
+      return;
+    }
+
+    // Rejected requests never reach a worker, so drop their upload
+    const uploadedFile = req.file;
+    if (uploadedFile) {
+      res.on('finish', () => {
+        if (res.statusCode >= 400) {
+          fs.rm(uploadedFile.path, { force: true }).catch(() => {});
+        }
+      });
+    }
+
+    try {
+      const rawOptions = req.body?.options;
+      req.body = typeof rawOptions === 'string' ? JSON.parse(rawOptions) : {};
+      next();
+    } catch {
+      res.status(400).json({
+        success: false,
+        error: 'The options field must be a JSON object',
+      });
+    }
+  });
+};
@@ -1,4 +1,5 @@
 import type { NextFunction, Request, Response } from 'express';
+import type { WebsocketRequestHandler } from 'express-ws';
 
 export function wrap<Req extends Request = Request>(
   controller: (req: Req, res: Response) => Promise<any>,
@@ -8,5 +9,18 @@ export function wrap<Req extends Request = Request>(
   };
 }
 
+/**
+ * Runs an HTTP middleware on a WebSocket route. An error response from the
+ * middleware closes the socket.
+ */
+export function socketMiddleware(
+  middleware: (req: Request, res: Response, next: NextFunction) => any,
+): WebsocketRequestHandler {
+  return (_ws, req, next) => {
+    middleware(req, req.res as Response, next);
+  };
+}
+
 export * from './api-key-auth';
 export * from './jwt-auth';
+export * from './archive-upload';
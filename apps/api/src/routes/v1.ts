@@ -1,7 +1,13 @@
 import express from 'express';
 import expressWs from 'express-ws';
 
-import { apiKeyAuthMiddleware, authMiddleware, wrap } from '~/middleware';
+import {
+  apiKeyAuthMiddleware,
+  archiveUploadMiddleware,
+  authMiddleware,
+  socketMiddleware,
+  wrap,
+} from '~/middleware';
 import { RateLimiterMode } from '~/types';
 import { generateLLMsTextController } from '~/controllers/v1/generate-llmstxt';
 import { generateLLMsTextStatusController } from '~/controllers/v1/generate-llmstxt-status';
@@ -13,21 +19,60 @@ import {
 } from '~/controllers/v1/user';
 import { livenessController } from '~/controllers/v1/liveness';
 import { readinessController } from '~/controllers/v1/readiness';
+import { jsonOutputSchemaController } from '~/controllers/v1/schemas';
 import { login, register } from '~/controllers/v1/auth';
 import { teamKeysController, teamsController } from '~/controllers/v1/teams';
+import {
+  teamCreateGitCredentialController,
+  teamDeleteGitCredentialController,
+  teamGitCredentialsController,
+} from '~/controllers/v1/git-credentials';
+import {
+  teamCreateOutputTemplateController,
+  teamDeleteOutputTemplateController,
+  teamOutputTemplatesController,
+} from '~/controllers/v1/output-templates';
+import {
+  teamRotateWebhookSecretController,
+  teamWebhookSecretController,
+  webhookDeliveriesController,
+} from '~/controllers/v1/webhooks';
 import { generateTreeStatusController } from '~/controllers/v1/generate-tree-status';
 import { generateTreeController } from '~/controllers/v1/generate-tree';
-
-expressWs(express());
+import { generatePackController } from '~/controllers/v1/generate-pack';
+import { generatePackStatusController } from '~/controllers/v1/generate-pack-status';
+import { generateMetricsController } from '~/controllers/v1/generate-metrics';
+import { generateMetricsStatusController } from '~/controllers/v1/generate-metrics-status';
+import { generateOutlineController } from '~/controllers/v1/generate-outline';
+import { generateOutlineStatusController } from '~/controllers/v1/generate-outline-status';
+import { generateGraphController } from '~/controllers/v1/generate-graph';
+import { generateGraphStatusController } from '~/controllers/v1/generate-graph-status';
+import {
+  cancelGraphJobController,
+  cancelLLMsTextJobController,
+  cancelMetricsJobController,
+  cancelOutlineJobController,
+  cancelPackJobController,
+  cancelTreeJobController,
+} from '~/controllers/v1/cancel-job';
+import {
+  jobStreamController,
+  jobStreamSocketController,
+} from '~/controllers/v1/job-stream';
 
 export const v1Router = express.Router();
 
+// Express 5 routers don't pick up `.ws` from the patched Router prototype
+expressWs(express()).applyTo(v1Router);
+
 v1Router.post('/auth/login', wrap(login));
 v1Router.post('/auth/register', wrap(register));
 
 v1Router.get('/health/liveness', wrap(livenessController));
 v1Router.get('/health/readiness', wrap(readinessController));
 
+v1Router.get('/schemas/json-output/:version', wrap(jsonOutputSchemaController));
+
 v1Router.get('/users/me', authMiddleware(false), wrap(userMeController));
 v1Router.get('/users/keys', authMiddleware(), wrap(userApiKeysController));
 v1Router.post(
@@ -43,24 +88,161 @@ v1Router.delete(
 
 v1Router.get('/teams/:teamId/keys', authMiddleware(), wrap(teamKeysController));
 v1Router.get('/teams', authMiddleware(), wrap(teamsController));
+v1Router.get(
+  '/teams/:teamId/git-credentials',
+  authMiddleware(),
+  wrap(teamGitCredentialsController),
+);
+v1Router.post(
+  '/teams/:teamId/git-credentials',
+  authMiddleware(),
+  wrap(teamCreateGitCredentialController),
+);
+v1Router.delete(
+  '/teams/:teamId/git-credentials/:credentialId',
+  authMiddleware(),
+  wrap(teamDeleteGitCredentialController),
+);
+v1Router.get(
+  '/teams/:teamId/templates',
+  authMiddleware(),
+  wrap(teamOutputTemplatesController),
+);
+v1Router.post(
+  '/teams/:teamId/templates',
+  authMiddleware(),
+  wrap(teamCreateOutputTemplateController),
+);
+v1Router.delete(
+  '/teams/:teamId/templates/:templateId',
+  authMiddleware(),
+  wrap(teamDeleteOutputTemplateController),
+);
+v1Router.get(
+  '/teams/:teamId/webhook-secret',
+  authMiddleware(),
+  wrap(teamWebhookSecretController),
+);
+v1Router.post(
+  '/teams/:teamId/webhook-secret/rotate',
+  authMiddleware(),
+  wrap(teamRotateWebhookSecretController),
+);
 v1Router.post(
   '/llmstxt',
-  apiKeyAuthMiddleware(RateLimiterMode.Crawl),
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'llmstxt'),
+  archiveUploadMiddleware,
   wrap(generateLLMsTextController),
 );
 v1Router.get(
   '/llmstxt/:jobId',
-  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus),
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
   wrap(generateLLMsTextStatusController as any),
 );
+v1Router.delete(
+  '/llmstxt/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'llmstxt'),
+  wrap(cancelLLMsTextJobController as any),
+);
 
 v1Router.post(
   '/tree',
-  apiKeyAuthMiddleware(RateLimiterMode.Crawl),
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'tree'),
+  archiveUploadMiddleware,
   wrap(generateTreeController),
 );
 v1Router.get(
   '/tree/:jobId',
-  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus),
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
   wrap(generateTreeStatusController as any),
 );
+v1Router.delete(
+  '/tree/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'tree'),
+  wrap(cancelTreeJobController as any),
+);
+
+v1Router.post(
+  '/pack',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'pack'),
+  archiveUploadMiddleware,
+  wrap(generatePackController),
+);
+v1Router.get(
+  '/pack/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(generatePackStatusController as any),
+);
+v1Router.delete(
+  '/pack/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'pack'),
+  wrap(cancelPackJobController as any),
+);
+
+v1Router.post(
+  '/metrics',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'metrics'),
+  archiveUploadMiddleware,
+  wrap(generateMetricsController),
+);
+v1Router.get(
+  '/metrics/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(generateMetricsStatusController as any),
+);
+v1Router.delete(
+  '/metrics/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'metrics'),
+  wrap(cancelMetricsJobController as any),
+);
+
+v1Router.post(
+  '/outline',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'outline'),
+  archiveUploadMiddleware,
+  wrap(generateOutlineController),
+);
+v1Router.get(
+  '/outline/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(generateOutlineStatusController as any),
+);
+v1Router.delete(
+  '/outline/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'outline'),
+  wrap(cancelOutlineJobController as any),
+);
+
+v1Router.post(
+  '/graph',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'graph'),
+  archiveUploadMiddleware,
+  wrap(generateGraphController),
+);
+v1Router.get(
+  '/graph/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(generateGraphStatusController as any),
+);
+v1Router.delete(
+  '/graph/:jobId',
+  apiKeyAuthMiddleware(RateLimiterMode.Crawl, 'graph'),
+  wrap(cancelGraphJobController as any),
+);
+
+v1Router.get(
+  '/jobs/:jobId/stream',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(jobStreamController as any),
+);
+v1Router.ws(
+  '/jobs/:jobId/stream',
+  socketMiddleware(apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status')),
+  jobStreamSocketController,
+);
+
+v1Router.get(
+  '/webhooks/deliveries',
+  apiKeyAuthMiddleware(RateLimiterMode.CrawlStatus, 'status'),
+  wrap(webhookDeliveriesController),
+);
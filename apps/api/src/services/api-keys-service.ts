@@ -2,21 +2,87 @@ import crypto from 'node:crypto';
 import { eq, desc } from 'drizzle-orm';
 
 import { db } from '~/db';
-import { type ApiKey, apiKeys } from '~/db/schema';
+import { type ApiKey, type ApiKeyScope, apiKeys } from '~/db/schema';
 
 const API_KEY_BYTE_LENGTH = 32;
+// `cc_` followed by the first 12 hex characters of the key
+const API_KEY_PREFIX_LENGTH = 15;
+const API_KEY_SALT_BYTE_LENGTH = 16;
 
-export const createApiKey = (): string => {
+export type ApiKeySummary = Omit<ApiKey, 'keySalt' | 'keyHash'>;
+
+// Columns that are safe to return; select these instead of the whole table
+export const apiKeySummaryColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  keyPrefix: apiKeys.keyPrefix,
+  userId: apiKeys.userId,
+  teamId: apiKeys.teamId,
+  isActive: apiKeys.isActive,
+  scopes: apiKeys.scopes,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+export interface CreatedApiKey {
+  // The plain key; shown to the user once and never stored
+  plainKey: string;
+  keyPrefix: string;
+  keySalt: string;
+  keyHash: string;
+}
+
+const hashApiKey = (plainKey: string, salt: string): string =>
+  crypto.createHash('sha256').update(`${salt}${plainKey}`).digest('hex');
+
+export const getApiKeyPrefix = (plainKey: string): string =>
+  plainKey.slice(0, API_KEY_PREFIX_LENGTH);
+
+/**
+ * Generates a new key together with the prefix, salt and hash to store for
+ * it. Keys are 256 random bits, so a salted SHA-256 is enough to make a
+ * leaked hash useless.
+ */
+export const createApiKey = (): CreatedApiKey => {
   const plainKey = `cc_${crypto
     .randomBytes(API_KEY_BYTE_LENGTH)
     .toString('hex')}`;
+  const keySalt = crypto.randomBytes(API_KEY_SALT_BYTE_LENGTH).toString('hex');
 
-  return plainKey;
+  return {
+    plainKey,
+    keyPrefix: getApiKeyPrefix(plainKey),
+    keySalt,
+    keyHash: hashApiKey(plainKey, keySalt),
+  };
 };
 
+export const toApiKeySummary = ({
+  keySalt: _,
+  keyHash: __,
+  ...apiKey
+}: ApiKey): ApiKeySummary => apiKey;
+
+export const isApiKeyExpired = (
+  expiresAt: Date | string | null,
+  now = new Date(),
+): boolean => expiresAt !== null && new Date(expiresAt) <= now;
+
+export const hasApiKeyScope = (
+  scopes: ApiKeyScope[],
+  scope: ApiKeyScope,
+): boolean => scopes.includes(scope);
+
+/**
+ * Checks a key against the hash stored for its prefix, and records when the
+ * key was used.
+ * @returns The key's details, or null if the key is unknown, inactive or
+ *   expired.
+ */
 export const validateApiKey = async (
   providedKey: string,
-): Promise<Omit<ApiKey, 'key'> | null> => {
+): Promise<ApiKeySummary | null> => {
   if (!providedKey) {
     return null;
   }
@@ -25,15 +91,36 @@ export const validateApiKey = async (
     const [potentialKey] = await db
       .select()
       .from(apiKeys)
-      .where(eq(apiKeys.key, providedKey))
+      .where(eq(apiKeys.keyPrefix, getApiKeyPrefix(providedKey)))
       .limit(1);
 
-    if (!potentialKey || !potentialKey.isActive) {
+    if (
+      !potentialKey ||
+      !potentialKey.isActive ||
+      isApiKeyExpired(potentialKey.expiresAt)
+    ) {
+      return null;
+    }
+
+    const providedHash = Buffer.from(
+      hashApiKey(providedKey, potentialKey.keySalt),
+      'hex',
+    );
+    const storedHash = Buffer.from(potentialKey.keyHash, 'hex');
+    if (
+      providedHash.length !== storedHash.length ||
+      !crypto.timingSafeEqual(providedHash, storedHash)
+    ) {
       return null;
     }
 
-    const { key: _, ...keyDetails } = potentialKey;
-    return keyDetails;
+    const lastUsedAt = new Date();
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt })
+      .where(eq(apiKeys.id, potentialKey.id));
+
+    return { ...toApiKeySummary(potentialKey), lastUsedAt };
   } catch (error) {
     console.error('Error validating API key:', error);
     return null;
@@ -42,15 +129,13 @@ export const validateApiKey = async (
 
 export const listApiKeysForUser = async (
   userId: string,
-): Promise<Omit<any, 'key'>[]> => {
+): Promise<ApiKeySummary[]> => {
   try {
-    const keys = await db
-      .select()
+    return await db
+      .select(apiKeySummaryColumns)
       .from(apiKeys)
       .where(eq(apiKeys.userId, userId))
       .orderBy(desc(apiKeys.createdAt));
-
-    return keys;
   } catch (error) {
     console.error('Error listing API keys:', error);
     return [];
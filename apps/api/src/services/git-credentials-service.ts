@@ -0,0 +1,198 @@
+import crypto from 'node:crypto';
+import { and, desc, eq } from 'drizzle-orm';
+
+import { db } from '~/db';
+import {
+  type GitCredential,
+  type GitCredentialType,
+  gitCredentials,
+} from '~/db/schema';
+import type { GitAuthCredential } from '~/core/file/gitCommand';
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const IV_BYTE_LENGTH = 12;
+
+export type GitCredentialSummary = Omit<GitCredential, 'encryptedSecret'>;
+
+const getEncryptionKey = (): Buffer => {
+  const rawKey = process.env.GIT_CREDENTIALS_ENCRYPTION_KEY;
+  if (!rawKey) {
+    throw new Error(
+      'GIT_CREDENTIALS_ENCRYPTION_KEY environment variable is missing...',
+    );
+  }
+
+  const key = Buffer.from(rawKey, 'base64');
+  if (key.length !== 32) {
+    throw new Error(
+      'GIT_CREDENTIALS_ENCRYPTION_KEY must be 32 bytes encoded as base64',
+    );
+  }
+  return key;
+};
+
+/**
+ * Encrypts a secret as `iv.authTag.ciphertext`, each part base64 encoded.
+ */
+export const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(IV_BYTE_LENGTH);
+  const cipher = crypto.createCipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    iv,
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(secret, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64'))
+    .join('.');
+};
+
+export const decryptSecret = (encryptedSecret: string): string => {
+  const [iv, authTag, ciphertext] = encryptedSecret
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64'));
+
+  const decipher = crypto.createDecipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    iv,
+  );
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+const toSummary = ({
+  encryptedSecret: _,
+  ...credential
+}: GitCredential): GitCredentialSummary => credential;
+
+export const normalizeGitHost = (host: string): string =>
+  host.trim().toLowerCase();
+
+interface CreateGitCredentialInput {
+  name: string;
+  teamId: string;
+  createdBy: string;
+  host: string;
+  type: GitCredentialType;
+  username?: string;
+  secret: string;
+  knownHosts?: string;
+}
+
+/**
+ * Stores a credential for a host, replacing the team's previous credential
+ * for the same host.
+ */
+export const saveGitCredential = async ({
+  secret,
+  host,
+  ...input
+}: CreateGitCredentialInput): Promise<GitCredentialSummary> => {
+  const values = {
+    ...input,
+    host: normalizeGitHost(host),
+    username: input.username ?? null,
+    knownHosts: input.knownHosts ?? null,
+    encryptedSecret: encryptSecret(secret),
+  };
+
+  const [credential] = await db
+    .insert(gitCredentials)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [gitCredentials.teamId, gitCredentials.host],
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  return toSummary(credential);
+};
+
+export const listGitCredentialsForTeam = async (
+  teamId: string,
+): Promise<GitCredentialSummary[]> => {
+  const credentials = await db
+    .select()
+    .from(gitCredentials)
+    .where(eq(gitCredentials.teamId, teamId))
+    .orderBy(desc(gitCredentials.createdAt));
+
+  return credentials.map(toSummary);
+};
+
+export const deleteGitCredential = async (
+  teamId: string,
+  credentialId: string,
+): Promise<boolean> => {
+  const deleted = await db
+    .delete(gitCredentials)
+    .where(
+      and(
+        eq(gitCredentials.id, credentialId),
+        eq(gitCredentials.teamId, teamId),
+      ),
+    )
+    .returning({ id: gitCredentials.id });
+
+  return deleted.length > 0;
+};
+
+export const hasGitCredentialForHost = async (
+  teamId: string,
+  host: string,
+): Promise<boolean> => {
+  const [credential] = await db
+    .select({ id: gitCredentials.id })
+    .from(gitCredentials)
+    .where(
+      and(
+        eq(gitCredentials.teamId, teamId),
+        eq(gitCredentials.host, normalizeGitHost(host)),
+      ),
+    )
+    .limit(1);
+
+  return Boolean(credential);
+};
+
+/**
+ * Looks up and decrypts the credential a team registered for a host.
+ * @param teamId The team running the job.
+ * @param host The host (and optional port) of the repository URL.
+ * @returns The decrypted credential, or null if none is registered.
+ */
+export const getGitCredentialForHost = async (
+  teamId: string,
+  host: string,
+): Promise<GitAuthCredential | null> => {
+  const [credential] = await db
+    .select()
+    .from(gitCredentials)
+    .where(
+      and(
+        eq(gitCredentials.teamId, teamId),
+        eq(gitCredentials.host, normalizeGitHost(host)),
+      ),
+    )
+    .limit(1);
+
+  if (!credential) {
+    return null;
+  }
+
+  return {
+    type: credential.type,
+    username: credential.username ?? undefined,
+    secret: decryptSecret(credential.encryptedSecret),
+    knownHosts: credential.knownHosts ?? undefined,
+  };
+};
@@ -0,0 +1,82 @@
+import { and, desc, eq } from 'drizzle-orm';
+
+import { db } from '~/db';
+import { type OutputTemplate, outputTemplates } from '~/db/schema';
+
+interface SaveOutputTemplateInput {
+  name: string;
+  teamId: string;
+  createdBy: string;
+  content: string;
+}
+
+/**
+ * Stores a template, replacing the team's previous template with the same
+ * name.
+ */
+export const saveOutputTemplate = async (
+  input: SaveOutputTemplateInput,
+): Promise<OutputTemplate> => {
+  const [template] = await db
+    .insert(outputTemplates)
+    .values(input)
+    .onConflictDoUpdate({
+      target: [outputTemplates.teamId, outputTemplates.name],
+      set: { ...input, updatedAt: new Date() },
+    })
+    .returning();
+
+  return template;
+};
+
+export const listOutputTemplatesForTeam = async (
+  teamId: string,
+): Promise<OutputTemplate[]> => {
+  return db
+    .select()
+    .from(outputTemplates)
+    .where(eq(outputTemplates.teamId, teamId))
+    .orderBy(desc(outputTemplates.createdAt));
+};
+
+export const deleteOutputTemplate = async (
+  teamId: string,
+  templateId: string,
+): Promise<boolean> => {
+  const deleted = await db
+    .delete(outputTemplates)
+    .where(
+      and(
+        eq(outputTemplates.id, templateId),
+        eq(outputTemplates.teamId, teamId),
+      ),
+    )
+    .returning({ id: outputTemplates.id });
+
+  return deleted.length > 0;
+};
+
+/**
+ * Looks up a team's template by the name used in the `template` option.
+ * @returns The template, or null if the team has none with that name.
+ */
+export const getOutputTemplateByName = async (
+  teamId: string,
+  name: string,
+): Promise<OutputTemplate | null> => {
+  const [template] = await db
+    .select()
+    .from(outputTemplates)
+    .where(
+      and(eq(outputTemplates.teamId, teamId), eq(outputTemplates.name, name)),
+    )
+    .limit(1);
+
+  return template ?? null;
+};
+
+export const teamHasOutputTemplate = async (
+  teamId: string | null,
+  name: string,
+): Promise<boolean> =>
+  teamId !== null && (await getOutputTemplateByName(teamId, name)) !== null;
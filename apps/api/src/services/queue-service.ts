@@ -8,6 +8,11 @@ let crawlQueue: Queue;
 let generateLlmsTxtQueue: Queue;
 let billingQueue: Queue;
 let treeQueue: Queue;
+let packQueue: Queue;
+let metricsQueue: Queue;
+let outlineQueue: Queue;
+let graphQueue: Queue;
+let webhookQueue: Queue;
 
 if (!process.env.REDIS_URL) {
   throw new Error('REDIS_URL environment variable is missing...');
@@ -19,9 +24,17 @@ export const redisConnection = new IORedis(process.env.REDIS_URL, {
 
 export const indexStoreQueueName = '{indexQueue}';
 export const treeQueueName = '{treeQueue}';
+export const packQueueName = '{packQueue}';
+export const metricsQueueName = '{metricsQueue}';
+export const outlineQueueName = '{outlineQueue}';
+export const graphQueueName = '{graphQueue}';
 export const generateLlmsTxtQueueName = '{generateLlmsTextQueue}';
 export const crawlQueueName = '{crawlQueue}';
 export const billingQueueName = '{billingQueue}';
+export const webhookQueueName = '{webhookQueue}';
+
+// Deliveries are retried after 2s, 4s, 8s, ... up to this many attempts
+export const WEBHOOK_MAX_ATTEMPTS = 8;
 
 export function getCrawlQueue() {
   if (!crawlQueue) {
@@ -94,3 +107,98 @@ export function getGenerateTreeQueue() {
   }
   return treeQueue;
 }
+
+export function getGeneratePackQueue() {
+  if (!packQueue) {
+    packQueue = new Queue(packQueueName, {
+      connection: redisConnection,
+      defaultJobOptions: {
+        removeOnComplete: {
+          age: 90000, // 25 hours
+        },
+        removeOnFail: {
+          age: 90000, // 25 hours
+        },
+      },
+    });
+    logger.info('Pack generation queue created');
+  }
+  return packQueue;
+}
+
+export function getGenerateMetricsQueue() {
+  if (!metricsQueue) {
+    metricsQueue = new Queue(metricsQueueName, {
+      connection: redisConnection,
+      defaultJobOptions: {
+        removeOnComplete: {
+          age: 90000, // 25 hours
+        },
+        removeOnFail: {
+          age: 90000, // 25 hours
+        },
+      },
+    });
+    logger.info('Metrics generation queue created');
+  }
+  return metricsQueue;
+}
+
+export function getGenerateOutlineQueue() {
+  if (!outlineQueue) {
+    outlineQueue = new Queue(outlineQueueName, {
+      connection: redisConnection,
+      defaultJobOptions: {
+        removeOnComplete: {
+          age: 90000, // 25 hours
+        },
+        removeOnFail: {
+          age: 90000, // 25 hours
+        },
+      },
+    });
+    logger.info('Outline generation queue created');
+  }
+  return outlineQueue;
+}
+
+export function getGenerateGraphQueue() {
+  if (!graphQueue) {
+    graphQueue = new Queue(graphQueueName, {
+      connection: redisConnection,
+      defaultJobOptions: {
+        removeOnComplete: {
+          age: 90000, // 25 hours
+        },
+        removeOnFail: {
+          age: 90000, // 25 hours
+        },
+      },
+    });
+    logger.info('Dependency graph generation queue created');
+  }
+  return graphQueue;
+}
+
+export function getWebhookQueue() {
+  if (!webhookQueue) {
+    webhookQueue = new Queue(webhookQueueName, {
+      connection: redisConnection,
+      defaultJobOptions: {
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: {
+          age: 3600, // 1 hour
+        },
+        removeOnFail: {
+          age: 90000, // 25 hours
+        },
+      },
+    });
+    logger.info('Webhook delivery queue created');
+  }
+  return webhookQueue;
+}
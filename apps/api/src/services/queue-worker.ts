@@ -5,16 +5,16 @@ import { v4 as uuidv4 } from 'uuid';
 import { logger as _logger } from '~/lib/logger';
 import {
   getGenerateLlmsTxtQueue,
+  getGenerateMetricsQueue,
+  getGenerateOutlineQueue,
+  getGenerateGraphQueue,
   getGenerateTreeQueue,
+  getGeneratePackQueue,
   redisConnection,
+  webhookQueueName,
 } from './queue-service';
 import systemMonitor from './system-monitor';
-import {
-  cleanOldConcurrencyLimitEntries,
-  pushConcurrencyLimitActiveJob,
-  removeConcurrencyLimitActiveJob,
-  takeConcurrencyLimitedJob,
-} from '~/lib/concurrency-limit';
+import { releaseConcurrencyLimitActiveJob } from '~/lib/concurrency-limit';
 import { updateGeneratedLlmsTxt } from '~/lib/generate-llms-txt/redis';
 import {
   getLlmsTextFromCache,
@@ -24,8 +24,36 @@ import {
   runLlmsTxtAction,
   runComprehensiveLlmsTxtAction,
   runFileTreeAction,
+  runFileMetricsAction,
+  runOutlineAction,
+  runDependencyGraphAction,
+  runDefaultAction,
 } from '~/core/actions';
-import { updateTreeGenerationDataStatus } from '~/lib/generate-tree';
+import {
+  updateTreeGenerationData,
+  updateTreeGenerationDataStatus,
+} from '~/lib/generate-tree';
+import { updatePackGenerationData } from '~/lib/generate-pack';
+import { updateMetricsGenerationData } from '~/lib/generate-metrics';
+import { updateOutlineGenerationData } from '~/lib/generate-outline';
+import { updateGraphGenerationData } from '~/lib/generate-graph';
+import { describeCrawlSource } from '~/core/utils/sourceUtils';
+import { getRemoteHost, parseRemoteValue } from '~/core/utils/remoteUtils';
+import { hasGitCredentialForHost } from '~/services/git-credentials-service';
+import { getOutputTemplateByName } from '~/services/output-templates-service';
+import {
+  type WebhookTarget,
+  createWebhookProgressCallback,
+  deliverWebhook,
+  sendWebhookEvent,
+} from '~/services/webhook-service';
+import {
+  createJobProgressPublisher,
+  isJobCancelled,
+  publishJobEvent,
+  watchJobCancellation,
+} from '~/lib/job-events';
+import type { CrawlProgressCallback, CrawlSource, JobEvent } from '~/types';
 
 /**
  * Globals
@@ -123,31 +151,19 @@ const workerFun = async (
           runningJobs.delete(job.id);
         }
 
-        if (job.id && job.data && job.data.teamId && job.data.plan) {
-          await removeConcurrencyLimitActiveJob(job.data.teamId, job.id);
-          cleanOldConcurrencyLimitEntries(job.data.teamId);
-
-          const nextJob = await takeConcurrencyLimitedJob(job.data.teamId);
-          if (nextJob !== null) {
-            await pushConcurrencyLimitActiveJob(
-              job.data.teamId,
-              nextJob.id,
-              60 * 1000,
-            );
-
-            await queue.add(
-              nextJob.id,
-              {
-                ...nextJob.data,
-                concurrencyLimitHit: true,
-              },
-              {
-                ...nextJob.opts,
-                jobId: nextJob.id,
-                priority: nextJob.priority,
-              },
-            );
-          }
+        // Cancelled jobs release their slot as soon as they're cancelled
+        if (
+          job.id &&
+          job.data &&
+          job.data.teamId &&
+          job.data.plan &&
+          !(await isJobCancelled(job.id))
+        ) {
+          await releaseConcurrencyLimitActiveJob(
+            job.data.teamId,
+            job.id,
+            queue,
+          );
         }
       }
 
@@ -173,6 +189,71 @@ const workerFun = async (
   }
 };
 
+/**
+ * Checks whether a job clones a remote repository with one of the team's
+ * stored credentials. Output of such jobs must not be shared via the cache.
+ */
+const usesGitCredential = async (
+  source: CrawlSource,
+  teamId: string | null,
+): Promise<boolean> => {
+  if (source.type !== 'remote' || !teamId) {
+    return false;
+  }
+  const { repoUrl } = parseRemoteValue(source.url);
+  return hasGitCredentialForHost(teamId, getRemoteHost(repoUrl));
+};
+
+/**
+ * Loads the source of the team's custom output template named by the
+ * `template` option, so the action does not need database access.
+ * @throws Error if the team has no template with that name.
+ */
+const resolveTemplateContent = async (
+  teamId: string | null,
+  templateName: string | undefined,
+): Promise<string | undefined> => {
+  if (!templateName) {
+    return undefined;
+  }
+  const template = teamId
+    ? await getOutputTemplateByName(teamId, templateName)
+    : null;
+  if (!template) {
+    throw new Error(`Output template "${templateName}" not found`);
+  }
+  return template.content;
+};
+
+/**
+ * Reports a job event to the job's webhook and to everyone streaming the
+ * job.
+ */
+const reportJobEvent = async (
+  target: WebhookTarget,
+  event: JobEvent,
+  data: Record<string, unknown> = {},
+): Promise<void> => {
+  await Promise.all([
+    sendWebhookEvent(target, event, data),
+    publishJobEvent(target.jobId, target.jobType, event, data),
+  ]);
+};
+
+const createJobProgressCallback = (
+  target: WebhookTarget,
+): CrawlProgressCallback => {
+  const callbacks = [
+    createWebhookProgressCallback(target),
+    createJobProgressPublisher(target.jobId, target.jobType),
+  ];
+  return (message, progress) => {
+    for (const callback of callbacks) {
+      callback(message, progress);
+    }
+  };
+};
+
 /**
  * Job Processor for LLMs Text Generation
  */
@@ -180,8 +261,21 @@ const processGenerateLlmsTxtJobInternal = async (
   token: string,
   job: Job & { id: string },
 ): Promise<{ success: boolean; data?: any; error?: string }> => {
-  const { generationId, request, teamId } = job.data;
-  const { url, maxUrls, showFullText } = request;
+  const { generationId, request, teamId, source, webhook } = job.data;
+  const { url, localPath, maxUrls, showFullText, ...requestOptions } = request;
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'llmstxt',
+  };
+  const cancellation = await watchJobCancellation(generationId);
+  const options = {
+    ...requestOptions,
+    teamId: teamId ?? undefined,
+    progressCallback: createJobProgressCallback(jobTarget),
+    signal: cancellation.signal,
+  };
 
   const logger = _logger.child({
     module: 'generate-llmstxt-worker',
@@ -189,7 +283,7 @@ const processGenerateLlmsTxtJobInternal = async (
     jobId: job.id,
     generationId,
     teamId: teamId ?? undefined,
-    url: url,
+    source: describeCrawlSource(source),
   });
 
   const extendLockInterval = setInterval(async () => {
@@ -208,10 +302,22 @@ const processGenerateLlmsTxtJobInternal = async (
 
   try {
     logger.info(`🚀 Starting LLMs text generation job`, { showFullText });
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
+
+    // Cached texts were generated from public remote URLs with the default
+    // options only
+    const useCache =
+      source.type === 'remote' &&
+      Object.keys(requestOptions).length === 0 &&
+      !(await usesGitCredential(source, teamId));
 
     const effectiveMaxUrls = Math.min(maxUrls ?? 5000, 5000);
     logger.info('Checking cache...');
-    const cachedResult = await getLlmsTextFromCache(url, effectiveMaxUrls);
+    const cachedResult = useCache
+      ? await getLlmsTextFromCache(url, effectiveMaxUrls)
+      : null;
 
     if (cachedResult) {
       logger.info('Cache hit!', { url });
@@ -230,37 +336,50 @@ const processGenerateLlmsTxtJobInternal = async (
         },
       };
       await job.moveToCompleted(jobResult, token, false);
+      await reportJobEvent(jobTarget, 'completed', {
+        showFullText: showFullText ?? false,
+      });
       logger.info(`✅ Job completed from cache`);
       return jobResult;
     }
 
     logger.info('Cache miss. Running appropriate action...');
+    const templateContent = await resolveTemplateContent(
+      teamId,
+      options.template,
+    );
     let actionResult: any;
     let generatedText: string;
     let fullText: string;
 
     if (showFullText) {
       logger.info('Running Comprehensive Action...');
-      actionResult = await runComprehensiveLlmsTxtAction(url, {
+      actionResult = await runComprehensiveLlmsTxtAction(source, {
         fileSummary: true,
         headerText: 'Comprehensive',
+        ...options,
+        templateContent,
       });
       generatedText = actionResult.comprehensiveText;
       fullText = actionResult.comprehensiveText;
     } else {
       logger.info('Running Standard Action...');
-      actionResult = await runLlmsTxtAction(url, {
+      actionResult = await runLlmsTxtAction(source, {
         compress: true,
         removeComments: true,
         removeEmptyLines: true,
         topFilesLen: 5,
+        ...options,
+        templateContent,
       });
       generatedText = actionResult.llmsTxt;
       fullText = actionResult.llmsTxt;
     }
 
-    logger.info('Action completed. Saving to cache...');
-    await saveLlmsTxtToCache(url, generatedText, fullText, effectiveMaxUrls);
+    if (useCache) {
+      logger.info('Action completed. Saving to cache...');
+      await saveLlmsTxtToCache(url, generatedText, fullText, effectiveMaxUrls);
+    }
 
     logger.info('Updating job status in Redis...');
     await updateGeneratedLlmsTxt(generationId, {
@@ -268,6 +387,9 @@ const processGenerateLlmsTxtJobInternal = async (
       generatedText: generatedText,
       fullText: fullText,
       showFullText: showFullText,
+      parts: actionResult.parts,
+      manifest: actionResult.manifest,
+      commitSha: actionResult.commitSha,
     });
 
     jobResult = {
@@ -275,11 +397,21 @@ const processGenerateLlmsTxtJobInternal = async (
       data: { generatedText, fullText, showFullText },
     };
     await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', {
+      showFullText: showFullText ?? false,
+      commitSha: actionResult.commitSha,
+    });
     logger.info(`✅ Job completed successfully after running action`);
   } catch (error) {
-    logger.error(`🚫 Job errored`, { error });
-    const errorMessage =
-      error instanceof Error
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
         ? error.message
         : 'Unknown error during processing';
     jobResult = { success: false, error: errorMessage };
@@ -295,11 +427,15 @@ const processGenerateLlmsTxtJobInternal = async (
     }
 
     await updateGeneratedLlmsTxt(generationId, {
-      status: 'failed',
+      status: cancelled ? 'cancelled' : 'failed',
+      error: errorMessage,
+    });
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
       error: errorMessage,
     });
   } finally {
     clearInterval(extendLockInterval);
+    await cancellation.stop();
     logger.info(`🛑 Job processing finished.`);
   }
   return jobResult;
@@ -312,7 +448,15 @@ const processTreeJobInternal = async (
   token: string,
   job: Job & { id: string },
 ): Promise<{ success: boolean; data?: any; error?: string }> => {
-  const { url, generationId, userId } = job.data; // Extract necessary data
+  const { source, options, generationId, userId, teamId, webhook } = job.data; // Extract necessary data
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'tree',
+  };
+
+  const cancellation = await watchJobCancellation(generationId);
 
   const logger = _logger.child({
     module: 'generate-tree-worker',
@@ -320,7 +464,7 @@ const processTreeJobInternal = async (
     jobId: job.id,
     generationId,
     userId: userId ?? undefined, // Include userId if present
-    url: url,
+    source: describeCrawlSource(source),
   });
 
   const extendLockInterval = setInterval(async () => {
@@ -339,29 +483,46 @@ const processTreeJobInternal = async (
 
   try {
     logger.info(`🚀 Starting File Tree generation job`);
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
 
     await updateTreeGenerationDataStatus(generationId, 'processing');
 
-    const tree = await runFileTreeAction(url, {});
+    const tree = await runFileTreeAction(source, {
+      ...options,
+      teamId: teamId ?? undefined,
+      progressCallback: createJobProgressCallback(jobTarget),
+      signal: cancellation.signal,
+    });
 
     logger.info('File Tree action completed.');
 
-    await updateTreeGenerationDataStatus(
-      generationId,
-      'completed',
-      tree.treeString,
-    );
+    await updateTreeGenerationData(generationId, {
+      status: 'completed',
+      fileTree: tree.treeString,
+      commitSha: tree.commitSha,
+    });
 
     jobResult = {
       success: true,
       data: { tree },
     };
     await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', {
+      commitSha: tree.commitSha,
+    });
     logger.info(`✅ Job completed successfully`);
   } catch (error) {
-    logger.error(`🚫 Job errored`, { error });
-    const errorMessage =
-      error instanceof Error
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
         ? error.message
         : 'Unknown error during processing';
     jobResult = { success: false, error: errorMessage };
@@ -369,7 +530,7 @@ const processTreeJobInternal = async (
     try {
       await updateTreeGenerationDataStatus(
         generationId,
-        'failed',
+        cancelled ? 'cancelled' : 'failed',
         errorMessage,
       );
     } catch (statusUpdateError) {
@@ -377,6 +538,503 @@ const processTreeJobInternal = async (
         statusUpdateError,
       });
     }
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
+      error: errorMessage,
+    });
+
+    try {
+      await job.moveToFailed(
+        error instanceof Error ? error : new Error(errorMessage),
+        token,
+        false,
+      );
+    } catch (moveError) {
+      logger.error('Failed to move job to failed state in queue', {
+        moveError,
+      });
+    }
+  } finally {
+    clearInterval(extendLockInterval);
+    await cancellation.stop();
+    logger.info(`🛑 Job processing finished.`);
+  }
+
+  return jobResult;
+};
+
+/**
+ * Job Processor for Repository Packing
+ */
+const processPackJobInternal = async (
+  token: string,
+  job: Job & { id: string },
+): Promise<{ success: boolean; data?: any; error?: string }> => {
+  const { source, options, generationId, userId, teamId, webhook } = job.data;
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'pack',
+  };
+
+  const cancellation = await watchJobCancellation(generationId);
+
+  const logger = _logger.child({
+    module: 'generate-pack-worker',
+    method: 'processPackJobInternal',
+    jobId: job.id,
+    generationId,
+    userId: userId ?? undefined,
+    source: describeCrawlSource(source),
+  });
+
+  const extendLockInterval = setInterval(async () => {
+    try {
+      logger.info(`🔄 Worker extending lock on job ${job.id}`);
+      await job.extendLock(token, jobLockExtensionTime);
+    } catch (lockError) {
+      logger.error(`Failed to extend lock for job ${job.id}`, { lockError });
+    }
+  }, jobLockExtendInterval);
+
+  let jobResult: { success: boolean; data?: any; error?: string } = {
+    success: false,
+    error: 'Processing did not complete',
+  };
+
+  try {
+    logger.info(`🚀 Starting pack job`);
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
+
+    const { packResult, commitSha, repositoryCommitShas, config } =
+      await runDefaultAction(source, {
+        ...options,
+        teamId: teamId ?? undefined,
+        templateContent: await resolveTemplateContent(teamId, options.template),
+        progressCallback: createJobProgressCallback(jobTarget),
+        signal: cancellation.signal,
+      });
+
+    logger.info('Pack action completed.');
+
+    await updatePackGenerationData(generationId, {
+      status: 'completed',
+      ...packResult,
+      commitSha,
+      repositoryCommitShas,
+      diff: config.output.diff,
+    });
+
+    jobResult = {
+      success: true,
+      data: {
+        totalFiles: packResult.totalFiles,
+        totalTokens: packResult.totalTokens,
+        commitSha,
+        repositoryCommitShas,
+      },
+    };
+    await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', jobResult.data);
+    logger.info(`✅ Job completed successfully`);
+  } catch (error) {
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error during processing';
+    jobResult = { success: false, error: errorMessage };
+
+    try {
+      await updatePackGenerationData(generationId, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: errorMessage,
+      });
+    } catch (statusUpdateError) {
+      logger.error('Failed to update job status to failed in storage', {
+        statusUpdateError,
+      });
+    }
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
+      error: errorMessage,
+    });
+
+    try {
+      await job.moveToFailed(
+        error instanceof Error ? error : new Error(errorMessage),
+        token,
+        false,
+      );
+    } catch (moveError) {
+      logger.error('Failed to move job to failed state in queue', {
+        moveError,
+      });
+    }
+  } finally {
+    clearInterval(extendLockInterval);
+    await cancellation.stop();
+    logger.info(`🛑 Job processing finished.`);
+  }
+
+  return jobResult;
+};
+
+/**
+ * Job Processor for Repository Metrics
+ */
+const processMetricsJobInternal = async (
+  token: string,
+  job: Job & { id: string },
+): Promise<{ success: boolean; data?: any; error?: string }> => {
+  const { source, options, generationId, userId, teamId, webhook } = job.data;
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'metrics',
+  };
+
+  const cancellation = await watchJobCancellation(generationId);
+
+  const logger = _logger.child({
+    module: 'generate-metrics-worker',
+    method: 'processMetricsJobInternal',
+    jobId: job.id,
+    generationId,
+    userId: userId ?? undefined,
+    source: describeCrawlSource(source),
+  });
+
+  const extendLockInterval = setInterval(async () => {
+    try {
+      logger.info(`🔄 Worker extending lock on job ${job.id}`);
+      await job.extendLock(token, jobLockExtensionTime);
+    } catch (lockError) {
+      logger.error(`Failed to extend lock for job ${job.id}`, { lockError });
+    }
+  }, jobLockExtendInterval);
+
+  let jobResult: { success: boolean; data?: any; error?: string } = {
+    success: false,
+    error: 'Processing did not complete',
+  };
+
+  try {
+    logger.info(`🚀 Starting metrics job`);
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
+
+    const { metrics, commitSha, suspiciousFilesResults } =
+      await runFileMetricsAction(source, {
+        ...options,
+        teamId: teamId ?? undefined,
+        progressCallback: createJobProgressCallback(jobTarget),
+        signal: cancellation.signal,
+      });
+
+    logger.info('Metrics action completed.');
+
+    await updateMetricsGenerationData(generationId, {
+      status: 'completed',
+      metrics,
+      suspiciousFilesResults,
+      commitSha,
+    });
+
+    jobResult = {
+      success: true,
+      data: {
+        totalFiles: metrics.totals.files,
+        totalTokens: metrics.totals.tokens,
+        commitSha,
+      },
+    };
+    await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', jobResult.data);
+    logger.info(`✅ Job completed successfully`);
+  } catch (error) {
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error during processing';
+    jobResult = { success: false, error: errorMessage };
+
+    try {
+      await updateMetricsGenerationData(generationId, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: errorMessage,
+      });
+    } catch (statusUpdateError) {
+      logger.error('Failed to update job status to failed in storage', {
+        statusUpdateError,
+      });
+    }
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
+      error: errorMessage,
+    });
+
+    try {
+      await job.moveToFailed(
+        error instanceof Error ? error : new Error(errorMessage),
+        token,
+        false,
+      );
+    } catch (moveError) {
+      logger.error('Failed to move job to failed state in queue', {
+        moveError,
+      });
+    }
+  } finally {
+    clearInterval(extendLockInterval);
+    await cancellation.stop();
+    logger.info(`🛑 Job processing finished.`);
+  }
+
+  return jobResult;
+};
+
+/**
+ * Job Processor for Code Outlines
+ */
+const processOutlineJobInternal = async (
+  token: string,
+  job: Job & { id: string },
+): Promise<{ success: boolean; data?: any; error?: string }> => {
+  const { source, options, generationId, userId, teamId, webhook } = job.data;
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'outline',
+  };
+
+  const cancellation = await watchJobCancellation(generationId);
+
+  const logger = _logger.child({
+    module: 'generate-outline-worker',
+    method: 'processOutlineJobInternal',
+    jobId: job.id,
+    generationId,
+    userId: userId ?? undefined,
+    source: describeCrawlSource(source),
+  });
+
+  const extendLockInterval = setInterval(async () => {
+    try {
+      logger.info(`🔄 Worker extending lock on job ${job.id}`);
+      await job.extendLock(token, jobLockExtensionTime);
+    } catch (lockError) {
+      logger.error(`Failed to extend lock for job ${job.id}`, { lockError });
+    }
+  }, jobLockExtendInterval);
+
+  let jobResult: { success: boolean; data?: any; error?: string } = {
+    success: false,
+    error: 'Processing did not complete',
+  };
+
+  try {
+    logger.info(`🚀 Starting outline job`);
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
+
+    const { symbols, totalFiles, commitSha, suspiciousFilesResults } =
+      await runOutlineAction(source, {
+        ...options,
+        teamId: teamId ?? undefined,
+        progressCallback: createJobProgressCallback(jobTarget),
+        signal: cancellation.signal,
+      });
+
+    logger.info('Outline action completed.');
+
+    await updateOutlineGenerationData(generationId, {
+      status: 'completed',
+      symbols,
+      totalFiles,
+      suspiciousFilesResults,
+      commitSha,
+    });
+
+    jobResult = {
+      success: true,
+      data: {
+        totalFiles,
+        totalSymbols: symbols.length,
+        commitSha,
+      },
+    };
+    await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', jobResult.data);
+    logger.info(`✅ Job completed successfully`);
+  } catch (error) {
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error during processing';
+    jobResult = { success: false, error: errorMessage };
+
+    try {
+      await updateOutlineGenerationData(generationId, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: errorMessage,
+      });
+    } catch (statusUpdateError) {
+      logger.error('Failed to update job status to failed in storage', {
+        statusUpdateError,
+      });
+    }
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
+      error: errorMessage,
+    });
+
+    try {
+      await job.moveToFailed(
+        error instanceof Error ? error : new Error(errorMessage),
+        token,
+        false,
+      );
+    } catch (moveError) {
+      logger.error('Failed to move job to failed state in queue', {
+        moveError,
+      });
+    }
+  } finally {
+    clearInterval(extendLockInterval);
+    await cancellation.stop();
+    logger.info(`🛑 Job processing finished.`);
+  }
+
+  return jobResult;
+};
+
+/**
+ * Job Processor for Dependency Graphs
+ */
+const processGraphJobInternal = async (
+  token: string,
+  job: Job & { id: string },
+): Promise<{ success: boolean; data?: any; error?: string }> => {
+  const { source, options, generationId, userId, teamId, webhook } = job.data;
+  const jobTarget: WebhookTarget = {
+    webhook,
+    teamId,
+    jobId: generationId,
+    jobType: 'graph',
+  };
+
+  const cancellation = await watchJobCancellation(generationId);
+
+  const logger = _logger.child({
+    module: 'generate-graph-worker',
+    method: 'processGraphJobInternal',
+    jobId: job.id,
+    generationId,
+    userId: userId ?? undefined,
+    source: describeCrawlSource(source),
+  });
+
+  const extendLockInterval = setInterval(async () => {
+    try {
+      logger.info(`🔄 Worker extending lock on job ${job.id}`);
+      await job.extendLock(token, jobLockExtensionTime);
+    } catch (lockError) {
+      logger.error(`Failed to extend lock for job ${job.id}`, { lockError });
+    }
+  }, jobLockExtendInterval);
+
+  let jobResult: { success: boolean; data?: any; error?: string } = {
+    success: false,
+    error: 'Processing did not complete',
+  };
+
+  try {
+    logger.info(`🚀 Starting dependency graph job`);
+    // Cancelled while it was queued
+    cancellation.signal.throwIfAborted();
+    await reportJobEvent(jobTarget, 'started');
+
+    const { graph, output, commitSha } = await runDependencyGraphAction(
+      source,
+      {
+        ...options,
+        teamId: teamId ?? undefined,
+        progressCallback: createJobProgressCallback(jobTarget),
+        signal: cancellation.signal,
+      },
+    );
+
+    logger.info('Dependency graph action completed.');
+
+    await updateGraphGenerationData(generationId, {
+      status: 'completed',
+      graph,
+      output,
+      commitSha,
+    });
+
+    jobResult = {
+      success: true,
+      data: {
+        totalNodes: graph.nodes.length,
+        totalEdges: graph.edges.length,
+        commitSha,
+      },
+    };
+    await job.moveToCompleted(jobResult, token, false);
+    await reportJobEvent(jobTarget, 'completed', jobResult.data);
+    logger.info(`✅ Job completed successfully`);
+  } catch (error) {
+    const cancelled = cancellation.signal.aborted;
+    if (cancelled) {
+      logger.info(`🛑 Job cancelled`);
+    } else {
+      logger.error(`🚫 Job errored`, { error });
+    }
+    const errorMessage = cancelled
+      ? 'Job cancelled'
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error during processing';
+    jobResult = { success: false, error: errorMessage };
+
+    try {
+      await updateGraphGenerationData(generationId, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: errorMessage,
+      });
+    } catch (statusUpdateError) {
+      logger.error('Failed to update job status to failed in storage', {
+        statusUpdateError,
+      });
+    }
+    await reportJobEvent(jobTarget, cancelled ? 'cancelled' : 'failed', {
+      error: errorMessage,
+    });
 
     try {
       await job.moveToFailed(
@@ -391,6 +1049,7 @@ const processTreeJobInternal = async (
     }
   } finally {
     clearInterval(extendLockInterval);
+    await cancellation.stop();
     logger.info(`🛑 Job processing finished.`);
   }
 
@@ -399,12 +1058,23 @@ const processTreeJobInternal = async (
 
 // Start all workers
 (async () => {
+  // Webhook deliveries are light network calls, so they run concurrently
+  // and outside the load-aware job loop
+  const webhookWorker = new Worker(webhookQueueName, deliverWebhook, {
+    connection: redisConnection,
+    concurrency: 10,
+  });
+
   await Promise.all([
     workerFun(
       getGenerateLlmsTxtQueue(),
       processGenerateLlmsTxtJobInternal as any,
     ),
     workerFun(getGenerateTreeQueue(), processTreeJobInternal as any),
+    workerFun(getGeneratePackQueue(), processPackJobInternal as any),
+    workerFun(getGenerateMetricsQueue(), processMetricsJobInternal as any),
+    workerFun(getGenerateOutlineQueue(), processOutlineJobInternal as any),
+    workerFun(getGenerateGraphQueue(), processGraphJobInternal as any),
   ]);
 
   console.log('All workers exited. Waiting for all jobs to finish...');
@@ -413,6 +1083,8 @@ const processTreeJobInternal = async (
     await new Promise((resolve) => setTimeout(resolve, 500));
   }
 
+  await webhookWorker.close();
+
   console.log('All jobs finished. Worker out!');
   process.exit(0);
 })();
@@ -0,0 +1,15 @@
+import { and, eq } from 'drizzle-orm';
+
+import { db } from '~/db';
+import { teamMembers } from '~/db/schema';
+
+export const isTeamMember = async (
+  userId: string,
+  teamId: string,
+): Promise<boolean> => {
+  const [membership] = await db
+    .select()
+    .from(teamMembers)
+    .where(and(eq(teamMembers.userId, userId), eq(teamMembers.teamId, teamId)));
+  return Boolean(membership);
+};
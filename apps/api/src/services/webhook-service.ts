@@ -0,0 +1,280 @@
+import crypto from 'node:crypto';
+import axios from 'axios';
+import type { Job } from 'bullmq';
+import { and, desc, eq } from 'drizzle-orm';
+
+import { db } from '~/db';
+import { type WebhookDelivery, teams, webhookDeliveries } from '~/db/schema';
+import { logger as _logger } from '~/lib/logger';
+import {
+  lookupPublicAddress,
+  resolvePublicAddresses,
+} from '~/lib/public-address';
+import type {
+  CrawlProgressCallback,
+  JobEvent,
+  JobType,
+  WebhookOptions,
+} from '~/types';
+import { getWebhookQueue } from './queue-service';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// Progress events are sent at most this often per job
+const WEBHOOK_PROGRESS_INTERVAL_MS = 5_000;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Codecrawl-Signature';
+
+/**
+ * The job a webhook reports on. Events are only sent when the job was
+ * submitted with a webhook by a team's API key.
+ */
+export interface WebhookTarget {
+  webhook?: WebhookOptions | null;
+  teamId: string | null;
+  jobId: string;
+  jobType: JobType;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: JobEvent;
+  jobId: string;
+  jobType: JobType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+interface WebhookDeliveryJobData {
+  deliveryId: string;
+  teamId: string;
+  url: string;
+  headers: Record<string, string>;
+  payload: WebhookPayload;
+}
+
+const createWebhookSecret = () =>
+  `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+
+/**
+ * Returns the secret a team's webhook deliveries are signed with, creating
+ * it on first use.
+ */
+export const getOrCreateWebhookSecret = async (
+  teamId: string,
+): Promise<string> => {
+  const [team] = await db
+    .select({ webhookSecret: teams.webhookSecret })
+    .from(teams)
+    .where(eq(teams.id, teamId))
+    .limit(1);
+  if (!team) {
+    throw new Error(`Team ${teamId} not found`);
+  }
+  if (team.webhookSecret) {
+    return team.webhookSecret;
+  }
+  return rotateWebhookSecret(teamId);
+};
+
+export const rotateWebhookSecret = async (teamId: string): Promise<string> => {
+  const webhookSecret = createWebhookSecret();
+  await db
+    .update(teams)
+    .set({ webhookSecret, updatedAt: new Date() })
+    .where(eq(teams.id, teamId));
+  return webhookSecret;
+};
+
+/**
+ * Signs a delivery the way receivers verify it: an HMAC-SHA256 of
+ * `<timestamp>.<body>`, sent as `t=<timestamp>,v1=<hex digest>`.
+ * @param secret The team's webhook secret.
+ * @param timestamp Unix time in seconds; receivers should reject old ones.
+ * @param body The exact request body.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string => {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+};
+
+/**
+ * Records a delivery in the log and queues it. Failures are logged rather
+ * than thrown, so a broken webhook never fails the job it reports on.
+ */
+export const sendWebhookEvent = async (
+  target: WebhookTarget,
+  event: JobEvent,
+  data: Record<string, unknown> = {},
+): Promise<void> => {
+  const { webhook, teamId, jobId, jobType } = target;
+  if (!webhook || !teamId) {
+    return;
+  }
+  if (webhook.events && !webhook.events.includes(event)) {
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    event,
+    jobId,
+    jobType,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+
+  try {
+    await db.insert(webhookDeliveries).values({
+      id: payload.id,
+      teamId,
+      jobId,
+      event,
+      url: webhook.url,
+      payload,
+    });
+    await getWebhookQueue().add(
+      payload.id,
+      {
+        deliveryId: payload.id,
+        teamId,
+        url: webhook.url,
+        headers: webhook.headers ?? {},
+        payload,
+      } satisfies WebhookDeliveryJobData,
+      { jobId: payload.id },
+    );
+  } catch (error) {
+    _logger.error('Failed to queue webhook event', { jobId, event, error });
+  }
+};
+
+/**
+ * Creates a progress callback that sends `progress` events, throttled so a
+ * job processing thousands of files doesn't flood the endpoint.
+ */
+export const createWebhookProgressCallback = (
+  target: WebhookTarget,
+): CrawlProgressCallback => {
+  let lastSentAt = 0;
+  return (message, progress) => {
+    const now = Date.now();
+    if (now - lastSentAt < WEBHOOK_PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    lastSentAt = now;
+    void sendWebhookEvent(target, 'progress', { message, ...progress });
+  };
+};
+
+/**
+ * Posts one queued delivery and records the attempt. Throws when the
+ * endpoint can't be reached or doesn't answer with a 2xx status, so the
+ * queue retries it with backoff. Only public addresses are connected to,
+ * whatever the host resolves to by the time of delivery.
+ */
+export const deliverWebhook = async (
+  job: Job<WebhookDeliveryJobData>,
+): Promise<void> => {
+  const { deliveryId, teamId, url, headers, payload } = job.data;
+  const attempt = job.attemptsMade + 1;
+  const maxAttempts = job.opts.attempts ?? 1;
+  const logger = _logger.child({
+    module: 'webhook-delivery',
+    deliveryId,
+    jobId: payload.jobId,
+    event: payload.event,
+    attempt,
+  });
+
+  const body = JSON.stringify(payload);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // IP addresses in the URL are connected to without a lookup
+    await resolvePublicAddresses(new URL(url).hostname);
+    const secret = await getOrCreateWebhookSecret(teamId);
+    const response = await axios.post(url, body, {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'User-Agent': 'Codecrawl-Webhooks/1.0',
+        'X-Codecrawl-Event': payload.event,
+        'X-Codecrawl-Delivery': deliveryId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          secret,
+          Math.floor(Date.now() / 1000),
+          body,
+        ),
+      },
+      lookup: lookupPublicAddress,
+      maxRedirects: 0,
+      // Any status is recorded; only 2xx counts as delivered
+      validateStatus: () => true,
+      // Sent as is, so the signature matches the body
+      transformRequest: [(data) => data],
+      timeout: WEBHOOK_TIMEOUT_MS,
+    });
+    responseStatus = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint responded with status ${response.status}`;
+    }
+  } catch (deliveryError) {
+    error =
+      deliveryError instanceof Error
+        ? deliveryError.message
+        : 'Unknown delivery error';
+  }
+
+  const now = new Date();
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: error
+        ? attempt >= maxAttempts
+          ? 'failed'
+          : 'retrying'
+        : 'succeeded',
+      attempts: attempt,
+      responseStatus,
+      error,
+      updatedAt: now,
+      deliveredAt: error ? null : now,
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+
+  if (error) {
+    logger.warn('Webhook delivery failed', { error, responseStatus });
+    throw new Error(error);
+  }
+  logger.info('Webhook delivered', { responseStatus });
+};
+
+/**
+ * Lists a team's most recent deliveries, optionally for a single job.
+ */
+export const listWebhookDeliveries = async (
+  teamId: string,
+  { jobId, limit }: { jobId?: string; limit: number },
+): Promise<WebhookDelivery[]> => {
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      jobId
+        ? and(
+            eq(webhookDeliveries.teamId, teamId),
+            eq(webhookDeliveries.jobId, jobId),
+          )
+        : eq(webhookDeliveries.teamId, teamId),
+    )
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+};
@@ -1,6 +1,44 @@
-import type { OutputStyle } from './config/configSchema';
+import type { TiktokenEncoding } from 'tiktoken';
 
-export type CrawlProgressCallback = (message: string) => void;
+import type {
+  DependencyGraphFormat,
+  DependencyGraphLevel,
+  OutputStyle,
+  SplitOutputConfig,
+} from './config/configSchema';
+
+export type CrawlProgressPhase =
+  | 'searching'
+  | 'sorting'
+  | 'collecting'
+  | 'security'
+  | 'processing'
+  | 'generating'
+  | 'ranking'
+  | 'outlining'
+  | 'graphing'
+  | 'metrics';
+
+/**
+ * Structured state of a running job, sent along with progress messages.
+ * File counts and metrics refer to the current phase.
+ */
+export interface CrawlProgress {
+  phase: CrawlProgressPhase;
+  filesDone?: number;
+  filesTotal?: number;
+  currentFile?: string;
+  // Totals of the files done so far
+  metrics?: {
+    totalCharacters: number;
+    totalTokens: number;
+  };
+}
+
+export type CrawlProgressCallback = (
+  message: string,
+  progress?: CrawlProgress,
+) => void;
 
 export type PlanType = 'standard' | 'scale' | 'hobby' | 'growth' | 'free';
 
@@ -16,6 +54,10 @@ export interface CrawlOptions {
   // Codecrawl Cloud Options
   teamId?: string;
   plan?: string;
+  // Receives progress messages while a job runs
+  progressCallback?: CrawlProgressCallback;
+  // Aborts the job: git processes are killed and pending work is dropped
+  signal?: AbortSignal;
 
   // Output Options
   output?: string;
@@ -30,8 +72,34 @@ export interface CrawlOptions {
   removeEmptyLines?: boolean;
   headerText?: string;
   instructionFilePath?: string;
+  // Name of a team's custom output template
+  template?: string;
+  // Source of the custom template, resolved from `template` by the worker
+  templateContent?: string;
   includeEmptyDirectories?: boolean;
   gitSortByChanges?: boolean;
+  // Adds the recent commits, and per-file history metadata, to the output
+  gitIncludeLog?: boolean;
+  gitIncludeBlameSummary?: boolean;
+  gitLogMaxCommits?: number;
+  // Renders the files' symbols instead of their contents
+  outline?: boolean;
+  // Packs only the files most relevant to this natural-language task, at
+  // most `taskMaxFiles` of them
+  task?: string;
+  taskMaxFiles?: number;
+  // Adds the graph of the files' imports to the output
+  dependencyGraph?: {
+    level?: DependencyGraphLevel;
+    format?: DependencyGraphFormat;
+  };
+  // Sizes the chunks of the `chunks` style, in tokens
+  chunking?: {
+    maxTokens?: number;
+    overlapTokens?: number;
+  };
+  maxTokens?: number;
+  splitOutput?: SplitOutputConfig;
 
   // Filter Options
   include?: string;
@@ -42,6 +110,10 @@ export interface CrawlOptions {
   // Remote Repository Options
   remote?: string;
   remoteBranch?: string;
+  // Directory of the repository to crawl; it becomes the output's root
+  subpath?: string;
+  // Packs only the changes between two refs of a remote repository
+  diff?: DiffOptions;
 
   // Configuration Options
   config?: string;
@@ -50,9 +122,12 @@ export interface CrawlOptions {
 
   // Security Options
   securityCheck?: boolean;
+  suspiciousFileAction?: 'exclude' | 'redact';
 
   // Token Count Options
   tokenCountEncoding?: string;
+  // Metrics also count tokens with these encodings
+  tokenCountEncodings?: TiktokenEncoding[];
 
   // Other Options
   topFilesLen?: number;
@@ -60,6 +135,74 @@ export interface CrawlOptions {
   quiet?: boolean;
 }
 
+/**
+ * Diff mode: the output holds the changes made on `head` since it branched
+ * off `base`, instead of the whole repository.
+ */
+export interface DiffOptions {
+  // Ref the changes are compared against, e.g. `main`
+  base: string;
+  // Ref with the changes; defaults to the ref being crawled
+  head?: string;
+  // Also include the full content of changed files
+  includeFileContent?: boolean;
+  // Also include the full content of the files that changed files import,
+  // one hop away; implies includeFileContent
+  includeImports?: boolean;
+}
+
+/**
+ * One repository of a multi-repository source. Its files appear under
+ * `prefix`, and its filters replace (include) or extend (ignore) the
+ * request's own.
+ */
+export interface CrawlRepository {
+  url: string;
+  ref?: string;
+  subpath?: string;
+  prefix: string;
+  include?: string;
+  ignore?: string;
+}
+
+/**
+ * Where the files to crawl come from. A plain string is treated as a remote
+ * repository URL or shorthand.
+ */
+export type CrawlSource =
+  | { type: 'remote'; url: string }
+  | { type: 'local'; path: string }
+  | { type: 'archive'; archivePath: string; fileName: string }
+  | { type: 'repositories'; repositories: CrawlRepository[] };
+
+export type JobType =
+  | 'tree'
+  | 'llmstxt'
+  | 'pack'
+  | 'metrics'
+  | 'outline'
+  | 'graph';
+
+export type JobStatus = 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Lifecycle events of a job, sent to webhooks and job streams
+export const JOB_EVENTS = [
+  'started',
+  'progress',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+
+export type JobEvent = (typeof JOB_EVENTS)[number];
+
+export interface WebhookOptions {
+  url: string;
+  headers?: Record<string, string>;
+  // Events to send; all of them when omitted
+  events?: JobEvent[];
+}
+
 export enum RateLimiterMode {
   Crawl = 'crawl',
   CrawlStatus = 'crawlStatus',
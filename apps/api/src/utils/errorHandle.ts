@@ -7,6 +7,13 @@ export class RepomixConfigValidationError extends Error {
   }
 }
 
+export class CrawlSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrawlSourceError';
+  }
+}
+
 export const rethrowValidationErrorIfZodError = (
   error: unknown,
   message: string,
@@ -26,7 +26,7 @@ export function CreateKeyModal() {
       setOpen(false);
       toast({
         title: 'Key created',
-        description: 'Your key has been created',
+        description: "Copy your key now, it won't be shown again",
         button: {
           label: 'Copy',
           onClick: () => {
@@ -5,16 +5,21 @@ import { useCopyToClipboard } from 'usehooks-ts';
 import { ClipboardDocumentIcon } from '@heroicons/react/24/outline';
 
 import { codecrawl } from '~/lib/codecrawl';
+import { usePlaygroundSettingsStore } from '~/store/use-playground-settings';
 
 export function LLMsTxtTab() {
   const [llmstxt, setLLMsTxt] = useState<any>(null);
   const [isFetching, setIsFetching] = useState(false);
   const [githubUrl, setGithubUrl] = useState('');
   const [, copy] = useCopyToClipboard();
+  const getCrawlOptions = usePlaygroundSettingsStore(
+    (state) => state.getCrawlOptions,
+  );
 
   const generateLLMsTxt = async () => {
     setIsFetching(true);
     const response = await codecrawl.generateLLMsTxt(githubUrl, {
+      ...getCrawlOptions(),
       showFullText: true,
     });
     if ('data' in response && response.success) {
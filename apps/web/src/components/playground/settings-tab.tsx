@@ -4,7 +4,7 @@ import { usePlaygroundSettingsStore } from '~/store/use-playground-settings';
 export function SettingsTab() {
   // Get state and actions from the Zustand store
   const {
-    output,
+    style,
     include,
     ignore,
     fileSummary,
@@ -17,10 +17,10 @@ export function SettingsTab() {
     setSettings,
   } = usePlaygroundSettingsStore();
 
-  type OutputFormat = 'xml' | 'markdown' | 'plain' | undefined;
+  type OutputFormat = 'xml' | 'markdown' | 'plain' | 'json' | undefined;
 
   const handleFormatChange = (newFormat: OutputFormat) => {
-    setSettings({ output: newFormat });
+    setSettings({ style: newFormat });
   };
 
   const handleCheckboxChange = (key: string, checked: boolean) => {
@@ -37,7 +37,7 @@ export function SettingsTab() {
             </Text>
             <Flex gap="2">
               <Button
-                variant={output === 'xml' ? 'solid' : 'outline'}
+                variant={style === 'xml' ? 'solid' : 'outline'}
                 color="tomato"
                 size="2"
                 onClick={() => handleFormatChange('xml')}
@@ -45,7 +45,7 @@ export function SettingsTab() {
                 XML
               </Button>
               <Button
-                variant={output === 'markdown' ? 'solid' : 'outline'}
+                variant={style === 'markdown' ? 'solid' : 'outline'}
                 color="tomato"
                 size="2"
                 onClick={() => handleFormatChange('markdown')}
@@ -53,13 +53,21 @@ export function SettingsTab() {
                 Markdown
               </Button>
               <Button
-                variant={output === 'plain' ? 'solid' : 'outline'}
+                variant={style === 'plain' ? 'solid' : 'outline'}
                 color="tomato"
                 size="2"
                 onClick={() => handleFormatChange('plain')}
               >
                 Plain
               </Button>
+              <Button
+                variant={style === 'json' ? 'solid' : 'outline'}
+                color="tomato"
+                size="2"
+                onClick={() => handleFormatChange('json')}
+              >
+                JSON
+              </Button>
             </Flex>
           </Flex>
 
@@ -21,7 +21,7 @@ export interface Team {
 export interface ApiKey {
   id: string;
   name: string;
-  key: string;
+  keyPrefix: string;
 }
 
 interface TeamsContextType {
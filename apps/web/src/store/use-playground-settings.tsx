@@ -16,7 +16,6 @@ type PlaygroundConfigurableOptions = Pick<
   | 'gitignore'
   | 'defaultPatterns'
   | 'securityCheck'
-  | 'output'
   | 'style'
   | 'parsableStyle'
   | 'compress'
@@ -54,7 +53,6 @@ const initialPlaygroundSettingsState: PlaygroundSettingsState = {
   defaultPatterns: true,
   securityCheck: false,
   // Default values for potentially undefined CrawlOptions properties
-  output: 'markdown',
   style: 'markdown',
   parsableStyle: true,
   compress: false,
@@ -93,6 +91,7 @@ export const usePlaygroundSettingsStore = create<PlaygroundSettingsStore>()(
     }),
     {
       name: 'playground-settings-storage', // Name of the item in storage (must be unique)
+      version: 1, // Bumped when `output` was replaced by `style`
     },
   ),
 );
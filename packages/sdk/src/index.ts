@@ -14,7 +14,25 @@ export interface CodecrawlAppConfig {
   apiUrl?: string | null;
 }
 
-export type OutputStyle = 'markdown' | 'xml' | 'plain';
+export type OutputStyle = 'markdown' | 'xml' | 'plain' | 'json' | 'chunks';
+
+export type WebhookEvent =
+  | 'started'
+  | 'progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Webhook called as a job runs. Deliveries are signed with your team's
+ * webhook secret in the `X-Codecrawl-Signature` header.
+ */
+export interface WebhookOptions {
+  url: string;
+  headers?: Record<string, string>;
+  // Events to send; all of them when omitted
+  events?: WebhookEvent[];
+}
 
 /**
  * Parameters for scraping operations.
@@ -34,8 +52,13 @@ export interface CrawlOptions {
   removeEmptyLines?: boolean;
   headerText?: string;
   instructionFilePath?: string;
+  // Name of a custom output template registered for your team
+  template?: string;
   includeEmptyDirectories?: boolean;
   gitSortByChanges?: boolean;
+  maxTokens?: number;
+  // Split the output into parts of at most this many tokens or bytes
+  splitOutput?: { maxTokens: number } | { maxBytes: number };
 
   // Filter Options
   include?: string;
@@ -45,7 +68,10 @@ export interface CrawlOptions {
 
   // Remote Repository Options
   remote?: string;
+  // A branch, tag, commit SHA or ref such as `refs/pull/123/head`
   remoteBranch?: string;
+  // Only crawl this directory of the repository, e.g. `packages/api`
+  subpath?: string;
 
   // Configuration Options
   config?: string;
@@ -54,10 +80,14 @@ export interface CrawlOptions {
 
   // Security Options
   securityCheck?: boolean;
+  suspiciousFileAction?: 'exclude' | 'redact';
 
   // Token Count Options
   tokenCountEncoding?: string;
 
+  // Notification Options
+  webhook?: WebhookOptions;
+
   // Other Options
   topFilesLen?: number;
   verbose?: boolean;
@@ -78,6 +108,129 @@ export interface GenerateLLMsTextParams extends CrawlOptions {
  */
 export interface GenerateFileTreeParams extends CrawlOptions {}
 
+/**
+ * Parameters for repository metrics operations.
+ */
+export interface GenerateMetricsParams extends CrawlOptions {
+  // Encodings to count tokens with besides `tokenCountEncoding`;
+  // defaults to o200k_base and cl100k_base
+  tokenCountEncodings?: (
+    | 'o200k_base'
+    | 'cl100k_base'
+    | 'p50k_base'
+    | 'p50k_edit'
+    | 'r50k_base'
+    | 'gpt2'
+  )[];
+}
+
+/**
+ * Parameters for code outline operations.
+ */
+export interface GenerateOutlineParams extends CrawlOptions {}
+
+/**
+ * Whether a dependency graph links files or the directories they are in.
+ */
+export type DependencyGraphLevel = 'file' | 'package';
+
+/**
+ * The format a dependency graph is rendered in.
+ */
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid';
+
+/**
+ * Parameters for dependency graph operations.
+ */
+export interface GenerateGraphParams extends CrawlOptions {
+  // Defaults to `file`
+  level?: DependencyGraphLevel;
+  // Format of `output` in the status; defaults to `mermaid`
+  format?: DependencyGraphFormat;
+}
+
+/**
+ * One repository of a multi-repository pack.
+ * Its files appear under `prefix`, which defaults to the repository name.
+ */
+export interface PackRepository {
+  url: string;
+  ref?: string;
+  subpath?: string;
+  prefix?: string;
+  // Replaces the request's include patterns for this repository
+  include?: string | string[];
+  // Added to the request's ignore patterns for this repository
+  ignore?: string | string[];
+}
+
+/**
+ * Packs only what changed on a remote repository's ref since it branched
+ * off `base`: a unified diff per changed file, and optionally their content.
+ */
+export interface DiffOptions {
+  // Ref the changes are compared against, e.g. `main`
+  base: string;
+  // Ref with the changes; defaults to the ref being packed
+  head?: string;
+  // Also include the full content of changed files
+  includeFileContent?: boolean;
+  // Also include the files that changed files import; implies
+  // `includeFileContent`
+  includeImports?: boolean;
+}
+
+/**
+ * Parameters for pack repository operations.
+ * Defines the options and configurations available for packing a repository.
+ */
+export interface PackRepositoryParams extends CrawlOptions {
+  // Packs these repositories into one output instead of `url`
+  repositories?: PackRepository[];
+  // Packs the changes between two refs instead of the whole repository
+  diff?: DiffOptions;
+  // Adds a section with the recent commits
+  gitIncludeLog?: boolean;
+  // Adds last modified, top authors and churn to every file
+  gitIncludeBlameSummary?: boolean;
+  // How many recent commits the log and blame summary cover (default 50)
+  gitLogMaxCommits?: number;
+  // Lists the symbols of the files in place of their contents
+  outline?: boolean;
+  // Packs only the files most relevant to this natural-language task
+  task?: string;
+  // How many files a task keeps at most (default 20)
+  taskMaxFiles?: number;
+  // Adds the graph of the files' imports, by default file-level Mermaid
+  dependencyGraph?: {
+    level?: DependencyGraphLevel;
+    format?: DependencyGraphFormat;
+  };
+  // Sizes the chunks of the `chunks` style (default 512 and 64 tokens)
+  chunking?: {
+    maxTokens?: number;
+    overlapTokens?: number;
+  };
+}
+
+/**
+ * One line of the `chunks` output style.
+ */
+export interface ChunkRecord {
+  path: string;
+  language: string | null;
+  // Qualified name of the symbol holding the chunk, such as `Parser.parse`,
+  // or null at the top level of the file
+  symbol: string | null;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  // SHA-256 of the content, hex encoded
+  hash: string;
+  content: string;
+}
+
 /**
  * Error response interface for generate llmstxt operations.
  * Defines the structure of the error response received after initiating a crawl.
@@ -105,6 +258,129 @@ export interface GenerateFileTreeResponse {
   id: string;
 }
 
+/**
+ * Response interface for pack repository operations.
+ * Defines the structure of the response received after initiating a pack.
+ */
+export interface PackRepositoryResponse {
+  success: boolean;
+  id: string;
+}
+
+/**
+ * Response interface for repository metrics operations.
+ */
+export interface GenerateMetricsResponse {
+  success: boolean;
+  id: string;
+}
+
+/**
+ * Response interface for code outline operations.
+ */
+export interface GenerateOutlineResponse {
+  success: boolean;
+  id: string;
+}
+
+/**
+ * Response interface for dependency graph operations.
+ */
+export interface GenerateGraphResponse {
+  success: boolean;
+  id: string;
+}
+
+/**
+ * One part of an output split with `splitOutput`. Each part repeats the
+ * header and directory structure, and no file is split across parts.
+ */
+export interface OutputPart {
+  index: number;
+  output: string;
+  filePaths: string[];
+  totalCharacters: number;
+  totalBytes: number;
+  totalTokens: number;
+}
+
+/**
+ * Maps every file path of a split output to the index of its part.
+ */
+export interface OutputManifest {
+  totalParts: number;
+  files: Record<string, number>;
+}
+
+/**
+ * A webhook delivery and the outcome of its last attempt.
+ */
+export interface WebhookDelivery {
+  id: string;
+  jobId: string;
+  event: WebhookEvent;
+  url: string;
+  payload: {
+    id: string;
+    event: WebhookEvent;
+    jobId: string;
+    jobType: 'tree' | 'llmstxt' | 'pack' | 'metrics' | 'outline' | 'graph';
+    createdAt: string;
+    data: Record<string, unknown>;
+  };
+  status: 'pending' | 'retrying' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+}
+
+/**
+ * Response interface for webhook delivery log queries.
+ */
+export interface WebhookDeliveriesResponse {
+  success: true;
+  deliveries: WebhookDelivery[];
+}
+
+/**
+ * Data of `progress` events. File counts and metrics refer to the current phase.
+ */
+export interface JobProgress {
+  message: string;
+  phase?:
+    | 'searching'
+    | 'sorting'
+    | 'collecting'
+    | 'security'
+    | 'processing'
+    | 'generating'
+    | 'ranking'
+    | 'outlining'
+    | 'graphing'
+    | 'metrics';
+  filesDone?: number;
+  filesTotal?: number;
+  currentFile?: string;
+  metrics?: {
+    totalCharacters: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * An event of a job stream. `data` is a `JobProgress` for `progress` events.
+ */
+export interface JobStreamEvent {
+  event: WebhookEvent;
+  jobId: string;
+  jobType: 'tree' | 'llmstxt' | 'pack' | 'metrics' | 'outline' | 'graph';
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
 /**
  * Response interface for job status checks.
  * Provides detailed status of a generate llmstxt job including progress and results.
@@ -114,8 +390,12 @@ export interface GenerateLLMsTextStatusResponse {
   data: {
     llmstxt: string;
     llmsfulltxt?: string;
+    // Commit the repository was checked out at
+    commitSha?: string;
+    parts?: OutputPart[];
+    manifest?: OutputManifest;
   };
-  status: 'processing' | 'completed' | 'failed';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
   error?: string;
   expiresAt: string;
 }
@@ -128,12 +408,230 @@ export interface GenerateFileTreeStatusResponse {
   success: boolean;
   data: {
     tree: string;
+    // Commit the repository was checked out at
+    commitSha?: string;
+  };
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  expiresAt: string;
+}
+
+/**
+ * Response interface for pack job status checks.
+ * Provides the packed output along with its file and token metrics.
+ */
+export interface PackRepositoryStatusResponse {
+  success: boolean;
+  data: {
+    output: string;
+    totalFiles: number;
+    totalCharacters: number;
+    totalTokens: number;
+    fileCharCounts: Record<string, number>;
+    fileTokenCounts: Record<string, number>;
+    suspiciousFilesResults: {
+      filePath: string;
+      messages: string[];
+    }[];
+    // Present when `maxTokens` was set
+    tokenBudget?: {
+      maxTokens: number;
+      fullFiles: string[];
+      compressedFiles: string[];
+      omittedFiles: string[];
+    };
+    // Present when `task` was set
+    relevance?: TaskRelevance;
+    // Present when `splitOutput` was set
+    parts?: OutputPart[];
+    manifest?: OutputManifest;
+    // Commit the repository was checked out at
+    commitSha?: string;
+    // Commits of `repositories`, by prefix
+    repositoryCommitShas?: Record<string, string>;
+    // Present when `diff` was set
+    diff?: {
+      base: string;
+      baseCommitSha: string;
+      // The changes are those since this commit
+      mergeBaseCommitSha: string;
+      includeImports: boolean;
+    };
+  };
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  expiresAt: string;
+}
+
+/**
+ * Sizes, token counts and code structure of a set of files.
+ */
+export interface MetricsTotals {
+  files: number;
+  lines: number;
+  characters: number;
+  bytes: number;
+  // Token count per encoding
+  tokens: Record<string, number>;
+  // Totals of the files whose syntax was analyzed
+  analyzedFiles: number;
+  functions: number;
+  classes: number;
+  // Estimated cyclomatic complexity
+  complexity: number;
+}
+
+export interface FileMetrics {
+  path: string;
+  language: string;
+  lines: number;
+  characters: number;
+  bytes: number;
+  tokens: Record<string, number>;
+  // Null for languages without syntax analysis
+  functions: number | null;
+  classes: number | null;
+  complexity: number | null;
+}
+
+/**
+ * Response interface for metrics job status checks.
+ * Languages and the largest files are ranked by tokens of the first encoding.
+ */
+export interface GenerateMetricsStatusResponse {
+  success: boolean;
+  data: {
+    // Present once the job completed
+    encodings?: string[];
+    totals?: MetricsTotals;
+    languages?: (MetricsTotals & { language: string })[];
+    // Totals of every file below each directory
+    directories?: (MetricsTotals & { path: string })[];
+    largestFiles?: FileMetrics[];
+    suspiciousFilesResults: {
+      filePath: string;
+      messages: string[];
+    }[];
+    // Commit the repository was checked out at
+    commitSha?: string;
+  };
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  expiresAt: string;
+}
+
+/**
+ * A function, class or other definition of a file.
+ */
+export interface CodeSymbol {
+  kind:
+    | 'function'
+    | 'method'
+    | 'class'
+    | 'interface'
+    | 'type'
+    | 'enum'
+    | 'module'
+    | 'macro';
+  name: string;
+  path: string;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  signature: string;
+  // Qualified name of the enclosing symbol, such as `Outer.Inner`
+  parent: string | null;
+  docstring: string | null;
+}
+
+/**
+ * Response interface for outline job status checks.
+ */
+export interface GenerateOutlineStatusResponse {
+  success: boolean;
+  data: {
+    // Present once the job completed, file by file in output order
+    symbols?: CodeSymbol[];
+    totalFiles?: number;
+    suspiciousFilesResults: {
+      filePath: string;
+      messages: string[];
+    }[];
+    // Commit the repository was checked out at
+    commitSha?: string;
+  };
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  expiresAt: string;
+}
+
+/**
+ * Which files, or at package level directories, import which.
+ */
+export interface DependencyGraph {
+  level: DependencyGraphLevel;
+  nodes: {
+    // The file path, or the directory at package level
+    id: string;
+    // Files of the node whose imports were followed
+    files: number;
+  }[];
+  edges: {
+    // The importing node
+    from: string;
+    to: string;
+    // Imports between the files of the two nodes
+    imports: number;
+  }[];
+}
+
+/**
+ * Response interface for dependency graph job status checks.
+ */
+export interface GenerateGraphStatusResponse {
+  success: boolean;
+  data: {
+    // Present once the job completed
+    graph?: DependencyGraph;
+    // The graph rendered in the requested format
+    output?: string;
+    // Commit the repository was checked out at
+    commitSha?: string;
   };
-  status: 'processing' | 'completed' | 'failed';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
   error?: string;
   expiresAt: string;
 }
 
+/**
+ * The files a task selected, most relevant first, and how they scored.
+ */
+export interface TaskRelevance {
+  task: string;
+  maxFiles: number;
+  files: {
+    path: string;
+    // The weighted sum of the scores below
+    score: number;
+    // BM25 of the file's content, relative to the best matching file
+    contentScore: number;
+    // Share of the task's terms found in the path
+    pathScore: number;
+    // Share of the task's terms found in the file's symbol names
+    symbolScore: number;
+    // Relative score of the best matching file it imports or is imported by
+    importScore: number;
+  }[];
+}
+
+/**
+ * Response interface for job cancellation.
+ */
+export interface CancelJobResponse {
+  success: true;
+  status: 'cancelled';
+}
+
 /**
  * Custom error class for Codecrawl.
  * Extends the built-in Error class to include a status code.
@@ -248,6 +746,36 @@ export default class CodecrawlApp {
     }
   }
 
+  /**
+   * Sends a cancellation request for a job.
+   * @param url - The URL of the job.
+   * @param label - The kind of job, used in error messages.
+   * @returns The cancellation response.
+   */
+  private async cancelJob(
+    url: string,
+    label: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    try {
+      const response: AxiosResponse = await this.deleteRequest(url, headers);
+
+      if (response.status === 200) {
+        return response.data;
+      } else if (response.status === 404) {
+        throw new CodecrawlError(`${label} job not found`, 404);
+      } else {
+        this.handleError(response, `cancel ${label} job`);
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      }
+      throw new CodecrawlError(error.message, 500);
+    }
+    return { success: false, error: 'Internal server error.' };
+  }
+
   /**
    * Handles errors from API responses.
    * @param {AxiosResponse} response - The response from the API.
@@ -412,6 +940,20 @@ export default class CodecrawlApp {
     return { success: false, error: 'Internal server error.' };
   }
 
+  /**
+   * Cancels an LLMs.txt generation job that is still processing.
+   * @param id - The ID of the LLMs.txt generation job.
+   * @returns The cancellation response.
+   */
+  async cancelGenerateLLMsText(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(
+      `${this.apiUrl}/v1/llmstxt/${id}`,
+      'LLMs.txt generation',
+    );
+  }
+
   /**
    * Generate File Tree for a given repository URL and polls until completion
    * @param {string} url - The URL of the repository to generate the file tree for.
@@ -587,4 +1129,897 @@ export default class CodecrawlApp {
       }
     }
   }
+
+  /**
+   * Cancels a file tree generation job that is still processing.
+   * @param id - The ID of the file tree generation job.
+   * @returns The cancellation response.
+   */
+  async cancelGenerateFileTree(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(
+      `${this.apiUrl}/v1/tree/${id}`,
+      'file tree generation',
+    );
+  }
+
+  /**
+   * Packs a given repository URL with the full pipeline and polls until completion
+   * @param {string} url - The URL of the repository to pack, or undefined when packing `params.repositories`.
+   * @param params - Parameters for the pack operation.
+   * @returns The packed output and its metrics.
+   */
+  async packRepository(
+    url: string | undefined,
+    params?: PackRepositoryParams,
+  ): Promise<PackRepositoryStatusResponse | ErrorResponse> {
+    try {
+      const response = await this.asyncPackRepository(url, params);
+
+      if (!response.success || 'error' in response) {
+        return {
+          success: false,
+          error:
+            'error' in response
+              ? response.error
+              : 'Unknown error starting pack',
+        };
+      }
+
+      if (!response.id) {
+        throw new CodecrawlError(
+          `Failed to start pack. No job ID returned.`,
+          500,
+        );
+      }
+
+      const jobId = response.id;
+      let generationStatus: any;
+
+      while (true) {
+        generationStatus = await this.checkPackRepositoryStatus(jobId);
+
+        if ('error' in generationStatus && !generationStatus.success) {
+          return generationStatus; // Return the error response directly
+        }
+
+        if (generationStatus.status === 'completed') {
+          return generationStatus;
+        }
+
+        if (generationStatus.status === 'failed') {
+          // Ensure statusCode is available, default if not
+          const statusCode = generationStatus.statusCode || 500;
+          const errorMessage =
+            generationStatus.error || 'Unknown error during generation';
+          throw new CodecrawlError(
+            `Pack failed. Status code: ${statusCode}. Error: ${errorMessage}`,
+            statusCode,
+          );
+        }
+
+        // Explicitly check for 'processing' before continuing the loop
+        if (generationStatus.status !== 'processing') {
+          // If status is neither completed, failed, nor processing, break and report error
+          break;
+        }
+
+        // Wait before polling again
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+      // If loop exits unexpectedly
+      return {
+        success: false,
+        error: `Pack ended with unexpected status: ${generationStatus?.status ?? 'unknown'}`,
+      };
+    } catch (error: any) {
+      // Handle errors thrown from asyncPackRepository, checkPackRepositoryStatus, or CodecrawlError instances
+      if (error instanceof CodecrawlError) {
+        // Re-throw CodecrawlErrors to preserve status code and details
+        throw error;
+      } else {
+        // Wrap other errors
+        throw new CodecrawlError(
+          error.message || 'An unexpected error occurred during pack',
+          500,
+          error.response?.data?.details, // Include details if available from Axios error
+        );
+      }
+    }
+  }
+
+  /**
+   * Initiates a pack operation without polling.
+   * @param url - The Repository URL to pack, or undefined when packing `params.repositories`.
+   * @param params - Parameters for the pack operation.
+   * @returns The response containing the generation job ID.
+   */
+  async asyncPackRepository(
+    url: string | undefined,
+    params?: PackRepositoryParams,
+  ): Promise<PackRepositoryResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    const jsonData: any = { url, ...params };
+    try {
+      const response: AxiosResponse = await this.postRequest(
+        `${this.apiUrl}/v1/pack`,
+        jsonData,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as PackRepositoryResponse;
+      } else {
+        this.handleError(response, 'start pack');
+        return {
+          success: false,
+          error: 'Failed to start pack due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message || 'Network error or unexpected issue starting pack.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the status of a pack operation.
+   * @param id - The ID of the pack operation.
+   * @returns The current status, output and metrics of the pack operation.
+   */
+  async checkPackRepositoryStatus(
+    id: string,
+  ): Promise<PackRepositoryStatusResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    try {
+      const response: AxiosResponse = await this.getRequest(
+        `${this.apiUrl}/v1/pack/${id}`,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as PackRepositoryStatusResponse;
+      } else if (response.status === 404) {
+        throw new CodecrawlError('Pack job not found', 404);
+      } else {
+        this.handleError(response, 'check pack status');
+        return {
+          success: false,
+          error: 'Failed to check pack status due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue checking pack status.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancels a pack job that is still processing.
+   * @param id - The ID of the pack job.
+   * @returns The cancellation response.
+   */
+  async cancelPackRepository(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(`${this.apiUrl}/v1/pack/${id}`, 'pack');
+  }
+
+  /**
+   * Measures a given repository URL and polls until completion
+   * @param {string} url - The URL of the repository to measure.
+   * @param params - Parameters for the metrics operation.
+   * @returns The repository's metrics.
+   */
+  async generateMetrics(
+    url: string,
+    params?: GenerateMetricsParams,
+  ): Promise<GenerateMetricsStatusResponse | ErrorResponse> {
+    try {
+      const response = await this.asyncGenerateMetrics(url, params);
+
+      if (!response.success || 'error' in response) {
+        return {
+          success: false,
+          error:
+            'error' in response
+              ? response.error
+              : 'Unknown error starting metrics generation',
+        };
+      }
+
+      if (!response.id) {
+        throw new CodecrawlError(
+          `Failed to start metrics generation. No job ID returned.`,
+          500,
+        );
+      }
+
+      const jobId = response.id;
+      let generationStatus: any;
+
+      while (true) {
+        generationStatus = await this.checkGenerateMetricsStatus(jobId);
+
+        if ('error' in generationStatus && !generationStatus.success) {
+          return generationStatus; // Return the error response directly
+        }
+
+        if (generationStatus.status === 'completed') {
+          return generationStatus;
+        }
+
+        if (generationStatus.status === 'failed') {
+          // Ensure statusCode is available, default if not
+          const statusCode = generationStatus.statusCode || 500;
+          const errorMessage =
+            generationStatus.error || 'Unknown error during generation';
+          throw new CodecrawlError(
+            `Metrics generation failed. Status code: ${statusCode}. Error: ${errorMessage}`,
+            statusCode,
+          );
+        }
+
+        // Explicitly check for 'processing' before continuing the loop
+        if (generationStatus.status !== 'processing') {
+          // If status is neither completed, failed, nor processing, break and report error
+          break;
+        }
+
+        // Wait before polling again
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+      // If loop exits unexpectedly
+      return {
+        success: false,
+        error: `Metrics generation ended with unexpected status: ${generationStatus?.status ?? 'unknown'}`,
+      };
+    } catch (error: any) {
+      // Handle errors thrown from asyncGenerateMetrics, checkGenerateMetricsStatus, or CodecrawlError instances
+      if (error instanceof CodecrawlError) {
+        // Re-throw CodecrawlErrors to preserve status code and details
+        throw error;
+      } else {
+        // Wrap other errors
+        throw new CodecrawlError(
+          error.message ||
+            'An unexpected error occurred during metrics generation',
+          500,
+          error.response?.data?.details, // Include details if available from Axios error
+        );
+      }
+    }
+  }
+
+  /**
+   * Initiates a metrics operation without polling.
+   * @param url - The Repository URL to measure.
+   * @param params - Parameters for the metrics operation.
+   * @returns The response containing the generation job ID.
+   */
+  async asyncGenerateMetrics(
+    url: string,
+    params?: GenerateMetricsParams,
+  ): Promise<GenerateMetricsResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    const jsonData: any = { url, ...params };
+    try {
+      const response: AxiosResponse = await this.postRequest(
+        `${this.apiUrl}/v1/metrics`,
+        jsonData,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateMetricsResponse;
+      } else {
+        this.handleError(response, 'start metrics generation');
+        return {
+          success: false,
+          error: 'Failed to start metrics generation due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue starting metrics generation.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the status of a metrics operation.
+   * @param id - The ID of the metrics operation.
+   * @returns The current status and, once completed, the metrics.
+   */
+  async checkGenerateMetricsStatus(
+    id: string,
+  ): Promise<GenerateMetricsStatusResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    try {
+      const response: AxiosResponse = await this.getRequest(
+        `${this.apiUrl}/v1/metrics/${id}`,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateMetricsStatusResponse;
+      } else if (response.status === 404) {
+        throw new CodecrawlError('Metrics generation job not found', 404);
+      } else {
+        this.handleError(response, 'check metrics generation status');
+        return {
+          success: false,
+          error: 'Failed to check metrics status due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue checking metrics status.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancels a metrics generation job that is still processing.
+   * @param id - The ID of the metrics generation job.
+   * @returns The cancellation response.
+   */
+  async cancelGenerateMetrics(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(
+      `${this.apiUrl}/v1/metrics/${id}`,
+      'metrics generation',
+    );
+  }
+
+  /**
+   * Outlines a given repository URL and polls until completion
+   * @param {string} url - The URL of the repository to outline.
+   * @param params - Parameters for the outline operation.
+   * @returns The symbols of the repository's files.
+   */
+  async generateOutline(
+    url: string,
+    params?: GenerateOutlineParams,
+  ): Promise<GenerateOutlineStatusResponse | ErrorResponse> {
+    try {
+      const response = await this.asyncGenerateOutline(url, params);
+
+      if (!response.success || 'error' in response) {
+        return {
+          success: false,
+          error:
+            'error' in response
+              ? response.error
+              : 'Unknown error starting outline generation',
+        };
+      }
+
+      if (!response.id) {
+        throw new CodecrawlError(
+          `Failed to start outline generation. No job ID returned.`,
+          500,
+        );
+      }
+
+      const jobId = response.id;
+      let generationStatus: any;
+
+      while (true) {
+        generationStatus = await this.checkGenerateOutlineStatus(jobId);
+
+        if ('error' in generationStatus && !generationStatus.success) {
+          return generationStatus; // Return the error response directly
+        }
+
+        if (generationStatus.status === 'completed') {
+          return generationStatus;
+        }
+
+        if (generationStatus.status === 'failed') {
+          // Ensure statusCode is available, default if not
+          const statusCode = generationStatus.statusCode || 500;
+          const errorMessage =
+            generationStatus.error || 'Unknown error during generation';
+          throw new CodecrawlError(
+            `Outline generation failed. Status code: ${statusCode}. Error: ${errorMessage}`,
+            statusCode,
+          );
+        }
+
+        // Explicitly check for 'processing' before continuing the loop
+        if (generationStatus.status !== 'processing') {
+          // If status is neither completed, failed, nor processing, break and report error
+          break;
+        }
+
+        // Wait before polling again
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+      // If loop exits unexpectedly
+      return {
+        success: false,
+        error: `Outline generation ended with unexpected status: ${generationStatus?.status ?? 'unknown'}`,
+      };
+    } catch (error: any) {
+      // Handle errors thrown from asyncGenerateOutline, checkGenerateOutlineStatus, or CodecrawlError instances
+      if (error instanceof CodecrawlError) {
+        // Re-throw CodecrawlErrors to preserve status code and details
+        throw error;
+      } else {
+        // Wrap other errors
+        throw new CodecrawlError(
+          error.message ||
+            'An unexpected error occurred during outline generation',
+          500,
+          error.response?.data?.details, // Include details if available from Axios error
+        );
+      }
+    }
+  }
+
+  /**
+   * Initiates a outline operation without polling.
+   * @param url - The Repository URL to outline.
+   * @param params - Parameters for the outline operation.
+   * @returns The response containing the generation job ID.
+   */
+  async asyncGenerateOutline(
+    url: string,
+    params?: GenerateOutlineParams,
+  ): Promise<GenerateOutlineResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    const jsonData: any = { url, ...params };
+    try {
+      const response: AxiosResponse = await this.postRequest(
+        `${this.apiUrl}/v1/outline`,
+        jsonData,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateOutlineResponse;
+      } else {
+        this.handleError(response, 'start outline generation');
+        return {
+          success: false,
+          error: 'Failed to start outline generation due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue starting outline generation.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the status of a outline operation.
+   * @param id - The ID of the outline operation.
+   * @returns The current status and, once completed, the symbols.
+   */
+  async checkGenerateOutlineStatus(
+    id: string,
+  ): Promise<GenerateOutlineStatusResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    try {
+      const response: AxiosResponse = await this.getRequest(
+        `${this.apiUrl}/v1/outline/${id}`,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateOutlineStatusResponse;
+      } else if (response.status === 404) {
+        throw new CodecrawlError('Outline generation job not found', 404);
+      } else {
+        this.handleError(response, 'check outline generation status');
+        return {
+          success: false,
+          error: 'Failed to check outline status due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue checking outline status.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancels a outline generation job that is still processing.
+   * @param id - The ID of the outline generation job.
+   * @returns The cancellation response.
+   */
+  async cancelGenerateOutline(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(
+      `${this.apiUrl}/v1/outline/${id}`,
+      'outline generation',
+    );
+  }
+
+  /**
+   * Builds the dependency graph of a given repository URL and polls until completion
+   * @param {string} url - The URL of the repository to graph.
+   * @param params - Parameters for the dependency graph operation.
+   * @returns The graph of the repository's imports.
+   */
+  async generateGraph(
+    url: string,
+    params?: GenerateGraphParams,
+  ): Promise<GenerateGraphStatusResponse | ErrorResponse> {
+    try {
+      const response = await this.asyncGenerateGraph(url, params);
+
+      if (!response.success || 'error' in response) {
+        return {
+          success: false,
+          error:
+            'error' in response
+              ? response.error
+              : 'Unknown error starting dependency graph generation',
+        };
+      }
+
+      if (!response.id) {
+        throw new CodecrawlError(
+          `Failed to start dependency graph generation. No job ID returned.`,
+          500,
+        );
+      }
+
+      const jobId = response.id;
+      let generationStatus: any;
+
+      while (true) {
+        generationStatus = await this.checkGenerateGraphStatus(jobId);
+
+        if ('error' in generationStatus && !generationStatus.success) {
+          return generationStatus; // Return the error response directly
+        }
+
+        if (generationStatus.status === 'completed') {
+          return generationStatus;
+        }
+
+        if (generationStatus.status === 'failed') {
+          // Ensure statusCode is available, default if not
+          const statusCode = generationStatus.statusCode || 500;
+          const errorMessage =
+            generationStatus.error || 'Unknown error during generation';
+          throw new CodecrawlError(
+            `Dependency graph generation failed. Status code: ${statusCode}. Error: ${errorMessage}`,
+            statusCode,
+          );
+        }
+
+        // Explicitly check for 'processing' before continuing the loop
+        if (generationStatus.status !== 'processing') {
+          // If status is neither completed, failed, nor processing, break and report error
+          break;
+        }
+
+        // Wait before polling again
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+      // If loop exits unexpectedly
+      return {
+        success: false,
+        error: `Dependency graph generation ended with unexpected status: ${generationStatus?.status ?? 'unknown'}`,
+      };
+    } catch (error: any) {
+      // Handle errors thrown from asyncGenerateGraph, checkGenerateGraphStatus, or CodecrawlError instances
+      if (error instanceof CodecrawlError) {
+        // Re-throw CodecrawlErrors to preserve status code and details
+        throw error;
+      } else {
+        // Wrap other errors
+        throw new CodecrawlError(
+          error.message ||
+            'An unexpected error occurred during dependency graph generation',
+          500,
+          error.response?.data?.details, // Include details if available from Axios error
+        );
+      }
+    }
+  }
+
+  /**
+   * Initiates a dependency graph operation without polling.
+   * @param url - The Repository URL to graph.
+   * @param params - Parameters for the dependency graph operation.
+   * @returns The response containing the generation job ID.
+   */
+  async asyncGenerateGraph(
+    url: string,
+    params?: GenerateGraphParams,
+  ): Promise<GenerateGraphResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    const jsonData: any = { url, ...params };
+    try {
+      const response: AxiosResponse = await this.postRequest(
+        `${this.apiUrl}/v1/graph`,
+        jsonData,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateGraphResponse;
+      } else {
+        this.handleError(response, 'start dependency graph generation');
+        return {
+          success: false,
+          error:
+            'Failed to start dependency graph generation due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue starting dependency graph generation.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the status of a dependency graph operation.
+   * @param id - The ID of the dependency graph operation.
+   * @returns The current status and, once completed, the graph.
+   */
+  async checkGenerateGraphStatus(
+    id: string,
+  ): Promise<GenerateGraphStatusResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    try {
+      const response: AxiosResponse = await this.getRequest(
+        `${this.apiUrl}/v1/graph/${id}`,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as GenerateGraphStatusResponse;
+      } else if (response.status === 404) {
+        throw new CodecrawlError(
+          'Dependency graph generation job not found',
+          404,
+        );
+      } else {
+        this.handleError(response, 'check dependency graph generation status');
+        return {
+          success: false,
+          error: 'Failed to check dependency graph status due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else if (error.response?.data?.error) {
+        throw new CodecrawlError(
+          `Request failed with status code ${error.response.status}. Error: ${error.response.data.error} ${error.response.data.details ? ` - ${JSON.stringify(error.response.data.details)}` : ''}`,
+          error.response.status,
+        );
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue checking dependency graph status.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancels a dependency graph generation job that is still processing.
+   * @param id - The ID of the dependency graph generation job.
+   * @returns The cancellation response.
+   */
+  async cancelGenerateGraph(
+    id: string,
+  ): Promise<CancelJobResponse | ErrorResponse> {
+    return this.cancelJob(
+      `${this.apiUrl}/v1/graph/${id}`,
+      'dependency graph generation',
+    );
+  }
+
+  /**
+   * Lists your team's webhook deliveries, newest first.
+   * @param params - Optionally the job to list deliveries for, and how many to return (at most 100).
+   * @returns The deliveries with the outcome of their last attempt.
+   */
+  async listWebhookDeliveries(params?: {
+    jobId?: string;
+    limit?: number;
+  }): Promise<WebhookDeliveriesResponse | ErrorResponse> {
+    const headers = this.prepareHeaders();
+    const query = new URLSearchParams();
+    if (params?.jobId) {
+      query.set('jobId', params.jobId);
+    }
+    if (params?.limit) {
+      query.set('limit', String(params.limit));
+    }
+    const queryString = query.toString();
+    try {
+      const response: AxiosResponse = await this.getRequest(
+        `${this.apiUrl}/v1/webhooks/deliveries${queryString ? `?${queryString}` : ''}`,
+        headers,
+      );
+
+      if (response.status === 200) {
+        return response.data as WebhookDeliveriesResponse;
+      } else {
+        this.handleError(response, 'list webhook deliveries');
+        return {
+          success: false,
+          error: 'Failed to list webhook deliveries due to server error.',
+        };
+      }
+    } catch (error: any) {
+      if (error instanceof CodecrawlError) {
+        throw error;
+      } else {
+        throw new CodecrawlError(
+          error.message ||
+            'Network error or unexpected issue listing webhook deliveries.',
+          500,
+        );
+      }
+    }
+  }
+
+  /**
+   * Streams the events of a job over Server-Sent Events until it completes,
+   * fails or is cancelled.
+   * @param jobId - The ID of the llmstxt, tree or pack job.
+   * @param onEvent - Called with every event, starting with the job's latest one.
+   * @param signal - Optional signal to stop streaming.
+   * @returns The final `completed`, `failed` or `cancelled` event.
+   */
+  async streamJob(
+    jobId: string,
+    onEvent?: (event: JobStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<JobStreamEvent> {
+    const { Authorization } = this.prepareHeaders();
+    const response = await fetch(`${this.apiUrl}/v1/jobs/${jobId}/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        Authorization: String(Authorization),
+      },
+      signal,
+    });
+
+    if (response.status === 404) {
+      throw new CodecrawlError('Job not found', 404);
+    }
+    if (!response.ok || !response.body) {
+      throw new CodecrawlError(
+        `Failed to stream job. Status code: ${response.status}.`,
+        response.status,
+      );
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += value;
+
+      // Events are separated by a blank line; comments keep the connection alive
+      let separatorIndex = buffer.indexOf('\n\n');
+      while (separatorIndex !== -1) {
+        const block = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+        separatorIndex = buffer.indexOf('\n\n');
+
+        const data = block
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data) {
+          continue;
+        }
+        const event = JSON.parse(data) as JobStreamEvent;
+        onEvent?.(event);
+        if (
+          event.event === 'completed' ||
+          event.event === 'failed' ||
+          event.event === 'cancelled'
+        ) {
+          await reader.cancel();
+          return event;
+        }
+      }
+    }
+
+    throw new CodecrawlError('Job stream ended before the job finished', 500);
+  }
 }